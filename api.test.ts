@@ -8,7 +8,7 @@ const BASE_URL = "http://localhost:3000";
 describe("API endpoints", () => {
   test("health check endpoint should return ok", async () => {
     const response = await fetch(`${BASE_URL}/health`);
-    const data = await response.json();
+    const data = await response.json() as { status: string };
 
     expect(response.status).toBe(200);
     expect(data.status).toBe("ok");
@@ -16,7 +16,7 @@ describe("API endpoints", () => {
 
   test("search endpoint should require zip parameter", async () => {
     const response = await fetch(`${BASE_URL}/search`);
-    const data = await response.json();
+    const data = await response.json() as { error: string };
 
     expect(response.status).toBe(400);
     expect(data.error).toContain("zip parameter is required");
@@ -27,7 +27,7 @@ describe("API endpoints", () => {
 
     for (const zip of invalidZips) {
       const response = await fetch(`${BASE_URL}/search?zip=${zip}`);
-      const data = await response.json();
+      const data = await response.json() as { error: string };
 
       expect(response.status).toBe(400);
       expect(data.error).toContain("5-digit number");
@@ -52,6 +52,31 @@ describe("API endpoints", () => {
     // expect(data).toMatchObject(expectedStructure);
   });
 
+  test("nearby endpoint should require lat and lng", async () => {
+    const response = await fetch(`${BASE_URL}/nearby?lat=40.1`);
+    const data = await response.json() as { error: string };
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain("lat and lng parameters are required");
+  });
+
+  test("nearby endpoint should validate coordinates, radius and limit", async () => {
+    const invalidQueries = [
+      "lat=91&lng=-75",
+      "lat=abc&lng=-75",
+      "lat=40&lng=-75&radius_miles=0",
+      "lat=40&lng=-75&radius_miles=500",
+      "lat=40&lng=-75&limit=-5",
+      "lat=40&lng=-75&limit=0",
+      "lat=40&lng=-75&limit=abc",
+    ];
+
+    for (const query of invalidQueries) {
+      const response = await fetch(`${BASE_URL}/nearby?${query}`);
+      expect(response.status).toBe(400);
+    }
+  });
+
   test("unknown endpoint should return 404", async () => {
     const response = await fetch(`${BASE_URL}/unknown`);
 
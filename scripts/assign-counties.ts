@@ -0,0 +1,68 @@
+// ABOUTME: Reassigns each resource's county (and a missing ZIP) from its coordinates with the boundary lookup
+// ABOUTME: Changes go through updateResource so they land in the audit trail; --dry-run only reports them
+
+import { initDatabase } from "../src/core/database";
+import { countyBoundariesLoaded } from "../src/core/boundaries";
+import { checkResourceLocations } from "../src/core/county-assignment";
+import { updateResource } from "../src/core/resource-changes";
+
+async function assignCounties() {
+  const db = await initDatabase();
+  const dryRun = process.argv.includes("--dry-run");
+
+  try {
+    if (!(await countyBoundariesLoaded())) {
+      throw new Error("County boundaries not available; run scripts/download-boundaries.ts first");
+    }
+
+    let checked = 0;
+    let reassigned = 0;
+    let zipsFilled = 0;
+    let outside = 0;
+
+    for await (const check of checkResourceLocations(db)) {
+      checked++;
+      if (check.mismatch === "outside_counties") {
+        outside++;
+        continue;
+      }
+
+      const moveCounty = check.mismatch !== null;
+      const fillZip = !check.zip_code && check.located_zip_code !== null;
+      if (!moveCounty && !fillZip) continue;
+
+      if (moveCounty) {
+        console.log(
+          `#${check.id} ${check.name}: ${check.county_name || "no county"} → ${check.located_county_name}, ${check.located_state}`
+        );
+        reassigned++;
+      }
+      if (fillZip) zipsFilled++;
+
+      if (!dryRun) {
+        await updateResource(
+          db,
+          check.id,
+          {
+            ...(moveCounty ? { county_geoid: check.located_county_geoid, county_name: check.located_county_name } : {}),
+            ...(fillZip ? { zip_code: check.located_zip_code } : {}),
+          },
+          { source: "manual", changedBy: "assign-counties" }
+        );
+      }
+    }
+
+    console.log(`\nChecked ${checked} resources with coordinates`);
+    console.log(dryRun
+      ? `Would reassign ${reassigned} counties and fill ${zipsFilled} ZIP codes`
+      : `✅ Reassigned ${reassigned} counties and filled ${zipsFilled} ZIP codes`);
+    if (outside > 0) console.log(`⚠️  ${outside} resources have coordinates outside every county`);
+  } finally {
+    await db.end();
+  }
+}
+
+assignCounties().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
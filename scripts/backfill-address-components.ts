@@ -0,0 +1,49 @@
+// ABOUTME: Script to parse existing addresses into the standardized street_line1/street_line2/zip5/zip4 columns
+// ABOUTME: Also fills empty city, state and zip_code from the address text, recorded in the audit trail
+
+import { initDatabase } from "../src/core/database";
+import { updateResource } from "../src/core/resource-changes";
+
+async function backfillAddressComponents() {
+  console.log("Connecting to database...");
+  const db = await initDatabase();
+
+  try {
+    const resources = await db<Array<{ id: number; address: string }>>`
+      SELECT id, address FROM resources
+      WHERE address IS NOT NULL AND address != ''
+      ORDER BY id
+    `;
+
+    console.log(`\nParsing addresses for ${resources.length} resources...`);
+
+    let parsed = 0;
+    let unparsed = 0;
+
+    for (const resource of resources) {
+      // Rewriting the address derives the components and fills missing city/state/ZIP
+      const updated = await updateResource(
+        db,
+        resource.id,
+        { address: resource.address },
+        { source: "manual", changedBy: "backfill-address-components" }
+      );
+
+      if (updated?.street_line1) {
+        parsed++;
+      } else {
+        unparsed++;
+      }
+    }
+
+    console.log(`\n✅ Parsed ${parsed} addresses (${unparsed} had no usable street line)`);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  } finally {
+    await db.end();
+    process.exit(0);
+  }
+}
+
+backfillAddressComponents();
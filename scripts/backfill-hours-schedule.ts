@@ -0,0 +1,47 @@
+// ABOUTME: Script to parse existing hours text into the structured hours_schedule column
+// ABOUTME: Re-parses every resource with hours so "open now" filtering covers old rows
+
+import { initDatabase } from "../src/core/database";
+import { hoursScheduleJson } from "../src/utils/opening-hours";
+
+async function backfillHoursSchedule() {
+  console.log("Connecting to database...");
+  const db = await initDatabase();
+
+  try {
+    const resources = await db<Array<{ id: number; hours: string }>>`
+      SELECT id, hours FROM resources
+      WHERE hours IS NOT NULL AND hours != ''
+    `;
+
+    console.log(`\nParsing hours for ${resources.length} resources...`);
+
+    let parsed = 0;
+    let unparsed = 0;
+
+    for (const resource of resources) {
+      const schedule = hoursScheduleJson(resource.hours);
+      await db`
+        UPDATE resources
+        SET hours_schedule = ${schedule}
+        WHERE id = ${resource.id}
+      `;
+
+      if (schedule) {
+        parsed++;
+      } else {
+        unparsed++;
+      }
+    }
+
+    console.log(`\n✅ Parsed ${parsed} schedules (${unparsed} could not be parsed)`);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  } finally {
+    await db.end();
+    process.exit(0);
+  }
+}
+
+backfillHoursSchedule();
@@ -3,6 +3,7 @@
 
 import { initDatabase } from "../src/core/database";
 import type { FoodResource } from "../src/core/database";
+import { deleteResources } from "../src/core/resource-changes";
 
 // Name patterns that indicate non-food-assistance locations
 const BLOCKED_NAME_PATTERNS = [
@@ -62,12 +63,7 @@ async function cleanupDatabase() {
     }
 
     console.log("\nRemoving resources...");
-    for (const resource of toRemove) {
-      await db`
-        DELETE FROM resources
-        WHERE id = ${resource.id}
-      `;
-    }
+    await deleteResources(db, toRemove.map((r) => r.id!), { source: "manual", changedBy: "cleanup-database" });
 
     console.log(`\n✅ Removed ${toRemove.length} false positive entries`);
   } else {
@@ -2,6 +2,7 @@
 // ABOUTME: Filters out procurement, public works, administration, etc.
 
 import { initDatabase } from "../src/core/database";
+import { deleteResources } from "../src/core/resource-changes";
 
 async function cleanupGovernmentOffices() {
   const db = await initDatabase();
@@ -67,12 +68,9 @@ async function cleanupGovernmentOffices() {
 
   // Delete them
   const ids = resources.map(r => r.id);
-  await db`
-    DELETE FROM resources
-    WHERE id = ANY(${ids})
-  `;
+  const deletedIds = await deleteResources(db, ids, { source: "manual", changedBy: "cleanup-government-offices" });
 
-  console.log(`\n✅ Deleted ${resources.length} government office entries`);
+  console.log(`\n✅ Deleted ${deletedIds.length} government office entries`);
 
   await db.end();
 }
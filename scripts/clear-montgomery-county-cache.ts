@@ -1,12 +1,14 @@
 // Clear cache for Montgomery County, PA to allow fresh testing
 
 import { initDatabase } from "../src/core/database";
+import { deleteResources } from "../src/core/resource-changes";
 
 const db = await initDatabase();
 
 // Clear Montgomery County cache
 await db`DELETE FROM county_searches WHERE county_name = 'Montgomery County' AND state = 'PA'`;
-await db`DELETE FROM resources WHERE county_name = 'Montgomery County' AND state = 'PA'`;
+const resources = await db<{ id: number }[]>`SELECT id FROM resources WHERE county_name = 'Montgomery County' AND state = 'PA'`;
+await deleteResources(db, resources.map((r) => r.id), { source: "manual", changedBy: "clear-montgomery-county-cache" });
 
 console.log("✅ Cache cleared for Montgomery County, PA");
 process.exit(0);
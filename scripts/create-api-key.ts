@@ -0,0 +1,32 @@
+// ABOUTME: Creates an API key from the command line, e.g. the first admin key
+// ABOUTME: Usage: bun scripts/create-api-key.ts <name> <reader|curator|admin> [rate-limit-per-minute]
+
+import { initDatabase } from "../src/core/database";
+import { createApiKey, isRole } from "../src/auth/api-keys";
+
+async function main() {
+  const [name, role, rateLimitArg] = process.argv.slice(2);
+  if (!name || !isRole(role)) {
+    throw new Error("Usage: bun scripts/create-api-key.ts <name> <reader|curator|admin> [rate-limit-per-minute]");
+  }
+
+  const rateLimit = rateLimitArg ? parseInt(rateLimitArg) : null;
+  if (rateLimit !== null && (isNaN(rateLimit) || rateLimit < 1)) {
+    throw new Error("rate-limit-per-minute must be a positive integer");
+  }
+
+  const db = await initDatabase();
+  try {
+    const { apiKey, key } = await createApiKey(db, name, role, rateLimit);
+    console.log(`✅ Created ${apiKey.role} key #${apiKey.id} "${apiKey.name}"`);
+    console.log(`\n${key}\n`);
+    console.log("Store it now: only its hash is saved, so it can't be shown again.");
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
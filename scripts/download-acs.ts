@@ -0,0 +1,32 @@
+// ABOUTME: Downloads ACS 5-year county estimates of population, poverty and SNAP receipt from the Census API
+// ABOUTME: Writes data/acs5_2023_county.json, which loadCounties merges into each county's need indicators
+
+import { ACS_COUNTIES_FILE, ACS_VARIABLES, parseAcsCounties } from "../src/core/counties";
+
+// An API key is optional for a request this small
+const CENSUS_API_KEY = process.env.CENSUS_API_KEY;
+
+async function downloadAcs() {
+  const url = new URL("https://api.census.gov/data/2023/acs/acs5");
+  url.searchParams.set("get", ["NAME", ...ACS_VARIABLES].join(","));
+  url.searchParams.set("for", "county:*");
+  if (CENSUS_API_KEY) url.searchParams.set("key", CENSUS_API_KEY);
+
+  console.log("Downloading ACS 5-year county estimates...");
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Census API error: ${response.status} - ${await response.text()}`);
+  }
+
+  const rows = (await response.json()) as string[][];
+  await Bun.write(ACS_COUNTIES_FILE, JSON.stringify(rows));
+
+  const needs = parseAcsCounties(rows);
+  const withPoverty = [...needs.values()].filter((need) => need.peopleInPoverty !== null).length;
+  console.log(`✅ Wrote ${needs.size} counties (${withPoverty} with poverty estimates) to ${ACS_COUNTIES_FILE}`);
+}
+
+downloadAcs().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
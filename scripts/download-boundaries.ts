@@ -0,0 +1,171 @@
+// ABOUTME: Downloads the Census cartographic boundary shapefiles for counties and ZCTAs
+// ABOUTME: Converts them to the GeoJSON files in data/boundaries/ used by the offline county and ZIP lookup
+
+import { mkdir, mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { COUNTY_BOUNDARIES_FILE, ZCTA_BOUNDARIES_FILE } from "../src/core/boundaries";
+
+const SOURCES = [
+  {
+    url: "https://www2.census.gov/geo/tiger/GENZ2023/shp/cb_2023_us_county_500k.zip",
+    output: COUNTY_BOUNDARIES_FILE,
+    idFields: ["GEOID"],
+  },
+  {
+    url: "https://www2.census.gov/geo/tiger/GENZ2020/shp/cb_2020_us_zcta520_500k.zip",
+    output: ZCTA_BOUNDARIES_FILE,
+    idFields: ["GEOID20", "ZCTA5CE20"],
+  },
+];
+
+// Five decimal places is about a meter, far finer than the 1:500,000 source
+const PRECISION = 1e5;
+
+type Ring = Array<[number, number]>;
+
+/**
+ * Read the attribute table: one object of trimmed strings per record
+ */
+function readDbf(buffer: Buffer): Array<Record<string, string>> {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields: Array<{ name: string; offset: number; length: number }> = [];
+  let offset = 1; // Each record starts with a deletion flag
+  for (let pos = 32; buffer[pos] !== 0x0d; pos += 32) {
+    const name = buffer.toString("latin1", pos, pos + 11).replace(/\0.*$/, "");
+    const length = buffer[pos + 16]!;
+    fields.push({ name, offset, length });
+    offset += length;
+  }
+
+  const records: Array<Record<string, string>> = [];
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    const record: Record<string, string> = {};
+    for (const field of fields) {
+      record[field.name] = buffer.toString("latin1", start + field.offset, start + field.offset + field.length).trim();
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Read polygon shapes as lists of rings, in file order (null shapes become empty lists)
+ */
+function readShp(buffer: Buffer): Ring[][] {
+  const shapes: Ring[][] = [];
+  let pos = 100; // Fixed-size file header
+  while (pos < buffer.length) {
+    const contentLength = buffer.readInt32BE(pos + 4) * 2; // Length is in 16-bit words
+    const content = pos + 8;
+    const shapeType = buffer.readInt32LE(content);
+
+    const rings: Ring[] = [];
+    if (shapeType === 5) {
+      const partCount = buffer.readInt32LE(content + 36);
+      const pointCount = buffer.readInt32LE(content + 40);
+      const points = content + 44 + partCount * 4;
+      for (let part = 0; part < partCount; part++) {
+        const first = buffer.readInt32LE(content + 44 + part * 4);
+        const end = part + 1 < partCount ? buffer.readInt32LE(content + 44 + (part + 1) * 4) : pointCount;
+        const ring: Ring = [];
+        for (let i = first; i < end; i++) {
+          const lng = Math.round(buffer.readDoubleLE(points + i * 16) * PRECISION) / PRECISION;
+          const lat = Math.round(buffer.readDoubleLE(points + i * 16 + 8) * PRECISION) / PRECISION;
+          const last = ring[ring.length - 1];
+          if (!last || last[0] !== lng || last[1] !== lat) ring.push([lng, lat]);
+        }
+        if (ring.length >= 4) rings.push(ring);
+      }
+    }
+    shapes.push(rings);
+    pos = content + contentLength;
+  }
+  return shapes;
+}
+
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[i]![0] - ring[j]![0]) * (ring[i]![1] + ring[j]![1]);
+  }
+  return area / 2;
+}
+
+/**
+ * Group shapefile rings into polygons: clockwise rings are outer boundaries and the
+ * counter-clockwise rings after one are its holes
+ */
+function toPolygons(rings: Ring[]): Ring[][] {
+  const polygons: Ring[][] = [];
+  for (const ring of rings) {
+    if (signedArea(ring) > 0 || polygons.length === 0) polygons.push([ring]);
+    else polygons[polygons.length - 1]!.push(ring);
+  }
+  return polygons;
+}
+
+async function run(command: string[]): Promise<void> {
+  const proc = Bun.spawn(command, { stdout: "ignore", stderr: "inherit" });
+  if ((await proc.exited) !== 0) throw new Error(`${command[0]} exited with ${proc.exitCode}`);
+}
+
+async function convert(source: (typeof SOURCES)[number], workDir: string): Promise<void> {
+  console.log(`Downloading ${source.url}...`);
+  const response = await fetch(source.url);
+  if (!response.ok) throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  const zipPath = join(workDir, "boundaries.zip");
+  await Bun.write(zipPath, response);
+
+  const extractDir = join(workDir, "extract");
+  await rm(extractDir, { recursive: true, force: true });
+  await run(["unzip", "-o", "-q", zipPath, "-d", extractDir]);
+  const files = await readdir(extractDir);
+  const shp = files.find((f) => f.endsWith(".shp"));
+  const dbf = files.find((f) => f.endsWith(".dbf"));
+  if (!shp || !dbf) throw new Error(`No shapefile in ${source.url}`);
+
+  const shapes = readShp(Buffer.from(await Bun.file(join(extractDir, shp)).arrayBuffer()));
+  const records = readDbf(Buffer.from(await Bun.file(join(extractDir, dbf)).arrayBuffer()));
+
+  const writer = Bun.file(source.output).writer();
+  writer.write('{"type":"FeatureCollection","features":[\n');
+  let written = 0;
+  for (const [index, rings] of shapes.entries()) {
+    const record = records[index] || {};
+    const id = source.idFields.map((field) => record[field]).find(Boolean);
+    if (!id || rings.length === 0) continue;
+    const feature = {
+      type: "Feature",
+      properties: { GEOID: id },
+      geometry: { type: "MultiPolygon", coordinates: toPolygons(rings) },
+    };
+    writer.write(`${written > 0 ? ",\n" : ""}${JSON.stringify(feature)}`);
+    written++;
+  }
+  writer.write("\n]}\n");
+  await writer.end();
+
+  console.log(`✅ Wrote ${written} boundaries to ${source.output}`);
+}
+
+async function downloadBoundaries() {
+  const workDir = await mkdtemp(join(tmpdir(), "boundaries-"));
+  try {
+    await mkdir("./data/boundaries", { recursive: true });
+    for (const source of SOURCES) {
+      await convert(source, workDir);
+    }
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+downloadBoundaries().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+// ABOUTME: Downloads the Census ZCTA-to-county relationship file and the ZCTA gazetteer into data/
+// ABOUTME: Together they let /search?zip= answer from the counties a ZIP overlaps, ranked by distance
+
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ZIP_COUNTY_RELATIONSHIP_FILE, ZIP_GAZETTEER_FILE, buildZipCrosswalk } from "../src/core/counties";
+
+const RELATIONSHIP_URL =
+  "https://www2.census.gov/geo/docs/maps-data/data/rel2020/zcta520/tab20_zcta520_county20_natl.txt";
+const GAZETTEER_URL =
+  "https://www2.census.gov/geo/docs/maps-data/data/gazetteer/2024_Gazetteer/2024_Gaz_zcta_national.zip";
+
+async function download(url: string): Promise<Response> {
+  console.log(`Downloading ${url}...`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  return response;
+}
+
+async function downloadZipCrosswalk() {
+  const workDir = await mkdtemp(join(tmpdir(), "zip-crosswalk-"));
+  try {
+    await Bun.write(ZIP_COUNTY_RELATIONSHIP_FILE, await download(RELATIONSHIP_URL));
+
+    const zipPath = join(workDir, "gazetteer.zip");
+    await Bun.write(zipPath, await download(GAZETTEER_URL));
+    const proc = Bun.spawn(["unzip", "-o", "-q", zipPath, "-d", workDir], { stdout: "ignore", stderr: "inherit" });
+    if ((await proc.exited) !== 0) throw new Error(`unzip exited with ${proc.exitCode}`);
+    const gazetteer = (await readdir(workDir)).find((f) => f.endsWith(".txt"));
+    if (!gazetteer) throw new Error(`No gazetteer file in ${GAZETTEER_URL}`);
+    await Bun.write(ZIP_GAZETTEER_FILE, Bun.file(join(workDir, gazetteer)));
+
+    const crosswalk = buildZipCrosswalk(
+      await Bun.file(ZIP_COUNTY_RELATIONSHIP_FILE).text(),
+      await Bun.file(ZIP_GAZETTEER_FILE).text()
+    );
+    const multiCounty = [...crosswalk.values()].filter((area) => area.counties.length > 1).length;
+    console.log(`✅ ${crosswalk.size} ZIP codes, ${multiCounty} of them in more than one county`);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+downloadZipCrosswalk().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+// ABOUTME: CLI for the schema migration runner
+// ABOUTME: Usage: bun scripts/migrate.ts [up | down [steps] | status]
+
+import { connectDatabase } from "../src/core/database";
+import { migrateUp, migrateDown, getMigrationStatus } from "../src/core/migrate";
+
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+  const db = connectDatabase();
+
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await migrateUp(db);
+        console.log(applied.length > 0
+          ? `✅ Applied ${applied.length} migration(s)`
+          : "✅ Database schema is up to date");
+        break;
+      }
+
+      case "down": {
+        const steps = arg ? parseInt(arg) : 1;
+        if (isNaN(steps) || steps < 1) {
+          throw new Error("steps must be a positive integer");
+        }
+        const rolledBack = await migrateDown(db, steps);
+        console.log(`✅ Rolled back ${rolledBack.length} migration(s)`);
+        break;
+      }
+
+      case "status": {
+        const status = await getMigrationStatus(db);
+        for (const migration of status) {
+          const marker = !migration.applied ? "⏳" : migration.checksum_matches ? "✅" : "❌";
+          const detail = !migration.applied
+            ? "pending"
+            : migration.checksum_matches
+              ? `applied ${migration.applied_at}`
+              : "applied, but modified since (checksum mismatch)";
+          console.log(`${marker} ${String(migration.version).padStart(3, "0")} ${migration.name} - ${detail}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command "${command}". Use up, down [steps], or status.`);
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Migration failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,67 +1,26 @@
-// ABOUTME: Removes duplicate resources that share the same address
-// ABOUTME: Keeps the entry with the most descriptive name (longest name)
+// ABOUTME: Finds duplicate resources with the entity matcher and merges confident pairs
+// ABOUTME: Low-confidence pairs are queued for review at GET /duplicates
 
 import { initDatabase } from "../src/core/database";
+import { scanForDuplicates } from "../src/dedup/duplicates";
 
 async function removeDuplicateAddresses() {
   const db = await initDatabase();
+  const reviewOnly = process.argv.includes("--review-only");
 
-  console.log("Finding duplicate addresses...");
+  try {
+    console.log(reviewOnly
+      ? "Scanning for duplicates (queueing all pairs for review)..."
+      : "Scanning for duplicates (merging confident pairs)...");
 
-  // Find all resources grouped by address
-  const allResources = await db<Array<{ id: number; name: string; address: string }>>`
-    SELECT id, name, address
-    FROM resources
-    WHERE address IS NOT NULL AND address != ''
-    ORDER BY address, name
-  `;
+    const result = await scanForDuplicates(db, !reviewOnly, { source: "dedup", changedBy: "remove-duplicate-addresses" });
 
-  // Group by normalized address
-  const addressGroups = new Map<string, Array<{ id: number; name: string; address: string }>>();
-
-  for (const resource of allResources) {
-    const normalizedAddress = resource.address.toLowerCase().trim();
-    if (!addressGroups.has(normalizedAddress)) {
-      addressGroups.set(normalizedAddress, []);
-    }
-    addressGroups.get(normalizedAddress)!.push(resource);
-  }
-
-  // Find groups with duplicates
-  const duplicateGroups = Array.from(addressGroups.entries())
-    .filter(([_, resources]) => resources.length > 1);
-
-  console.log(`Found ${duplicateGroups.length} addresses with duplicates`);
-
-  if (duplicateGroups.length === 0) {
-    console.log("No duplicates to remove!");
+    console.log(`Compared ${result.compared} resources, found ${result.candidates} candidate pairs`);
+    console.log(`✅ Merged ${result.merged} duplicate pairs`);
+    console.log(`📝 Queued ${result.queued} new pairs for review (GET /duplicates)`);
+  } finally {
     await db.end();
-    return;
-  }
-
-  let totalRemoved = 0;
-
-  for (const [address, resources] of duplicateGroups) {
-    console.log(`\n${address} has ${resources.length} entries:`);
-    resources.forEach(r => console.log(`  - ID ${r.id}: ${r.name}`));
-
-    // Keep the one with the longest name (usually most descriptive)
-    const sorted = resources.sort((a, b) => b.name.length - a.name.length);
-    const toKeep = sorted[0];
-    const toRemove = sorted.slice(1);
-
-    console.log(`  Keeping ID ${toKeep.id}: ${toKeep.name}`);
-    console.log(`  Removing ${toRemove.length} duplicate(s)`);
-
-    // Remove the duplicates
-    for (const resource of toRemove) {
-      await db`DELETE FROM resources WHERE id = ${resource.id}`;
-      totalRemoved++;
-    }
   }
-
-  console.log(`\n✅ Removed ${totalRemoved} duplicate resources`);
-  await db.end();
 }
 
 removeDuplicateAddresses().catch((error) => {
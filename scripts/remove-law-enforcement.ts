@@ -2,6 +2,7 @@
 // ABOUTME: Removes sheriff offices, police departments, and other law enforcement entries
 
 import { initDatabase } from "../src/core/database";
+import { deleteResources } from "../src/core/resource-changes";
 
 const LAW_ENFORCEMENT_PATTERNS = [
   /\bsheriff'?s?\s+(office|department|dept)\b/i,
@@ -73,13 +74,9 @@ async function removeLawEnforcement() {
 
     // Delete resources
     console.log("\n🗑️  Deleting resources...");
-    const result = await db`
-      DELETE FROM resources
-      WHERE id = ANY(${toDelete})
-      RETURNING id
-    `;
+    const deletedIds = await deleteResources(db, toDelete, { source: "manual", changedBy: "remove-law-enforcement" });
 
-    console.log(`\n✅ Successfully deleted ${result.length} law enforcement facilities!`);
+    console.log(`\n✅ Successfully deleted ${deletedIds.length} law enforcement facilities!`);
 
   } catch (error) {
     console.error("\n❌ Error:", error);
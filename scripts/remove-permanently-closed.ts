@@ -3,6 +3,7 @@
 
 import { initDatabase } from "../src/core/database";
 import type { FoodResource } from "../src/core/database";
+import { deleteResources } from "../src/core/resource-changes";
 
 async function removePermanentlyClosed() {
   console.log("Starting removal of permanently closed resources...\n");
@@ -25,12 +26,13 @@ async function removePermanentlyClosed() {
     }
 
     console.log("\nRemoving resources...");
-    const result = await db`
-      DELETE FROM resources
-      WHERE enrichment_failure_reason = 'Permanently closed'
-    `;
+    const deletedIds = await deleteResources(
+      db,
+      closedResources.map((r) => r.id!),
+      { source: "manual", changedBy: "remove-permanently-closed" }
+    );
 
-    console.log(`\n✅ Removed ${closedResources.length} permanently closed resources`);
+    console.log(`\n✅ Removed ${deletedIds.length} permanently closed resources`);
   } else {
     console.log("No permanently closed resources found - database is clean!");
   }
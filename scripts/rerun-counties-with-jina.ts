@@ -3,6 +3,7 @@
 
 import { initDatabase } from "../src/core/database";
 import { searchWithJina } from "../src/search/jina-search";
+import { addressKey } from "../src/utils/address";
 
 const CONCURRENCY = 3; // Number of counties to process in parallel
 
@@ -67,18 +68,18 @@ async function rerunCountiesWithJina(limit?: number) {
         console.log(`[${county.name}, ${county.state}] Found ${jinaResults.length} resources from Jina`);
 
         // Check for existing resources to avoid duplicates
-        const existingResources = await db<Array<{ id: number; address: string }>>`
-          SELECT id, address FROM resources
+        const existingResources = await db<Array<{ id: number; address: string; zip_code: string | null }>>`
+          SELECT id, address, zip_code FROM resources
         `;
 
         const existingAddresses = new Set(
-          existingResources.map(r => r.address?.toLowerCase().trim().replace(/\s+/g, ' ')).filter(Boolean)
+          existingResources.map(r => addressKey(r.address, r.zip_code)).filter(Boolean)
         );
 
-        // Deduplicate Jina results by address
+        // Deduplicate Jina results by standardized address
         const seenAddressesInResults = new Map<string, typeof jinaResults[0]>();
         for (const resource of jinaResults) {
-          const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
+          const normalizedAddress = addressKey(resource.address, resource.zip_code);
           if (normalizedAddress && !seenAddressesInResults.has(normalizedAddress)) {
             seenAddressesInResults.set(normalizedAddress, resource);
           }
@@ -90,7 +91,7 @@ async function rerunCountiesWithJina(limit?: number) {
         let insertedCount = 0;
         for (const resource of dedupedJinaResults) {
           try {
-            const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
+            const normalizedAddress = addressKey(resource.address, resource.zip_code);
 
             // Skip if we already have this address
             if (normalizedAddress && existingAddresses.has(normalizedAddress)) {
@@ -29,28 +29,41 @@ async function resetDatabase() {
     await sql`DROP TABLE IF EXISTS resources CASCADE`;
     await sql`DROP TABLE IF EXISTS zip_searches CASCADE`;
     await sql`DROP TABLE IF EXISTS county_searches CASCADE`;
+    await sql`DROP TABLE IF EXISTS resource_changes CASCADE`;
+    await sql`DROP TABLE IF EXISTS crawl_jobs CASCADE`;
+    await sql`DROP TABLE IF EXISTS duplicate_candidates CASCADE`;
+    await sql`DROP TABLE IF EXISTS resource_merges CASCADE`;
+    await sql`DROP TABLE IF EXISTS resource_tombstones CASCADE`;
+    await sql`DROP TABLE IF EXISTS api_keys CASCADE`;
+    await sql`DROP TABLE IF EXISTS resource_sources CASCADE`;
+    await sql`DROP TABLE IF EXISTS api_usage CASCADE`;
+    await sql`DROP TABLE IF EXISTS provider_rate_limits CASCADE`;
+    await sql`DROP TABLE IF EXISTS rejected_candidates CASCADE`;
+    await sql`DROP TABLE IF EXISTS filter_rules CASCADE`;
+    await sql`DROP TABLE IF EXISTS places_saturated_tiles CASCADE`;
+    await sql`DROP TABLE IF EXISTS schema_migrations CASCADE`;
     console.log("✅ Tables dropped\n");
 
-    // Now call initDatabase to recreate with new schema
+    // Now call initDatabase to re-run every migration
     console.log("Creating tables with new schema...");
     await sql.end();
 
     // Re-import and run initDatabase
-    const { initDatabase } = await import("./database");
+    const { initDatabase } = await import("../src/core/database");
     const db = await initDatabase();
     console.log("✅ Tables created with new schema\n");
 
     // Verify tables are empty
-    const resources = await db`SELECT COUNT(*) as count FROM resources`;
-    const counties = await db`SELECT COUNT(*) as count FROM county_searches`;
-    const zips = await db`SELECT COUNT(*) as count FROM zip_searches`;
+    const [resources] = await db`SELECT COUNT(*) as count FROM resources`;
+    const [counties] = await db`SELECT COUNT(*) as count FROM county_searches`;
+    const [zips] = await db`SELECT COUNT(*) as count FROM zip_searches`;
 
     console.log("Verification:");
-    console.log(`  Resources: ${resources[0].count}`);
-    console.log(`  County searches: ${counties[0].count}`);
-    console.log(`  Zip searches: ${zips[0].count}\n`);
+    console.log(`  Resources: ${resources!.count}`);
+    console.log(`  County searches: ${counties!.count}`);
+    console.log(`  Zip searches: ${zips!.count}\n`);
 
-    if (resources[0].count !== "0" || counties[0].count !== "0" || zips[0].count !== "0") {
+    if (resources!.count !== "0" || counties!.count !== "0" || zips!.count !== "0") {
       throw new Error("Database not empty after reset!");
     }
 
@@ -3,6 +3,7 @@
 
 import { initDatabase } from "../src/core/database";
 import { searchWithJina } from "../src/search/jina-search";
+import { addressKey } from "../src/utils/address";
 import { findCounty } from "../src/core/counties";
 
 async function runCountyJina(countyName: string, state: string) {
@@ -28,18 +29,18 @@ async function runCountyJina(countyName: string, state: string) {
     console.log(`\nJina search found ${jinaResults.length} resources`);
 
     // Check for existing resources to avoid duplicates
-    const existingResources = await db<Array<{ id: number; address: string }>>`
-      SELECT id, address FROM resources
+    const existingResources = await db<Array<{ id: number; address: string; zip_code: string | null }>>`
+      SELECT id, address, zip_code FROM resources
     `;
 
     const existingAddresses = new Set(
-      existingResources.map(r => r.address?.toLowerCase().trim().replace(/\s+/g, ' ')).filter(Boolean)
+      existingResources.map(r => addressKey(r.address, r.zip_code)).filter(Boolean)
     );
 
-    // Deduplicate Jina results by address
+    // Deduplicate Jina results by standardized address
     const seenAddressesInResults = new Map<string, typeof jinaResults[0]>();
     for (const resource of jinaResults) {
-      const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
+      const normalizedAddress = addressKey(resource.address, resource.zip_code);
       if (normalizedAddress && !seenAddressesInResults.has(normalizedAddress)) {
         seenAddressesInResults.set(normalizedAddress, resource);
       } else if (normalizedAddress) {
@@ -54,7 +55,7 @@ async function runCountyJina(countyName: string, state: string) {
     let insertedCount = 0;
     for (const resource of dedupedJinaResults) {
       try {
-        const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
+        const normalizedAddress = addressKey(resource.address, resource.zip_code);
 
         // Skip if we already have this address
         if (normalizedAddress && existingAddresses.has(normalizedAddress)) {
@@ -0,0 +1,147 @@
+// ABOUTME: Tests for the route access policy and request authorization
+// ABOUTME: Uses a stubbed key lookup so no database is needed
+
+import { test, expect, describe } from "bun:test";
+import type { Database } from "../core/database";
+import { authorize, clientAddress, extractApiKey, requiredAccess } from "./access";
+import { roleAtLeast, hashApiKey, generateApiKey, type ApiKey, type Role } from "./api-keys";
+import { createRateLimiter } from "./rate-limit";
+
+const db = {} as Database;
+
+function apiKey(id: number, role: Role, rate_limit_per_minute: number | null = null): ApiKey {
+  return {
+    id,
+    name: `${role}-key`,
+    key_prefix: "fpk_abcdef",
+    role,
+    rate_limit_per_minute,
+    created_at: "2025-01-01T00:00:00.000Z",
+    last_used_at: null,
+    revoked_at: null,
+  };
+}
+
+const KEYS: Record<string, ApiKey> = {
+  "reader-secret": apiKey(1, "reader"),
+  "curator-secret": apiKey(2, "curator"),
+  "limited-secret": apiKey(3, "admin", 1),
+};
+
+const lookup = async (_db: Database, key: string) => KEYS[key] || null;
+
+function request(method: string, path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost:3000${path}`, { method, headers });
+}
+
+describe("requiredAccess", () => {
+  test("search is public", () => {
+    expect(requiredAccess("GET", "/search")).toBe("public");
+    expect(requiredAccess("GET", "/nearby")).toBe("public");
+    expect(requiredAccess("GET", "/health")).toBe("public");
+  });
+
+  test("destructive curation and the analyze UI need curator", () => {
+    expect(requiredAccess("POST", "/bulk-actions")).toBe("curator");
+    expect(requiredAccess("POST", "/update-url")).toBe("curator");
+    expect(requiredAccess("POST", "/mark-exportable")).toBe("curator");
+    expect(requiredAccess("DELETE", "/resources/12")).toBe("curator");
+    expect(requiredAccess("GET", "/analyze-ui")).toBe("curator");
+    expect(requiredAccess("POST", "/rejected-candidates/3/rescue")).toBe("curator");
+    expect(requiredAccess("POST", "/filter-rules/dry-run")).toBe("curator");
+    expect(requiredAccess("PATCH", "/filter-rules/4")).toBe("curator");
+  });
+
+  test("reads need a reader key and key management needs admin", () => {
+    expect(requiredAccess("GET", "/resources/12")).toBe("reader");
+    expect(requiredAccess("GET", "/status/counties/PA")).toBe("reader");
+    expect(requiredAccess("GET", "/status/reverification")).toBe("reader");
+    expect(requiredAccess("GET", "/status/county-mismatches")).toBe("reader");
+    expect(requiredAccess("GET", "/status/places-tiles")).toBe("reader");
+    expect(requiredAccess("GET", "/status/need")).toBe("reader");
+    expect(requiredAccess("GET", "/export/changes")).toBe("reader");
+    expect(requiredAccess("GET", "/metrics")).toBe("reader");
+    expect(requiredAccess("GET", "/rejected-candidates")).toBe("reader");
+    expect(requiredAccess("GET", "/filter-rules")).toBe("reader");
+    expect(requiredAccess("POST", "/api-keys")).toBe("admin");
+  });
+
+  test("unknown routes have no rule", () => {
+    expect(requiredAccess("GET", "/unknown")).toBeNull();
+    expect(requiredAccess("PUT", "/resources/12")).toBeNull();
+  });
+});
+
+test("roles are ordered reader < curator < admin", () => {
+  expect(roleAtLeast("admin", "curator")).toBe(true);
+  expect(roleAtLeast("curator", "curator")).toBe(true);
+  expect(roleAtLeast("reader", "curator")).toBe(false);
+});
+
+test("keys are random and hashed deterministically", () => {
+  const key = generateApiKey();
+  expect(key).toStartWith("fpk_");
+  expect(key).not.toBe(generateApiKey());
+  expect(hashApiKey(key)).toBe(hashApiKey(key));
+  expect(hashApiKey(key)).toHaveLength(64);
+});
+
+test("extractApiKey reads bearer, header, cookie and query", () => {
+  expect(extractApiKey(request("GET", "/", { Authorization: "Bearer abc" }))).toBe("abc");
+  expect(extractApiKey(request("GET", "/", { "X-API-Key": "def" }))).toBe("def");
+  expect(extractApiKey(request("GET", "/", { Cookie: "theme=dark; api_key=ghi" }))).toBe("ghi");
+  expect(extractApiKey(request("GET", "/analyze-ui?api_key=jkl"))).toBe("jkl");
+  expect(extractApiKey(request("GET", "/"))).toBeNull();
+});
+
+test("clientAddress prefers the last forwarded hop", () => {
+  expect(clientAddress(request("GET", "/", { "X-Forwarded-For": "1.1.1.1, 2.2.2.2" }), "10.0.0.1")).toBe("2.2.2.2");
+  expect(clientAddress(request("GET", "/"), "10.0.0.1")).toBe("10.0.0.1");
+});
+
+describe("authorize", () => {
+  test("anonymous clients may search but not curate", async () => {
+    const { consume } = createRateLimiter();
+    expect((await authorize(db, request("GET", "/search?zip=19103"), "1.1.1.1", consume, lookup)).ok).toBe(true);
+
+    const denied = await authorize(db, request("POST", "/bulk-actions"), "1.1.1.1", consume, lookup);
+    expect(denied).toMatchObject({ ok: false, status: 401 });
+  });
+
+  test("checks the key's role against the route", async () => {
+    const { consume } = createRateLimiter();
+    const reader = { Authorization: "Bearer reader-secret" };
+    const curator = { Authorization: "Bearer curator-secret" };
+
+    expect((await authorize(db, request("GET", "/export", reader), "ip", consume, lookup)).ok).toBe(true);
+    expect(await authorize(db, request("POST", "/bulk-actions", reader), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 403 });
+
+    const allowed = await authorize(db, request("POST", "/bulk-actions", curator), "ip", consume, lookup);
+    expect(allowed.ok && allowed.principal.apiKey?.name).toBe("curator-key");
+  });
+
+  test("refuses routes without an access rule, whatever the key", async () => {
+    const { consume } = createRateLimiter();
+    expect(await authorize(db, request("GET", "/internal/debug"), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 404 });
+    expect(await authorize(db, request("DELETE", "/search"), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 404 });
+    expect(await authorize(db, request("GET", "/internal/debug", { "X-API-Key": "limited-secret" }), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 404 });
+  });
+
+  test("rejects unknown keys even on public routes", async () => {
+    const { consume } = createRateLimiter();
+    expect(await authorize(db, request("GET", "/search", { "X-API-Key": "nope" }), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 401 });
+  });
+
+  test("applies the key's own rate limit", async () => {
+    const { consume } = createRateLimiter();
+    const headers = { "X-API-Key": "limited-secret" };
+    expect((await authorize(db, request("GET", "/api-keys", headers), "ip", consume, lookup)).ok).toBe(true);
+    expect(await authorize(db, request("GET", "/api-keys", headers), "ip", consume, lookup))
+      .toMatchObject({ ok: false, status: 429 });
+  });
+});
@@ -0,0 +1,170 @@
+// ABOUTME: Route access policy and request authorization for the HTTP API
+// ABOUTME: Maps each route to the minimum role, resolves the caller's API key and applies rate limits
+
+import type { Database } from "../core/database";
+import { findApiKey, roleAtLeast, DEFAULT_RATE_LIMITS, type ApiKey, type Role } from "./api-keys";
+import type { RateLimitResult } from "./rate-limit";
+
+export type AccessLevel = "public" | Role;
+
+interface RouteRule {
+  method: string; // "*" for any method
+  pattern: RegExp;
+  access: AccessLevel;
+}
+
+// Every route in src/index.ts. authorize() answers 404 for anything not listed here, so a
+// new route stays unreachable until it is given an access level.
+const ROUTE_RULES: RouteRule[] = [
+  // Read-only search stays open to anonymous clients
+  { method: "GET", pattern: /^\/search$/, access: "public" },
+  { method: "GET", pattern: /^\/search-county$/, access: "public" },
+  { method: "GET", pattern: /^\/nearby$/, access: "public" },
+  { method: "*", pattern: /^\/health$/, access: "public" },
+
+  { method: "GET", pattern: /^\/resources$/, access: "reader" },
+  { method: "GET", pattern: /^\/resources\/\d+$/, access: "reader" },
+  { method: "GET", pattern: /^\/resources\/\d+\/changes$/, access: "reader" },
+  { method: "GET", pattern: /^\/resources\/\d+\/sources$/, access: "reader" },
+  { method: "GET", pattern: /^\/duplicates$/, access: "reader" },
+  { method: "GET", pattern: /^\/rejected-candidates$/, access: "reader" },
+  { method: "GET", pattern: /^\/filter-rules$/, access: "reader" },
+  { method: "GET", pattern: /^\/jobs$/, access: "reader" },
+  { method: "GET", pattern: /^\/jobs\/\d+$/, access: "reader" },
+  { method: "GET", pattern: /^\/status\/[a-z-]+(\/[A-Za-z]{2})?$/, access: "reader" },
+  { method: "GET", pattern: /^\/analyze-resources$/, access: "reader" },
+  { method: "GET", pattern: /^\/export(\/changes)?$/, access: "reader" },
+  { method: "GET", pattern: /^\/metrics$/, access: "reader" },
+
+  // Curation: anything that changes resources, starts paid API work, or the UI for doing so
+  { method: "POST", pattern: /^\/resources$/, access: "curator" },
+  { method: "PATCH", pattern: /^\/resources\/\d+$/, access: "curator" },
+  { method: "DELETE", pattern: /^\/resources\/\d+$/, access: "curator" },
+  { method: "POST", pattern: /^\/resources\/\d+\/merge$/, access: "curator" },
+  { method: "POST", pattern: /^\/duplicates\/scan$/, access: "curator" },
+  { method: "POST", pattern: /^\/duplicates\/\d+\/(merge|reject)$/, access: "curator" },
+  { method: "POST", pattern: /^\/rejected-candidates\/\d+\/rescue$/, access: "curator" },
+  { method: "POST", pattern: /^\/filter-rules(\/dry-run)?$/, access: "curator" },
+  { method: "PATCH", pattern: /^\/filter-rules\/\d+$/, access: "curator" },
+  { method: "DELETE", pattern: /^\/filter-rules\/\d+$/, access: "curator" },
+  { method: "POST", pattern: /^\/jobs$/, access: "curator" },
+  { method: "POST", pattern: /^\/jobs\/\d+\/cancel$/, access: "curator" },
+  { method: "POST", pattern: /^\/search-county-jina$/, access: "curator" },
+  { method: "GET", pattern: /^\/analyze-ui$/, access: "curator" },
+  { method: "POST", pattern: /^\/expand-directory$/, access: "curator" },
+  { method: "POST", pattern: /^\/mark-exportable$/, access: "curator" },
+  { method: "POST", pattern: /^\/update-url$/, access: "curator" },
+  { method: "POST", pattern: /^\/bulk-actions$/, access: "curator" },
+  { method: "POST", pattern: /^\/bulk-validate-urls$/, access: "curator" },
+
+  { method: "GET", pattern: /^\/api-keys$/, access: "admin" },
+  { method: "POST", pattern: /^\/api-keys$/, access: "admin" },
+  { method: "DELETE", pattern: /^\/api-keys\/\d+$/, access: "admin" },
+];
+
+/**
+ * Minimum access level for a route, or null for routes that don't exist
+ */
+export function requiredAccess(method: string, pathname: string): AccessLevel | null {
+  const rule = ROUTE_RULES.find(
+    (r) => (r.method === "*" || r.method === method) && r.pattern.test(pathname)
+  );
+  return rule ? rule.access : null;
+}
+
+export const API_KEY_COOKIE = "api_key";
+
+/**
+ * The API key sent with a request: "Authorization: Bearer <key>", an
+ * X-API-Key header, the api_key cookie set for browser pages, or ?api_key=
+ */
+export function extractApiKey(req: Request): string | null {
+  const authorization = req.headers.get("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) return bearer[1]!;
+
+  const header = req.headers.get("X-API-Key");
+  if (header) return header.trim();
+
+  const cookies = req.headers.get("Cookie") || "";
+  for (const cookie of cookies.split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === API_KEY_COOKIE && value.length > 0) return decodeURIComponent(value.join("="));
+  }
+
+  return new URL(req.url).searchParams.get("api_key");
+}
+
+/**
+ * Set-Cookie value that keeps a key for the browser pages (/analyze-ui,
+ * /status/counties) so their own fetches are authorized
+ */
+export function apiKeyCookie(key: string): string {
+  return `${API_KEY_COOKIE}=${encodeURIComponent(key)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${30 * 24 * 60 * 60}`;
+}
+
+export interface Principal {
+  apiKey: ApiKey | null; // null for anonymous clients
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal; rateLimit: RateLimitResult }
+  | { ok: false; status: 401 | 403 | 404 | 429; error: string; rateLimit?: RateLimitResult };
+
+type ConsumeFn = (client: string, limitPerMinute: number) => RateLimitResult;
+
+/**
+ * Identify the caller, charge the request to its rate limit and check the
+ * route's required role. Routes missing from ROUTE_RULES are refused.
+ */
+export async function authorize(
+  db: Database,
+  req: Request,
+  clientIp: string,
+  consume: ConsumeFn,
+  lookup: (db: Database, key: string) => Promise<ApiKey | null> = findApiKey
+): Promise<AuthResult> {
+  const url = new URL(req.url);
+  const access = requiredAccess(req.method, url.pathname);
+
+  const key = extractApiKey(req);
+  const apiKey = key ? await lookup(db, key) : null;
+  if (key && !apiKey) {
+    return { ok: false, status: 401, error: "Invalid or revoked API key" };
+  }
+
+  const client = apiKey ? `key:${apiKey.id}` : `ip:${clientIp}`;
+  const limit = apiKey?.rate_limit_per_minute ?? DEFAULT_RATE_LIMITS[apiKey?.role ?? "public"];
+  const rateLimit = consume(client, limit);
+  if (!rateLimit.allowed) {
+    return { ok: false, status: 429, error: "Rate limit exceeded", rateLimit };
+  }
+
+  if (!access) {
+    return { ok: false, status: 404, error: "Not Found", rateLimit };
+  }
+
+  if (access !== "public") {
+    if (!apiKey) {
+      return { ok: false, status: 401, error: `API key with ${access} role required`, rateLimit };
+    }
+    if (!roleAtLeast(apiKey.role, access)) {
+      return { ok: false, status: 403, error: `This route requires the ${access} role`, rateLimit };
+    }
+  }
+
+  return { ok: true, principal: { apiKey }, rateLimit };
+}
+
+/**
+ * Client address for anonymous rate limiting. Behind the Heroku router the
+ * last X-Forwarded-For entry is the address the router saw.
+ */
+export function clientAddress(req: Request, socketAddress: string | undefined): string {
+  const forwarded = req.headers.get("X-Forwarded-For");
+  if (forwarded) {
+    const hops = forwarded.split(",").map((hop) => hop.trim()).filter(Boolean);
+    if (hops.length > 0) return hops[hops.length - 1]!;
+  }
+  return socketAddress || "unknown";
+}
@@ -0,0 +1,112 @@
+// ABOUTME: API keys stored as SHA-256 hashes in Postgres, each with a role and rate limit
+// ABOUTME: Generates, looks up (with a short in-process cache), lists and revokes keys
+
+import { createHash, randomBytes } from "node:crypto";
+import type { Database } from "../core/database";
+
+export const ROLES = ["reader", "curator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Requests per minute when a key has no limit of its own
+export const DEFAULT_RATE_LIMITS: Record<Role | "public", number> = {
+  public: 60,
+  reader: 300,
+  curator: 600,
+  admin: 1200,
+};
+
+const KEY_PREFIX = "fpk_";
+
+// Lookups are cached briefly so every request doesn't hit Postgres;
+// revoking a key therefore takes up to this long to apply
+const KEY_CACHE_TTL_MS = 60 * 1000;
+// Bound on cached lookups, so requests with made-up keys can't grow the cache forever
+const KEY_CACHE_MAX_ENTRIES = 10_000;
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string; // First characters of the key, to tell keys apart without storing them
+  role: Role;
+  rate_limit_per_minute: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role grants at least the access of another (admin > curator > reader)
+ */
+export function roleAtLeast(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): string {
+  return KEY_PREFIX + randomBytes(24).toString("base64url");
+}
+
+/**
+ * Create a key. The plaintext key is returned only here; just its hash is stored.
+ */
+export async function createApiKey(
+  db: Database,
+  name: string,
+  role: Role,
+  rateLimitPerMinute: number | null = null
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = generateApiKey();
+  const [apiKey] = await db<ApiKey[]>`
+    INSERT INTO api_keys (name, key_prefix, key_hash, role, rate_limit_per_minute)
+    VALUES (${name}, ${key.slice(0, KEY_PREFIX.length + 6)}, ${hashApiKey(key)}, ${role}, ${rateLimitPerMinute})
+    RETURNING id, name, key_prefix, role, rate_limit_per_minute, created_at, last_used_at, revoked_at
+  `;
+  return { apiKey: apiKey!, key };
+}
+
+export async function listApiKeys(db: Database): Promise<ApiKey[]> {
+  return await db<ApiKey[]>`
+    SELECT id, name, key_prefix, role, rate_limit_per_minute, created_at, last_used_at, revoked_at
+    FROM api_keys
+    ORDER BY id
+  `;
+}
+
+export async function revokeApiKey(db: Database, id: number): Promise<ApiKey | null> {
+  const [apiKey] = await db<ApiKey[]>`
+    UPDATE api_keys SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+    WHERE id = ${id}
+    RETURNING id, name, key_prefix, role, rate_limit_per_minute, created_at, last_used_at, revoked_at
+  `;
+  keyCache.clear();
+  return apiKey || null;
+}
+
+const keyCache = new Map<string, { apiKey: ApiKey | null; expiresAt: number }>();
+
+/**
+ * The active key matching a plaintext key, or null if it is unknown or revoked
+ */
+export async function findApiKey(db: Database, key: string): Promise<ApiKey | null> {
+  const hash = hashApiKey(key);
+  const cached = keyCache.get(hash);
+  if (cached && cached.expiresAt > Date.now()) return cached.apiKey;
+
+  // Refreshing the cache doubles as the (per-minute) last_used_at update
+  const [apiKey] = await db<ApiKey[]>`
+    UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+    WHERE key_hash = ${hash} AND revoked_at IS NULL
+    RETURNING id, name, key_prefix, role, rate_limit_per_minute, created_at, last_used_at, revoked_at
+  `;
+
+  if (keyCache.size >= KEY_CACHE_MAX_ENTRIES) keyCache.clear();
+  keyCache.set(hash, { apiKey: apiKey || null, expiresAt: Date.now() + KEY_CACHE_TTL_MS });
+  return apiKey || null;
+}
@@ -0,0 +1,43 @@
+// ABOUTME: Tests for the in-process token bucket rate limiter
+// ABOUTME: Uses a fake clock to check bursts, refill and per-client isolation
+
+import { test, expect } from "bun:test";
+import { createRateLimiter } from "./rate-limit";
+
+function fakeClock() {
+  let time = 1_000_000;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+test("allows a burst up to the limit, then rejects with Retry-After", () => {
+  const clock = fakeClock();
+  const limiter = createRateLimiter(clock.now);
+
+  for (let i = 0; i < 3; i++) {
+    expect(limiter.consume("ip:1", 3).allowed).toBe(true);
+  }
+  const rejected = limiter.consume("ip:1", 3);
+  expect(rejected.allowed).toBe(false);
+  expect(rejected.remaining).toBe(0);
+  expect(rejected.retryAfterSeconds).toBe(20); // One token every 20s at 3/minute
+});
+
+test("refills continuously", () => {
+  const clock = fakeClock();
+  const limiter = createRateLimiter(clock.now);
+
+  limiter.consume("key:1", 60);
+  for (let i = 0; i < 59; i++) limiter.consume("key:1", 60);
+  expect(limiter.consume("key:1", 60).allowed).toBe(false);
+
+  clock.advance(1000);
+  expect(limiter.consume("key:1", 60).allowed).toBe(true);
+  expect(limiter.consume("key:1", 60).allowed).toBe(false);
+});
+
+test("keeps clients separate", () => {
+  const limiter = createRateLimiter(fakeClock().now);
+  expect(limiter.consume("ip:1", 1).allowed).toBe(true);
+  expect(limiter.consume("ip:1", 1).allowed).toBe(false);
+  expect(limiter.consume("ip:2", 1).allowed).toBe(true);
+});
@@ -0,0 +1,64 @@
+// ABOUTME: In-process token bucket rate limiter for API clients
+// ABOUTME: Each client gets a bucket refilled continuously at its per-minute limit
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets idle this long are full again and can be forgotten
+const IDLE_BUCKET_MS = 5 * 60 * 1000;
+
+/**
+ * Rate limiter keyed by client (API key id or IP). Bursts up to the
+ * per-minute limit are allowed; after that requests are spaced evenly.
+ */
+export function createRateLimiter(now: () => number = Date.now) {
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = now();
+
+  function sweep(time: number): void {
+    if (time - lastSweep < IDLE_BUCKET_MS) return;
+    lastSweep = time;
+    for (const [client, bucket] of buckets) {
+      if (time - bucket.updatedAt > IDLE_BUCKET_MS) buckets.delete(client);
+    }
+  }
+
+  function consume(client: string, limitPerMinute: number): RateLimitResult {
+    const time = now();
+    sweep(time);
+
+    const refillPerMs = limitPerMinute / 60_000;
+    const bucket = buckets.get(client) || { tokens: limitPerMinute, updatedAt: time };
+    bucket.tokens = Math.min(limitPerMinute, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+    buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        limit: limitPerMinute,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+      };
+    }
+
+    bucket.tokens -= 1;
+    return {
+      allowed: true,
+      limit: limitPerMinute,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterSeconds: 0,
+    };
+  }
+
+  return { consume };
+}
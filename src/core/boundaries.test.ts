@@ -0,0 +1,134 @@
+// ABOUTME: Tests for the offline point-in-polygon boundary lookup
+// ABOUTME: Covers neighboring shapes, holes, multi-part shapes, unreadable files and how stored counties are compared
+
+import { test, expect, describe } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBoundaryIndex, loadBoundaryIndex, type BoundaryCollection } from "./boundaries";
+import { classifyCounty, locationUpdates } from "./county-assignment";
+
+function square(minLng: number, minLat: number, size: number): Array<[number, number]> {
+  return [
+    [minLng, minLat],
+    [minLng + size, minLat],
+    [minLng + size, minLat + size],
+    [minLng, minLat + size],
+    [minLng, minLat],
+  ];
+}
+
+// Two counties sharing the line at longitude -75.0, and an enclave county inside a hole of the first
+const collection: BoundaryCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { GEOID: "42091" },
+      geometry: { type: "Polygon", coordinates: [square(-76, 40, 1), square(-75.6, 40.4, 0.2)] },
+    },
+    {
+      type: "Feature",
+      properties: { GEOID: "42017" },
+      geometry: { type: "Polygon", coordinates: [square(-75, 40, 1)] },
+    },
+    {
+      type: "Feature",
+      properties: { GEOID: "42999" },
+      geometry: { type: "Polygon", coordinates: [square(-75.6, 40.4, 0.2)] },
+    },
+    {
+      type: "Feature",
+      properties: { ZCTA5CE20: "19001" },
+      geometry: { type: "MultiPolygon", coordinates: [[square(-80, 30, 0.5)], [square(-79, 30, 0.5)]] },
+    },
+    { type: "Feature", properties: { GEOID: "00000" }, geometry: null },
+  ],
+};
+
+describe("createBoundaryIndex", () => {
+  const index = createBoundaryIndex(collection);
+
+  test("indexes only features with an identifier and a geometry", () => {
+    expect(index.size).toBe(4);
+  });
+
+  test("puts points on either side of a shared border in different shapes", () => {
+    expect(index.locate(40.5, -75.01)).toBe("42091");
+    expect(index.locate(40.5, -74.99)).toBe("42017");
+  });
+
+  test("a point in a hole belongs to the shape filling it", () => {
+    expect(index.locate(40.5, -75.5)).toBe("42999");
+    expect(index.locate(40.2, -75.5)).toBe("42091");
+  });
+
+  test("finds every part of a multi-part shape but not the gap between them", () => {
+    expect(index.locate(30.25, -79.75)).toBe("19001");
+    expect(index.locate(30.25, -78.75)).toBe("19001");
+    expect(index.locate(30.25, -79.25)).toBeNull();
+  });
+
+  test("reports the bounding box of a shape across all of its parts", () => {
+    expect(index.bounds("19001")).toEqual({ minLatitude: 30, maxLatitude: 30.5, minLongitude: -80, maxLongitude: -78.5 });
+    expect(index.bounds("99999")).toBeNull();
+  });
+
+  test("points outside every shape or without coordinates are unknown", () => {
+    expect(index.locate(10, 10)).toBeNull();
+    expect(index.locate(NaN, -75.5)).toBeNull();
+  });
+});
+
+describe("classifyCounty", () => {
+  test("compares the stored county with the one at the coordinates", () => {
+    expect(classifyCounty("42091", "42091")).toBeNull();
+    expect(classifyCounty("42091", "42017")).toBe("different_county");
+    expect(classifyCounty(null, "42017")).toBe("missing_county");
+    expect(classifyCounty("42091", null)).toBe("outside_counties");
+  });
+});
+
+describe("loadBoundaryIndex", () => {
+  test("a truncated file loads as unavailable and is read again once it's replaced", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "boundaries-"));
+    const path = join(dir, "counties.geojson");
+    try {
+      await Bun.write(path, JSON.stringify(collection).slice(0, 100));
+      expect(await loadBoundaryIndex(path)).toBeNull();
+
+      await Bun.write(path, JSON.stringify(collection));
+      expect((await loadBoundaryIndex(path))?.locate(40.5, -74.99)).toBe("42017");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("locationUpdates", () => {
+  const bucks = {
+    state: "PA",
+    geoid: "42017",
+    name: "Bucks County",
+    latitude: 40.34,
+    longitude: -75.11,
+    landAreaSqMi: 604,
+    population: null,
+    peopleInPoverty: null,
+    povertyRate: null,
+    snapHouseholdRate: null,
+  };
+
+  test("reuses a lookup made before the row was locked for the same point", async () => {
+    const located = { latitude: 40.5, longitude: -74.99, county: bucks, zip_code: "18966" };
+    expect(await locationUpdates({ latitude: 40.1 }, { latitude: 40.5, longitude: -74.99 }, located)).toEqual({
+      county_geoid: "42017",
+      county_name: "Bucks County",
+      zip_code: "18966",
+    });
+  });
+
+  test("leaves the county alone when the update doesn't move the resource", async () => {
+    expect(await locationUpdates({ latitude: 40.5, longitude: -74.99 }, { zip_code: "19001" })).toEqual({});
+  });
+});
@@ -0,0 +1,217 @@
+// ABOUTME: Offline point-in-polygon lookup against Census county and ZCTA boundary files
+// ABOUTME: Assigns county GEOIDs and ZIP codes (ZCTAs) from latitude/longitude without an API call
+
+import { createLogger } from "../utils/logger";
+import type { BoundingBox } from "../utils/geo";
+
+// Written by scripts/download-boundaries.ts from the Census cartographic boundary files
+export const COUNTY_BOUNDARIES_FILE = "./data/boundaries/counties.geojson";
+export const ZCTA_BOUNDARIES_FILE = "./data/boundaries/zctas.geojson";
+
+// Property holding each feature's identifier: GEOID for counties, ZCTA5CE20/GEOID20 for 2020 ZCTAs
+const ID_PROPERTIES = ["GEOID", "ZCTA5CE20", "GEOID20"];
+
+type Position = [number, number]; // [longitude, latitude]
+
+export interface BoundaryFeature {
+  type: "Feature";
+  properties: Record<string, unknown> | null;
+  geometry:
+    | { type: "Polygon"; coordinates: Position[][] }
+    | { type: "MultiPolygon"; coordinates: Position[][][] }
+    | null;
+}
+
+export interface BoundaryCollection {
+  type: "FeatureCollection";
+  features: BoundaryFeature[];
+}
+
+interface Shape {
+  id: string;
+  rings: Position[][];
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+export interface BoundaryIndex {
+  size: number;
+  /** Identifier of the shape containing the point, or null when none does */
+  locate(latitude: number, longitude: number): string | null;
+  /** Bounding box of a shape, or null for unknown identifiers */
+  bounds(id: string): BoundingBox | null;
+}
+
+// Grid cells are one degree square; a county or ZCTA overlaps a handful of cells
+const CELL_DEGREES = 1;
+
+function cellKey(x: number, y: number): string {
+  return `${x}:${y}`;
+}
+
+function featureId(feature: BoundaryFeature): string | null {
+  for (const property of ID_PROPERTIES) {
+    const value = feature.properties?.[property];
+    if (value != null && value !== "") return String(value);
+  }
+  return null;
+}
+
+function toShape(feature: BoundaryFeature): Shape | null {
+  const id = featureId(feature);
+  const geometry = feature.geometry;
+  if (!id || !geometry) return null;
+
+  const rings = geometry.type === "Polygon" ? geometry.coordinates : geometry.coordinates.flat();
+  if (rings.length === 0) return null;
+
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+  for (const ring of rings) {
+    for (const [lng, lat] of ring) {
+      if (lng < minLng) minLng = lng;
+      if (lng > maxLng) maxLng = lng;
+      if (lat < minLat) minLat = lat;
+      if (lat > maxLat) maxLat = lat;
+    }
+  }
+  return { id, rings, minLng, minLat, maxLng, maxLat };
+}
+
+/**
+ * Even-odd ray casting over every ring, so holes and the parts of a MultiPolygon
+ * need no special handling
+ */
+function contains(shape: Shape, latitude: number, longitude: number): boolean {
+  if (longitude < shape.minLng || longitude > shape.maxLng || latitude < shape.minLat || latitude > shape.maxLat) {
+    return false;
+  }
+  let inside = false;
+  for (const ring of shape.rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]!;
+      const [xj, yj] = ring[j]!;
+      if (yi > latitude !== yj > latitude && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Index a FeatureCollection of Polygon/MultiPolygon features by a coarse grid of their bounding boxes
+ */
+export function createBoundaryIndex(collection: BoundaryCollection): BoundaryIndex {
+  const shapes = collection.features.map(toShape).filter((shape): shape is Shape => shape !== null);
+  const grid = new Map<string, Shape[]>();
+  const byId = new Map(shapes.map((shape) => [shape.id, shape]));
+
+  for (const shape of shapes) {
+    for (let x = Math.floor(shape.minLng / CELL_DEGREES); x <= Math.floor(shape.maxLng / CELL_DEGREES); x++) {
+      for (let y = Math.floor(shape.minLat / CELL_DEGREES); y <= Math.floor(shape.maxLat / CELL_DEGREES); y++) {
+        const key = cellKey(x, y);
+        const cell = grid.get(key);
+        if (cell) cell.push(shape);
+        else grid.set(key, [shape]);
+      }
+    }
+  }
+
+  return {
+    size: shapes.length,
+    locate(latitude, longitude) {
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+      const cell = grid.get(cellKey(Math.floor(longitude / CELL_DEGREES), Math.floor(latitude / CELL_DEGREES)));
+      return cell?.find((shape) => contains(shape, latitude, longitude))?.id ?? null;
+    },
+    bounds(id) {
+      const shape = byId.get(id);
+      if (!shape) return null;
+      return {
+        minLatitude: shape.minLat,
+        maxLatitude: shape.maxLat,
+        minLongitude: shape.minLng,
+        maxLongitude: shape.maxLng,
+      };
+    },
+  };
+}
+
+const log = createLogger("boundaries");
+const indexCache = new Map<string, Promise<BoundaryIndex | null>>();
+
+/**
+ * Load and index a boundary file once. Resolves to null when the file hasn't been downloaded,
+ * so lookups degrade to "unknown" instead of failing. A file that can't be read or parsed also
+ * resolves to null, but isn't cached, so a re-downloaded file is picked up on the next lookup.
+ */
+export function loadBoundaryIndex(path: string): Promise<BoundaryIndex | null> {
+  let cached = indexCache.get(path);
+  if (!cached) {
+    cached = (async () => {
+      const file = Bun.file(path);
+      if (!(await file.exists())) {
+        log.warn("Boundary file missing, run scripts/download-boundaries.ts", { path });
+        return null;
+      }
+      try {
+        const index = createBoundaryIndex((await file.json()) as BoundaryCollection);
+        log.info("Loaded boundaries", { path, shapes: index.size });
+        return index;
+      } catch (error) {
+        log.error("Could not load boundary file, run scripts/download-boundaries.ts again", { path, error });
+        indexCache.delete(path);
+        return null;
+      }
+    })();
+    indexCache.set(path, cached);
+  }
+  return cached;
+}
+
+/**
+ * Load both boundary files now, so the first lookup (possibly made while a row is locked)
+ * doesn't pay for parsing them
+ */
+export async function preloadBoundaries(): Promise<void> {
+  await Promise.all([loadBoundaryIndex(COUNTY_BOUNDARIES_FILE), loadBoundaryIndex(ZCTA_BOUNDARIES_FILE)]);
+}
+
+export interface PointLocation {
+  county_geoid: string | null;
+  zip_code: string | null; // ZCTA, which matches the USPS ZIP for almost every address
+}
+
+/**
+ * County and ZIP containing a point; either is null when the point falls outside every shape
+ * or the boundary file isn't available
+ */
+export async function locatePoint(latitude: number, longitude: number): Promise<PointLocation> {
+  const [counties, zctas] = await Promise.all([
+    loadBoundaryIndex(COUNTY_BOUNDARIES_FILE),
+    loadBoundaryIndex(ZCTA_BOUNDARIES_FILE),
+  ]);
+  return {
+    county_geoid: counties?.locate(latitude, longitude) ?? null,
+    zip_code: zctas?.locate(latitude, longitude) ?? null,
+  };
+}
+
+/**
+ * Whether the county boundaries are available, so callers can tell "no county" from "can't tell"
+ */
+export async function countyBoundariesLoaded(): Promise<boolean> {
+  return (await loadBoundaryIndex(COUNTY_BOUNDARIES_FILE)) !== null;
+}
+
+/**
+ * Bounding box of a county's boundary, or null when it's unknown or the boundaries aren't available
+ */
+export async function countyBounds(geoid: string): Promise<BoundingBox | null> {
+  return (await loadBoundaryIndex(COUNTY_BOUNDARIES_FILE))?.bounds(geoid) ?? null;
+}
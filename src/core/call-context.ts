@@ -0,0 +1,29 @@
+// ABOUTME: Async-local context describing what a piece of work is for: a request, county, resource or crawl job
+// ABOUTME: The cost ledger attributes API calls with it and the logger stamps it onto every log line
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export interface CallContext {
+  correlation_id?: string | null; // Request id, or resource:<id> / job:<id> for worker-claimed work
+  county_geoid?: string | null;
+  resource_id?: number | null;
+  job_id?: number | null;
+}
+
+const callContext = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Run fn with context merged over any enclosing context. Everything fn awaits inherits it.
+ */
+export function withCallContext<T>(context: CallContext, fn: () => Promise<T>): Promise<T> {
+  return callContext.run({ ...callContext.getStore(), ...context }, fn);
+}
+
+export function currentCallContext(): CallContext {
+  return callContext.getStore() || {};
+}
+
+export function newCorrelationId(): string {
+  return randomUUID();
+}
@@ -0,0 +1,67 @@
+// ABOUTME: Tests for parsing the Census ZIP-to-county crosswalk and ACS county estimates
+// ABOUTME: Covers land-area shares, ZIPs split across counties, ZCTA internal points and need indicators
+
+import { test, expect, describe } from "bun:test";
+import { buildZipCrosswalk, parseAcsCounties } from "./counties";
+
+const RELATIONSHIP = [
+  "OID_ZCTA5_20|GEOID_ZCTA5_20|NAMELSAD_ZCTA5_20|AREALAND_ZCTA5_20|AREAWATER_ZCTA5_20|MTFCC_ZCTA5_20|CLASSFP_ZCTA5_20|FUNCSTAT_ZCTA5_20|OID_COUNTY_20|GEOID_COUNTY_20|NAMELSAD_COUNTY_20|AREALAND_COUNTY_20|AREAWATER_COUNTY_20|MTFCC_COUNTY_20|CLASSFP_COUNTY_20|FUNCSTAT_COUNTY_20|AREALAND_PART|AREAWATER_PART",
+  "1|19001|ZCTA5 19001|1000|0|G6350|B5|S|9|42091|Montgomery County|1000|0|G4020|H1|A|1000|0",
+  "2|18966|ZCTA5 18966|4000|0|G6350|B5|S|8|42017|Bucks County|1000|0|G4020|H1|A|3000|0",
+  "2|18966|ZCTA5 18966|4000|0|G6350|B5|S|9|42091|Montgomery County|1000|0|G4020|H1|A|1000|0",
+  "|||||||||42101|Philadelphia County|1000|0|G4020|H1|A|50|0",
+  "",
+].join("\n");
+
+const GAZETTEER = [
+  "GEOID\tALAND\tAWATER\tALAND_SQMI\tAWATER_SQMI\tINTPTLAT\tINTPTLONG                                    ",
+  "19001\t1000\t0\t0.4\t0\t40.12\t-75.12                                    ",
+  "",
+].join("\n");
+
+describe("buildZipCrosswalk", () => {
+  const crosswalk = buildZipCrosswalk(RELATIONSHIP, GAZETTEER);
+
+  test("splits a ZIP across counties by land area, largest share first", () => {
+    expect(crosswalk.get("18966")?.counties).toEqual([
+      { geoid: "42017", share: 0.75 },
+      { geoid: "42091", share: 0.25 },
+    ]);
+    expect(crosswalk.get("19001")?.counties).toEqual([{ geoid: "42091", share: 1 }]);
+  });
+
+  test("skips county parts outside every ZCTA", () => {
+    expect(crosswalk.size).toBe(2);
+  });
+
+  test("takes the ZIP's internal point from the gazetteer when it has one", () => {
+    expect(crosswalk.get("19001")).toMatchObject({ latitude: 40.12, longitude: -75.12 });
+    expect(crosswalk.get("18966")).toMatchObject({ latitude: null, longitude: null });
+  });
+});
+
+describe("parseAcsCounties", () => {
+  const needs = parseAcsCounties([
+    ["NAME", "B01003_001E", "B17001_001E", "B17001_002E", "B22003_001E", "B22003_002E", "state", "county"],
+    ["Montgomery County, Pennsylvania", "860000", "840000", "50400", "340000", "20400", "42", "091"],
+    ["Kalawao County, Hawaii", "82", "-666666666", "-666666666", "0", "0", "15", "005"],
+  ]);
+
+  test("keys counties by state and county FIPS with poverty and SNAP rates", () => {
+    expect(needs.get("42091")).toEqual({
+      population: 860000,
+      peopleInPoverty: 50400,
+      povertyRate: 0.06,
+      snapHouseholdRate: 0.06,
+    });
+  });
+
+  test("treats the API's negative sentinels and empty universes as missing", () => {
+    expect(needs.get("15005")).toEqual({
+      population: 82,
+      peopleInPoverty: null,
+      povertyRate: null,
+      snapHouseholdRate: null,
+    });
+  });
+});
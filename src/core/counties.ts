@@ -1,5 +1,5 @@
 // ABOUTME: US Counties data loader and utilities
-// ABOUTME: Parses Census Bureau gazetteer file for county-level geographic searches
+// ABOUTME: Parses Census Bureau gazetteer, ACS and ZIP-county relationship files for county-level geographic searches
 
 export interface County {
   state: string; // Two-letter state code (e.g., "CA")
@@ -7,6 +7,59 @@ export interface County {
   name: string; // County name (e.g., "Alameda County")
   latitude: number;
   longitude: number;
+  landAreaSqMi: number; // ALAND_SQMI: land area in square miles
+  // From the ACS 5-year estimates; null when the dataset isn't downloaded or has no estimate
+  population: number | null;
+  peopleInPoverty: number | null; // Below the poverty line, the residents we count as in need
+  povertyRate: number | null; // 0-1, of people whose poverty status is determined
+  snapHouseholdRate: number | null; // 0-1, households receiving SNAP, a food-insecurity indicator
+}
+
+type CountyNeed = Pick<County, "population" | "peopleInPoverty" | "povertyRate" | "snapHouseholdRate">;
+
+// ACS 5-year county estimates, written by scripts/download-acs.ts
+export const ACS_COUNTIES_FILE = "./data/acs5_2023_county.json";
+
+// Total population, poverty status universe and below poverty, households and households receiving SNAP
+export const ACS_VARIABLES = ["B01003_001E", "B17001_001E", "B17001_002E", "B22003_001E", "B22003_002E"];
+
+/**
+ * Read the ACS API response (a header row, then one row per county) into need indicators by GEOID.
+ * The API marks missing estimates with large negative numbers.
+ */
+export function parseAcsCounties(rows: string[][]): Map<string, CountyNeed> {
+  const [header = [], ...data] = rows;
+  const estimate = (row: string[], name: string): number | null => {
+    const index = header.indexOf(name);
+    const value = Number(row[index]);
+    return index >= 0 && Number.isFinite(value) && value >= 0 ? value : null;
+  };
+  const rate = (part: number | null, whole: number | null) =>
+    part !== null && whole ? Math.round((part / whole) * 10000) / 10000 : null;
+
+  const needs = new Map<string, CountyNeed>();
+  for (const row of data) {
+    const geoid = `${row[header.indexOf("state")] || ""}${row[header.indexOf("county")] || ""}`;
+    if (geoid.length !== 5) continue;
+
+    const peopleInPoverty = estimate(row, "B17001_002E");
+    needs.set(geoid, {
+      population: estimate(row, "B01003_001E"),
+      peopleInPoverty,
+      povertyRate: rate(peopleInPoverty, estimate(row, "B17001_001E")),
+      snapHouseholdRate: rate(estimate(row, "B22003_002E"), estimate(row, "B22003_001E")),
+    });
+  }
+  return needs;
+}
+
+async function loadCountyNeeds(): Promise<Map<string, CountyNeed>> {
+  const file = Bun.file(ACS_COUNTIES_FILE);
+  if (!(await file.exists())) {
+    console.warn(`ACS county data not found at ${ACS_COUNTIES_FILE}; run scripts/download-acs.ts`);
+    return new Map();
+  }
+  return parseAcsCounties((await file.json()) as string[][]);
 }
 
 let countiesCache: County[] | null = null;
@@ -20,6 +73,7 @@ export async function loadCounties(): Promise<County[]> {
   const text = await file.text();
   const lines = text.split("\n");
 
+  const needs = await loadCountyNeeds();
   const counties: County[] = [];
 
   // Skip header line
@@ -34,6 +88,7 @@ export async function loadCounties(): Promise<County[]> {
     const state = parts[0].trim();
     const geoid = parts[1].trim();
     const name = parts[3].trim();
+    const landAreaSqMi = parseFloat(parts[6]!.trim());
     const latitude = parseFloat(parts[8].trim());
     const longitude = parseFloat(parts[9].trim());
 
@@ -44,6 +99,11 @@ export async function loadCounties(): Promise<County[]> {
         name,
         latitude,
         longitude,
+        landAreaSqMi: isNaN(landAreaSqMi) ? 0 : landAreaSqMi,
+        population: needs.get(geoid)?.population ?? null,
+        peopleInPoverty: needs.get(geoid)?.peopleInPoverty ?? null,
+        povertyRate: needs.get(geoid)?.povertyRate ?? null,
+        snapHouseholdRate: needs.get(geoid)?.snapHouseholdRate ?? null,
       });
     }
   }
@@ -73,6 +133,127 @@ export async function findCounty(
   );
 }
 
+export async function findCountyByGeoid(geoid: string): Promise<County | null> {
+  const counties = await loadCounties();
+  return counties.find((c) => c.geoid === geoid) || null;
+}
+
 export async function getAllCounties(): Promise<County[]> {
   return await loadCounties();
 }
+
+// Census ZCTA-to-county relationship file and ZCTA gazetteer, written by scripts/download-zip-crosswalk.ts
+export const ZIP_COUNTY_RELATIONSHIP_FILE = "./data/tab20_zcta520_county20_natl.txt";
+export const ZIP_GAZETTEER_FILE = "./data/2024_Gaz_zcta_national.txt";
+
+export interface ZipCounty {
+  geoid: string;
+  share: number; // Fraction of the ZIP's land area in this county
+}
+
+export interface ZipArea {
+  zip: string;
+  latitude: number | null; // ZCTA internal point, when the gazetteer has it
+  longitude: number | null;
+  counties: ZipCounty[]; // Largest share first
+}
+
+/**
+ * Split a delimited Census file into rows keyed by its (trimmed) header names
+ */
+function parseDelimited(text: string, delimiter: string): Array<Record<string, string>> {
+  const lines = text.split("\n");
+  const header = (lines[0] || "").split(delimiter).map((name) => name.trim());
+  const rows: Array<Record<string, string>> = [];
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const parts = line.split(delimiter);
+    const row: Record<string, string> = {};
+    header.forEach((name, i) => {
+      row[name] = (parts[i] || "").trim();
+    });
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Build the ZIP-to-county crosswalk from the pipe-delimited relationship file
+ * (GEOID_ZCTA5_20|...|GEOID_COUNTY_20|...|AREALAND_PART) and the tab-delimited ZCTA
+ * gazetteer (GEOID ... INTPTLAT INTPTLONG)
+ */
+export function buildZipCrosswalk(relationshipText: string, gazetteerText: string = ""): Map<string, ZipArea> {
+  const areas = new Map<string, ZipArea>();
+  const landByZip = new Map<string, number>();
+
+  for (const row of parseDelimited(relationshipText, "|")) {
+    const zip = row.GEOID_ZCTA5_20;
+    const geoid = row.GEOID_COUNTY_20;
+    const land = parseFloat(row.AREALAND_PART || "");
+    // County parts outside every ZCTA have no ZIP
+    if (!zip || !geoid || isNaN(land)) continue;
+
+    let area = areas.get(zip);
+    if (!area) {
+      area = { zip, latitude: null, longitude: null, counties: [] };
+      areas.set(zip, area);
+    }
+    area.counties.push({ geoid, share: land });
+    landByZip.set(zip, (landByZip.get(zip) || 0) + land);
+  }
+
+  for (const area of areas.values()) {
+    const total = landByZip.get(area.zip) || 0;
+    for (const county of area.counties) {
+      // Water-only ZCTAs have no land, so split them evenly
+      county.share = total > 0 ? county.share / total : 1 / area.counties.length;
+    }
+    area.counties.sort((a, b) => b.share - a.share);
+  }
+
+  for (const row of parseDelimited(gazetteerText, "\t")) {
+    const area = areas.get(row.GEOID || "");
+    const latitude = parseFloat(row.INTPTLAT || "");
+    const longitude = parseFloat(row.INTPTLONG || "");
+    if (area && !isNaN(latitude) && !isNaN(longitude)) {
+      area.latitude = latitude;
+      area.longitude = longitude;
+    }
+  }
+
+  return areas;
+}
+
+let zipCrosswalkCache: Map<string, ZipArea> | null = null;
+
+/**
+ * Load the ZIP-to-county crosswalk, or an empty one when the relationship file hasn't been downloaded
+ */
+export async function loadZipCrosswalk(): Promise<Map<string, ZipArea>> {
+  if (zipCrosswalkCache) {
+    return zipCrosswalkCache;
+  }
+
+  const relationship = Bun.file(ZIP_COUNTY_RELATIONSHIP_FILE);
+  const gazetteer = Bun.file(ZIP_GAZETTEER_FILE);
+  if (!(await relationship.exists())) {
+    console.warn(`ZIP-county crosswalk not found at ${ZIP_COUNTY_RELATIONSHIP_FILE}; run scripts/download-zip-crosswalk.ts`);
+    zipCrosswalkCache = new Map();
+    return zipCrosswalkCache;
+  }
+
+  zipCrosswalkCache = buildZipCrosswalk(
+    await relationship.text(),
+    (await gazetteer.exists()) ? await gazetteer.text() : ""
+  );
+  console.log(`Loaded ${zipCrosswalkCache.size} ZIP codes from Census ZIP-county crosswalk`);
+  return zipCrosswalkCache;
+}
+
+/**
+ * Counties a ZIP code overlaps, or null for ZIPs the crosswalk doesn't know
+ */
+export async function findZipArea(zip: string): Promise<ZipArea | null> {
+  const crosswalk = await loadZipCrosswalk();
+  return crosswalk.get(zip) || null;
+}
@@ -0,0 +1,170 @@
+// ABOUTME: Assigns resources their county and ZIP from coordinates using the offline boundary lookup
+// ABOUTME: Also finds resources whose stored county disagrees with where their coordinates fall
+
+import type { Database, FoodResource } from "./database";
+import { countyBoundariesLoaded, locatePoint } from "./boundaries";
+import { findCountyByGeoid, type County } from "./counties";
+
+export interface PointCounty {
+  county: County | null;
+  zip_code: string | null;
+}
+
+/**
+ * Gazetteer county and ZCTA containing a point
+ */
+export async function countyAt(latitude: number, longitude: number): Promise<PointCounty> {
+  const located = await locatePoint(latitude, longitude);
+  return {
+    county: located.county_geoid ? await findCountyByGeoid(located.county_geoid) : null,
+    zip_code: located.zip_code,
+  };
+}
+
+type LocationFields = Pick<FoodResource, "latitude" | "longitude" | "county_geoid" | "county_name" | "zip_code">;
+type LocationUpdate = { [K in keyof LocationFields]?: LocationFields[K] | null };
+
+export interface LocatedPoint extends PointCounty {
+  latitude: number;
+  longitude: number;
+}
+
+// Where an update moves a resource, or null when it doesn't set coordinates
+function updatedPoint(
+  current: Partial<FoodResource>,
+  updates: LocationUpdate
+): { latitude: number; longitude: number } | null {
+  if (updates.latitude == null && updates.longitude == null) return null;
+  const latitude = updates.latitude ?? current.latitude;
+  const longitude = updates.longitude ?? current.longitude;
+  if (latitude == null || longitude == null) return null;
+  return { latitude, longitude };
+}
+
+/**
+ * County and ZIP at the point an update moves a resource to, or null when it doesn't move it.
+ * Lets callers do the lookup before locking the row.
+ */
+export async function locateUpdate(
+  current: Partial<FoodResource>,
+  updates: LocationUpdate
+): Promise<LocatedPoint | null> {
+  const point = updatedPoint(current, updates);
+  return point ? { ...point, ...(await countyAt(point.latitude, point.longitude)) } : null;
+}
+
+/**
+ * County and ZIP fields to write alongside new coordinates: the county always follows the point,
+ * unless the update sets one explicitly, and the ZIP is only filled when the resource has none.
+ * A lookup from locateUpdate is reused when it was made for the same point.
+ */
+export async function locationUpdates(
+  current: Partial<FoodResource>,
+  updates: LocationUpdate,
+  located: LocatedPoint | null = null
+): Promise<LocationUpdate> {
+  const point = updatedPoint(current, updates);
+  if (!point) return {};
+
+  const { county, zip_code } =
+    located && located.latitude === point.latitude && located.longitude === point.longitude
+      ? located
+      : await countyAt(point.latitude, point.longitude);
+  const derived: LocationUpdate = {};
+  if (county && updates.county_geoid === undefined) {
+    derived.county_geoid = county.geoid;
+    derived.county_name = county.name;
+  }
+  if (zip_code && !(updates.zip_code ?? current.zip_code)) {
+    derived.zip_code = zip_code;
+  }
+  return derived;
+}
+
+export type CountyMismatch = "different_county" | "missing_county" | "outside_counties";
+
+/**
+ * How a stored county compares with the county found at the resource's coordinates
+ */
+export function classifyCounty(stored: string | null | undefined, located: string | null): CountyMismatch | null {
+  if (!located) return "outside_counties";
+  if (!stored) return "missing_county";
+  return stored === located ? null : "different_county";
+}
+
+export interface LocationCheck {
+  id: number;
+  name: string;
+  address: string;
+  state: string | null;
+  latitude: number;
+  longitude: number;
+  county_geoid: string | null;
+  county_name: string | null;
+  zip_code: string | null;
+  located_county_geoid: string | null;
+  located_county_name: string | null;
+  located_state: string | null;
+  located_zip_code: string | null;
+  mismatch: CountyMismatch | null;
+}
+
+const CHECK_BATCH_SIZE = 500;
+
+/**
+ * Locate every resource with coordinates, optionally in one state
+ */
+export async function* checkResourceLocations(
+  db: Database,
+  filters: { state?: string } = {}
+): AsyncGenerator<LocationCheck> {
+  const query = db<FoodResource[]>`
+    SELECT id, name, address, state, latitude, longitude, county_geoid, county_name, zip_code
+    FROM resources
+    WHERE latitude IS NOT NULL AND longitude IS NOT NULL
+    ${filters.state ? db`AND state = ${filters.state}` : db``}
+    ORDER BY id
+  `;
+  for await (const batch of query.cursor(CHECK_BATCH_SIZE)) {
+    for (const resource of batch) {
+      const { county, zip_code } = await countyAt(resource.latitude!, resource.longitude!);
+      yield {
+        id: resource.id!,
+        name: resource.name,
+        address: resource.address,
+        state: resource.state ?? null,
+        latitude: resource.latitude!,
+        longitude: resource.longitude!,
+        county_geoid: resource.county_geoid ?? null,
+        county_name: resource.county_name ?? null,
+        zip_code: resource.zip_code ?? null,
+        located_county_geoid: county?.geoid ?? null,
+        located_county_name: county?.name ?? null,
+        located_state: county?.state ?? null,
+        located_zip_code: zip_code,
+        mismatch: classifyCounty(resource.county_geoid, county?.geoid ?? null),
+      };
+    }
+  }
+}
+
+/**
+ * Resources whose stored county disagrees with their coordinates. Returns null when the county
+ * boundaries haven't been downloaded, since every resource would look like a mismatch.
+ */
+export async function findCountyMismatches(
+  db: Database,
+  filters: { state?: string; limit?: number } = {}
+): Promise<{ checked: number; mismatches: LocationCheck[] } | null> {
+  if (!(await countyBoundariesLoaded())) return null;
+
+  let checked = 0;
+  const mismatches: LocationCheck[] = [];
+  for await (const check of checkResourceLocations(db, filters)) {
+    checked++;
+    if (check.mismatch && (filters.limit === undefined || mismatches.length < filters.limit)) {
+      mismatches.push(check);
+    }
+  }
+  return { checked, mismatches };
+}
@@ -1,7 +1,10 @@
 // ABOUTME: Database schema and initialization for food pantry/bank resources
-// ABOUTME: Handles Postgres setup with resource storage and zip code search tracking
+// ABOUTME: Connects to Postgres and applies schema migrations on startup
 
 import postgres from "postgres";
+import type { WeeklySchedule } from "../utils/opening-hours";
+import type { QualityBreakdown } from "../validation/quality-score";
+import { migrateUp } from "./migrate";
 
 export interface FoodResource {
   id?: number;
@@ -10,6 +13,11 @@ export interface FoodResource {
   city?: string;
   state?: string;
   zip_code?: string;
+  // USPS-standardized parts of address/city/state/zip_code, derived on every write (utils/address.ts)
+  street_line1?: string | null;
+  street_line2?: string | null;
+  zip5?: string | null;
+  zip4?: string | null;
   county_name?: string;
   county_geoid?: string;
   location_type?: "zip" | "county";
@@ -18,6 +26,7 @@ export interface FoodResource {
   type: "pantry" | "bank" | "mixed";
   phone?: string;
   hours?: string;
+  hours_schedule?: WeeklySchedule | null;
   rating?: number;
   wait_time_minutes?: number;
   eligibility_requirements?: string;
@@ -39,12 +48,28 @@ export interface FoodResource {
   editorial_summary?: string;
   created_at?: string;
   last_verified_at?: string;
+  updated_at?: string; // Set by a trigger on every change
   needs_enrichment?: boolean;
   google_place_id?: string;
   last_enrichment_attempt?: string;
   enrichment_failure_count?: number;
   enrichment_failure_reason?: string;
+  last_reverification_attempt?: string;
   exportable?: boolean;
+  verification_signals?: VerificationSignals;
+  quality_score?: number | null; // 0-100, derived from verification_signals; see validation/quality-score.ts
+  quality_breakdown?: QualityBreakdown | null;
+}
+
+// Latest result of each verification check, merged in as the checks run
+export interface VerificationSignals {
+  ai_is_food_resource?: boolean;
+  ai_confidence?: number; // 0-100, from the OpenAI validator
+  jina_is_food_resource?: boolean;
+  jina_confidence?: "high" | "medium" | "low";
+  business_status?: "OPERATIONAL" | "CLOSED_TEMPORARILY" | "CLOSED_PERMANENTLY" | "NOT_FOUND";
+  rating_count?: number; // Google review count
+  url_valid?: boolean; // Whether the source URL loaded and looked like a food resource
 }
 
 export interface ZipSearch {
@@ -61,124 +86,59 @@ export interface CountySearch {
   state: string;
   searched_at?: string;
   result_count: number;
+  request_count?: number; // GET /search-county requests, a proxy for how much the county is used
+  last_requested_at?: string;
+}
+
+export type ChangeSource = "manual" | "google-places" | "jina" | "openai" | "dedup";
+
+export interface ResourceChange {
+  id?: number;
+  resource_id: number;
+  field: string; // Column name, or "created"/"deleted" for whole-row snapshots
+  old_value: unknown;
+  new_value: unknown;
+  source: ChangeSource;
+  changed_by: string;
+  changed_at?: string;
 }
 
 export type Database = ReturnType<typeof postgres>;
 
-export async function initDatabase(): Promise<Database> {
+export type Transaction = postgres.TransactionSql;
+
+/**
+ * Run fn in db when it is already a transaction, otherwise in a new one, so a
+ * write can join its caller's transaction
+ */
+export async function inTransaction<T>(
+  db: Database | Transaction,
+  fn: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  if ("savepoint" in db) return await fn(db);
+  return (await db.begin(fn)) as T;
+}
+
+/**
+ * Open a connection without touching the schema (used by the migration CLI)
+ */
+export function connectDatabase(): Database {
   const databaseUrl = process.env.DATABASE_URL;
   if (!databaseUrl) {
     throw new Error("DATABASE_URL environment variable is required");
   }
 
-  const sql = postgres(databaseUrl, {
+  return postgres(databaseUrl, {
     ssl: { rejectUnauthorized: false },
     onnotice: () => {} // Suppress NOTICE messages
   });
+}
 
-  // Create resources table
-  await sql`
-    CREATE TABLE IF NOT EXISTS resources (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL,
-      address TEXT NOT NULL,
-      city TEXT,
-      state TEXT,
-      zip_code TEXT,
-      county_name TEXT,
-      county_geoid TEXT,
-      location_type TEXT,
-      latitude DOUBLE PRECISION,
-      longitude DOUBLE PRECISION,
-      type TEXT NOT NULL,
-      phone TEXT,
-      hours TEXT,
-      rating DOUBLE PRECISION,
-      wait_time_minutes INTEGER,
-      eligibility_requirements TEXT,
-      services_offered TEXT,
-      languages_spoken TEXT,
-      accessibility_notes TEXT,
-      notes TEXT,
-      is_verified BOOLEAN DEFAULT false,
-      verification_notes TEXT,
-      source_url TEXT,
-      wheelchair_accessible BOOLEAN,
-      has_curbside_pickup BOOLEAN,
-      has_delivery BOOLEAN,
-      has_takeout BOOLEAN,
-      editorial_summary TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      last_verified_at TIMESTAMP,
-      needs_enrichment BOOLEAN DEFAULT false,
-      google_place_id TEXT,
-      last_enrichment_attempt TIMESTAMP,
-      enrichment_failure_count INTEGER DEFAULT 0,
-      enrichment_failure_reason TEXT,
-      exportable BOOLEAN DEFAULT false
-    )
-  `;
-
-  // Create zip searches tracking table
-  await sql`
-    CREATE TABLE IF NOT EXISTS zip_searches (
-      id SERIAL PRIMARY KEY,
-      zip_code TEXT NOT NULL,
-      searched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      result_count INTEGER
-    )
-  `;
-
-  // Create county searches tracking table
-  await sql`
-    CREATE TABLE IF NOT EXISTS county_searches (
-      id SERIAL PRIMARY KEY,
-      county_geoid TEXT NOT NULL,
-      county_name TEXT NOT NULL,
-      state TEXT NOT NULL,
-      searched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      result_count INTEGER
-    )
-  `;
-
-  // Ensure unique constraint exists (for both new and existing databases)
-  try {
-    // Check if constraint already exists
-    const constraintExists = await sql`
-      SELECT 1 FROM pg_constraint
-      WHERE conname = 'county_searches_county_geoid_key'
-    `;
-
-    if (constraintExists.length === 0) {
-      console.log("Adding unique constraint to county_searches.county_geoid");
-
-      // First, remove duplicates (keep the most recent one)
-      await sql`
-        DELETE FROM county_searches
-        WHERE id NOT IN (
-          SELECT MAX(id)
-          FROM county_searches
-          GROUP BY county_geoid
-        )
-      `;
-      console.log("Cleaned up duplicate county_searches entries");
-
-      // Now add the unique constraint
-      await sql`
-        ALTER TABLE county_searches
-        ADD CONSTRAINT county_searches_county_geoid_key UNIQUE (county_geoid)
-      `;
-      console.log("Successfully added unique constraint");
-    }
-  } catch (error) {
-    console.log("Note: Could not add constraint:", error);
-  }
-
-  // Create indexes
-  await sql`CREATE INDEX IF NOT EXISTS idx_zip_code ON resources(zip_code)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_county_geoid ON resources(county_geoid)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_location ON resources(latitude, longitude)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_location_type ON resources(location_type)`;
-
+/**
+ * Connect and bring the schema up to date by applying pending migrations
+ */
+export async function initDatabase(): Promise<Database> {
+  const sql = connectDatabase();
+  await migrateUp(sql);
   return sql;
 }
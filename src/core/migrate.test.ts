@@ -0,0 +1,61 @@
+// ABOUTME: Tests for migration ordering, checksums and pending detection
+// ABOUTME: Runs against the real migration list without a database connection
+
+import { test, expect, describe } from "bun:test";
+import {
+  checksumMigration,
+  validateMigrations,
+  findChecksumMismatches,
+  pendingMigrations,
+  type AppliedMigration,
+} from "./migrate";
+import { MIGRATIONS, type Migration } from "./migrations";
+
+const first: Migration = { version: 1, name: "first", up: "CREATE TABLE a (id INT);", down: "DROP TABLE a;" };
+const second: Migration = { version: 2, name: "second", up: "CREATE TABLE b (id INT);", down: "DROP TABLE b;" };
+
+function appliedRow(migration: Migration, checksum = checksumMigration(migration)): AppliedMigration {
+  return { version: migration.version, name: migration.name, checksum, applied_at: "2025-01-01T00:00:00.000Z" };
+}
+
+describe("validateMigrations", () => {
+  test("accepts the bundled migration list", () => {
+    expect(() => validateMigrations(MIGRATIONS)).not.toThrow();
+  });
+
+  test("rejects duplicate or out-of-order versions", () => {
+    expect(() => validateMigrations([second, first])).toThrow("ascending");
+    expect(() => validateMigrations([first, { ...second, version: 1 }])).toThrow("ascending");
+  });
+});
+
+describe("checksumMigration", () => {
+  test("ignores surrounding whitespace but not SQL changes", () => {
+    expect(checksumMigration({ ...first, up: `\n  ${first.up}\n` })).toBe(checksumMigration(first));
+    expect(checksumMigration({ ...first, up: "CREATE TABLE a (id BIGINT);" })).not.toBe(checksumMigration(first));
+  });
+
+  test("does not depend on the down SQL", () => {
+    expect(checksumMigration({ ...first, down: "" })).toBe(checksumMigration(first));
+  });
+});
+
+describe("findChecksumMismatches", () => {
+  test("flags applied migrations whose SQL changed", () => {
+    expect(findChecksumMismatches([appliedRow(first), appliedRow(second, "stale")], [first, second])).toEqual([
+      "2 (second)",
+    ]);
+  });
+
+  test("ignores applied migrations missing from the code", () => {
+    expect(findChecksumMismatches([appliedRow(second)], [first])).toEqual([]);
+  });
+});
+
+describe("pendingMigrations", () => {
+  test("returns unapplied migrations in order", () => {
+    expect(pendingMigrations([], [first, second])).toEqual([first, second]);
+    expect(pendingMigrations([appliedRow(first)], [first, second])).toEqual([second]);
+    expect(pendingMigrations([appliedRow(first), appliedRow(second)], [first, second])).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+// ABOUTME: Versioned schema migration runner backed by the schema_migrations table
+// ABOUTME: Applies and rolls back migrations in order and rejects edited migrations via checksums
+
+import { createHash } from "node:crypto";
+import type { Database } from "./database";
+import { MIGRATIONS, type Migration } from "./migrations";
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+  checksum_matches: boolean | null; // null when not applied
+}
+
+// Serializes migration runs when the web server and workers start at the same time
+const MIGRATION_LOCK_ID = 4_702_005;
+
+/**
+ * SHA-256 of a migration's up SQL, stored when it is applied
+ */
+export function checksumMigration(migration: Migration): string {
+  return createHash("sha256").update(migration.up.trim()).digest("hex");
+}
+
+/**
+ * Ensure versions are positive, unique and listed in ascending order
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Migration versions must be ascending integers: ${migration.version} (${migration.name}) follows ${previous}`
+      );
+    }
+    previous = migration.version;
+  }
+}
+
+/**
+ * Describe applied migrations whose SQL has been edited since they ran
+ */
+export function findChecksumMismatches(
+  applied: AppliedMigration[],
+  migrations: Migration[]
+): string[] {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const mismatches: string[] = [];
+
+  for (const row of applied) {
+    const migration = byVersion.get(row.version);
+    if (migration && checksumMigration(migration) !== row.checksum) {
+      mismatches.push(`${row.version} (${migration.name})`);
+    }
+  }
+
+  return mismatches;
+}
+
+export function pendingMigrations(
+  applied: AppliedMigration[],
+  migrations: Migration[]
+): Migration[] {
+  const appliedVersions = new Set(applied.map((row) => row.version));
+  return migrations.filter((m) => !appliedVersions.has(m.version));
+}
+
+async function ensureMigrationsTable(db: Database): Promise<void> {
+  await db.begin(async (tx) => {
+    await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+    await tx`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+  });
+}
+
+export async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(db);
+  return await db<AppliedMigration[]>`
+    SELECT version, name, checksum, applied_at
+    FROM schema_migrations
+    ORDER BY version
+  `;
+}
+
+/**
+ * Apply all pending migrations in order, each in its own transaction.
+ * Throws before applying anything if an applied migration was edited.
+ * Returns the migrations that were applied.
+ */
+export async function migrateUp(
+  db: Database,
+  migrations: Migration[] = MIGRATIONS
+): Promise<Migration[]> {
+  validateMigrations(migrations);
+
+  const applied = await getAppliedMigrations(db);
+  const mismatches = findChecksumMismatches(applied, migrations);
+  if (mismatches.length > 0) {
+    throw new Error(
+      `Applied migrations have been modified: ${mismatches.join(", ")}. Add a new migration instead of editing an applied one.`
+    );
+  }
+
+  const known = new Set(migrations.map((m) => m.version));
+  for (const row of applied) {
+    if (!known.has(row.version)) {
+      console.warn(`⚠️  Database has migration ${row.version} (${row.name}) which this code doesn't know about`);
+    }
+  }
+
+  const ran: Migration[] = [];
+  for (const migration of pendingMigrations(applied, migrations)) {
+    const didRun = await db.begin(async (tx) => {
+      await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+
+      // Another process may have applied it while we waited for the lock
+      const [existing] = await tx`SELECT 1 FROM schema_migrations WHERE version = ${migration.version}`;
+      if (existing) return false;
+
+      await tx.unsafe(migration.up);
+      await tx`
+        INSERT INTO schema_migrations (version, name, checksum)
+        VALUES (${migration.version}, ${migration.name}, ${checksumMigration(migration)})
+      `;
+      return true;
+    });
+
+    if (didRun) {
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+      ran.push(migration);
+    }
+  }
+
+  return ran;
+}
+
+/**
+ * Roll back the most recently applied migrations, newest first.
+ * Returns the migrations that were rolled back.
+ */
+export async function migrateDown(
+  db: Database,
+  steps: number = 1,
+  migrations: Migration[] = MIGRATIONS
+): Promise<Migration[]> {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const applied = await getAppliedMigrations(db);
+  const toRollBack = applied.slice(-steps).reverse();
+
+  const rolledBack: Migration[] = [];
+  for (const row of toRollBack) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      throw new Error(`Cannot roll back migration ${row.version} (${row.name}): not defined in this code`);
+    }
+
+    await db.begin(async (tx) => {
+      await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+      await tx.unsafe(migration.down);
+      await tx`DELETE FROM schema_migrations WHERE version = ${migration.version}`;
+    });
+
+    console.log(`Rolled back migration ${migration.version} (${migration.name})`);
+    rolledBack.push(migration);
+  }
+
+  return rolledBack;
+}
+
+export async function getMigrationStatus(
+  db: Database,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationStatus[]> {
+  const applied = new Map((await getAppliedMigrations(db)).map((row) => [row.version, row]));
+
+  return migrations.map((migration) => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied: row !== undefined,
+      applied_at: row?.applied_at ?? null,
+      checksum_matches: row ? row.checksum === checksumMigration(migration) : null,
+    };
+  });
+}
@@ -0,0 +1,563 @@
+// ABOUTME: Ordered list of schema migrations applied by the migration runner
+// ABOUTME: Append new migrations at the end; never edit one that has already been applied
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+// Migrations use IF NOT EXISTS so databases created before the runner existed
+// converge to the same schema instead of failing on objects they already have.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_initial_schema",
+    up: `
+      CREATE TABLE IF NOT EXISTS resources (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        address TEXT NOT NULL,
+        city TEXT,
+        state TEXT,
+        zip_code TEXT,
+        county_name TEXT,
+        county_geoid TEXT,
+        location_type TEXT,
+        latitude DOUBLE PRECISION,
+        longitude DOUBLE PRECISION,
+        type TEXT NOT NULL,
+        phone TEXT,
+        hours TEXT,
+        rating DOUBLE PRECISION,
+        wait_time_minutes INTEGER,
+        eligibility_requirements TEXT,
+        services_offered TEXT,
+        languages_spoken TEXT,
+        accessibility_notes TEXT,
+        notes TEXT,
+        is_verified BOOLEAN DEFAULT false,
+        verification_notes TEXT,
+        source_url TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_verified_at TIMESTAMP,
+        needs_enrichment BOOLEAN DEFAULT false,
+        google_place_id TEXT,
+        last_enrichment_attempt TIMESTAMP,
+        enrichment_failure_count INTEGER DEFAULT 0,
+        enrichment_failure_reason TEXT,
+        exportable BOOLEAN DEFAULT false
+      );
+
+      CREATE TABLE IF NOT EXISTS zip_searches (
+        id SERIAL PRIMARY KEY,
+        zip_code TEXT NOT NULL,
+        searched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        result_count INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS county_searches (
+        id SERIAL PRIMARY KEY,
+        county_geoid TEXT NOT NULL,
+        county_name TEXT NOT NULL,
+        state TEXT NOT NULL,
+        searched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        result_count INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_zip_code ON resources(zip_code);
+      CREATE INDEX IF NOT EXISTS idx_county_geoid ON resources(county_geoid);
+      CREATE INDEX IF NOT EXISTS idx_location ON resources(latitude, longitude);
+      CREATE INDEX IF NOT EXISTS idx_location_type ON resources(location_type);
+    `,
+    down: `
+      DROP TABLE IF EXISTS county_searches;
+      DROP TABLE IF EXISTS zip_searches;
+      DROP TABLE IF EXISTS resources;
+    `,
+  },
+  {
+    version: 2,
+    name: "add_social_media_columns",
+    up: `
+      ALTER TABLE resources
+        ADD COLUMN IF NOT EXISTS url_facebook TEXT,
+        ADD COLUMN IF NOT EXISTS url_twitter TEXT,
+        ADD COLUMN IF NOT EXISTS url_instagram TEXT,
+        ADD COLUMN IF NOT EXISTS url_youtube TEXT;
+    `,
+    down: `
+      ALTER TABLE resources
+        DROP COLUMN IF EXISTS url_facebook,
+        DROP COLUMN IF EXISTS url_twitter,
+        DROP COLUMN IF EXISTS url_instagram,
+        DROP COLUMN IF EXISTS url_youtube;
+    `,
+  },
+  {
+    version: 3,
+    name: "add_amenity_columns",
+    up: `
+      ALTER TABLE resources
+        ADD COLUMN IF NOT EXISTS wheelchair_accessible BOOLEAN,
+        ADD COLUMN IF NOT EXISTS has_curbside_pickup BOOLEAN,
+        ADD COLUMN IF NOT EXISTS has_delivery BOOLEAN,
+        ADD COLUMN IF NOT EXISTS has_takeout BOOLEAN,
+        ADD COLUMN IF NOT EXISTS editorial_summary TEXT;
+    `,
+    down: `
+      ALTER TABLE resources
+        DROP COLUMN IF EXISTS wheelchair_accessible,
+        DROP COLUMN IF EXISTS has_curbside_pickup,
+        DROP COLUMN IF EXISTS has_delivery,
+        DROP COLUMN IF EXISTS has_takeout,
+        DROP COLUMN IF EXISTS editorial_summary;
+    `,
+  },
+  {
+    version: 4,
+    name: "unique_county_searches_geoid",
+    up: `
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'county_searches_county_geoid_key'
+        ) THEN
+          -- Keep the most recent search for each county before adding the constraint
+          DELETE FROM county_searches
+          WHERE id NOT IN (
+            SELECT MAX(id) FROM county_searches GROUP BY county_geoid
+          );
+
+          ALTER TABLE county_searches
+            ADD CONSTRAINT county_searches_county_geoid_key UNIQUE (county_geoid);
+        END IF;
+      END $$;
+    `,
+    down: `
+      ALTER TABLE county_searches DROP CONSTRAINT IF EXISTS county_searches_county_geoid_key;
+    `,
+  },
+  {
+    version: 5,
+    name: "add_hours_schedule",
+    up: `
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS hours_schedule JSONB;
+    `,
+    down: `
+      ALTER TABLE resources DROP COLUMN IF EXISTS hours_schedule;
+    `,
+  },
+  {
+    version: 6,
+    name: "add_resource_query_indexes",
+    up: `
+      CREATE INDEX IF NOT EXISTS idx_state ON resources(state);
+      CREATE INDEX IF NOT EXISTS idx_created_at_id ON resources(created_at, id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_created_at_id;
+      DROP INDEX IF EXISTS idx_state;
+    `,
+  },
+  {
+    version: 7,
+    name: "create_resource_changes",
+    up: `
+      CREATE TABLE IF NOT EXISTS resource_changes (
+        id SERIAL PRIMARY KEY,
+        resource_id INTEGER NOT NULL,
+        field TEXT NOT NULL,
+        old_value JSONB,
+        new_value JSONB,
+        source TEXT NOT NULL,
+        changed_by TEXT NOT NULL,
+        changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_resource_changes_resource ON resource_changes(resource_id, changed_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS resource_changes;
+    `,
+  },
+  {
+    version: 8,
+    name: "create_crawl_jobs",
+    up: `
+      CREATE TABLE IF NOT EXISTS crawl_jobs (
+        id SERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        county_geoid TEXT NOT NULL,
+        county_name TEXT NOT NULL,
+        state TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        lease_owner TEXT,
+        lease_expires_at TIMESTAMP,
+        cancel_requested BOOLEAN NOT NULL DEFAULT false,
+        progress JSONB NOT NULL DEFAULT '[]'::jsonb,
+        result JSONB,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_crawl_jobs_claim ON crawl_jobs(status, run_after);
+
+      -- At most one queued or running job per county and crawl type
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_crawl_jobs_active_county
+        ON crawl_jobs(type, county_geoid)
+        WHERE status IN ('queued', 'running');
+    `,
+    down: `
+      DROP TABLE IF EXISTS crawl_jobs;
+    `,
+  },
+  {
+    version: 9,
+    name: "create_duplicate_review_tables",
+    up: `
+      CREATE TABLE IF NOT EXISTS duplicate_candidates (
+        id SERIAL PRIMARY KEY,
+        resource_a_id INTEGER NOT NULL,
+        resource_b_id INTEGER NOT NULL,
+        score DOUBLE PRECISION NOT NULL,
+        signals JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        reviewed_by TEXT,
+        reviewed_at TIMESTAMP,
+        UNIQUE (resource_a_id, resource_b_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_status ON duplicate_candidates(status, score DESC);
+
+      CREATE TABLE IF NOT EXISTS resource_merges (
+        id SERIAL PRIMARY KEY,
+        kept_id INTEGER NOT NULL,
+        merged_ids INTEGER[] NOT NULL,
+        field_sources JSONB NOT NULL,
+        score DOUBLE PRECISION,
+        merged_by TEXT NOT NULL,
+        merged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_resource_merges_kept ON resource_merges(kept_id);
+    `,
+    down: `
+      DROP TABLE IF EXISTS resource_merges;
+      DROP TABLE IF EXISTS duplicate_candidates;
+    `,
+  },
+  {
+    version: 10,
+    name: "track_resource_updates_and_deletions",
+    up: `
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP;
+      UPDATE resources SET updated_at = COALESCE(last_verified_at, created_at, CURRENT_TIMESTAMP)
+        WHERE updated_at IS NULL;
+      ALTER TABLE resources ALTER COLUMN updated_at SET DEFAULT CURRENT_TIMESTAMP;
+      ALTER TABLE resources ALTER COLUMN updated_at SET NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_resources_updated_at_id ON resources(updated_at, id);
+
+      -- Bump updated_at on every real change, whichever code path (API, worker, script) made it
+      CREATE OR REPLACE FUNCTION touch_resource_updated_at() RETURNS trigger AS $$
+      BEGIN
+        NEW.updated_at := CURRENT_TIMESTAMP;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS resources_touch_updated_at ON resources;
+      CREATE TRIGGER resources_touch_updated_at
+        BEFORE UPDATE ON resources
+        FOR EACH ROW
+        WHEN (OLD IS DISTINCT FROM NEW)
+        EXECUTE FUNCTION touch_resource_updated_at();
+
+      -- One row per deleted resource so the change feed can report deletions
+      CREATE TABLE IF NOT EXISTS resource_tombstones (
+        resource_id INTEGER PRIMARY KEY,
+        state TEXT,
+        county_geoid TEXT,
+        google_place_id TEXT,
+        was_exportable BOOLEAN,
+        deleted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_resource_tombstones_deleted_at ON resource_tombstones(deleted_at, resource_id);
+
+      CREATE OR REPLACE FUNCTION record_resource_tombstone() RETURNS trigger AS $$
+      BEGIN
+        INSERT INTO resource_tombstones (resource_id, state, county_geoid, google_place_id, was_exportable)
+        VALUES (OLD.id, OLD.state, OLD.county_geoid, OLD.google_place_id, OLD.exportable)
+        ON CONFLICT (resource_id) DO NOTHING;
+        RETURN OLD;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS resources_record_tombstone ON resources;
+      CREATE TRIGGER resources_record_tombstone
+        AFTER DELETE ON resources
+        FOR EACH ROW
+        EXECUTE FUNCTION record_resource_tombstone();
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS resources_record_tombstone ON resources;
+      DROP FUNCTION IF EXISTS record_resource_tombstone();
+      DROP TABLE IF EXISTS resource_tombstones;
+      DROP TRIGGER IF EXISTS resources_touch_updated_at ON resources;
+      DROP FUNCTION IF EXISTS touch_resource_updated_at();
+      DROP INDEX IF EXISTS idx_resources_updated_at_id;
+      ALTER TABLE resources DROP COLUMN IF EXISTS updated_at;
+    `,
+  },
+  {
+    version: 11,
+    name: "create_api_keys",
+    up: `
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL CHECK (role IN ('reader', 'curator', 'admin')),
+        rate_limit_per_minute INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS api_keys;
+    `,
+  },
+  {
+    version: 12,
+    name: "create_resource_sources",
+    up: `
+      CREATE TABLE IF NOT EXISTS resource_sources (
+        id SERIAL PRIMARY KEY,
+        resource_id INTEGER NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+        provider TEXT NOT NULL,
+        county_geoid TEXT,
+        external_id TEXT,
+        raw_payload JSONB,
+        times_seen INTEGER NOT NULL DEFAULT 1,
+        first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (resource_id, provider)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_resource_sources_provider ON resource_sources(provider, county_geoid);
+    `,
+    down: `
+      DROP TABLE IF EXISTS resource_sources;
+    `,
+  },
+  {
+    version: 13,
+    name: "create_api_usage",
+    up: `
+      CREATE TABLE IF NOT EXISTS api_usage (
+        id BIGSERIAL PRIMARY KEY,
+        provider TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        status INTEGER,
+        county_geoid TEXT,
+        resource_id INTEGER,
+        job_id INTEGER,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_usage_created ON api_usage(created_at, provider);
+      CREATE INDEX IF NOT EXISTS idx_api_usage_county ON api_usage(county_geoid, created_at);
+      CREATE INDEX IF NOT EXISTS idx_api_usage_resource ON api_usage(resource_id) WHERE resource_id IS NOT NULL;
+    `,
+    down: `
+      DROP TABLE IF EXISTS api_usage;
+    `,
+  },
+  {
+    version: 14,
+    name: "create_provider_rate_limits",
+    up: `
+      CREATE TABLE IF NOT EXISTS provider_rate_limits (
+        bucket TEXT PRIMARY KEY,
+        tokens DOUBLE PRECISION NOT NULL,
+        refilled_at TIMESTAMP NOT NULL,
+        blocked_until TIMESTAMP
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS provider_rate_limits;
+    `,
+  },
+  {
+    version: 15,
+    name: "create_rejected_candidates",
+    up: `
+      CREATE TABLE IF NOT EXISTS rejected_candidates (
+        id SERIAL PRIMARY KEY,
+        fingerprint TEXT NOT NULL UNIQUE,
+        stage TEXT NOT NULL,
+        rule TEXT NOT NULL,
+        detail TEXT,
+        name TEXT,
+        address TEXT,
+        source_url TEXT,
+        google_place_id TEXT,
+        candidate JSONB NOT NULL,
+        county_geoid TEXT,
+        resource_id INTEGER REFERENCES resources(id) ON DELETE SET NULL,
+        correlation_id TEXT,
+        status TEXT NOT NULL DEFAULT 'rejected' CHECK (status IN ('rejected', 'rescued')),
+        times_seen INTEGER NOT NULL DEFAULT 1,
+        first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        rescued_by TEXT,
+        rescued_at TIMESTAMP,
+        rescued_resource_id INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rejected_candidates_rule ON rejected_candidates(status, stage, rule);
+      CREATE INDEX IF NOT EXISTS idx_rejected_candidates_county ON rejected_candidates(county_geoid, last_seen_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS rejected_candidates;
+    `,
+  },
+  {
+    version: 16,
+    name: "create_filter_rules",
+    up: `
+      CREATE TABLE IF NOT EXISTS filter_rules (
+        id SERIAL PRIMARY KEY,
+        key TEXT NOT NULL UNIQUE,
+        action TEXT NOT NULL CHECK (action IN ('deny', 'allow', 'flag')),
+        scope TEXT NOT NULL CHECK (scope IN ('name', 'text', 'domain', 'url', 'google_type')),
+        pattern TEXT NOT NULL,
+        state TEXT,
+        signal TEXT,
+        description TEXT,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        builtin BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_by TEXT
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS filter_rules;
+    `,
+  },
+  {
+    version: 17,
+    name: "track_reverification_and_county_traffic",
+    up: `
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS last_reverification_attempt TIMESTAMP;
+      CREATE INDEX IF NOT EXISTS idx_resources_last_verified_at ON resources(last_verified_at);
+
+      ALTER TABLE county_searches ADD COLUMN IF NOT EXISTS request_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE county_searches ADD COLUMN IF NOT EXISTS last_requested_at TIMESTAMP;
+    `,
+    down: `
+      ALTER TABLE county_searches DROP COLUMN IF EXISTS last_requested_at;
+      ALTER TABLE county_searches DROP COLUMN IF EXISTS request_count;
+      DROP INDEX IF EXISTS idx_resources_last_verified_at;
+      ALTER TABLE resources DROP COLUMN IF EXISTS last_reverification_attempt;
+    `,
+  },
+  {
+    version: 18,
+    name: "add_quality_score",
+    up: `
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS verification_signals JSONB NOT NULL DEFAULT '{}';
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS quality_score INTEGER;
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS quality_breakdown JSONB;
+      CREATE INDEX IF NOT EXISTS idx_resources_quality_score ON resources(quality_score);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_resources_quality_score;
+      ALTER TABLE resources DROP COLUMN IF EXISTS quality_breakdown;
+      ALTER TABLE resources DROP COLUMN IF EXISTS quality_score;
+      ALTER TABLE resources DROP COLUMN IF EXISTS verification_signals;
+    `,
+  },
+  {
+    version: 19,
+    name: "add_address_components",
+    up: `
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS street_line1 TEXT;
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS street_line2 TEXT;
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS zip5 TEXT;
+      ALTER TABLE resources ADD COLUMN IF NOT EXISTS zip4 TEXT;
+      CREATE INDEX IF NOT EXISTS idx_resources_street_zip ON resources(street_line1, zip5);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_resources_street_zip;
+      ALTER TABLE resources DROP COLUMN IF EXISTS zip4;
+      ALTER TABLE resources DROP COLUMN IF EXISTS zip5;
+      ALTER TABLE resources DROP COLUMN IF EXISTS street_line2;
+      ALTER TABLE resources DROP COLUMN IF EXISTS street_line1;
+    `,
+  },
+  {
+    version: 20,
+    name: "create_places_saturated_tiles",
+    up: `
+      CREATE TABLE IF NOT EXISTS places_saturated_tiles (
+        id SERIAL PRIMARY KEY,
+        county_geoid TEXT NOT NULL,
+        query TEXT NOT NULL,
+        min_latitude DOUBLE PRECISION NOT NULL,
+        max_latitude DOUBLE PRECISION NOT NULL,
+        min_longitude DOUBLE PRECISION NOT NULL,
+        max_longitude DOUBLE PRECISION NOT NULL,
+        result_count INTEGER NOT NULL,
+        times_seen INTEGER NOT NULL DEFAULT 1,
+        first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (county_geoid, query, min_latitude, max_latitude, min_longitude, max_longitude)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_places_saturated_tiles_county ON places_saturated_tiles(county_geoid, last_seen_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS places_saturated_tiles;
+    `,
+  },
+  {
+    version: 21,
+    name: "ignore_bookkeeping_in_updated_at",
+    up: `
+      -- Claiming a row for enrichment or re-verification isn't a change the export feed should report
+      DROP TRIGGER IF EXISTS resources_touch_updated_at ON resources;
+      CREATE TRIGGER resources_touch_updated_at
+        BEFORE UPDATE ON resources
+        FOR EACH ROW
+        WHEN (
+          to_jsonb(OLD) - ARRAY['last_enrichment_attempt', 'last_reverification_attempt', 'enrichment_failure_count', 'enrichment_failure_reason']
+          IS DISTINCT FROM
+          to_jsonb(NEW) - ARRAY['last_enrichment_attempt', 'last_reverification_attempt', 'enrichment_failure_count', 'enrichment_failure_reason']
+        )
+        EXECUTE FUNCTION touch_resource_updated_at();
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS resources_touch_updated_at ON resources;
+      CREATE TRIGGER resources_touch_updated_at
+        BEFORE UPDATE ON resources
+        FOR EACH ROW
+        WHEN (OLD IS DISTINCT FROM NEW)
+        EXECUTE FUNCTION touch_resource_updated_at();
+    `,
+  },
+];
@@ -0,0 +1,92 @@
+// ABOUTME: Tests for resource change diffing and edit payload validation
+// ABOUTME: Covers which fields produce audit rows, rejected request bodies and joining a caller's transaction
+
+import { test, expect, describe } from "bun:test";
+import type { Database, Transaction } from "./database";
+import { deleteResources, diffResource, parseResourceUpdate } from "./resource-changes";
+
+describe("diffResource", () => {
+  const current = {
+    name: "Abington Food Pantry",
+    address: "1 Main St",
+    phone: "215-555-0100",
+    exportable: true,
+    latitude: 40.1,
+  };
+
+  test("reports only fields whose value changes", () => {
+    expect(
+      diffResource(current, { name: "Abington Food Pantry", phone: "215-555-0199", exportable: false })
+    ).toEqual([
+      { field: "phone", old_value: "215-555-0100", new_value: "215-555-0199" },
+      { field: "exportable", old_value: true, new_value: false },
+    ]);
+  });
+
+  test("treats null as clearing a field and undefined as untouched", () => {
+    expect(diffResource(current, { phone: null, latitude: undefined })).toEqual([
+      { field: "phone", old_value: "215-555-0100", new_value: null },
+    ]);
+  });
+
+  test("does not audit bookkeeping fields", () => {
+    expect(diffResource(current, { needs_enrichment: false, enrichment_failure_count: 2 })).toEqual([]);
+  });
+});
+
+describe("parseResourceUpdate", () => {
+  test("accepts editable fields with the right types", () => {
+    const body = { name: "New Name", latitude: 40.2, has_delivery: true, phone: null };
+    expect(parseResourceUpdate(body)).toEqual({ updates: body });
+  });
+
+  test("rejects unknown and non-editable fields", () => {
+    expect(parseResourceUpdate({ id: 5, created_at: "x" }).error).toBe("Fields not editable: id, created_at");
+  });
+
+  test("rejects wrong value types", () => {
+    expect(parseResourceUpdate({ latitude: "40.2" }).error).toContain("latitude");
+    expect(parseResourceUpdate({ exportable: "yes" }).error).toContain("exportable");
+    expect(parseResourceUpdate({ phone: 2155550100 }).error).toContain("phone");
+    expect(parseResourceUpdate({ type: "church" }).error).toContain("type");
+    expect(parseResourceUpdate({ name: "" }).error).toContain("name");
+    expect(parseResourceUpdate([]).error).toContain("JSON object");
+  });
+});
+
+describe("deleteResources", () => {
+  function fakeDb() {
+    const statements: string[] = [];
+    const tx = Object.assign(
+      (strings: TemplateStringsArray) => {
+        statements.push(strings.join("?").trim().split(/\s+/)[0]!);
+        return Promise.resolve(strings[0]!.includes("DELETE") ? [{ id: 3 }] : []);
+      },
+      { savepoint: () => Promise.reject(new Error("unexpected savepoint")) }
+    ) as unknown as Transaction;
+    let begun = 0;
+    const db = Object.assign(() => Promise.reject(new Error("query outside the transaction")), {
+      begin: (fn: (tx: Transaction) => Promise<unknown>) => {
+        begun++;
+        return fn(tx);
+      },
+    }) as unknown as Database;
+    return { db, tx, statements, begun: () => begun };
+  }
+
+  const context = { source: "manual" as const, changedBy: "test" };
+
+  test("opens a transaction for a plain connection", async () => {
+    const { db, statements, begun } = fakeDb();
+    expect(await deleteResources(db, [3], context)).toEqual([3]);
+    expect(begun()).toBe(1);
+    expect(statements).toEqual(["DELETE", "INSERT"]);
+  });
+
+  test("joins the caller's transaction instead of opening its own", async () => {
+    const { tx, statements, begun } = fakeDb();
+    expect(await deleteResources(tx, [3], context)).toEqual([3]);
+    expect(begun()).toBe(0);
+    expect(statements).toEqual(["DELETE", "INSERT"]);
+  });
+});
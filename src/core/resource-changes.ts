@@ -0,0 +1,341 @@
+// ABOUTME: Audited create/update/delete operations for resources
+// ABOUTME: Records every field change in resource_changes with who made it and the source
+
+import { inTransaction, type Database, type Transaction, type FoodResource, type ResourceChange, type ChangeSource } from "./database";
+import { hoursScheduleJson } from "../utils/opening-hours";
+import { addressColumns, parseAddress } from "../utils/address";
+import { qualityColumns } from "../validation/quality-score";
+import { locateUpdate, locationUpdates, type LocatedPoint } from "./county-assignment";
+
+export interface ChangeContext {
+  source: ChangeSource;
+  changedBy: string;
+}
+
+// Content fields whose changes are written to resource_changes
+export const AUDITED_FIELDS = [
+  "name",
+  "address",
+  "city",
+  "state",
+  "zip_code",
+  "county_name",
+  "county_geoid",
+  "location_type",
+  "latitude",
+  "longitude",
+  "type",
+  "phone",
+  "hours",
+  "rating",
+  "wait_time_minutes",
+  "eligibility_requirements",
+  "services_offered",
+  "languages_spoken",
+  "accessibility_notes",
+  "notes",
+  "is_verified",
+  "verification_notes",
+  "source_url",
+  "url_facebook",
+  "url_twitter",
+  "url_instagram",
+  "url_youtube",
+  "wheelchair_accessible",
+  "has_curbside_pickup",
+  "has_delivery",
+  "has_takeout",
+  "editorial_summary",
+  "google_place_id",
+  "exportable",
+] as const satisfies ReadonlyArray<keyof FoodResource>;
+
+// Pipeline bookkeeping columns: writable, but not worth an audit row each time
+const BOOKKEEPING_FIELDS = [
+  "needs_enrichment",
+  "last_enrichment_attempt",
+  "enrichment_failure_count",
+  "enrichment_failure_reason",
+  "last_verified_at",
+  "last_reverification_attempt",
+  "verification_signals",
+] as const satisfies ReadonlyArray<keyof FoodResource>;
+
+// Fields the public API may set on POST /resources and PATCH /resources/:id
+export const EDITABLE_FIELDS: ReadonlyArray<keyof FoodResource> = [...AUDITED_FIELDS, "needs_enrichment"];
+
+const WRITABLE_FIELDS = new Set<string>([...AUDITED_FIELDS, ...BOOKKEEPING_FIELDS]);
+
+type WritableField = (typeof AUDITED_FIELDS)[number] | (typeof BOOKKEEPING_FIELDS)[number];
+
+// Fields set to null are cleared; fields left undefined are not touched
+export type ResourceUpdate = { [K in WritableField]?: FoodResource[K] | null };
+
+const NUMBER_FIELDS = new Set<string>(["latitude", "longitude", "rating", "wait_time_minutes"]);
+const BOOLEAN_FIELDS = new Set<string>([
+  "is_verified",
+  "wheelchair_accessible",
+  "has_curbside_pickup",
+  "has_delivery",
+  "has_takeout",
+  "exportable",
+  "needs_enrichment",
+]);
+
+/**
+ * Validate a JSON request body for POST /resources or PATCH /resources/:id
+ */
+export function parseResourceUpdate(body: unknown): { updates?: ResourceUpdate; error?: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const unknownFields = Object.keys(body).filter((field) => !EDITABLE_FIELDS.includes(field as keyof FoodResource));
+  if (unknownFields.length > 0) {
+    return { error: `Fields not editable: ${unknownFields.join(", ")}` };
+  }
+
+  for (const [field, value] of Object.entries(body)) {
+    if (value === null) continue;
+    if (NUMBER_FIELDS.has(field)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) return { error: `${field} must be a number` };
+    } else if (BOOLEAN_FIELDS.has(field)) {
+      if (typeof value !== "boolean") return { error: `${field} must be true or false` };
+    } else if (typeof value !== "string") {
+      return { error: `${field} must be a string` };
+    }
+  }
+
+  const updates = body as ResourceUpdate;
+  if (updates.type != null && !["pantry", "bank", "mixed"].includes(updates.type)) {
+    return { error: "type must be pantry, bank, or mixed" };
+  }
+  if (updates.location_type != null && updates.location_type !== "zip" && updates.location_type !== "county") {
+    return { error: "location_type must be zip or county" };
+  }
+  for (const field of ["name", "address", "type"] as const) {
+    if (field in updates && !updates[field]) return { error: `${field} cannot be empty` };
+  }
+
+  return { updates };
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function toJson(value: unknown): string | null {
+  const normalized = normalizeValue(value);
+  return normalized === null ? null : JSON.stringify(normalized);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+const ADDRESS_FIELDS = ["address", "city", "state", "zip_code"] as const;
+
+/**
+ * Fill empty city, state and zip_code from the address text when the address changes, so
+ * "1 Main St, Abington, PA 19001" also lands in the structured columns
+ */
+function withAddressParts(current: Partial<FoodResource>, updates: ResourceUpdate): ResourceUpdate {
+  if (updates.address == null) return updates;
+  const next = { ...current, ...updates };
+  const parsed = parseAddress(updates.address, next);
+  const filled: ResourceUpdate = { ...updates };
+  if (!next.city && parsed.city) filled.city = parsed.city;
+  if (!next.state && parsed.state) filled.state = parsed.state;
+  if (!next.zip_code && parsed.zip5) filled.zip_code = parsed.zip5;
+  return filled;
+}
+
+/**
+ * Address parts, then the county (and a missing ZIP) found at new coordinates, so a ZIP
+ * from the address text wins over the one from the boundary lookup
+ */
+async function withDerivedFields(
+  current: Partial<FoodResource>,
+  updates: ResourceUpdate,
+  located: LocatedPoint | null = null
+): Promise<ResourceUpdate> {
+  const filled = withAddressParts(current, updates);
+  return { ...filled, ...(await locationUpdates(current, filled, located)) };
+}
+
+/**
+ * Keep only known writable columns, derive hours_schedule when hours change and the
+ * standardized street lines and ZIP+4 when any address field changes
+ */
+function toColumnValues(updates: ResourceUpdate, current: Partial<FoodResource> = {}): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(updates)) {
+    if (WRITABLE_FIELDS.has(field) && value !== undefined) {
+      values[field] = value;
+    }
+  }
+  if ("hours" in values) {
+    values.hours_schedule = hoursScheduleJson(values.hours as string | null);
+  }
+  if (ADDRESS_FIELDS.some((field) => field in values)) {
+    Object.assign(values, addressColumns({ ...current, ...values }));
+  }
+  return values;
+}
+
+/**
+ * Merge the update's verification signals into the row's (null clears them) and rescore the row
+ * as it will be after the update, so quality_score never lags behind its signals
+ */
+function withQualityScore(
+  current: Partial<FoodResource>,
+  updates: ResourceUpdate,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const signals = updates.verification_signals === null
+    ? {}
+    : { ...current.verification_signals, ...updates.verification_signals };
+  const next = { ...current, ...values, verification_signals: signals } as FoodResource;
+  return {
+    ...values,
+    ...(updates.verification_signals !== undefined ? { verification_signals: JSON.stringify(signals) } : {}),
+    ...qualityColumns(next),
+  };
+}
+
+/**
+ * Fields in the update that differ from the current row, as audit rows
+ */
+export function diffResource(
+  current: Partial<FoodResource>,
+  updates: ResourceUpdate
+): Array<{ field: string; old_value: unknown; new_value: unknown }> {
+  const changes = [];
+  for (const field of AUDITED_FIELDS) {
+    if (!(field in updates) || updates[field] === undefined) continue;
+    if (!isSameValue(current[field], updates[field])) {
+      changes.push({ field, old_value: current[field] ?? null, new_value: updates[field] ?? null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Update a resource and record changed fields, in db's transaction if it is one.
+ * Returns the updated row, or null if the resource doesn't exist.
+ */
+export async function updateResource(
+  db: Database | Transaction,
+  id: number,
+  updates: ResourceUpdate,
+  context: ChangeContext
+): Promise<FoodResource | null> {
+  // Locate new coordinates before taking the row lock; the lookup is only redone under the
+  // lock if the row's coordinates changed in between
+  const [unlocked] = await db<FoodResource[]>`SELECT latitude, longitude FROM resources WHERE id = ${id}`;
+  if (!unlocked) return null;
+  const located = await locateUpdate(unlocked, updates);
+
+  return inTransaction(db, async (tx) => {
+    const [current] = await tx<FoodResource[]>`
+      SELECT * FROM resources WHERE id = ${id} FOR UPDATE
+    `;
+    if (!current) return null;
+    const filled = await withDerivedFields(current, updates, located);
+    const values = toColumnValues(filled, current);
+    if (Object.keys(values).length === 0) return current;
+
+    const [updated] = await tx<FoodResource[]>`
+      UPDATE resources SET ${tx(withQualityScore(current, filled, values))}
+      WHERE id = ${id}
+      RETURNING *
+    `;
+
+    const changes = diffResource(current, filled);
+    for (const change of changes) {
+      await tx`
+        INSERT INTO resource_changes (resource_id, field, old_value, new_value, source, changed_by)
+        VALUES (
+          ${id},
+          ${change.field},
+          ${toJson(change.old_value)},
+          ${toJson(change.new_value)},
+          ${context.source},
+          ${context.changedBy}
+        )
+      `;
+    }
+
+    return updated!;
+  });
+}
+
+/**
+ * Insert a resource and record its creation with the full initial row, in db's transaction if it is one
+ */
+export async function createResource(
+  db: Database | Transaction,
+  data: ResourceUpdate,
+  context: ChangeContext
+): Promise<FoodResource> {
+  const filled = await withDerivedFields({}, data);
+  const values = toColumnValues(filled);
+
+  return inTransaction(db, async (tx) => {
+    const [created] = await tx<FoodResource[]>`
+      INSERT INTO resources ${tx(withQualityScore({}, filled, values))}
+      RETURNING *
+    `;
+
+    await tx`
+      INSERT INTO resource_changes (resource_id, field, old_value, new_value, source, changed_by)
+      VALUES (${created!.id!}, ${"created"}, ${null}, ${toJson(created)}, ${context.source}, ${context.changedBy})
+    `;
+
+    return created!;
+  });
+}
+
+/**
+ * Delete resources, keeping a snapshot of each deleted row in resource_changes, in db's
+ * transaction if it is one. Returns the ids that were actually deleted.
+ */
+export async function deleteResources(
+  db: Database | Transaction,
+  ids: number[],
+  context: ChangeContext
+): Promise<number[]> {
+  if (ids.length === 0) return [];
+
+  return inTransaction(db, async (tx) => {
+    const deleted = await tx<FoodResource[]>`
+      DELETE FROM resources
+      WHERE id = ANY(${ids})
+      RETURNING *
+    `;
+
+    for (const row of deleted) {
+      await tx`
+        INSERT INTO resource_changes (resource_id, field, old_value, new_value, source, changed_by)
+        VALUES (${row.id!}, ${"deleted"}, ${toJson(row)}, ${null}, ${context.source}, ${context.changedBy})
+      `;
+    }
+
+    return deleted.map((row) => row.id!);
+  });
+}
+
+export async function getResourceChanges(
+  db: Database,
+  resourceId: number,
+  limit: number = 100
+): Promise<ResourceChange[]> {
+  return await db<ResourceChange[]>`
+    SELECT * FROM resource_changes
+    WHERE resource_id = ${resourceId}
+    ORDER BY changed_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+}
@@ -0,0 +1,84 @@
+// ABOUTME: Tests for /resources query parameter parsing and cursor encoding
+// ABOUTME: Validates filters, sort options, limits and cursor round-trips
+
+import { test, expect, describe } from "bun:test";
+import { parseResourceQuery, encodeCursor, decodeCursor, DEFAULT_PAGE_SIZE } from "./resource-query";
+
+describe("parseResourceQuery", () => {
+  test("applies defaults when no parameters are given", () => {
+    const { query, error } = parseResourceQuery(new URLSearchParams());
+    expect(error).toBeUndefined();
+    expect(query).toEqual({
+      filters: {},
+      sort: "id",
+      order: "asc",
+      limit: DEFAULT_PAGE_SIZE,
+      cursor: undefined,
+    });
+  });
+
+  test("parses all supported filters", () => {
+    const { query } = parseResourceQuery(
+      new URLSearchParams(
+        "state=pa&county_geoid=42091&zip=19046&type=pantry&exportable=true&is_verified=false&has_delivery=true&wheelchair_accessible=true&enrichment_status=pending"
+      )
+    );
+    expect(query?.filters).toEqual({
+      state: "PA",
+      county_geoid: "42091",
+      zip: "19046",
+      type: "pantry",
+      exportable: true,
+      is_verified: false,
+      has_delivery: true,
+      wheelchair_accessible: true,
+      enrichment_status: "pending",
+    });
+  });
+
+  test("rejects invalid values", () => {
+    expect(parseResourceQuery(new URLSearchParams("type=church")).error).toContain("type");
+    expect(parseResourceQuery(new URLSearchParams("exportable=yes")).error).toContain("exportable");
+    expect(parseResourceQuery(new URLSearchParams("enrichment_status=done")).error).toContain("enrichment_status");
+    expect(parseResourceQuery(new URLSearchParams("sort=phone")).error).toContain("sort");
+    expect(parseResourceQuery(new URLSearchParams("order=up")).error).toContain("order");
+    expect(parseResourceQuery(new URLSearchParams("limit=0")).error).toContain("limit");
+    expect(parseResourceQuery(new URLSearchParams("limit=5000")).error).toContain("limit");
+    expect(parseResourceQuery(new URLSearchParams("zip=1234")).error).toContain("zip");
+    expect(parseResourceQuery(new URLSearchParams("cursor=garbage")).error).toContain("cursor");
+  });
+
+  test("accepts a cursor produced by encodeCursor", () => {
+    const cursor = encodeCursor({ sort: "created_at", order: "desc", value: "2025-01-01T00:00:00.123456", id: 42 });
+    const { query } = parseResourceQuery(new URLSearchParams({ cursor, sort: "created_at", order: "desc" }));
+    expect(query?.cursor).toEqual({ sort: "created_at", order: "desc", value: "2025-01-01T00:00:00.123456", id: 42 });
+    expect(query?.sort).toBe("created_at");
+    expect(query?.order).toBe("desc");
+  });
+
+  test("rejects a cursor issued for another sort or order", () => {
+    const cursor = encodeCursor({ sort: "name", order: "asc", value: "Food Bank", id: 7 });
+    expect(parseResourceQuery(new URLSearchParams({ cursor, sort: "created_at" })).error)
+      .toBe("cursor was issued for sort=name&order=asc");
+    expect(parseResourceQuery(new URLSearchParams({ cursor, sort: "name", order: "desc" })).error)
+      .toBe("cursor was issued for sort=name&order=asc");
+    expect(parseResourceQuery(new URLSearchParams({ cursor, sort: "name" })).error).toBeUndefined();
+  });
+});
+
+describe("cursor encoding", () => {
+  test("round-trips numeric and string values", () => {
+    expect(decodeCursor(encodeCursor({ sort: "id", order: "asc", value: 10, id: 10 })))
+      .toEqual({ sort: "id", order: "asc", value: 10, id: 10 });
+    expect(decodeCursor(encodeCursor({ sort: "name", order: "desc", value: "Food Bank", id: 7 })))
+      .toEqual({ sort: "name", order: "desc", value: "Food Bank", id: 7 });
+  });
+
+  test("rejects malformed cursors", () => {
+    expect(decodeCursor("not-base64-json")).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ id: 1 })).toString("base64url"))).toBeNull();
+    // Cursors from before the sort was encoded
+    expect(decodeCursor(Buffer.from(JSON.stringify(["Food Bank", 7])).toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify(["phone", "asc", "x", 7])).toString("base64url"))).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+// ABOUTME: Filterable, cursor-paginated queries over the resources table
+// ABOUTME: Parses /resources query parameters and builds keyset-paginated SQL
+
+import type { Database, FoodResource } from "./database";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export const SORT_FIELDS = ["id", "created_at", "name"] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export const ENRICHMENT_STATUSES = ["enriched", "pending", "failed", "permanently_failed"] as const;
+export type EnrichmentStatus = (typeof ENRICHMENT_STATUSES)[number];
+
+export interface ResourceFilters {
+  state?: string;
+  county_geoid?: string;
+  zip?: string;
+  type?: FoodResource["type"];
+  exportable?: boolean;
+  is_verified?: boolean;
+  has_delivery?: boolean;
+  wheelchair_accessible?: boolean;
+  enrichment_status?: EnrichmentStatus;
+}
+
+export interface ResourceQuery {
+  filters: ResourceFilters;
+  sort: SortField;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: Cursor;
+}
+
+// Keyset position: the last row's sort value and id
+export interface Position {
+  value: string | number;
+  id: number;
+}
+
+// The sort a cursor was issued for travels with it, so a cursor can't be replayed
+// against a column its value doesn't belong to
+export interface Cursor extends Position {
+  sort: SortField;
+  order: "asc" | "desc";
+}
+
+export interface ResourcePage {
+  resources: FoodResource[];
+  count: number;
+  next_cursor: string | null;
+}
+
+export function encodePosition(position: Position): string {
+  return Buffer.from(JSON.stringify([position.value, position.id])).toString("base64url");
+}
+
+export function decodePosition(encoded: string): Position | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 2 ||
+      (typeof decoded[0] !== "string" && typeof decoded[0] !== "number") ||
+      typeof decoded[1] !== "number"
+    ) {
+      return null;
+    }
+    return { value: decoded[0], id: decoded[1] };
+  } catch {
+    return null;
+  }
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(encoded: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 4 ||
+      !SORT_FIELDS.includes(decoded[0]) ||
+      (decoded[1] !== "asc" && decoded[1] !== "desc") ||
+      (typeof decoded[2] !== "string" && typeof decoded[2] !== "number") ||
+      typeof decoded[3] !== "number"
+    ) {
+      return null;
+    }
+    return { sort: decoded[0], order: decoded[1], value: decoded[2], id: decoded[3] };
+  } catch {
+    return null;
+  }
+}
+
+function parseBoolean(value: string | null): boolean | undefined | "invalid" {
+  if (value === null) return undefined;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return "invalid";
+}
+
+/**
+ * Parse and validate /resources query parameters
+ */
+export function parseResourceQuery(
+  params: URLSearchParams
+): { query?: ResourceQuery; error?: string } {
+  const filters: ResourceFilters = {};
+
+  const state = params.get("state");
+  if (state) filters.state = state.toUpperCase();
+
+  const countyGeoid = params.get("county_geoid");
+  if (countyGeoid) filters.county_geoid = countyGeoid;
+
+  const zip = params.get("zip");
+  if (zip) {
+    if (!/^\d{5}$/.test(zip)) return { error: "zip must be a 5-digit number" };
+    filters.zip = zip;
+  }
+
+  const type = params.get("type");
+  if (type) {
+    if (type !== "pantry" && type !== "bank" && type !== "mixed") {
+      return { error: "type must be pantry, bank, or mixed" };
+    }
+    filters.type = type;
+  }
+
+  for (const key of ["exportable", "is_verified", "has_delivery", "wheelchair_accessible"] as const) {
+    const value = parseBoolean(params.get(key));
+    if (value === "invalid") return { error: `${key} must be true or false` };
+    if (value !== undefined) filters[key] = value;
+  }
+
+  const enrichmentStatus = params.get("enrichment_status");
+  if (enrichmentStatus) {
+    if (!ENRICHMENT_STATUSES.includes(enrichmentStatus as EnrichmentStatus)) {
+      return { error: `enrichment_status must be one of: ${ENRICHMENT_STATUSES.join(", ")}` };
+    }
+    filters.enrichment_status = enrichmentStatus as EnrichmentStatus;
+  }
+
+  const sort = params.get("sort") || "id";
+  if (!SORT_FIELDS.includes(sort as SortField)) {
+    return { error: `sort must be one of: ${SORT_FIELDS.join(", ")}` };
+  }
+
+  const order = params.get("order") || "asc";
+  if (order !== "asc" && order !== "desc") {
+    return { error: "order must be asc or desc" };
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? parseInt(limitParam) : DEFAULT_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  let cursor: Cursor | undefined;
+  const cursorParam = params.get("cursor");
+  if (cursorParam) {
+    const decoded = decodeCursor(cursorParam);
+    if (!decoded) return { error: "cursor is invalid" };
+    if (decoded.sort !== sort || decoded.order !== order) {
+      return { error: `cursor was issued for sort=${decoded.sort}&order=${decoded.order}` };
+    }
+    cursor = decoded;
+  }
+
+  return {
+    query: { filters, sort: sort as SortField, order, limit, cursor },
+  };
+}
+
+/**
+ * Fetch one page of resources using keyset pagination on (sort column, id),
+ * so deep pages cost the same as the first one
+ */
+export async function queryResources(
+  db: Database,
+  query: ResourceQuery
+): Promise<ResourcePage> {
+  const { filters, sort, order, limit, cursor } = query;
+  const conditions = [];
+
+  if (filters.state) conditions.push(db`state = ${filters.state}`);
+  if (filters.county_geoid) conditions.push(db`county_geoid = ${filters.county_geoid}`);
+  if (filters.zip) conditions.push(db`zip_code = ${filters.zip}`);
+  if (filters.type) conditions.push(db`type = ${filters.type}`);
+  if (filters.exportable !== undefined) conditions.push(db`exportable = ${filters.exportable}`);
+  if (filters.is_verified !== undefined) conditions.push(db`is_verified = ${filters.is_verified}`);
+  if (filters.has_delivery !== undefined) conditions.push(db`has_delivery = ${filters.has_delivery}`);
+  if (filters.wheelchair_accessible !== undefined) {
+    conditions.push(db`wheelchair_accessible = ${filters.wheelchair_accessible}`);
+  }
+
+  // Same buckets as getEnrichmentStats in monitoring.ts
+  switch (filters.enrichment_status) {
+    case "enriched":
+      conditions.push(db`(needs_enrichment = false OR needs_enrichment IS NULL)`);
+      break;
+    case "pending":
+      conditions.push(db`
+        needs_enrichment = true
+        AND (enrichment_failure_count < 3 OR enrichment_failure_count IS NULL)
+        AND (enrichment_failure_reason IS NULL OR enrichment_failure_reason NOT LIKE '%Permanently closed%')
+      `);
+      break;
+    case "failed":
+      conditions.push(db`
+        needs_enrichment = true
+        AND enrichment_failure_count >= 1
+        AND enrichment_failure_count < 3
+      `);
+      break;
+    case "permanently_failed":
+      conditions.push(db`
+        (enrichment_failure_count >= 3 OR enrichment_failure_reason LIKE '%Permanently closed%')
+      `);
+      break;
+  }
+
+  if (cursor) {
+    conditions.push(
+      order === "asc"
+        ? db`(${db(sort)}, id) > (${cursor.value}, ${cursor.id})`
+        : db`(${db(sort)}, id) < (${cursor.value}, ${cursor.id})`
+    );
+  }
+
+  const where = conditions.length > 0
+    ? conditions.reduce((clause, condition) => db`${clause} AND ${condition}`)
+    : db`TRUE`;
+
+  const direction = order === "asc" ? db`ASC` : db`DESC`;
+
+  // created_at is rendered in SQL at full microsecond precision; a JS Date would drop the
+  // microseconds and be read back in the process's time zone
+  const cursorValue = sort === "created_at"
+    ? db`to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US')`
+    : db(sort);
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db<Array<FoodResource & { cursor_value: string | number }>>`
+    SELECT *, ${cursorValue} AS cursor_value FROM resources
+    WHERE ${where}
+    ORDER BY ${db(sort)} ${direction}, id ${direction}
+    LIMIT ${limit + 1}
+  `;
+
+  const resources = rows.slice(0, limit).map(({ cursor_value: _, ...resource }) => resource as FoodResource);
+  const hasMore = rows.length > limit;
+  const last = rows[resources.length - 1];
+
+  return {
+    resources,
+    count: resources.length,
+    next_cursor: hasMore && last
+      ? encodeCursor({ sort, order, value: last.cursor_value, id: last.id! })
+      : null,
+  };
+}
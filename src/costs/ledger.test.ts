@@ -0,0 +1,53 @@
+// ABOUTME: Tests for daily budget parsing and attributing API calls to counties and resources
+// ABOUTME: Captures ledger inserts with a fake tagged-template database
+
+import { test, expect, mock, afterEach } from "bun:test";
+import type { Database } from "../core/database";
+import { fixtureFetch } from "../utils/api-fixtures";
+import { withCallContext } from "../core/call-context";
+import { exceededBudgets, parseDailyBudgets, startCostLedger } from "./ledger";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+test("parses and validates daily budgets", () => {
+  expect(parseDailyBudgets(undefined)).toEqual({});
+  expect(parseDailyBudgets('{"google-places": 25, "total": 40}')).toEqual({ "google-places": 25, total: 40 });
+  expect(() => parseDailyBudgets('{"bing": 5}')).toThrow("not a provider");
+  expect(() => parseDailyBudgets('{"openai": -1}')).toThrow("non-negative");
+  expect(() => parseDailyBudgets("[]")).toThrow("JSON object");
+});
+
+test("reports which caps today's spend has reached", () => {
+  const spent = { "google-places": 25, openai: 3, jina: 0, total: 28 };
+  expect(exceededBudgets(spent, { "google-places": 25, openai: 10 })).toEqual(["google-places"]);
+  expect(exceededBudgets(spent, { total: 30 })).toEqual([]);
+  expect(exceededBudgets(spent, {})).toEqual([]);
+});
+
+test("records live calls with the county and resource they were made for", async () => {
+  const inserts: unknown[][] = [];
+  const db = ((_strings: TemplateStringsArray, ...values: unknown[]) => {
+    inserts.push(values);
+    return Promise.resolve([]);
+  }) as unknown as Database;
+
+  global.fetch = mock(async () => Response.json({ status: "OK" })) as unknown as typeof fetch;
+  const stop = startCostLedger(db);
+  try {
+    await withCallContext({ county_geoid: "42091", job_id: 7 }, () =>
+      withCallContext({ resource_id: 12 }, () =>
+        fixtureFetch("https://maps.googleapis.com/maps/api/geocode/json?address=x&key=secret")
+      )
+    );
+    await fixtureFetch("https://example.org/not-metered");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  } finally {
+    stop();
+  }
+
+  expect(inserts).toEqual([["google-places", "geocode", 200, "42091", 12, 7, null, null, 0.005]]);
+});
@@ -0,0 +1,213 @@
+// ABOUTME: Ledger of metered external API calls with per-county and per-resource attribution
+// ABOUTME: Enforces daily budget caps (API_DAILY_BUDGETS) that pause the enrichment and crawl workers
+
+import type { Database } from "../core/database";
+import { currentCallContext, type CallContext } from "../core/call-context";
+import { observeApiCalls, type LiveApiCall } from "../utils/api-fixtures";
+import { meterApiCall, type CostProvider } from "./pricing";
+import { createLogger } from "../utils/logger";
+
+const COST_PROVIDERS: CostProvider[] = ["google-places", "openai", "jina"];
+const BUDGET_CHECK_INTERVAL_MS = 30 * 1000;
+
+const log = createLogger("costs");
+
+async function recordApiCall(db: Database, call: LiveApiCall, context: CallContext): Promise<void> {
+  const metered = meterApiCall(call.url, await call.response.text());
+  if (!metered) return;
+
+  await db`
+    INSERT INTO api_usage (
+      provider, operation, status, county_geoid, resource_id, job_id, input_tokens, output_tokens, cost_usd
+    ) VALUES (
+      ${metered.provider},
+      ${metered.operation},
+      ${call.response.status},
+      ${context.county_geoid ?? null},
+      ${context.resource_id ?? null},
+      ${context.job_id ?? null},
+      ${metered.input_tokens},
+      ${metered.output_tokens},
+      ${metered.cost_usd}
+    )
+  `;
+}
+
+/**
+ * Record every live Google Places, OpenAI and Jina call made by this process. Returns a stop function.
+ */
+export function startCostLedger(db: Database): () => void {
+  return observeApiCalls((call) => {
+    // Read the context now, while still inside the caller's async scope
+    const context = currentCallContext();
+    recordApiCall(db, call, context).catch((error) => {
+      log.error("Failed to record API call", { ...context, url: call.url, error });
+    });
+  });
+}
+
+export type DailyBudgets = Partial<Record<CostProvider | "total", number>>;
+
+/**
+ * Parse daily caps in USD, e.g. {"google-places": 25, "openai": 10, "total": 40}
+ */
+export function parseDailyBudgets(json: string | undefined): DailyBudgets {
+  if (!json) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("API_DAILY_BUDGETS must be a JSON object");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("API_DAILY_BUDGETS must be a JSON object");
+  }
+
+  const budgets: DailyBudgets = {};
+  for (const [name, cap] of Object.entries(parsed as Record<string, unknown>)) {
+    if (name !== "total" && !COST_PROVIDERS.includes(name as CostProvider)) {
+      throw new Error(`API_DAILY_BUDGETS.${name} is not a provider (use ${COST_PROVIDERS.join(", ")} or total)`);
+    }
+    if (typeof cap !== "number" || cap < 0) {
+      throw new Error(`API_DAILY_BUDGETS.${name} must be a non-negative number of dollars`);
+    }
+    budgets[name as CostProvider | "total"] = cap;
+  }
+  return budgets;
+}
+
+export interface BudgetStatus {
+  day: string;
+  spent: Record<CostProvider | "total", number>;
+  budgets: DailyBudgets;
+  exceeded: Array<CostProvider | "total">; // Caps reached today; workers are paused while non-empty
+}
+
+export function exceededBudgets(spent: BudgetStatus["spent"], budgets: DailyBudgets): Array<CostProvider | "total"> {
+  return (Object.keys(budgets) as Array<CostProvider | "total">).filter((name) => spent[name] >= budgets[name]!);
+}
+
+/**
+ * Today's spend per provider against the configured caps
+ */
+export async function getBudgetStatus(
+  db: Database,
+  budgets: DailyBudgets = parseDailyBudgets(process.env.API_DAILY_BUDGETS)
+): Promise<BudgetStatus> {
+  const rows = await db<Array<{ provider: CostProvider; cost_usd: number; day: string }>>`
+    SELECT provider, SUM(cost_usd)::float AS cost_usd, CURRENT_DATE::text AS day
+    FROM api_usage
+    WHERE created_at >= CURRENT_DATE
+    GROUP BY provider
+  `;
+
+  const spent = { "google-places": 0, openai: 0, jina: 0, total: 0 };
+  for (const row of rows) {
+    spent[row.provider] = row.cost_usd;
+    spent.total += row.cost_usd;
+  }
+
+  const day = rows[0]?.day || new Date().toISOString().slice(0, 10);
+  return { day, spent, budgets, exceeded: exceededBudgets(spent, budgets) };
+}
+
+/**
+ * Returns a check that is false while any daily cap is reached. Logs when the worker pauses and resumes,
+ * and re-reads spend at most every 30 seconds.
+ */
+export function createBudgetGuard(db: Database, workerLabel: string): () => Promise<boolean> {
+  let checkedAt = 0;
+  let exceeded: string[] = [];
+
+  return async () => {
+    const budgets = parseDailyBudgets(process.env.API_DAILY_BUDGETS);
+    if (Object.keys(budgets).length === 0) return true;
+
+    if (Date.now() - checkedAt >= BUDGET_CHECK_INTERVAL_MS) {
+      const wasPaused = exceeded.length > 0;
+      exceeded = (await getBudgetStatus(db, budgets)).exceeded;
+      checkedAt = Date.now();
+
+      if (exceeded.length > 0 && !wasPaused) {
+        log.warn("Worker paused: daily budget reached", { worker: workerLabel, exceeded });
+      } else if (exceeded.length === 0 && wasPaused) {
+        log.info("Worker resumed: daily budget available", { worker: workerLabel });
+      }
+    }
+
+    return exceeded.length === 0;
+  };
+}
+
+export interface CostReport {
+  today: BudgetStatus;
+  by_day: Array<{ day: string; provider: string; calls: number; input_tokens: number; output_tokens: number; cost_usd: number }>;
+  by_operation: Array<{ provider: string; operation: string; calls: number; cost_usd: number }>;
+  top_counties: Array<{ county_geoid: string; calls: number; cost_usd: number }>;
+  top_resources: Array<{ resource_id: number; name: string | null; calls: number; cost_usd: number }>;
+}
+
+/**
+ * Spend over the last `days` days, optionally for one county
+ */
+export async function getCostReport(
+  db: Database,
+  options: { days: number; county_geoid?: string }
+): Promise<CostReport> {
+  const where = () => db`
+    WHERE u.created_at >= CURRENT_DATE - ${options.days - 1}::int
+    ${options.county_geoid ? db`AND u.county_geoid = ${options.county_geoid}` : db``}
+  `;
+
+  const [today, byDay, byOperation, topCounties, topResources] = await Promise.all([
+    getBudgetStatus(db),
+    db<CostReport["by_day"]>`
+      SELECT
+        u.created_at::date::text AS day,
+        u.provider,
+        COUNT(*)::int AS calls,
+        COALESCE(SUM(u.input_tokens), 0)::int AS input_tokens,
+        COALESCE(SUM(u.output_tokens), 0)::int AS output_tokens,
+        SUM(u.cost_usd)::float AS cost_usd
+      FROM api_usage u
+      ${where()}
+      GROUP BY 1, 2
+      ORDER BY 1 DESC, 2
+    `,
+    db<CostReport["by_operation"]>`
+      SELECT u.provider, u.operation, COUNT(*)::int AS calls, SUM(u.cost_usd)::float AS cost_usd
+      FROM api_usage u
+      ${where()}
+      GROUP BY 1, 2
+      ORDER BY cost_usd DESC
+    `,
+    db<CostReport["top_counties"]>`
+      SELECT u.county_geoid, COUNT(*)::int AS calls, SUM(u.cost_usd)::float AS cost_usd
+      FROM api_usage u
+      ${where()}
+      AND u.county_geoid IS NOT NULL
+      GROUP BY 1
+      ORDER BY cost_usd DESC
+      LIMIT 20
+    `,
+    db<CostReport["top_resources"]>`
+      SELECT u.resource_id, r.name, COUNT(*)::int AS calls, SUM(u.cost_usd)::float AS cost_usd
+      FROM api_usage u
+      LEFT JOIN resources r ON r.id = u.resource_id
+      ${where()}
+      AND u.resource_id IS NOT NULL
+      GROUP BY 1, 2
+      ORDER BY cost_usd DESC
+      LIMIT 20
+    `,
+  ]);
+
+  return {
+    today,
+    by_day: byDay,
+    by_operation: byOperation,
+    top_counties: topCounties,
+    top_resources: topResources,
+  };
+}
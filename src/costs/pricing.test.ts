@@ -0,0 +1,40 @@
+// ABOUTME: Tests for classifying outbound API calls and estimating their cost
+// ABOUTME: Covers Google Places per-request prices, OpenAI token usage and Jina token counts
+
+import { test, expect } from "bun:test";
+import { meterApiCall } from "./pricing";
+
+test("prices Google Places calls per request", () => {
+  expect(meterApiCall("https://places.googleapis.com/v1/places:searchText", "{}"))
+    .toMatchObject({ provider: "google-places", operation: "text_search", cost_usd: 0.035 });
+  expect(meterApiCall("https://maps.googleapis.com/maps/api/place/details/json?place_id=abc", "{}"))
+    .toMatchObject({ provider: "google-places", operation: "place_details" });
+  expect(meterApiCall("https://maps.googleapis.com/maps/api/geocode/json?address=x", "{}"))
+    .toMatchObject({ operation: "geocode", cost_usd: 0.005 });
+});
+
+test("prices OpenAI calls from reported token usage and web searches", () => {
+  const chat = JSON.stringify({ model: "gpt-4o-mini-2024-07-18", usage: { prompt_tokens: 1_000_000, completion_tokens: 500_000 } });
+  const metered = meterApiCall("https://api.openai.com/v1/chat/completions", chat)!;
+  expect(metered).toMatchObject({ provider: "openai", operation: "chat.completions", input_tokens: 1_000_000, output_tokens: 500_000 });
+  expect(metered.cost_usd).toBeCloseTo(0.45);
+
+  const response = JSON.stringify({
+    model: "gpt-4o-mini",
+    usage: { input_tokens: 0, output_tokens: 0 },
+    output: [{ type: "web_search_call" }, { type: "message" }],
+  });
+  expect(meterApiCall("https://api.openai.com/v1/responses", response)!.cost_usd).toBeCloseTo(0.025);
+});
+
+test("prices Jina calls by returned tokens", () => {
+  const search = JSON.stringify({ data: [{ usage: { tokens: 600_000 } }, { usage: { tokens: 400_000 } }] });
+  expect(meterApiCall("https://s.jina.ai/?q=pantry", search)).toMatchObject({ provider: "jina", operation: "search", output_tokens: 1_000_000, cost_usd: 0.02 });
+
+  const read = JSON.stringify({ data: { content: "..." }, meta: { usage: { tokens: 50 } } });
+  expect(meterApiCall("https://r.jina.ai/https%3A%2F%2Fexample.org", read)).toMatchObject({ operation: "read", output_tokens: 50 });
+});
+
+test("ignores hosts that aren't metered", () => {
+  expect(meterApiCall("https://example.org/page", "")).toBeNull();
+});
@@ -0,0 +1,139 @@
+// ABOUTME: Identifies which provider and operation an outbound API call was and estimates its cost
+// ABOUTME: Prices are list prices in USD; token counts come from the provider's usage block
+
+export type CostProvider = "google-places" | "openai" | "jina";
+
+export interface MeteredCall {
+  provider: CostProvider;
+  operation: string;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost_usd: number;
+}
+
+// Google Maps Platform price per request
+const GOOGLE_PRICES: Record<string, number> = {
+  text_search: 0.035, // Places API (New) Text Search with contact and atmosphere fields
+  find_place: 0.017,
+  place_details: 0.017,
+  geocode: 0.005,
+};
+
+// OpenAI price per million tokens, by model prefix (longest match wins)
+const OPENAI_TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+const OPENAI_FALLBACK_MODEL = "gpt-4o";
+const OPENAI_WEB_SEARCH_CALL = 0.025;
+
+// Jina bills search and reader calls by tokens returned
+const JINA_PRICE_PER_MILLION_TOKENS = 0.02;
+
+function googleOperation(url: URL): string | null {
+  if (url.hostname === "places.googleapis.com" && url.pathname.endsWith("places:searchText")) return "text_search";
+  if (url.pathname.includes("/place/findplacefromtext/")) return "find_place";
+  if (url.pathname.includes("/place/details/")) return "place_details";
+  if (url.pathname.includes("/geocode/")) return "geocode";
+  return null;
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+// Token count from a Jina `{ usage: { tokens } }` block
+function usageTokens(value: unknown): number | undefined {
+  return isRecord(value) && isRecord(value.usage) ? asNumber(value.usage.tokens) : undefined;
+}
+
+function openAIPrice(model: string | undefined) {
+  const match = Object.keys(OPENAI_TOKEN_PRICES)
+    .filter((prefix) => model?.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return OPENAI_TOKEN_PRICES[match || OPENAI_FALLBACK_MODEL]!;
+}
+
+function jinaTokens(json: unknown, body: string): number {
+  if (isRecord(json)) {
+    const tokens = usageTokens(json.meta) ?? usageTokens(json.data);
+    if (tokens !== undefined) return tokens;
+    if (Array.isArray(json.data)) {
+      return json.data.reduce((sum: number, item: unknown) => sum + (usageTokens(item) || 0), 0);
+    }
+  }
+  // Plain-text responses: roughly four characters per token
+  return Math.ceil(body.length / 4);
+}
+
+/**
+ * Which paid provider a URL belongs to, if any
+ */
+export function providerForUrl(url: string | URL): CostProvider | null {
+  const { hostname } = typeof url === "string" ? new URL(url) : url;
+  if (hostname === "maps.googleapis.com" || hostname === "places.googleapis.com") return "google-places";
+  if (hostname === "api.openai.com") return "openai";
+  if (hostname === "s.jina.ai" || hostname === "r.jina.ai") return "jina";
+  return null;
+}
+
+/**
+ * Classify a call by URL and estimate its cost from the response body. Returns null for hosts we don't meter.
+ */
+export function meterApiCall(url: string, responseBody: string): MeteredCall | null {
+  const parsed = new URL(url);
+  const provider = providerForUrl(parsed);
+
+  if (provider === "google-places") {
+    const operation = googleOperation(parsed);
+    if (!operation) return null;
+    return { provider: "google-places", operation, input_tokens: null, output_tokens: null, cost_usd: GOOGLE_PRICES[operation]! };
+  }
+
+  if (provider === "openai") {
+    const parsedJson = parseJson(responseBody);
+    const json = isRecord(parsedJson) ? parsedJson : {};
+    const usage = isRecord(json.usage) ? json.usage : {};
+    // Chat Completions reports prompt/completion tokens, the Responses API input/output tokens
+    const inputTokens = asNumber(usage.prompt_tokens) ?? asNumber(usage.input_tokens) ?? 0;
+    const outputTokens = asNumber(usage.completion_tokens) ?? asNumber(usage.output_tokens) ?? 0;
+    const webSearches = Array.isArray(json.output)
+      ? json.output.filter((item: unknown) => isRecord(item) && item.type === "web_search_call").length
+      : 0;
+    const price = openAIPrice(typeof json.model === "string" ? json.model : undefined);
+    return {
+      provider: "openai",
+      operation: parsed.pathname.replace(/^\/v1\//, "").replace(/\//g, "."),
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost_usd: (inputTokens * price.input + outputTokens * price.output) / 1_000_000 + webSearches * OPENAI_WEB_SEARCH_CALL,
+    };
+  }
+
+  if (provider === "jina") {
+    const tokens = jinaTokens(parseJson(responseBody), responseBody);
+    return {
+      provider: "jina",
+      operation: parsed.hostname === "s.jina.ai" ? "search" : "read",
+      input_tokens: null,
+      output_tokens: tokens,
+      cost_usd: (tokens * JINA_PRICE_PER_MILLION_TOKENS) / 1_000_000,
+    };
+  }
+
+  return null;
+}
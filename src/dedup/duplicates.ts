@@ -0,0 +1,219 @@
+// ABOUTME: Database operations for finding, reviewing and merging duplicate resources
+// ABOUTME: Stores low-confidence pairs in a review queue and records merge provenance
+
+import type { Database, FoodResource } from "../core/database";
+import { updateResource, deleteResources, type ChangeContext } from "../core/resource-changes";
+import { findCandidatePairs, AUTO_MERGE_THRESHOLD, REVIEW_THRESHOLD, type MatchSignals } from "./matcher";
+import { mergeRecords, pickSurvivor } from "./merge";
+import { moveResourceSources } from "../discovery/discover";
+
+export type DuplicateStatus = "pending" | "merged" | "rejected";
+
+export interface DuplicateCandidate {
+  id: number;
+  resource_a_id: number;
+  resource_b_id: number;
+  score: number;
+  signals: MatchSignals;
+  status: DuplicateStatus;
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
+
+export interface ResourceMerge {
+  id: number;
+  kept_id: number;
+  merged_ids: number[];
+  field_sources: Record<string, number>; // Field -> id of the resource the kept value came from
+  score: number | null;
+  merged_by: string;
+  merged_at: string;
+}
+
+export interface DuplicateScanResult {
+  compared: number;
+  candidates: number;
+  queued: number;
+  merged: number;
+}
+
+/**
+ * Merge resources into keepId: the kept row gets the best value per field
+ * from all of them, the others are deleted, and the merge is recorded with
+ * per-field provenance, all in one transaction. Returns null if keepId doesn't exist.
+ */
+export async function mergeResources(
+  db: Database,
+  keepId: number,
+  mergeIds: number[],
+  context: ChangeContext,
+  score: number | null = null
+): Promise<{ resource: FoodResource; merge: ResourceMerge } | null> {
+  return db.begin(async (tx) => {
+    const ids = [keepId, ...mergeIds.filter((id) => id !== keepId)];
+    const rows = await tx<FoodResource[]>`SELECT * FROM resources WHERE id = ANY(${ids}) FOR UPDATE`;
+
+    const keep = rows.find((r) => r.id === keepId);
+    if (!keep) return null;
+    const others = rows.filter((r) => r.id !== keepId);
+    const records = [keep, ...others];
+
+    const { merged, provenance } = mergeRecords(records);
+    const fieldSources: Record<string, number> = {};
+    for (const [field, index] of Object.entries(provenance)) {
+      fieldSources[field] = records[index]!.id!;
+    }
+
+    const resource = await updateResource(tx, keepId, merged, context);
+    // Keep provider provenance before the merged rows (and their sources) are deleted
+    await moveResourceSources(tx, others.map((r) => r.id!), keepId);
+    const deletedIds = await deleteResources(tx, others.map((r) => r.id!), context);
+
+    const [merge] = await tx<ResourceMerge[]>`
+      INSERT INTO resource_merges (kept_id, merged_ids, field_sources, score, merged_by)
+      VALUES (${keepId}, ${deletedIds}, ${JSON.stringify(fieldSources)}, ${score}, ${context.changedBy})
+      RETURNING *
+    `;
+
+    // Pairs between merged records are resolved; pairs pointing at deleted records are stale
+    const mergedSet = [keepId, ...deletedIds];
+    await tx`
+      UPDATE duplicate_candidates SET
+        status = 'merged',
+        reviewed_by = ${context.changedBy},
+        reviewed_at = NOW()
+      WHERE status = 'pending'
+      AND resource_a_id = ANY(${mergedSet})
+      AND resource_b_id = ANY(${mergedSet})
+    `;
+    await tx`
+      DELETE FROM duplicate_candidates
+      WHERE status = 'pending'
+      AND (resource_a_id = ANY(${deletedIds}) OR resource_b_id = ANY(${deletedIds}))
+    `;
+
+    return { resource: resource!, merge: merge! };
+  }) as Promise<{ resource: FoodResource; merge: ResourceMerge } | null>;
+}
+
+/**
+ * Score all stored resources for duplicates. Pairs at or above the review
+ * threshold are queued for review; with autoMerge, confident pairs are
+ * merged right away instead.
+ */
+export async function scanForDuplicates(
+  db: Database,
+  autoMerge: boolean,
+  context: ChangeContext
+): Promise<DuplicateScanResult> {
+  const resources = await db<FoodResource[]>`
+    SELECT id, name, address, zip_code, phone, latitude, longitude, google_place_id,
+      needs_enrichment, is_verified
+    FROM resources
+    ORDER BY id
+  `;
+
+  const pairs = findCandidatePairs(resources, REVIEW_THRESHOLD);
+  const mergedAway = new Set<number>();
+  let queued = 0;
+  let merged = 0;
+
+  for (const pair of pairs) {
+    const a = resources[pair.a]!;
+    const b = resources[pair.b]!;
+    if (mergedAway.has(a.id!) || mergedAway.has(b.id!)) continue;
+
+    if (autoMerge && pair.match.score >= AUTO_MERGE_THRESHOLD) {
+      const [keep, drop] = pickSurvivor([a, b]) === 0 ? [a, b] : [b, a];
+      const result = await mergeResources(db, keep.id!, [drop.id!], context, pair.match.score);
+      if (result) {
+        mergedAway.add(drop.id!);
+        merged++;
+      }
+      continue;
+    }
+
+    const [first, second] = a.id! < b.id! ? [a, b] : [b, a];
+    const inserted = await db`
+      INSERT INTO duplicate_candidates (resource_a_id, resource_b_id, score, signals)
+      VALUES (${first.id!}, ${second.id!}, ${pair.match.score}, ${JSON.stringify(pair.match.signals)})
+      ON CONFLICT (resource_a_id, resource_b_id) DO UPDATE SET
+        score = EXCLUDED.score,
+        signals = EXCLUDED.signals
+      WHERE duplicate_candidates.status = 'pending'
+      RETURNING (xmax = 0) AS inserted
+    `;
+    if (inserted[0]?.inserted) queued++;
+  }
+
+  return { compared: resources.length, candidates: pairs.length, queued, merged };
+}
+
+export async function listDuplicateCandidates(
+  db: Database,
+  status: DuplicateStatus,
+  limit: number
+): Promise<Array<DuplicateCandidate & { resource_a: FoodResource | null; resource_b: FoodResource | null }>> {
+  const candidates = await db<DuplicateCandidate[]>`
+    SELECT * FROM duplicate_candidates
+    WHERE status = ${status}
+    ORDER BY score DESC, id
+    LIMIT ${limit}
+  `;
+
+  const ids = candidates.flatMap((c) => [c.resource_a_id, c.resource_b_id]);
+  const resources = ids.length > 0
+    ? await db<FoodResource[]>`SELECT * FROM resources WHERE id = ANY(${ids})`
+    : [];
+  const byId = new Map(resources.map((r) => [r.id!, r]));
+
+  return candidates.map((c) => ({
+    ...c,
+    resource_a: byId.get(c.resource_a_id) || null,
+    resource_b: byId.get(c.resource_b_id) || null,
+  }));
+}
+
+export async function getDuplicateCandidate(db: Database, id: number): Promise<DuplicateCandidate | null> {
+  const [candidate] = await db<DuplicateCandidate[]>`SELECT * FROM duplicate_candidates WHERE id = ${id}`;
+  return candidate || null;
+}
+
+/**
+ * Merge the two resources of a queued pair. Without keepId, the more
+ * trustworthy record is kept. Returns null if either resource is gone.
+ */
+export async function mergeDuplicateCandidate(
+  db: Database,
+  candidate: DuplicateCandidate,
+  keepId: number | null,
+  context: ChangeContext
+): Promise<{ resource: FoodResource; merge: ResourceMerge } | null> {
+  const pairIds = [candidate.resource_a_id, candidate.resource_b_id];
+  const rows = await db<FoodResource[]>`SELECT * FROM resources WHERE id = ANY(${pairIds})`;
+  if (rows.length < 2) return null;
+
+  const keep = keepId ?? rows[pickSurvivor(rows)]!.id!;
+  const drop = pairIds.filter((id) => id !== keep);
+  return mergeResources(db, keep, drop, context, candidate.score);
+}
+
+/**
+ * Mark a pending pair as not a duplicate so future scans leave it alone
+ */
+export async function rejectDuplicateCandidate(
+  db: Database,
+  id: number,
+  reviewer: string
+): Promise<DuplicateCandidate | null> {
+  const [candidate] = await db<DuplicateCandidate[]>`
+    UPDATE duplicate_candidates SET
+      status = 'rejected',
+      reviewed_by = ${reviewer},
+      reviewed_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `;
+  return candidate || null;
+}
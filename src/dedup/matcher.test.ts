@@ -0,0 +1,106 @@
+// ABOUTME: Tests for duplicate scoring, blocking and match lookup
+// ABOUTME: Uses realistic pantry records that previously slipped past exact address matching
+
+import { test, expect, describe } from "bun:test";
+import {
+  scoreMatch,
+  nameSimilarity,
+  findCandidatePairs,
+  createMatchIndex,
+  AUTO_MERGE_THRESHOLD,
+  REVIEW_THRESHOLD,
+} from "./matcher";
+
+describe("nameSimilarity", () => {
+  test("ignores case, punctuation and common abbreviations", () => {
+    expect(nameSimilarity("St. Mary's Food Pantry", "Saint Marys food pantry")).toBe(1);
+  });
+
+  test("scores unrelated names low", () => {
+    expect(nameSimilarity("Abington Food Pantry", "Jenkintown Library")).toBeLessThan(0.4);
+  });
+});
+
+describe("scoreMatch", () => {
+  test("matches a suite-qualified address with the same name", () => {
+    const { score } = scoreMatch(
+      { name: "Hope Food Pantry", address: "123 Main St" },
+      { name: "Hope Food Pantry", address: "123 Main Street, Suite A" }
+    );
+    expect(score).toBeGreaterThanOrEqual(AUTO_MERGE_THRESHOLD);
+  });
+
+  test("treats a shared google_place_id as certain", () => {
+    const { score } = scoreMatch(
+      { name: "Hope Pantry", google_place_id: "abc" },
+      { name: "Community Outreach", google_place_id: "abc" }
+    );
+    expect(score).toBe(1);
+  });
+
+  test("sends same-address records with different names to review", () => {
+    const { score, signals } = scoreMatch(
+      { name: "St. Paul's Church Food Cupboard", address: "10 Oak Ave", phone: "215-555-0100" },
+      { name: "Oak Avenue Community Pantry", address: "10 Oak Avenue", phone: "(215) 555-0100" }
+    );
+    expect(signals.address).toBe(1);
+    expect(signals.phone).toBe(1);
+    expect(score).toBeGreaterThanOrEqual(REVIEW_THRESHOLD);
+    expect(score).toBeLessThan(AUTO_MERGE_THRESHOLD);
+  });
+
+  test("penalizes different place IDs at the same address", () => {
+    const { score } = scoreMatch(
+      { name: "Hope Food Pantry", address: "1 Main St", google_place_id: "a" },
+      { name: "Hope Food Pantry", address: "1 Main St", google_place_id: "b" }
+    );
+    expect(score).toBeLessThan(REVIEW_THRESHOLD);
+  });
+
+  test("does not trust a name match alone", () => {
+    const { score } = scoreMatch({ name: "Food Pantry" }, { name: "Food Pantry" });
+    expect(score).toBeLessThan(REVIEW_THRESHOLD);
+  });
+
+  test("uses distance between coordinates", () => {
+    const near = scoreMatch(
+      { name: "Hope Pantry", latitude: 40.1, longitude: -75.1 },
+      { name: "Hope Pantry", latitude: 40.1001, longitude: -75.1001 }
+    );
+    const far = scoreMatch(
+      { name: "Hope Pantry", latitude: 40.1, longitude: -75.1 },
+      { name: "Hope Pantry", latitude: 40.2, longitude: -75.2 }
+    );
+    expect(near.signals.distance).toBe(1);
+    expect(far.signals.distance).toBe(0);
+    expect(near.score).toBeGreaterThan(far.score);
+  });
+});
+
+describe("findCandidatePairs", () => {
+  test("pairs records that share a blocking key and skips unrelated ones", () => {
+    const pairs = findCandidatePairs([
+      { name: "Hope Food Pantry", address: "123 Main St" },
+      { name: "Jenkintown Library", address: "500 York Rd" },
+      { name: "Hope Food Pantry", address: "123 Main Street, Suite A" },
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ a: 0, b: 2 });
+  });
+});
+
+describe("createMatchIndex", () => {
+  test("finds an existing record for a new candidate", () => {
+    const index = createMatchIndex([
+      { id: 1, name: "Hope Food Pantry", address: "123 Main St" },
+      { id: 2, name: "Jenkintown Library", address: "500 York Rd" },
+    ]);
+    expect(index.findBest({ name: "Hope Food Pantry", address: "123 Main Street" })?.record.id).toBe(1);
+    expect(index.findBest({ name: "New Pantry", address: "9 Elm St" })).toBeNull();
+  });
+
+  test("still treats an identical address as the same location", () => {
+    const index = createMatchIndex([{ id: 1, name: "First Baptist Church", address: "10 Oak Ave" }]);
+    expect(index.findBest({ name: "Oak Ave Pantry", address: "10 Oak Avenue" })?.record.id).toBe(1);
+  });
+});
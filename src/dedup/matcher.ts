@@ -0,0 +1,305 @@
+// ABOUTME: Scores how likely two resource records describe the same place
+// ABOUTME: Combines google_place_id, normalized address, phone, distance and name similarity
+
+import type { FoodResource } from "../core/database";
+import { normalizeAddress, normalizePhone, type NormalizedAddress } from "../utils/address";
+import { haversineDistanceKm } from "../utils/geo";
+
+// Pairs at or above this score are merged automatically
+export const AUTO_MERGE_THRESHOLD = 0.9;
+// Pairs between this and AUTO_MERGE_THRESHOLD go to the review queue
+export const REVIEW_THRESHOLD = 0.7;
+
+// Relative weight of each signal; signals missing on either side are left out
+const SIGNAL_WEIGHTS = {
+  address: 0.35,
+  name: 0.25,
+  phone: 0.2,
+  distance: 0.2,
+};
+
+// Distance (km) below which two points count as the same spot, and beyond which they never do
+const SAME_SPOT_KM = 0.05;
+const MAX_MATCH_KM = 1;
+
+export type MatchableResource = Pick<
+  Partial<FoodResource>,
+  "name" | "address" | "zip_code" | "phone" | "latitude" | "longitude" | "google_place_id"
+>;
+
+export interface MatchSignals {
+  google_place_id: "same" | "different" | null;
+  address: number | null;
+  name: number | null;
+  phone: number | null;
+  distance: number | null;
+  distance_km: number | null;
+}
+
+export interface MatchScore {
+  score: number;
+  signals: MatchSignals;
+}
+
+const NAME_EXPANSIONS: Record<string, string> = {
+  st: "saint",
+  ste: "sainte",
+  mt: "mount",
+  ctr: "center",
+  centre: "center",
+  co: "company",
+  assn: "association",
+  "&": "and",
+};
+
+/**
+ * Lowercase, strip punctuation and expand common abbreviations in an organization name
+ */
+export function normalizeName(name: string | null | undefined): string {
+  if (!name) return "";
+  return name
+    .toLowerCase()
+    .replace(/'s\b/g, "s")
+    .replace(/[^a-z0-9& ]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => NAME_EXPANSIONS[token] ?? token)
+    .join(" ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = text.replace(/\s+/g, "");
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (0-1)
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const normalizedA = normalizeName(a);
+  const normalizedB = normalizeName(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const gramsA = bigrams(normalizedA);
+  const gramsB = bigrams(normalizedB);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+    total += count;
+  }
+  for (const count of gramsB.values()) total += count;
+
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+/**
+ * 1 for the same street line, discounted when units or ZIPs disagree
+ */
+export function addressSimilarity(a: NormalizedAddress, b: NormalizedAddress): number {
+  if (a.street !== b.street) return 0;
+  if (a.zip && b.zip && a.zip !== b.zip) return 0;
+  if (a.unit && b.unit && a.unit !== b.unit) return 0.5; // Different suites in one building
+  if (a.unit !== b.unit) return 0.9; // Unit given on only one side
+  return 1;
+}
+
+function distanceSimilarity(km: number): number {
+  if (km <= SAME_SPOT_KM) return 1;
+  if (km >= MAX_MATCH_KM) return 0;
+  return 1 - (km - SAME_SPOT_KM) / (MAX_MATCH_KM - SAME_SPOT_KM);
+}
+
+/**
+ * Score a candidate pair between 0 (different places) and 1 (certainly the same)
+ */
+export function scoreMatch(a: MatchableResource, b: MatchableResource): MatchScore {
+  const signals: MatchSignals = {
+    google_place_id: null,
+    address: null,
+    name: null,
+    phone: null,
+    distance: null,
+    distance_km: null,
+  };
+
+  if (a.google_place_id && b.google_place_id) {
+    signals.google_place_id = a.google_place_id === b.google_place_id ? "same" : "different";
+  }
+
+  const addressA = normalizeAddress(a.address, a.zip_code);
+  const addressB = normalizeAddress(b.address, b.zip_code);
+  if (addressA && addressB) signals.address = addressSimilarity(addressA, addressB);
+
+  if (a.name && b.name) signals.name = nameSimilarity(a.name, b.name);
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  if (phoneA && phoneB) signals.phone = phoneA === phoneB ? 1 : 0;
+
+  if (a.latitude && a.longitude && b.latitude && b.longitude) {
+    const km = haversineDistanceKm(a.latitude, a.longitude, b.latitude, b.longitude);
+    signals.distance_km = Math.round(km * 1000) / 1000;
+    signals.distance = distanceSimilarity(km);
+  }
+
+  // Google assigns one place ID per place, so a shared ID settles it
+  if (signals.google_place_id === "same") {
+    return { score: 1, signals };
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  let available = 0;
+  for (const [signal, weight] of Object.entries(SIGNAL_WEIGHTS) as Array<[keyof typeof SIGNAL_WEIGHTS, number]>) {
+    const value = signals[signal];
+    if (value !== null) {
+      weighted += value * weight;
+      totalWeight += weight;
+      available++;
+    }
+  }
+
+  // A single signal (e.g. only names) is too little evidence for a confident match
+  let score = available >= 2 ? weighted / totalWeight : weighted;
+
+  // Different place IDs usually mean neighbors sharing a building, not duplicates
+  if (signals.google_place_id === "different") {
+    score *= 0.5;
+  }
+
+  return { score: Math.round(score * 1000) / 1000, signals };
+}
+
+/**
+ * True when two records have the same full normalized address (street, unit, ZIP).
+ * Search pipelines treat these as one location regardless of name, as they always have.
+ */
+export function isSameAddress(a: MatchableResource, b: MatchableResource): boolean {
+  const addressA = normalizeAddress(a.address, a.zip_code);
+  const addressB = normalizeAddress(b.address, b.zip_code);
+  return !!addressA && !!addressB && addressSimilarity(addressA, addressB) === 1;
+}
+
+// Grid cell size for geo blocking (~1.1 km north-south)
+const GEO_CELL_DEGREES = 0.01;
+
+/**
+ * Keys used to find candidate pairs without comparing every record to every other
+ */
+export function blockingKeys(resource: MatchableResource): string[] {
+  const keys: string[] = [];
+  if (resource.google_place_id) keys.push(`place:${resource.google_place_id}`);
+
+  const address = normalizeAddress(resource.address, resource.zip_code);
+  if (address) keys.push(`street:${address.street}`);
+
+  const phone = normalizePhone(resource.phone);
+  if (phone) keys.push(`phone:${phone}`);
+
+  if (resource.latitude && resource.longitude) {
+    const row = Math.floor(resource.latitude / GEO_CELL_DEGREES);
+    const col = Math.floor(resource.longitude / GEO_CELL_DEGREES);
+    // Register in the 3x3 neighborhood so points near a cell edge still meet
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        keys.push(`geo:${row + dr}:${col + dc}`);
+      }
+    }
+  }
+
+  return keys;
+}
+
+export interface CandidatePair {
+  a: number; // Index into the input array
+  b: number;
+  match: MatchScore;
+}
+
+/**
+ * Score every pair of records that share a blocking key, returning pairs at
+ * or above minScore
+ */
+export function findCandidatePairs(
+  resources: MatchableResource[],
+  minScore: number = REVIEW_THRESHOLD
+): CandidatePair[] {
+  const blocks = new Map<string, number[]>();
+  resources.forEach((resource, index) => {
+    for (const key of blockingKeys(resource)) {
+      const block = blocks.get(key);
+      if (block) block.push(index);
+      else blocks.set(key, [index]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: CandidatePair[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = Math.min(block[i]!, block[j]!);
+        const b = Math.max(block[i]!, block[j]!);
+        const pairKey = `${a}:${b}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scoreMatch(resources[a]!, resources[b]!);
+        if (match.score >= minScore) {
+          pairs.push({ a, b, match });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.match.score - x.match.score);
+}
+
+/**
+ * Index of existing records for looking up the best match of a new candidate
+ */
+export function createMatchIndex<T extends MatchableResource>(records: T[] = []) {
+  const blocks = new Map<string, T[]>();
+
+  function add(record: T): void {
+    for (const key of blockingKeys(record)) {
+      const block = blocks.get(key);
+      if (block) block.push(record);
+      else blocks.set(key, [record]);
+    }
+  }
+
+  /**
+   * Best-scoring indexed record that is the same place as the candidate:
+   * score at or above minScore, or an identical full address
+   */
+  function findBest(candidate: MatchableResource, minScore: number = AUTO_MERGE_THRESHOLD): { record: T; match: MatchScore } | null {
+    const compared = new Set<T>();
+    let best: { record: T; match: MatchScore } | null = null;
+
+    for (const key of blockingKeys(candidate)) {
+      for (const record of blocks.get(key) || []) {
+        if (compared.has(record)) continue;
+        compared.add(record);
+
+        const match = scoreMatch(candidate, record);
+        if (match.score < minScore && !isSameAddress(candidate, record)) continue;
+        if (!best || match.score > best.match.score) {
+          best = { record, match };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  records.forEach(add);
+  return { add, findBest };
+}
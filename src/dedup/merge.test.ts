@@ -0,0 +1,60 @@
+// ABOUTME: Tests for merging duplicate resource records
+// ABOUTME: Checks per-field value selection, provenance and in-batch deduplication
+
+import { test, expect, describe } from "bun:test";
+import { mergeRecords, pickSurvivor, deduplicateResults } from "./merge";
+
+describe("mergeRecords", () => {
+  const webResult = {
+    name: "Hope Pantry",
+    address: "123 Main St",
+    phone: "215-555-0100",
+    eligibility_requirements: "Residents of 19046 with photo ID and proof of address",
+  };
+  const googleResult = {
+    name: "Hope Food Pantry",
+    address: "123 Main St, Abington, PA 19001",
+    google_place_id: "abc",
+    latitude: 40.1,
+    longitude: -75.1,
+    eligibility_requirements: "ID required",
+    is_verified: true,
+  };
+
+  test("prefers Google-verified values and keeps the most detailed text", () => {
+    const { merged, provenance } = mergeRecords([webResult, googleResult]);
+    expect(merged.name).toBe("Hope Food Pantry");
+    expect(merged.address).toBe("123 Main St, Abington, PA 19001");
+    expect(merged.phone).toBe("215-555-0100");
+    expect(merged.eligibility_requirements).toBe(webResult.eligibility_requirements);
+    expect(merged.is_verified).toBe(true);
+    expect(provenance).toMatchObject({ name: 1, address: 1, phone: 0, eligibility_requirements: 0 });
+  });
+
+  test("keeps an exportable duplicate's approval when the survivor isn't exportable", () => {
+    const { merged, provenance } = mergeRecords([
+      { ...googleResult, exportable: false },
+      { ...webResult, exportable: true },
+    ]);
+    expect(merged.exportable).toBe(true);
+    expect(provenance.exportable).toBe(1);
+    expect(mergeRecords([webResult, googleResult]).merged.exportable).toBeUndefined();
+  });
+
+  test("picks the more trustworthy record as survivor", () => {
+    expect(pickSurvivor([webResult, googleResult])).toBe(1);
+    expect(pickSurvivor([{ name: "Pantry" }, { name: "Hope Food Pantry" }])).toBe(1);
+  });
+});
+
+describe("deduplicateResults", () => {
+  test("merges results describing the same place", () => {
+    const results = deduplicateResults([
+      { name: "Hope Food Pantry", address: "123 Main St", phone: "215-555-0100" },
+      { name: "Jenkintown Library", address: "500 York Rd" },
+      { name: "Hope Food Pantry", address: "123 Main Street, Suite A", hours: "Mon 9-5" },
+    ]);
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ phone: "215-555-0100", hours: "Mon 9-5" });
+  });
+});
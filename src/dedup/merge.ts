@@ -0,0 +1,177 @@
+// ABOUTME: Combines duplicate resource records into one, choosing the best value per field
+// ABOUTME: Returns which input record each chosen value came from for provenance
+
+import type { FoodResource } from "../core/database";
+import { createMatchIndex } from "./matcher";
+
+// Fields Google Places verifies; taken from the most trustworthy record that has them
+const VERIFIED_FIELDS = [
+  "name",
+  "address",
+  "city",
+  "state",
+  "zip_code",
+  "county_name",
+  "county_geoid",
+  "latitude",
+  "longitude",
+  "type",
+  "phone",
+  "hours",
+  "rating",
+  "google_place_id",
+  "source_url",
+  "url_facebook",
+  "url_twitter",
+  "url_instagram",
+  "url_youtube",
+  "wheelchair_accessible",
+  "has_curbside_pickup",
+  "has_delivery",
+  "has_takeout",
+  "editorial_summary",
+  "wait_time_minutes",
+] as const satisfies ReadonlyArray<keyof FoodResource>;
+
+// Free-text fields where the most detailed value wins
+const DESCRIPTIVE_FIELDS = [
+  "eligibility_requirements",
+  "services_offered",
+  "languages_spoken",
+  "accessibility_notes",
+  "notes",
+  "verification_notes",
+] as const satisfies ReadonlyArray<keyof FoodResource>;
+
+export type MergedField = (typeof VERIFIED_FIELDS)[number] | (typeof DESCRIPTIVE_FIELDS)[number] | "is_verified" | "exportable";
+
+export interface MergeResult {
+  merged: Partial<FoodResource>;
+  provenance: Partial<Record<MergedField, number>>; // Field -> index of the record it came from
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "";
+}
+
+/**
+ * How much to trust a record's verified fields: Google-matched and enriched
+ * records outrank raw web-search results
+ */
+export function recordTrust(record: Partial<FoodResource>): number {
+  let trust = 0;
+  if (record.google_place_id) trust += 4;
+  if (record.latitude && record.longitude) trust += 2;
+  if (record.needs_enrichment === false) trust += 1;
+  if (record.is_verified) trust += 1;
+  return trust;
+}
+
+/**
+ * Index of the record that should survive a merge: the most trusted, then
+ * the longest name (the old dedup rule), then the first
+ */
+export function pickSurvivor(records: Partial<FoodResource>[]): number {
+  let best = 0;
+  for (let i = 1; i < records.length; i++) {
+    const trustDiff = recordTrust(records[i]!) - recordTrust(records[best]!);
+    const nameDiff = (records[i]!.name?.length || 0) - (records[best]!.name?.length || 0);
+    if (trustDiff > 0 || (trustDiff === 0 && nameDiff > 0)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Merge duplicate records field by field
+ */
+export function mergeRecords(records: Partial<FoodResource>[]): MergeResult {
+  if (records.length === 0) {
+    throw new Error("mergeRecords needs at least one record");
+  }
+
+  const survivor = pickSurvivor(records);
+  // Survivor first, then the rest by trust
+  const order = records
+    .map((record, index) => ({ index, trust: recordTrust(record) }))
+    .sort((a, b) => (a.index === survivor ? -1 : b.index === survivor ? 1 : b.trust - a.trust))
+    .map(({ index }) => index);
+
+  const merged: Partial<FoodResource> = {};
+  const provenance: MergeResult["provenance"] = {};
+
+  for (const field of VERIFIED_FIELDS) {
+    const source = order.find((index) => hasValue(records[index]![field]));
+    if (source !== undefined) {
+      (merged as Record<string, unknown>)[field] = records[source]![field];
+      provenance[field] = source;
+    }
+  }
+
+  for (const field of DESCRIPTIVE_FIELDS) {
+    let source: number | undefined;
+    for (const index of order) {
+      const value = records[index]![field];
+      if (hasValue(value) && (source === undefined || String(value).length > String(records[source]![field]).length)) {
+        source = index;
+      }
+    }
+    if (source !== undefined) {
+      merged[field] = records[source]![field];
+      provenance[field] = source;
+    }
+  }
+
+  const verifiedSource = order.find((index) => records[index]!.is_verified);
+  merged.is_verified = verifiedSource !== undefined;
+  if (verifiedSource !== undefined) provenance.is_verified = verifiedSource;
+
+  // A curator's export approval on any duplicate survives the merge
+  if (records.some((record) => record.exportable != null)) {
+    const exportableSource = order.find((index) => records[index]!.exportable);
+    merged.exportable = exportableSource !== undefined;
+    if (exportableSource !== undefined) provenance.exportable = exportableSource;
+  }
+
+  return { merged, provenance };
+}
+
+/**
+ * Group records in one batch of search results that describe the same place,
+ * keeping input order within each group. Records with an identical normalized
+ * address are always grouped, as the address-only dedup this replaces did.
+ */
+export function groupDuplicates<T extends Partial<FoodResource>>(results: T[]): T[][] {
+  const groups: T[][] = [];
+  const groupOf = new Map<T, number>();
+  const index = createMatchIndex<T>();
+
+  for (const result of results) {
+    const best = index.findBest(result);
+    const group = best ? groupOf.get(best.record)! : groups.push([]) - 1;
+    groups[group]!.push(result);
+    groupOf.set(result, group);
+    index.add(result);
+  }
+
+  return groups;
+}
+
+/**
+ * One record for a group of duplicates: the survivor, filled in with the
+ * best value of each field from the group
+ */
+export function mergeGroup(group: Partial<FoodResource>[]): Partial<FoodResource> {
+  if (group.length === 1) return group[0]!;
+  const survivor = group[pickSurvivor(group)]!;
+  return { ...survivor, ...mergeRecords(group).merged };
+}
+
+/**
+ * Collapse records in one batch of search results that describe the same
+ * place, merging each group
+ */
+export function deduplicateResults(results: Partial<FoodResource>[]): Partial<FoodResource>[] {
+  return groupDuplicates(results).map(mergeGroup);
+}
@@ -0,0 +1,70 @@
+// ABOUTME: Tests for running discovery providers and merging their results
+// ABOUTME: Uses in-memory fake providers so no API keys or database are needed
+
+import { test, expect } from "bun:test";
+import type { County } from "../core/counties";
+import type { FoodResource } from "../core/database";
+import type { DiscoveryProvider } from "./provider";
+import type { ConfiguredProvider } from "./registry";
+import { runDiscovery } from "./discover";
+
+const county: County = {
+  state: "PA",
+  geoid: "42091",
+  name: "Montgomery County",
+  latitude: 40.2,
+  longitude: -75.4,
+  landAreaSqMi: 483,
+  population: null,
+  peopleInPoverty: null,
+  povertyRate: null,
+  snapHouseholdRate: null,
+};
+
+function fakeProvider(name: string, weight: number, resources: Array<Partial<FoodResource>>): ConfiguredProvider {
+  const provider: DiscoveryProvider = {
+    name,
+    description: `${name} test provider`,
+    enabledByDefault: true,
+    defaultWeight: weight,
+    async discover() {
+      return resources.map((resource, i) => ({ resource, raw: { name, i }, externalId: `${name}-${i}` }));
+    },
+  };
+  return { provider, enabled: true, weight };
+}
+
+test("merges records from several providers and keeps one source per provider", async () => {
+  const google = fakeProvider("google-places", 1, [
+    { name: "Hope Food Pantry", address: "123 Main St, Abington, PA 19001", google_place_id: "abc", is_verified: true },
+  ]);
+  const web = fakeProvider("openai", 0.6, [
+    { name: "Hope Pantry", address: "123 Main St, Abington, PA 19001", phone: "215-555-0100" },
+    { name: "Hope Food Pantry", address: "123 Main Street, Abington, PA 19001" },
+    { name: "Grace Kitchen", address: "9 Oak Ave, Ambler, PA 19002" },
+  ]);
+
+  const steps: string[] = [];
+  const { candidates, found } = await runDiscovery(county, [web, google], (provider, count) => {
+    steps.push(`${provider}:${count}`);
+  });
+
+  // Heavier providers run first
+  expect(steps).toEqual(["google-places:1", "openai:3"]);
+  expect(found).toEqual({ "google-places": 1, openai: 3 });
+  expect(candidates).toHaveLength(2);
+
+  const hope = candidates.find((c) => c.resource.google_place_id === "abc")!;
+  expect(hope.resource.phone).toBe("215-555-0100");
+  expect(hope.sources.map((s) => s.provider)).toEqual(["google-places", "openai"]);
+  expect(hope.sources[0]).toMatchObject({ external_id: "google-places-0", raw: { name: "google-places", i: 0 } });
+
+  const grace = candidates.find((c) => c.resource.name === "Grace Kitchen")!;
+  expect(grace.sources.map((s) => s.provider)).toEqual(["openai"]);
+});
+
+test("returns nothing when no providers are enabled", async () => {
+  const { candidates, found } = await runDiscovery(county, []);
+  expect(candidates).toEqual([]);
+  expect(found).toEqual({});
+});
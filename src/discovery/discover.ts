@@ -0,0 +1,183 @@
+// ABOUTME: Runs the enabled discovery providers for a county and merges what they found
+// ABOUTME: Tracks which providers found each merged candidate and records that in resource_sources
+
+import type { Database, FoodResource, Transaction } from "../core/database";
+import type { County } from "../core/counties";
+import { groupDuplicates, mergeGroup } from "../dedup/merge";
+import type { ConfiguredProvider } from "./registry";
+import { discoveredResources } from "../monitoring/metrics";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("discovery");
+
+export interface DiscoverySource {
+  provider: string;
+  external_id: string | null;
+  raw: unknown;
+}
+
+export interface DiscoveryCandidate {
+  resource: Partial<FoodResource>;
+  sources: DiscoverySource[];
+}
+
+export interface DiscoveryResult {
+  candidates: DiscoveryCandidate[];
+  found: Record<string, number>; // Provider -> records returned before merging
+}
+
+/**
+ * Run each provider in turn (heaviest first) and merge records that describe
+ * the same place. onProviderDone is called after each provider finishes.
+ */
+export async function runDiscovery(
+  county: County,
+  providers: ConfiguredProvider[],
+  onProviderDone?: (provider: string, found: number) => Promise<void> | void
+): Promise<DiscoveryResult> {
+  const sourceOf = new Map<Partial<FoodResource>, DiscoverySource>();
+  const records: Partial<FoodResource>[] = [];
+  const found: Record<string, number> = {};
+
+  const ordered = [...providers].sort((a, b) => b.weight - a.weight);
+  for (const { provider } of ordered) {
+    log.info("Searching provider", { provider: provider.name, county: `${county.name}, ${county.state}` });
+    const discovered = await provider.discover(county);
+    log.info("Provider search finished", { provider: provider.name, found: discovered.length });
+
+    for (const item of discovered) {
+      records.push(item.resource);
+      sourceOf.set(item.resource, { provider: provider.name, external_id: item.externalId, raw: item.raw });
+    }
+    found[provider.name] = discovered.length;
+    discoveredResources.inc({ provider: provider.name }, discovered.length);
+    await onProviderDone?.(provider.name, discovered.length);
+  }
+
+  // Records are in weight order, so on equal trust a heavier provider's record survives the merge
+  const candidates = groupDuplicates(records).map((group) => {
+    // One source per provider, even if it returned the place more than once
+    const sources = new Map<string, DiscoverySource>();
+    for (const record of group) {
+      const source = sourceOf.get(record)!;
+      if (!sources.has(source.provider)) sources.set(source.provider, source);
+    }
+    return { resource: mergeGroup(group), sources: [...sources.values()] };
+  });
+
+  return { candidates, found };
+}
+
+/**
+ * Record that providers found a resource, keeping the latest raw payload per provider
+ */
+export async function recordResourceSources(
+  db: Database,
+  resourceId: number,
+  countyGeoid: string | null,
+  sources: DiscoverySource[]
+): Promise<void> {
+  for (const source of sources) {
+    await db`
+      INSERT INTO resource_sources (resource_id, provider, county_geoid, external_id, raw_payload)
+      VALUES (
+        ${resourceId},
+        ${source.provider},
+        ${countyGeoid},
+        ${source.external_id},
+        ${source.raw === undefined ? null : JSON.stringify(source.raw)}
+      )
+      ON CONFLICT (resource_id, provider) DO UPDATE SET
+        county_geoid = COALESCE(EXCLUDED.county_geoid, resource_sources.county_geoid),
+        external_id = COALESCE(EXCLUDED.external_id, resource_sources.external_id),
+        raw_payload = EXCLUDED.raw_payload,
+        times_seen = resource_sources.times_seen + 1,
+        last_seen_at = NOW()
+    `;
+  }
+}
+
+/**
+ * Move provider records from merged-away resources to the one that was kept
+ */
+export async function moveResourceSources(db: Database | Transaction, fromIds: number[], toId: number): Promise<void> {
+  if (fromIds.length === 0) return;
+  await db`
+    INSERT INTO resource_sources (
+      resource_id, provider, county_geoid, external_id, raw_payload, times_seen, first_seen_at, last_seen_at
+    )
+    SELECT
+      ${toId},
+      provider,
+      MAX(county_geoid),
+      MAX(external_id),
+      (ARRAY_AGG(raw_payload ORDER BY last_seen_at DESC))[1],
+      SUM(times_seen)::int,
+      MIN(first_seen_at),
+      MAX(last_seen_at)
+    FROM resource_sources
+    WHERE resource_id = ANY(${fromIds})
+    GROUP BY provider
+    ON CONFLICT (resource_id, provider) DO UPDATE SET
+      times_seen = resource_sources.times_seen + EXCLUDED.times_seen,
+      first_seen_at = LEAST(resource_sources.first_seen_at, EXCLUDED.first_seen_at),
+      last_seen_at = GREATEST(resource_sources.last_seen_at, EXCLUDED.last_seen_at)
+  `;
+}
+
+export interface ResourceSource {
+  id: number;
+  resource_id: number;
+  provider: string;
+  county_geoid: string | null;
+  external_id: string | null;
+  raw_payload: unknown;
+  times_seen: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export async function getResourceSources(db: Database, resourceId: number): Promise<ResourceSource[]> {
+  return await db<ResourceSource[]>`
+    SELECT * FROM resource_sources
+    WHERE resource_id = ${resourceId}
+    ORDER BY first_seen_at, provider
+  `;
+}
+
+export interface ProviderYield {
+  provider: string;
+  county_geoid: string | null;
+  resources: number; // Resources this provider found
+  exclusive: number; // ...that no other provider found
+  exportable: number;
+}
+
+/**
+ * How many resources each provider found per county, to compare provider yield
+ */
+export async function getProviderYield(
+  db: Database,
+  filters: { state?: string; county_geoid?: string }
+): Promise<ProviderYield[]> {
+  return await db<ProviderYield[]>`
+    SELECT
+      s.provider,
+      r.county_geoid,
+      COUNT(*)::int AS resources,
+      COUNT(*) FILTER (
+        WHERE NOT EXISTS (
+          SELECT 1 FROM resource_sources other
+          WHERE other.resource_id = s.resource_id AND other.provider != s.provider
+        )
+      )::int AS exclusive,
+      COUNT(*) FILTER (WHERE r.exportable = true)::int AS exportable
+    FROM resource_sources s
+    JOIN resources r ON r.id = s.resource_id
+    WHERE TRUE
+      ${filters.state ? db`AND r.state = ${filters.state}` : db``}
+      ${filters.county_geoid ? db`AND r.county_geoid = ${filters.county_geoid}` : db``}
+    GROUP BY s.provider, r.county_geoid
+    ORDER BY r.county_geoid, resources DESC
+  `;
+}
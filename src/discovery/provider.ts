@@ -0,0 +1,19 @@
+// ABOUTME: Interface implemented by every source that discovers food resources for a county
+// ABOUTME: Providers return normalized records alongside the raw payload they were built from
+
+import type { FoodResource } from "../core/database";
+import type { County } from "../core/counties";
+
+export interface DiscoveredResource {
+  resource: Partial<FoodResource>;
+  raw: unknown; // The provider's own record, kept in resource_sources.raw_payload
+  externalId: string | null; // The provider's identifier for the record (place ID, URL), if any
+}
+
+export interface DiscoveryProvider {
+  name: string; // Stable identifier, stored in resource_sources.provider
+  description: string;
+  enabledByDefault: boolean;
+  defaultWeight: number; // 0-1; records from heavier providers win ties when duplicates are merged
+  discover(county: County): Promise<DiscoveredResource[]>;
+}
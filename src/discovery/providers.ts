@@ -0,0 +1,72 @@
+// ABOUTME: Built-in discovery providers wrapping Google Places, OpenAI web search and Jina search
+// ABOUTME: Each adapts an existing search function to the DiscoveryProvider interface
+
+import type { FoodResource } from "../core/database";
+import { searchGooglePlaces, type GooglePlace } from "../search/google-places-search";
+import { searchWithOpenAI } from "../search/openai-search";
+import { searchWithJina } from "../search/jina-search";
+import type { DiscoveredResource, DiscoveryProvider } from "./provider";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("discovery");
+
+export const googlePlacesProvider: DiscoveryProvider = {
+  name: "google-places",
+  description: "Google Places Text Search",
+  enabledByDefault: true,
+  defaultWeight: 1,
+  async discover(county) {
+    const places = new Map<Partial<FoodResource>, GooglePlace>();
+    const results = await searchGooglePlaces(county, (resource, place) => places.set(resource, place));
+    return results.map((resource) => ({
+      resource,
+      raw: places.get(resource) ?? null,
+      externalId: resource.google_place_id || null,
+    }));
+  },
+};
+
+export const openAIProvider: DiscoveryProvider = {
+  name: "openai",
+  description: "OpenAI web search",
+  enabledByDefault: true,
+  defaultWeight: 0.6,
+  async discover(county) {
+    // Catches resources not in Google Places, including ones listed only in directories
+    const searches = [
+      `food pantries food banks in ${county.name}, ${county.state}`,
+      `list of food pantries ${county.name} ${county.state} directory`,
+    ];
+
+    const discovered: DiscoveredResource[] = [];
+    for (const query of searches) {
+      log.info("OpenAI search", { query });
+      const results = await searchWithOpenAI(query, "county");
+      // The model's JSON records are already in our shape; keep a copy with the query that found them
+      discovered.push(...results.map((resource) => ({
+        resource,
+        raw: { query, record: { ...resource } },
+        externalId: resource.source_url || null,
+      })));
+    }
+    return discovered;
+  },
+};
+
+export const jinaProvider: DiscoveryProvider = {
+  name: "jina",
+  description: "Jina search with LLM extraction",
+  enabledByDefault: false, // Runs as its own crawl type (county-jina-search) unless enabled here
+  defaultWeight: 0.5,
+  async discover(county) {
+    const query = `${county.name} County, ${county.state}`;
+    const results = await searchWithJina(query, "county");
+    return results.map((resource) => ({
+      resource,
+      raw: { query, record: { ...resource } },
+      externalId: resource.source_url || null,
+    }));
+  },
+};
+
+export const BUILTIN_PROVIDERS: DiscoveryProvider[] = [googlePlacesProvider, openAIProvider, jinaProvider];
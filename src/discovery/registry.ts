@@ -0,0 +1,90 @@
+// ABOUTME: Registry of discovery providers and their enable/weight configuration
+// ABOUTME: Defaults come from each provider and can be overridden with DISCOVERY_PROVIDERS
+
+import type { DiscoveryProvider } from "./provider";
+import { BUILTIN_PROVIDERS } from "./providers";
+
+export interface ProviderSettings {
+  enabled?: boolean;
+  weight?: number;
+}
+
+export type ProviderConfig = Record<string, ProviderSettings>;
+
+export interface ConfiguredProvider {
+  provider: DiscoveryProvider;
+  enabled: boolean;
+  weight: number;
+}
+
+const registry = new Map<string, DiscoveryProvider>();
+
+/**
+ * Make a provider available to county searches. Names must be unique.
+ */
+export function registerProvider(provider: DiscoveryProvider): void {
+  if (registry.has(provider.name)) {
+    throw new Error(`Discovery provider "${provider.name}" is already registered`);
+  }
+  registry.set(provider.name, provider);
+}
+
+export function getProvider(name: string): DiscoveryProvider | null {
+  return registry.get(name) || null;
+}
+
+/**
+ * Parse provider overrides, e.g. {"jina": {"enabled": true, "weight": 0.5}, "openai": {"enabled": false}}
+ */
+export function parseProviderConfig(json: string | undefined): ProviderConfig {
+  if (!json) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("DISCOVERY_PROVIDERS must be a JSON object");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("DISCOVERY_PROVIDERS must be a JSON object");
+  }
+
+  const config: ProviderConfig = {};
+  for (const [name, settings] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!settings || typeof settings !== "object") {
+      throw new Error(`DISCOVERY_PROVIDERS.${name} must be an object`);
+    }
+    const { enabled, weight } = settings as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      throw new Error(`DISCOVERY_PROVIDERS.${name}.enabled must be true or false`);
+    }
+    if (weight !== undefined && (typeof weight !== "number" || weight < 0 || weight > 1)) {
+      throw new Error(`DISCOVERY_PROVIDERS.${name}.weight must be a number between 0 and 1`);
+    }
+    config[name] = { enabled, weight };
+  }
+  return config;
+}
+
+/**
+ * Every registered provider with its effective settings, heaviest first
+ */
+export function configuredProviders(
+  config: ProviderConfig = parseProviderConfig(process.env.DISCOVERY_PROVIDERS)
+): ConfiguredProvider[] {
+  return [...registry.values()]
+    .map((provider) => ({
+      provider,
+      enabled: config[provider.name]?.enabled ?? provider.enabledByDefault,
+      weight: config[provider.name]?.weight ?? provider.defaultWeight,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+export function enabledProviders(config?: ProviderConfig): ConfiguredProvider[] {
+  return configuredProviders(config).filter((p) => p.enabled);
+}
+
+for (const provider of BUILTIN_PROVIDERS) {
+  registerProvider(provider);
+}
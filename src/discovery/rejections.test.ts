@@ -0,0 +1,92 @@
+// ABOUTME: Tests for recording dropped candidates with the rule that fired and the work they belonged to
+// ABOUTME: Captures rejected_candidates inserts with a fake tagged-template database
+
+import { test, expect } from "bun:test";
+import type { Database } from "../core/database";
+import { withCallContext } from "../core/call-context";
+import { filterBySource } from "../utils/source-filter";
+import {
+  observeRejections,
+  rejectCandidate,
+  rejectionFingerprint,
+  rescueRejectedCandidate,
+  startRejectionLog,
+  type Rejection,
+} from "./rejections";
+
+const rejection: Rejection = {
+  stage: "places-search",
+  rule: "blocked_place_type",
+  detail: "church, store",
+  candidate: { name: "Grace Church Pantry", address: "1 Main St", google_place_id: "abc" },
+};
+
+test("filters report each dropped candidate with the call context it was dropped in", async () => {
+  const seen: Array<{ rule: string; county: string | null | undefined }> = [];
+  const stop = observeRejections((r, context) => seen.push({ rule: r.rule, county: context.county_geoid }));
+  try {
+    await withCallContext({ county_geoid: "42091" }, async () => {
+      filterBySource([
+        { name: "Hope Pantry", source_url: "https://www.facebook.com/hope" },
+        { name: "Grace Church Pantry", source_url: "https://grace.org/pantry" },
+      ]);
+    });
+  } finally {
+    stop();
+  }
+
+  expect(seen).toEqual([{ rule: "blocked_domain", county: "42091" }]);
+});
+
+test("the same candidate dropped by the same rule in the same county keeps one fingerprint", () => {
+  const context = { county_geoid: "42091", correlation_id: "a" };
+  const again = { ...rejection, detail: "church", candidate: { ...rejection.candidate, name: " grace church pantry " } };
+  expect(rejectionFingerprint(again, { ...context, correlation_id: "b" })).toBe(rejectionFingerprint(rejection, context));
+  expect(rejectionFingerprint({ ...rejection, rule: "closed" }, context)).not.toBe(rejectionFingerprint(rejection, context));
+  expect(rejectionFingerprint(rejection, { county_geoid: "42017" })).not.toBe(rejectionFingerprint(rejection, context));
+});
+
+test("the rejection log stores the candidate with its county, resource and correlation id", async () => {
+  const inserts: unknown[][] = [];
+  const db = ((_strings: TemplateStringsArray, ...values: unknown[]) => {
+    inserts.push(values);
+    return Promise.resolve([]);
+  }) as unknown as Database;
+
+  const stop = startRejectionLog(db);
+  try {
+    await withCallContext({ correlation_id: "resource:12", county_geoid: "42091", resource_id: 12 }, async () => {
+      rejectCandidate(rejection);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  } finally {
+    stop();
+  }
+
+  expect(inserts).toHaveLength(1);
+  const values = inserts[0]!;
+  expect(values.slice(1, 8)).toEqual([
+    "places-search",
+    "blocked_place_type",
+    "church, store",
+    "Grace Church Pantry",
+    "1 Main St",
+    null,
+    "abc",
+  ]);
+  expect(JSON.parse(values[8] as string)).toEqual(rejection.candidate);
+  expect(values.slice(9)).toEqual(["42091", 12, "resource:12"]);
+});
+
+test("rescuing a candidate that was already rescued writes nothing", async () => {
+  const queries: unknown[][] = [];
+  const db = ((_strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push(values);
+    return Promise.resolve(queries.length === 1 ? [{ id: 3, status: "rescued", rescued_resource_id: 9 }] : []);
+  }) as unknown as Database;
+  Object.assign(db, { begin: (fn: (tx: Database) => unknown) => fn(db) });
+
+  const context = { source: "manual" as const, changedBy: "curator" };
+  expect(await rescueRejectedCandidate(db, 3, context)).toEqual({ outcome: "already_rescued", resource_id: 9 });
+  expect(queries).toHaveLength(1);
+});
@@ -0,0 +1,291 @@
+// ABOUTME: Records every candidate a filter drops, with the stage and rule that fired, in rejected_candidates
+// ABOUTME: Lets curators browse rejections and rescue wrongly dropped candidates into resources
+
+import { createHash } from "node:crypto";
+import { inTransaction, type Database, type FoodResource } from "../core/database";
+import { currentCallContext, type CallContext } from "../core/call-context";
+import { findCountyByGeoid } from "../core/counties";
+import { createResource, updateResource, type ChangeContext, type ResourceUpdate } from "../core/resource-changes";
+import { createMatchIndex } from "../dedup/matcher";
+import { addressKey } from "../utils/address";
+import { createLogger } from "../utils/logger";
+
+// Where in the pipeline the candidate was dropped
+export type RejectionStage = "source-filter" | "geo-filter" | "places-search" | "places-enrichment";
+
+export type RejectionStatus = "rejected" | "rescued";
+
+export interface Rejection {
+  stage: RejectionStage;
+  rule: string; // e.g. blocked_domain, wrong_state, blocked_place_type
+  detail: string | null; // What matched: the pattern, domain, state or place types
+  candidate: Partial<FoodResource>;
+  resource_id?: number | null; // For places-enrichment: the resource whose Google match was rejected
+}
+
+export interface RejectedCandidate {
+  id: number;
+  stage: RejectionStage;
+  rule: string;
+  detail: string | null;
+  name: string | null;
+  address: string | null;
+  source_url: string | null;
+  google_place_id: string | null;
+  candidate: Partial<FoodResource>;
+  county_geoid: string | null;
+  resource_id: number | null;
+  correlation_id: string | null;
+  status: RejectionStatus;
+  times_seen: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  rescued_by: string | null;
+  rescued_at: string | null;
+  rescued_resource_id: number | null;
+}
+
+type RejectionObserver = (rejection: Rejection, context: CallContext) => void;
+
+const log = createLogger("rejections");
+const observers = new Set<RejectionObserver>();
+
+/**
+ * Drop a candidate: logs it and notifies observers (the rejected_candidates log in the server)
+ */
+export function rejectCandidate(rejection: Rejection): void {
+  const context = currentCallContext();
+  log.info(`Dropped: ${rejection.rule}`, {
+    stage: rejection.stage,
+    name: rejection.candidate.name,
+    url: rejection.candidate.source_url,
+    place_id: rejection.candidate.google_place_id,
+    detail: rejection.detail,
+  });
+  for (const observer of observers) {
+    try {
+      observer(rejection, context);
+    } catch (error) {
+      log.error("Rejection observer failed", { error });
+    }
+  }
+}
+
+export function observeRejections(observer: RejectionObserver): () => void {
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+/**
+ * Identifies the same candidate dropped by the same rule on a later crawl, so re-runs bump times_seen
+ */
+export function rejectionFingerprint(rejection: Rejection, context: CallContext): string {
+  const { candidate } = rejection;
+  const key = [
+    rejection.stage,
+    rejection.rule,
+    context.county_geoid ?? null,
+    rejection.resource_id ?? context.resource_id ?? null,
+    candidate.name?.trim().toLowerCase() || null,
+    addressKey(candidate.address, candidate.zip_code),
+    candidate.source_url || null,
+    candidate.google_place_id || null,
+  ];
+  return createHash("sha256").update(JSON.stringify(key)).digest("hex").slice(0, 32);
+}
+
+async function recordRejection(db: Database, rejection: Rejection, context: CallContext): Promise<void> {
+  const { candidate } = rejection;
+  await db`
+    INSERT INTO rejected_candidates (
+      fingerprint, stage, rule, detail, name, address, source_url, google_place_id, candidate,
+      county_geoid, resource_id, correlation_id
+    ) VALUES (
+      ${rejectionFingerprint(rejection, context)},
+      ${rejection.stage},
+      ${rejection.rule},
+      ${rejection.detail},
+      ${candidate.name || null},
+      ${candidate.address || null},
+      ${candidate.source_url || null},
+      ${candidate.google_place_id || null},
+      ${JSON.stringify(candidate)},
+      ${context.county_geoid ?? null},
+      ${rejection.resource_id ?? context.resource_id ?? null},
+      ${context.correlation_id ?? null}
+    )
+    ON CONFLICT (fingerprint) DO UPDATE SET
+      detail = EXCLUDED.detail,
+      candidate = EXCLUDED.candidate,
+      correlation_id = EXCLUDED.correlation_id,
+      times_seen = rejected_candidates.times_seen + 1,
+      last_seen_at = CURRENT_TIMESTAMP
+  `;
+}
+
+/**
+ * Store every candidate this process drops in rejected_candidates. Returns a stop function.
+ */
+export function startRejectionLog(db: Database): () => void {
+  return observeRejections((rejection, context) => {
+    recordRejection(db, rejection, context).catch((error) => {
+      log.error("Failed to record rejected candidate", { error });
+    });
+  });
+}
+
+export interface RejectionFilters {
+  status: RejectionStatus;
+  stage?: RejectionStage;
+  rule?: string;
+  county_geoid?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Rejections, most recently seen first, plus counts per stage and rule for the same status and county
+ */
+export async function listRejectedCandidates(
+  db: Database,
+  filters: RejectionFilters
+): Promise<{
+  total: number;
+  candidates: RejectedCandidate[];
+  rules: Array<{ stage: RejectionStage; rule: string; count: number }>;
+}> {
+  const scope = () => db`
+    WHERE status = ${filters.status}
+    ${filters.county_geoid ? db`AND county_geoid = ${filters.county_geoid}` : db``}
+  `;
+  const where = () => db`
+    ${scope()}
+    ${filters.stage ? db`AND stage = ${filters.stage}` : db``}
+    ${filters.rule ? db`AND rule = ${filters.rule}` : db``}
+  `;
+
+  const [[counted], candidates, rules] = await Promise.all([
+    db<Array<{ total: number }>>`SELECT COUNT(*)::int AS total FROM rejected_candidates ${where()}`,
+    db<RejectedCandidate[]>`
+      SELECT * FROM rejected_candidates
+      ${where()}
+      ORDER BY last_seen_at DESC, id DESC
+      LIMIT ${filters.limit}
+      OFFSET ${filters.offset}
+    `,
+    db<Array<{ stage: RejectionStage; rule: string; count: number }>>`
+      SELECT stage, rule, COUNT(*)::int AS count
+      FROM rejected_candidates
+      ${scope()}
+      GROUP BY stage, rule
+      ORDER BY count DESC
+    `,
+  ]);
+
+  return { total: counted?.total ?? 0, candidates, rules };
+}
+
+export type RescueResult =
+  | { outcome: "created" | "updated"; resource: FoodResource; rejection: RejectedCandidate }
+  | { outcome: "exists"; resource_id: number }
+  | { outcome: "already_rescued"; resource_id: number | null }
+  | { outcome: "missing_resource" }
+  | { outcome: "not_found" };
+
+class RescueConflictError extends Error {
+  constructor() {
+    super("Rejected candidate was rescued concurrently");
+  }
+}
+
+// Location fields taken from a Google match that enrichment rejected
+const ENRICHMENT_RESCUE_FIELDS = ["address", "city", "state", "zip_code", "latitude", "longitude", "google_place_id"] as const;
+
+/**
+ * Undo a rejection. Candidates dropped during discovery are created as resources (unless the
+ * database already has a matching one); a Google match rejected during enrichment is applied to
+ * its resource. Runs in one transaction holding the rejection's row, so concurrent rescues of the
+ * same candidate create one resource.
+ */
+export async function rescueRejectedCandidate(
+  db: Database,
+  rejectionId: number,
+  context: ChangeContext
+): Promise<RescueResult> {
+  return inTransaction(db, async (tx): Promise<RescueResult> => {
+    const [rejection] = await tx<RejectedCandidate[]>`
+      SELECT * FROM rejected_candidates WHERE id = ${rejectionId} FOR UPDATE
+    `;
+    if (!rejection) return { outcome: "not_found" };
+    if (rejection.status === "rescued") return { outcome: "already_rescued", resource_id: rejection.rescued_resource_id };
+
+    let outcome: "created" | "updated";
+    let resource: FoodResource | null;
+
+    if (rejection.stage === "places-enrichment") {
+      if (!rejection.resource_id) return { outcome: "missing_resource" };
+      const updates: ResourceUpdate = {
+        needs_enrichment: false,
+        enrichment_failure_count: 0,
+        enrichment_failure_reason: null,
+        is_verified: true,
+      };
+      for (const field of ENRICHMENT_RESCUE_FIELDS) {
+        const value = rejection.candidate[field];
+        if (value !== undefined && value !== null) Object.assign(updates, { [field]: value });
+      }
+      resource = await updateResource(tx, rejection.resource_id, updates, context);
+      if (!resource) return { outcome: "missing_resource" };
+      outcome = "updated";
+    } else {
+      const county = rejection.county_geoid ? await findCountyByGeoid(rejection.county_geoid) : null;
+      const { candidate } = rejection;
+      const state = candidate.state || county?.state || null;
+
+      // Only resources in the candidate's state or county can match it
+      const existing = await tx<FoodResource[]>`
+        SELECT id, name, address, zip_code, phone, latitude, longitude, google_place_id, needs_enrichment FROM resources
+        WHERE state = ${state} OR county_geoid = ${county?.geoid ?? null}
+      `;
+      const match = createMatchIndex(existing).findBest(candidate);
+      if (match) return { outcome: "exists", resource_id: match.record.id! };
+
+      resource = await createResource(
+        tx,
+        {
+          ...(candidate as ResourceUpdate),
+          address: candidate.address || "",
+          type: candidate.type || "mixed",
+          state,
+          county_name: county?.name ?? null,
+          county_geoid: county?.geoid ?? null,
+          location_type: county ? "county" : null,
+          // Same rule as a crawl: records that came from Google Places are already enriched
+          needs_enrichment: !candidate.google_place_id,
+        },
+        context
+      );
+      outcome = "created";
+    }
+
+    const [rescued] = await tx<RejectedCandidate[]>`
+      UPDATE rejected_candidates SET
+        status = 'rescued',
+        rescued_by = ${context.changedBy},
+        rescued_at = NOW(),
+        rescued_resource_id = ${resource.id!}
+      WHERE id = ${rejection.id}
+      AND status = 'rejected'
+      RETURNING *
+    `;
+    // Rolls back the resource written above if another rescue got there first
+    if (!rescued) throw new RescueConflictError();
+
+    return { outcome, resource, rejection: rescued };
+  }).catch((error) => {
+    if (error instanceof RescueConflictError) return { outcome: "already_rescued", resource_id: null };
+    throw error;
+  });
+}
@@ -5,8 +5,15 @@ import type { Database } from "bun:sql";
 import type { FoodResource } from "../core/database";
 import { enrichWithGooglePlaces, type EnrichmentResult } from "./google-places";
 import { validateResourceWithJina, applyJinaValidation } from "../validation/jina-validator";
+import { updateResource, type ChangeContext } from "../core/resource-changes";
+import { createBudgetGuard } from "../costs/ledger";
+import { withCallContext } from "../core/call-context";
+import { enrichmentOutcomes, jinaValidationOutcomes, reasonLabel } from "../monitoring/metrics";
+import { createLogger } from "../utils/logger";
 
 const MAX_CONCURRENT_ENRICHMENTS = 5;
+const ENRICHMENT_CHANGE_CONTEXT: ChangeContext = { source: "google-places", changedBy: "enrichment-worker" };
+const log = createLogger("enrichment");
 let activeEnrichments = 0;
 let shouldStop = false;
 
@@ -22,66 +29,70 @@ async function processResource(
 
     if (result.data && result.data.latitude && result.data.longitude) {
       // Update the resource with enriched data
-      await db`
-        UPDATE resources
-        SET
-          name = ${result.data.name || resource.name},
-          latitude = ${result.data.latitude},
-          longitude = ${result.data.longitude},
-          address = ${result.data.address},
-          city = ${result.data.city || resource.city},
-          state = ${result.data.state || resource.state},
-          zip_code = ${result.data.zip_code || resource.zip_code},
-          phone = ${result.data.phone || resource.phone},
-          hours = ${result.data.hours || resource.hours},
-          rating = ${result.data.rating || resource.rating},
-          source_url = ${result.data.source_url || resource.source_url},
-          wheelchair_accessible = ${result.data.wheelchair_accessible ?? null},
-          has_curbside_pickup = ${result.data.has_curbside_pickup ?? null},
-          has_delivery = ${result.data.has_delivery ?? null},
-          has_takeout = ${result.data.has_takeout ?? null},
-          editorial_summary = ${result.data.editorial_summary ?? null},
-          verification_notes = ${result.data.verification_notes},
-          google_place_id = ${result.data.google_place_id},
-          needs_enrichment = false,
-          last_enrichment_attempt = CURRENT_TIMESTAMP,
-          last_verified_at = CURRENT_TIMESTAMP,
-          enrichment_failure_count = 0,
-          enrichment_failure_reason = NULL
-        WHERE id = ${resource.id}
-      `;
-      console.log(`[Enrichment] ✅ ${result.data.name || resource.name}`);
+      const now = new Date().toISOString();
+      const updatedResource = await updateResource(
+        db,
+        resource.id!,
+        {
+          name: result.data.name || resource.name,
+          latitude: result.data.latitude,
+          longitude: result.data.longitude,
+          address: result.data.address,
+          city: result.data.city || resource.city,
+          state: result.data.state || resource.state,
+          zip_code: result.data.zip_code || resource.zip_code,
+          phone: result.data.phone || resource.phone,
+          hours: result.data.hours || resource.hours,
+          rating: result.data.rating || resource.rating,
+          source_url: result.data.source_url || resource.source_url,
+          wheelchair_accessible: result.data.wheelchair_accessible ?? null,
+          has_curbside_pickup: result.data.has_curbside_pickup ?? null,
+          has_delivery: result.data.has_delivery ?? null,
+          has_takeout: result.data.has_takeout ?? null,
+          editorial_summary: result.data.editorial_summary ?? null,
+          verification_notes: result.data.verification_notes,
+          google_place_id: result.data.google_place_id,
+          verification_signals: result.data.verification_signals,
+          needs_enrichment: false,
+          last_enrichment_attempt: now,
+          last_verified_at: now,
+          enrichment_failure_count: 0,
+          enrichment_failure_reason: null,
+        },
+        ENRICHMENT_CHANGE_CONTEXT
+      );
+      enrichmentOutcomes.inc({ outcome: "success", reason: "" });
+      log.info("Enriched", { name: result.data.name || resource.name });
 
       // Run Jina validation if API key is present
-      if (process.env.JINA_API_KEY) {
+      if (process.env.JINA_API_KEY && updatedResource) {
         try {
-          // Fetch the updated resource to get the latest data
-          const updatedResource = await db<FoodResource[]>`
-            SELECT * FROM resources WHERE id = ${resource.id}
-          `;
-
-          if (updatedResource.length > 0) {
-            const jinaResult = await validateResourceWithJina(updatedResource[0]);
-            await applyJinaValidation(db, updatedResource[0], jinaResult);
-          }
+          const jinaResult = await validateResourceWithJina(updatedResource);
+          await applyJinaValidation(db, updatedResource, jinaResult);
         } catch (jinaError) {
-          console.log(`[Jina] Error during validation: ${jinaError instanceof Error ? jinaError.message : String(jinaError)}`);
+          jinaValidationOutcomes.inc({ outcome: "error" });
+          log.error("Jina validation failed", { name: resource.name, error: jinaError });
           // Don't fail the whole enrichment if Jina validation fails
         }
       }
     } else {
+      enrichmentOutcomes.inc({ outcome: "failure", reason: reasonLabel(result.failureReason) });
+
       // Check if permanently closed - mark as unexportable
       if (result.failureReason === 'Permanently closed') {
-        await db`
-          UPDATE resources
-          SET
-            exportable = false,
-            last_enrichment_attempt = CURRENT_TIMESTAMP,
-            enrichment_failure_count = ${(resource.enrichment_failure_count || 0) + 1},
-            enrichment_failure_reason = ${result.failureReason}
-          WHERE id = ${resource.id}
-        `;
-        console.log(`[Enrichment] ⛔ ${resource.name} (${result.failureReason} - marked unexportable)`);
+        await updateResource(
+          db,
+          resource.id!,
+          {
+            exportable: false,
+            verification_signals: { business_status: "CLOSED_PERMANENTLY" },
+            last_enrichment_attempt: new Date().toISOString(),
+            enrichment_failure_count: (resource.enrichment_failure_count || 0) + 1,
+            enrichment_failure_reason: result.failureReason,
+          },
+          ENRICHMENT_CHANGE_CONTEXT
+        );
+        log.info("Dropped: marked unexportable", { name: resource.name, reason: result.failureReason });
       } else {
         // Mark as failed with reason
         const failureCount = (resource.enrichment_failure_count || 0) + 1;
@@ -93,7 +104,7 @@ async function processResource(
             enrichment_failure_reason = ${result.failureReason || "Unknown error"}
           WHERE id = ${resource.id}
         `;
-        console.log(`[Enrichment] ❌ ${resource.name} (${result.failureReason})`);
+        log.info("Enrichment failed", { name: resource.name, reason: result.failureReason, failure_count: failureCount });
       }
     }
   } finally {
@@ -102,10 +113,12 @@ async function processResource(
 }
 
 async function enrichmentLoop(db: Database, enrichFn: EnrichmentFunction) {
+  const withinBudget = createBudgetGuard(db, "Enrichment");
+
   while (!shouldStop) {
     try {
-      // Only fetch new resources if we have capacity
-      if (activeEnrichments < MAX_CONCURRENT_ENRICHMENTS) {
+      // Only fetch new resources if we have capacity and today's API budget isn't spent
+      if (activeEnrichments < MAX_CONCURRENT_ENRICHMENTS && (await withinBudget())) {
         const availableSlots = MAX_CONCURRENT_ENRICHMENTS - activeEnrichments;
 
         // Find resources that need enrichment (but not permanently failed ones)
@@ -129,23 +142,30 @@ async function enrichmentLoop(db: Database, enrichFn: EnrichmentFunction) {
             WHERE id = ANY(${resourceIds})
           `;
 
-          console.log(`[Enrichment] Starting ${needsEnrichment.length} enrichment requests (${activeEnrichments} already running, max ${MAX_CONCURRENT_ENRICHMENTS})...`);
+          log.info("Starting enrichment requests", {
+            count: needsEnrichment.length,
+            running: activeEnrichments,
+            max: MAX_CONCURRENT_ENRICHMENTS,
+          });
 
           // Start enrichment for each resource (fire and forget)
           for (const resource of needsEnrichment) {
             activeEnrichments++;
-            processResource(db, resource, enrichFn).catch((error) => {
-              console.error(`[Enrichment] Error processing ${resource.name}:`, error);
+            const context = {
+              correlation_id: `resource:${resource.id}`,
+              resource_id: resource.id,
+              county_geoid: resource.county_geoid,
+            };
+            withCallContext(context, () => processResource(db, resource, enrichFn)).catch((error) => {
+              enrichmentOutcomes.inc({ outcome: "failure", reason: "Worker error" });
+              log.error("Error processing resource", { name: resource.name, resource_id: resource.id, error });
               activeEnrichments--;
             });
-
-            // Small delay between starting requests to avoid overwhelming the API
-            await new Promise((resolve) => setTimeout(resolve, 100));
           }
         }
       }
     } catch (error) {
-      console.error("[Enrichment] Error in main loop:", error);
+      log.error("Error in main loop", { error });
     }
 
     // Check every second for new work
@@ -160,7 +180,7 @@ export function startEnrichmentWorker(
   shouldStop = false;
   const fn = enrichFn || enrichWithGooglePlaces;
   enrichmentLoop(db, fn).catch((error) => {
-    console.error("[Enrichment] Fatal error:", error);
+    log.error("Fatal error", { error });
   });
 
   return () => {
@@ -3,8 +3,12 @@
 
 import type { FoodResource } from "../core/database";
 import { extractSocialMediaLinks } from "../utils/social-media-extractor";
+import { fixtureFetch, fixtureApiKey } from "../utils/api-fixtures";
+import { createLogger } from "../utils/logger";
+import { rejectCandidate } from "../discovery/rejections";
 
-const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
+const GOOGLE_PLACES_API_KEY = fixtureApiKey(process.env.GOOGLE_MAPS_API_KEY);
+const log = createLogger("google-places");
 
 interface GeocodingResult {
   results: Array<{
@@ -84,51 +88,57 @@ export async function enrichWithGooglePlaces(
   resource: Partial<FoodResource>
 ): Promise<EnrichmentResult> {
   if (!GOOGLE_PLACES_API_KEY) {
-    console.warn("Google Places API key not configured");
+    log.warn("Google Places API key not configured");
     return { data: resource as Partial<FoodResource>, failureReason: "API key not configured" };
   }
 
   try {
     // Build search query
     const query = buildSearchQuery(resource);
-    console.log(`Enriching: ${resource.name} with query: "${query}"`);
+    log.info("Enriching resource", { name: resource.name, query });
 
     // Find Place using Text Search
     const searchUrl = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encodeURIComponent(query)}&inputtype=textquery&fields=place_id,name,formatted_address,geometry,business_status,rating,user_ratings_total,types&key=${GOOGLE_PLACES_API_KEY}`;
 
-    const searchResponse = await fetch(searchUrl);
+    const searchResponse = await fixtureFetch(searchUrl);
     const searchData: PlacesSearchResult = await searchResponse.json();
 
     if (searchData.status !== "OK" || searchData.candidates.length === 0) {
-      console.log(`  ❌ Not found in Google Places`);
+      log.info("Not found in Google Places", { name: resource.name, status: searchData.status });
       return await geocodeAddress(resource);
     }
 
-    const candidate = searchData.candidates[0];
+    const candidate = searchData.candidates[0]!;
 
     // Check if permanently closed
     if (candidate.business_status === "CLOSED_PERMANENTLY") {
-      console.log(`  ⚠️  Business status: ${candidate.business_status}`);
+      log.info("Dropped: permanently closed", { name: resource.name, place_id: candidate.place_id });
       return { data: null, failureReason: "Permanently closed" };
     }
 
     if (candidate.business_status === "CLOSED_TEMPORARILY") {
-      console.log(`  ⚠️  Business status: ${candidate.business_status}`);
+      log.info("Temporarily closed, falling back to geocoding", { name: resource.name, place_id: candidate.place_id });
       return await geocodeAddress(resource);
     }
 
     // Validate that the name reasonably matches what we searched for
     const matchResult = isReasonableMatch(resource.name || "", candidate.name);
     if (!matchResult.isMatch) {
-      console.log(`  ⚠️  Name mismatch: searched for "${resource.name}", found "${candidate.name}"`);
+      const mismatch = {
+        name: resource.name,
+        found_name: candidate.name,
+        place_id: candidate.place_id,
+        match_ratio: Number(matchResult.matchRatio.toFixed(2)),
+      };
 
       // If it's a close match, accept it anyway
       if (matchResult.isCloseMatch) {
-        console.log(`  ℹ️  Accepting close match (${matchResult.matchRatio.toFixed(2)} similarity)`);
+        log.info("Name mismatch, accepting close match", mismatch);
       } else if (isFoodRelatedPlace(candidate.name, candidate.types)) {
         // Google found a food-related place at this address - accept it with the new name
-        console.log(`  ℹ️  Accepting food-related place with different name`);
+        log.info("Name mismatch, accepting food-related place", mismatch);
       } else {
+        log.info("Name mismatch, falling back to geocoding", mismatch);
         return await geocodeAddress(resource);
       }
     }
@@ -160,9 +170,7 @@ export async function enrichWithGooglePlaces(
       );
 
       if (hasStrictlyBlockedType) {
-        console.log(
-          `  ⚠️  Blocked type: ${candidate.name} has types [${candidate.types.join(", ")}]`
-        );
+        rejectPlaceMatch(resource, candidate);
         return await geocodeAddress(resource);
       }
 
@@ -173,13 +181,13 @@ export async function enrichWithGooglePlaces(
       if (hasConditionallyBlockedType) {
         // Check if it's food-related despite being a church/school/store
         if (isFoodRelatedPlace(candidate.name, candidate.types)) {
-          console.log(
-            `  ℹ️  Accepting ${candidate.types.filter(t => conditionallyBlockedTypes.includes(t)).join('/')} as food resource`
-          );
+          log.info("Accepting conditionally blocked type as food resource", {
+            name: resource.name,
+            place_id: candidate.place_id,
+            types: candidate.types.filter(t => conditionallyBlockedTypes.includes(t)),
+          });
         } else {
-          console.log(
-            `  ⚠️  Blocked type: ${candidate.name} has types [${candidate.types.join(", ")}]`
-          );
+          rejectPlaceMatch(resource, candidate);
           return await geocodeAddress(resource);
         }
       }
@@ -188,7 +196,7 @@ export async function enrichWithGooglePlaces(
     // Get detailed information
     const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${candidate.place_id}&fields=formatted_phone_number,opening_hours,website,wheelchair_accessible_entrance,curbside_pickup,delivery,takeout,editorial_summary&key=${GOOGLE_PLACES_API_KEY}`;
 
-    const detailsResponse = await fetch(detailsUrl);
+    const detailsResponse = await fixtureFetch(detailsUrl);
     const detailsData: PlaceDetailsResult = await detailsResponse.json();
 
     // Extract address components
@@ -209,9 +217,13 @@ export async function enrichWithGooglePlaces(
       hours = detailsData.result.opening_hours.weekday_text.join("; ");
     }
 
-    console.log(
-      `  ✅ Found: ${candidate.formatted_address} (${candidate.geometry.location.lat}, ${candidate.geometry.location.lng})`
-    );
+    log.info("Found in Google Places", {
+      name: resource.name,
+      place_id: candidate.place_id,
+      address: candidate.formatted_address,
+      lat: candidate.geometry.location.lat,
+      lng: candidate.geometry.location.lng,
+    });
 
     // Extract social media links from the website
     const websiteUrl = detailsData.result.website || resource.source_url;
@@ -253,14 +265,76 @@ export async function enrichWithGooglePlaces(
         is_verified: true,
         verification_notes: `Found via web search and verified via Google Places API${candidate.user_ratings_total ? ` (${candidate.user_ratings_total} reviews)` : ""}${shouldUseGoogleName ? `. Original name: ${resource.name}` : ""}`,
         google_place_id: candidate.place_id,
+        verification_signals: {
+          ...resource.verification_signals,
+          business_status: "OPERATIONAL",
+          rating_count: candidate.user_ratings_total ?? 0,
+        },
       }
     };
   } catch (error) {
-    console.error(`  ❌ Error enriching ${resource.name}:`, error);
+    log.error("Enrichment request failed", { name: resource.name, error });
     return { data: null, failureReason: `API error: ${error instanceof Error ? error.message : String(error)}` };
   }
 }
 
+export type BusinessStatus = "OPERATIONAL" | "CLOSED_TEMPORARILY" | "CLOSED_PERMANENTLY" | "NOT_FOUND";
+
+/**
+ * Look up the current business status of an already matched place. NOT_FOUND means Google no
+ * longer knows the place ID; errors (including a missing API key) come back as failureReason.
+ */
+export async function checkBusinessStatus(
+  placeId: string
+): Promise<{ status: BusinessStatus | null; failureReason?: string }> {
+  if (!GOOGLE_PLACES_API_KEY) {
+    return { status: null, failureReason: "API key not configured" };
+  }
+
+  try {
+    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(placeId)}&fields=business_status&key=${GOOGLE_PLACES_API_KEY}`;
+    const response = await fixtureFetch(detailsUrl);
+    const details = (await response.json()) as Partial<PlaceDetailsResult>;
+
+    if (details.status === "NOT_FOUND" || details.status === "INVALID_REQUEST") {
+      return { status: "NOT_FOUND" };
+    }
+    if (details.status !== "OK") {
+      return { status: null, failureReason: `Place Details status ${details.status}` };
+    }
+    // Places without a status are treated as operating, as in discovery
+    return { status: (details.result?.business_status as BusinessStatus | undefined) || "OPERATIONAL" };
+  } catch (error) {
+    log.error("Business status check failed", { place_id: placeId, error });
+    return { status: null, failureReason: `API error: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Record a Google match turned down for its place types. Enrichment falls back to geocoding, and a
+ * curator can still accept the match from rejected_candidates.
+ */
+function rejectPlaceMatch(resource: Partial<FoodResource>, candidate: PlacesSearchResult["candidates"][number]): void {
+  const addressParts = candidate.formatted_address.split(", ");
+  const stateZip = addressParts.length >= 2 ? addressParts[addressParts.length - 2]! : "";
+  rejectCandidate({
+    stage: "places-enrichment",
+    rule: "blocked_place_type",
+    detail: (candidate.types || []).join(", "),
+    candidate: {
+      name: candidate.name,
+      address: addressParts[0],
+      city: addressParts.length >= 3 ? addressParts[addressParts.length - 3] : undefined,
+      state: stateZip.split(" ")[0] || undefined,
+      zip_code: stateZip.split(" ")[1] || undefined,
+      latitude: candidate.geometry.location.lat,
+      longitude: candidate.geometry.location.lng,
+      google_place_id: candidate.place_id,
+    },
+    resource_id: resource.id ?? null,
+  });
+}
+
 function buildSearchQuery(resource: Partial<FoodResource>): string {
   const parts: string[] = [];
 
@@ -405,15 +479,15 @@ async function geocodeAddress(
   }
 
   try {
-    console.log(`  🔄 Falling back to geocoding for: ${fullAddress}`);
+    log.info("Falling back to geocoding", { name: resource.name, address: fullAddress });
 
     const geocodeUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(fullAddress)}&key=${GOOGLE_PLACES_API_KEY}`;
 
-    const response = await fetch(geocodeUrl);
+    const response = await fixtureFetch(geocodeUrl);
     const data = await response.json() as GeocodingResult;
 
     if (data.status !== "OK" || !data.results || data.results.length === 0) {
-      console.log(`  ❌ Geocoding failed: ${data.status}`);
+      log.info("Geocoding failed", { name: resource.name, address: fullAddress, status: data.status });
       return { data: null, failureReason: `Geocoding failed: ${data.status}` };
     }
 
@@ -440,7 +514,13 @@ async function geocodeAddress(
       }
     }
 
-    console.log(`  ✅ Geocoded: ${result.formatted_address} (${location.lat}, ${location.lng})`);
+    log.info("Geocoded", {
+      name: resource.name,
+      place_id: result.place_id,
+      address: result.formatted_address,
+      lat: location.lat,
+      lng: location.lng,
+    });
 
     return {
       data: {
@@ -455,7 +535,7 @@ async function geocodeAddress(
       }
     };
   } catch (error) {
-    console.error(`  ❌ Geocoding error:`, error);
+    log.error("Geocoding request failed", { name: resource.name, address: fullAddress, error });
     return { data: null, failureReason: `Geocoding error: ${error instanceof Error ? error.message : String(error)}` };
   }
 }
@@ -0,0 +1,47 @@
+// ABOUTME: Tests for /export/changes parameter parsing
+// ABOUTME: Checks since/cursor handling and limit validation
+
+import { test, expect } from "bun:test";
+import { parseChangesQuery, DEFAULT_CHANGES_LIMIT, MAX_CHANGES_LIMIT } from "./changes";
+import { encodePosition } from "../core/resource-query";
+
+test("since starts the feed at that instant", () => {
+  const { query } = parseChangesQuery(new URLSearchParams("since=2024-05-01T12:00:00Z&state=pa"));
+  expect(query).toEqual({
+    after: { value: "2024-05-01T12:00:00.000Z", id: 0 },
+    limit: DEFAULT_CHANGES_LIMIT,
+    state: "PA",
+  });
+});
+
+test("since with a UTC offset is kept as the same instant", () => {
+  const { query } = parseChangesQuery(new URLSearchParams({ since: "2024-05-01T08:00:00-04:00" }));
+  expect(query?.after).toEqual({ value: "2024-05-01T12:00:00.000Z", id: 0 });
+});
+
+test("cursor resumes after the last change of the previous page", () => {
+  const cursor = encodePosition({ value: "2024-05-01T12:00:00.123456", id: 42 });
+  const { query } = parseChangesQuery(new URLSearchParams({ cursor, since: "2020-01-01T00:00:00Z" }));
+  expect(query?.after).toEqual({ value: "2024-05-01T12:00:00.123456", id: 42 });
+});
+
+test("requires since or cursor", () => {
+  expect(parseChangesQuery(new URLSearchParams()).error).toContain("required");
+  expect(parseChangesQuery(new URLSearchParams("since=yesterday")).error).toContain("ISO 8601");
+  expect(parseChangesQuery(new URLSearchParams("cursor=nope")).error).toBe("cursor is invalid");
+  expect(parseChangesQuery(new URLSearchParams({ cursor: encodePosition({ value: 5, id: 1 }) })).error).toBe("cursor is invalid");
+});
+
+test("validates limit", () => {
+  const since = "since=2024-01-01T00:00:00Z";
+  expect(parseChangesQuery(new URLSearchParams(`${since}&limit=0`)).error).toBeDefined();
+  expect(parseChangesQuery(new URLSearchParams(`${since}&limit=${MAX_CHANGES_LIMIT + 1}`)).error).toBeDefined();
+  expect(parseChangesQuery(new URLSearchParams(`${since}&limit=10`)).query?.limit).toBe(10);
+});
+
+test("min_quality switches the feed to a quality threshold", () => {
+  const since = "since=2024-01-01T00:00:00Z";
+  expect(parseChangesQuery(new URLSearchParams(since)).query?.minQuality).toBeUndefined();
+  expect(parseChangesQuery(new URLSearchParams(`${since}&min_quality=60`)).query?.minQuality).toBe(60);
+  expect(parseChangesQuery(new URLSearchParams(`${since}&min_quality=120`)).error).toMatch(/^min_quality/);
+});
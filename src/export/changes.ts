@@ -0,0 +1,164 @@
+// ABOUTME: Incremental export feed: resources added, changed or removed since a point in time
+// ABOUTME: Pages through resources.updated_at and resource_tombstones in one keyset-ordered stream
+
+import type { Database, FoodResource } from "../core/database";
+import { encodePosition, decodePosition, type Position } from "../core/resource-query";
+import { toPartnerRecord, type PartnerRecord } from "./formats";
+import { parseMinQuality } from "../validation/quality-score";
+
+export const DEFAULT_CHANGES_LIMIT = 500;
+export const MAX_CHANGES_LIMIT = 5000;
+
+// Changes younger than this are left for the next poll, so rows written by
+// transactions still committing (with slightly older timestamps) aren't skipped
+const SETTLE_SECONDS = 5;
+
+export interface ChangesQuery {
+  after: Position; // Position in the feed: changes strictly after (UTC instant or local cursor timestamp, resource id)
+  limit: number;
+  state?: string;
+  minQuality?: number; // When set, quality_score >= minQuality decides what is exported instead of exportable
+}
+
+export type DeletionReason = "deleted" | "not_exportable";
+
+export interface ExportDeletion {
+  source_record_id: string;
+  places_id: string;
+  reason: DeletionReason;
+  changed_at: string;
+}
+
+export interface ExportChanges {
+  upserts: PartnerRecord[];
+  deletions: ExportDeletion[];
+  next_cursor: string;
+  has_more: boolean;
+}
+
+/**
+ * Parse /export/changes parameters. Either since (ISO timestamp) or the
+ * cursor returned by a previous call is required.
+ */
+export function parseChangesQuery(params: URLSearchParams): { query?: ChangesQuery; error?: string } {
+  const limitParam = params.get("limit");
+  const limit = limitParam ? parseInt(limitParam) : DEFAULT_CHANGES_LIMIT;
+  if (isNaN(limit) || limit < 1 || limit > MAX_CHANGES_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_CHANGES_LIMIT}` };
+  }
+
+  const state = params.get("state")?.toUpperCase() || undefined;
+
+  const quality = parseMinQuality(params);
+  if (quality.error) return { error: quality.error };
+  const minQuality = quality.min ?? undefined;
+
+  const cursorParam = params.get("cursor");
+  if (cursorParam) {
+    const after = decodePosition(cursorParam);
+    if (!after || typeof after.value !== "string") return { error: "cursor is invalid" };
+    return { query: { after, limit, state, minQuality } };
+  }
+
+  const since = params.get("since");
+  if (!since) {
+    return { error: "since (ISO 8601 timestamp) or cursor is required" };
+  }
+  const sinceDate = new Date(since);
+  if (isNaN(sinceDate.getTime())) {
+    return { error: "since must be an ISO 8601 timestamp" };
+  }
+
+  return { query: { after: { value: sinceDate.toISOString(), id: 0 }, limit, state, minQuality } };
+}
+
+interface ChangeRow {
+  resource_id: number;
+  change: "upsert" | DeletionReason;
+  position: string; // changed_at with microseconds, for the cursor
+}
+
+/**
+ * One page of changes in (timestamp, resource id) order. Resources that no
+ * longer qualify for /export (exportable turned off or score below min_quality,
+ * URL removed) are reported as deletions too, since consumers may hold them
+ * from earlier exports.
+ */
+export async function getExportChanges(db: Database, query: ChangesQuery): Promise<ExportChanges> {
+  const { after, limit, state, minQuality } = query;
+  const stateFilter = state ? db`AND state = ${state}` : db``;
+  const qualifies = minQuality != null ? db`quality_score >= ${minQuality}` : db`exportable = true`;
+
+  const rows = await db<ChangeRow[]>`
+    SELECT
+      resource_id,
+      change,
+      to_char(changed_at, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS position
+    FROM (
+      SELECT
+        id AS resource_id,
+        updated_at AS changed_at,
+        CASE
+          WHEN ${qualifies} AND source_url IS NOT NULL AND source_url != '' THEN 'upsert'
+          ELSE 'not_exportable'
+        END AS change
+      FROM resources
+      WHERE TRUE ${stateFilter}
+      UNION ALL
+      -- Resources deleted while not exportable were already reported as not_exportable, or never exported
+      SELECT resource_id, deleted_at, 'deleted'
+      FROM resource_tombstones
+      WHERE was_exportable IS NOT FALSE ${stateFilter}
+    ) feed
+    -- updated_at and deleted_at are local time without a zone: read since (a UTC instant) and
+    -- cursor positions (zoneless local times) as timestamptz, then convert to the session's zone
+    WHERE (changed_at, resource_id) > (${after.value}::timestamptz AT TIME ZONE current_setting('TimeZone'), ${after.id})
+      AND changed_at < CURRENT_TIMESTAMP - make_interval(secs => ${SETTLE_SECONDS})
+    ORDER BY changed_at, resource_id
+    LIMIT ${limit + 1}
+  `;
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  const resourceIds = page.filter((row) => row.change !== "deleted").map((row) => row.resource_id);
+  const deletedIds = page.filter((row) => row.change === "deleted").map((row) => row.resource_id);
+
+  const resources = resourceIds.length > 0
+    ? await db<FoodResource[]>`SELECT * FROM resources WHERE id = ANY(${resourceIds})`
+    : [];
+  const tombstones = deletedIds.length > 0
+    ? await db<Array<{ resource_id: number; google_place_id: string | null }>>`
+        SELECT resource_id, google_place_id FROM resource_tombstones WHERE resource_id = ANY(${deletedIds})
+      `
+    : [];
+  const resourcesById = new Map(resources.map((r) => [r.id!, r]));
+  const placeIds = new Map<number, string | null | undefined>([
+    ...resources.map((r) => [r.id!, r.google_place_id] as const),
+    ...tombstones.map((t) => [t.resource_id, t.google_place_id] as const),
+  ]);
+
+  const upserts: PartnerRecord[] = [];
+  const deletions: ExportDeletion[] = [];
+  for (const row of page) {
+    const resource = resourcesById.get(row.resource_id);
+    if (row.change === "upsert") {
+      // Deleted between the two queries; its tombstone shows up on a later page
+      if (resource) upserts.push(toPartnerRecord(resource));
+      continue;
+    }
+    deletions.push({
+      source_record_id: row.resource_id.toString(),
+      places_id: placeIds.get(row.resource_id) || "",
+      reason: row.change,
+      changed_at: row.position,
+    });
+  }
+
+  return {
+    upserts,
+    deletions,
+    next_cursor: encodePosition(last ? { value: last.position, id: last.resource_id } : after),
+    has_more: rows.length > limit,
+  };
+}
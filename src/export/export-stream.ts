@@ -0,0 +1,99 @@
+// ABOUTME: Streams exportable resources from Postgres through an export writer
+// ABOUTME: Reads with a cursor in batches so large exports never sit in memory at once
+
+import type { Database, FoodResource } from "../core/database";
+import { isResourceOpenAt } from "../utils/opening-hours";
+import type { ExportWriter } from "./formats";
+
+const EXPORT_BATCH_SIZE = 500;
+
+export interface ExportFilters {
+  state?: string;
+  limit?: number;
+  openAt?: Date | null;
+  minQuality?: number | null; // Replaces the exportable flag with a quality_score threshold
+}
+
+/**
+ * Exportable resources (with a source URL), newest first. With minQuality,
+ * resources scoring at least that qualify instead of those marked exportable.
+ * When filtering by opening hours, the limit is applied after the filter.
+ */
+export async function* exportableResources(
+  db: Database,
+  filters: ExportFilters
+): AsyncGenerator<FoodResource> {
+  const { state, limit, openAt, minQuality } = filters;
+  const query = db<FoodResource[]>`
+    SELECT * FROM resources
+    WHERE ${minQuality != null ? db`quality_score >= ${minQuality}` : db`exportable = true`}
+      AND source_url IS NOT NULL
+      AND source_url != ''
+    ${state ? db`AND state = ${state.toUpperCase()}` : db``}
+    ORDER BY created_at DESC
+    ${limit && !openAt ? db`LIMIT ${limit}` : db``}
+  `;
+
+  let emitted = 0;
+  for await (const batch of query.cursor(EXPORT_BATCH_SIZE)) {
+    for (const resource of batch) {
+      if (openAt && !isResourceOpenAt(resource, openAt)) continue;
+      yield resource;
+      emitted++;
+      if (limit && emitted >= limit) return; // Leaving the loop closes the cursor
+    }
+  }
+}
+
+/**
+ * Byte stream of the writer's output, pulling the next resource only when
+ * the client is ready for more. The first resource is read up front, so a
+ * failing query rejects here while the caller can still send an error status.
+ */
+export async function createExportStream(
+  resources: AsyncIterable<FoodResource>,
+  writer: ExportWriter
+): Promise<ReadableStream<Uint8Array>> {
+  const encoder = new TextEncoder();
+  const iterator = resources[Symbol.asyncIterator]();
+  let next: IteratorResult<FoodResource> | null = await iterator.next();
+  // Set when the client goes away; a pull still waiting on the iterator must not touch the closed controller
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const header = writer.start();
+      if (header) controller.enqueue(encoder.encode(header));
+    },
+    async pull(controller) {
+      try {
+        // Keep reading past resources the writer skips; a pull that enqueues nothing stalls the stream
+        for (;;) {
+          const { value, done } = next || await iterator.next();
+          next = null;
+          if (cancelled) return;
+          if (done) {
+            const footer = writer.end();
+            if (footer) controller.enqueue(encoder.encode(footer));
+            controller.close();
+            return;
+          }
+          const chunk = writer.write(value);
+          if (chunk) {
+            controller.enqueue(encoder.encode(chunk));
+            return;
+          }
+        }
+      } catch (error) {
+        if (cancelled) return;
+        // Headers are already sent, so all we can do is cut the response short
+        console.error("Export stream error:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      await iterator.return?.(undefined);
+    },
+  });
+}
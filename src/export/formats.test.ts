@@ -0,0 +1,166 @@
+// ABOUTME: Tests for the /export serializers and the streaming wrapper
+// ABOUTME: Covers partner JSON compatibility, CSV quoting, GeoJSON features and HSDS tables
+
+import { test, expect, describe, spyOn } from "bun:test";
+import type { FoodResource } from "../core/database";
+import { createExportWriter, csvLine, toPartnerRecord, PARTNER_FIELDS, type ExportFormat } from "./formats";
+import { createExportStream } from "./export-stream";
+
+const pantry: FoodResource = {
+  id: 7,
+  name: "St. Mary's \"Good Food\" Pantry",
+  address: "123 Main St, Springfield, IL 62701",
+  city: "Springfield",
+  state: "IL",
+  zip_code: "62701",
+  county_name: "Sangamon",
+  latitude: 39.8,
+  longitude: -89.65,
+  type: "pantry",
+  phone: "(217) 555-0100",
+  hours: "Monday: 9:00 AM – 12:00 PM; Tuesday: Closed; Wednesday: 9:00 AM – 12:00 PM",
+  services_offered: "Groceries, produce",
+  is_verified: true,
+  source_url: "https://example.org",
+  google_place_id: "place-7",
+  created_at: "2024-01-01T00:00:00.000Z",
+};
+
+const noCoordinates: FoodResource = {
+  id: 8,
+  name: "Westside Food Bank",
+  address: "9 Oak Ave",
+  type: "bank",
+  is_verified: false,
+  source_url: "https://westside.example.org",
+  created_at: "2024-02-01T00:00:00.000Z",
+};
+
+async function* fromArray(resources: FoodResource[]) {
+  yield* resources;
+}
+
+async function exportText(format: ExportFormat, resources: FoodResource[], table?: "schedule" | "address"): Promise<string> {
+  const stream = await createExportStream(fromArray(resources), createExportWriter(format, table));
+  return new Response(stream).text();
+}
+
+describe("partner format", () => {
+  test("json stream matches the previous pretty-printed array", async () => {
+    const expected = JSON.stringify([toPartnerRecord(pantry), toPartnerRecord(noCoordinates)], null, 2);
+    expect(await exportText("json", [pantry, noCoordinates])).toBe(expected);
+    expect(await exportText("json", [])).toBe("[]");
+  });
+
+  test("maps resource fields to partner columns", () => {
+    const record = toPartnerRecord(pantry);
+    expect(record.store_name).toBe(pantry.name);
+    expect(record.zip5).toBe("62701");
+    expect(record.store_type).toBe("Food Pantry");
+    expect(record.hours).not.toContain("Closed");
+    expect(record.first_scraped_at).toBe("2024-01-01T00:00:00.000Z");
+    expect(toPartnerRecord({ ...noCoordinates, created_at: new Date("2024-02-01T00:00:00Z") as unknown as string }).first_scraped_at)
+      .toBe("2024-02-01T00:00:00.000Z");
+  });
+
+  test("splits the stored address into standardized street lines and ZIP+4", () => {
+    expect(toPartnerRecord(pantry)).toMatchObject({ store_street_address: "123 MAIN ST", additional_address: "", zip4: "" });
+    const suite = toPartnerRecord({ ...pantry, address: "123 Main Street Suite 4, Springfield, IL 62701-4321" });
+    expect(suite).toMatchObject({ store_street_address: "123 MAIN ST", additional_address: "STE 4", zip5: "62701", zip4: "4321" });
+  });
+
+  test("ndjson writes one record per line", async () => {
+    const lines = (await exportText("ndjson", [pantry, noCoordinates])).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]!).store_type).toBe("Food Bank");
+  });
+});
+
+describe("csv", () => {
+  test("quotes fields with commas, quotes and line breaks", () => {
+    expect(csvLine(["plain", "a,b", 'say "hi"', "two\nlines", null, 3])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",,3\r\n'
+    );
+  });
+
+  test("writes a header and one row per resource", async () => {
+    const lines = (await exportText("csv", [pantry, noCoordinates])).trimEnd().split("\r\n");
+    expect(lines[0]).toBe(PARTNER_FIELDS.join(","));
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('"St. Mary\'s ""Good Food"" Pantry"');
+  });
+});
+
+describe("geojson", () => {
+  test("builds a FeatureCollection of points, skipping resources without coordinates", async () => {
+    const collection = JSON.parse(await exportText("geojson", [noCoordinates, pantry, noCoordinates]));
+    expect(collection.type).toBe("FeatureCollection");
+    expect(collection.features).toHaveLength(1);
+    expect(collection.features[0].geometry).toEqual({ type: "Point", coordinates: [-89.65, 39.8] });
+    expect(collection.features[0].properties.store_name).toBe(pantry.name);
+  });
+
+  test("empty export is still valid GeoJSON", async () => {
+    expect(JSON.parse(await exportText("geojson", [])).features).toEqual([]);
+  });
+});
+
+describe("hsds", () => {
+  test("writes the requested table as CSV", async () => {
+    const lines = (await exportText("hsds", [pantry, noCoordinates], "address")).trimEnd().split("\r\n");
+    expect(lines[0]).toBe("id,location_id,address_1,address_2,city,region,state_province,postal_code,country,address_type");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain(",123 Main St,,Springfield,Sangamon,IL,62701,US,physical");
+  });
+});
+
+describe("createExportStream", () => {
+  test("rejects before streaming when the first read fails", async () => {
+    async function* failing(): AsyncGenerator<FoodResource> {
+      throw new Error("connection refused");
+    }
+    await expect(createExportStream(failing(), createExportWriter("json"))).rejects.toThrow("connection refused");
+  });
+
+  test("stops reading when the client cancels", async () => {
+    let read = 0;
+    async function* counting() {
+      for (let i = 0; i < 1000; i++) {
+        read++;
+        yield { ...pantry, id: i };
+      }
+    }
+    const stream = await createExportStream(counting(), createExportWriter("ndjson"));
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    expect(read).toBeLessThan(10);
+  });
+
+  test("a read still waiting on the database when the client leaves doesn't report an error", async () => {
+    let release = () => {};
+    async function* slow() {
+      yield { ...pantry, id: 1 };
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      yield { ...pantry, id: 2 };
+    }
+    const errors = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const stream = await createExportStream(slow(), createExportWriter("ndjson"));
+      const reader = stream.getReader();
+      await reader.read();
+      const pending = reader.read();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const cancelling = reader.cancel();
+      release();
+      await cancelling;
+      expect((await pending).done).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(errors).not.toHaveBeenCalled();
+    } finally {
+      errors.mockRestore();
+    }
+  });
+});
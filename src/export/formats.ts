@@ -0,0 +1,207 @@
+// ABOUTME: Serializers for /export: partner JSON, NDJSON, CSV, GeoJSON and HSDS tables
+// ABOUTME: Each writer turns one resource at a time into text so exports can be streamed
+
+import type { FoodResource } from "../core/database";
+import { cleanHours } from "../utils/format-hours";
+import { parseAddress } from "../utils/address";
+import { toHsdsRecords, HSDS_COLUMNS, type HsdsTable } from "./hsds";
+
+export const EXPORT_FORMATS = ["json", "ndjson", "csv", "geojson", "hsds"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+  csv: "text/csv; charset=utf-8",
+  geojson: "application/geo+json",
+  hsds: "text/csv; charset=utf-8", // One HSDS table per request, as in an HSDS data package
+};
+
+/**
+ * Columns of the partner app schema, in output order
+ */
+export const PARTNER_FIELDS = [
+  "source",
+  "source_url",
+  "source_record_id",
+  "source_objectid",
+  "store_name",
+  "store_street_address",
+  "additional_address",
+  "city",
+  "state",
+  "zip4",
+  "county",
+  "store_type",
+  "latitude",
+  "longitude",
+  "incentive_program",
+  "grantee_name",
+  "first_scraped_at",
+  "last_scraped_at",
+  "address",
+  "zip5",
+  "phone",
+  "hours",
+  "places_id",
+  "description",
+  "url",
+  "url_facebook",
+  "url_instagram",
+  "url_twitter",
+  "url_youtube",
+] as const;
+
+export type PartnerRecord = Record<(typeof PARTNER_FIELDS)[number], string>;
+
+// Postgres returns timestamps as Dates; the partner schema wants ISO strings
+function toIsoString(value: string | Date | null | undefined): string {
+  if (!value) return new Date().toISOString();
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Map a resource to the partner app schema
+ */
+export function toPartnerRecord(resource: FoodResource): PartnerRecord {
+  // Map type to store_type format
+  const storeType = resource.type === "bank" ? "Food Bank" : "Food Pantry";
+
+  // Build description from available fields (excluding hours)
+  const descParts = [];
+  if (resource.eligibility_requirements) descParts.push(resource.eligibility_requirements);
+  if (resource.services_offered) descParts.push(`Services: ${resource.services_offered}`);
+  if (resource.notes) descParts.push(resource.notes);
+
+  // Standardized street lines and ZIP+4, whether the stored address is a full address or just a street
+  const address = parseAddress(resource.address, resource);
+
+  return {
+    source: "county-search",
+    source_url: resource.source_url || "",
+    source_record_id: resource.id?.toString() || "",
+    source_objectid: resource.google_place_id || "",
+    store_name: resource.name,
+    store_street_address: address.street_line1 || resource.address,
+    additional_address: address.street_line2 || "",
+    city: resource.city || "",
+    state: resource.state || "",
+    zip4: address.zip4 || "",
+    county: resource.county_name || "",
+    store_type: storeType,
+    latitude: resource.latitude?.toString() || "",
+    longitude: resource.longitude?.toString() || "",
+    incentive_program: "",
+    grantee_name: "",
+    first_scraped_at: toIsoString(resource.created_at),
+    last_scraped_at: toIsoString(resource.last_verified_at || resource.created_at),
+    address: resource.address,
+    zip5: address.zip5 || "",
+    phone: resource.phone || "",
+    hours: cleanHours(resource.hours),
+    places_id: resource.google_place_id || "",
+    description: descParts.join(". "),
+    url: resource.source_url || "",
+    url_facebook: resource.url_facebook || "",
+    url_instagram: resource.url_instagram || "",
+    url_twitter: resource.url_twitter || "",
+    url_youtube: resource.url_youtube || "",
+  };
+}
+
+/**
+ * One RFC 4180 CSV line; fields with commas, quotes or line breaks are quoted
+ */
+export function csvLine(values: ReadonlyArray<unknown>): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return "";
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",") + "\r\n";
+}
+
+/**
+ * GeoJSON Point feature with the partner record as properties, or null
+ * for resources without coordinates
+ */
+export function toGeoJsonFeature(resource: FoodResource) {
+  if (resource.latitude == null || resource.longitude == null) return null;
+  return {
+    type: "Feature" as const,
+    id: resource.id,
+    geometry: {
+      type: "Point" as const,
+      coordinates: [Number(resource.longitude), Number(resource.latitude)],
+    },
+    properties: toPartnerRecord(resource),
+  };
+}
+
+/**
+ * Turns a sequence of resources into output text: start() once, write() per
+ * resource (may return "" to skip it), end() once
+ */
+export interface ExportWriter {
+  start(): string;
+  write(resource: FoodResource): string;
+  end(): string;
+}
+
+export function createExportWriter(format: ExportFormat, hsdsTable: HsdsTable = "organization"): ExportWriter {
+  let written = 0;
+
+  switch (format) {
+    case "json":
+      // Same bytes as JSON.stringify(array, null, 2), one element at a time
+      return {
+        start: () => "[",
+        write: (resource) => {
+          const element = JSON.stringify(toPartnerRecord(resource), null, 2).replace(/^/gm, "  ");
+          return (written++ > 0 ? ",\n" : "\n") + element;
+        },
+        end: () => (written > 0 ? "\n]" : "]"),
+      };
+
+    case "ndjson":
+      return {
+        start: () => "",
+        write: (resource) => JSON.stringify(toPartnerRecord(resource)) + "\n",
+        end: () => "",
+      };
+
+    case "csv":
+      return {
+        start: () => csvLine(PARTNER_FIELDS),
+        write: (resource) => {
+          const record = toPartnerRecord(resource);
+          return csvLine(PARTNER_FIELDS.map((field) => record[field]));
+        },
+        end: () => "",
+      };
+
+    case "geojson":
+      return {
+        start: () => '{"type":"FeatureCollection","features":[',
+        write: (resource) => {
+          const feature = toGeoJsonFeature(resource);
+          if (!feature) return "";
+          return (written++ > 0 ? ",\n" : "\n") + JSON.stringify(feature);
+        },
+        end: () => "\n]}\n",
+      };
+
+    case "hsds": {
+      const columns = HSDS_COLUMNS[hsdsTable];
+      return {
+        start: () => csvLine(columns),
+        write: (resource) => {
+          const rows = toHsdsRecords(resource)[hsdsTable] as Array<Record<string, unknown>>;
+          return rows.map((row) => csvLine(columns.map((column) => row[column]))).join("");
+        },
+        end: () => "",
+      };
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// ABOUTME: Tests for mapping resources to Open Referral HSDS tables
+// ABOUTME: Checks stable identifiers, cross-table links and weekly schedule rows
+
+import { test, expect } from "bun:test";
+import type { FoodResource } from "../core/database";
+import { toHsdsRecords, hsdsId } from "./hsds";
+
+const resource: FoodResource = {
+  id: 42,
+  name: "Grace Church Pantry",
+  address: "500 Elm St, Dayton, OH 45402",
+  city: "Dayton",
+  state: "OH",
+  zip_code: "45402",
+  type: "pantry",
+  phone: "937-555-0199",
+  hours: "Mon, Wed, Fri 9am-12pm; Sat 10am-2pm",
+  eligibility_requirements: "Montgomery County residents",
+  is_verified: true,
+  source_url: "https://grace.example.org",
+  google_place_id: "abc",
+};
+
+test("ids are stable UUIDs", () => {
+  expect(hsdsId("organization", 42)).toBe(hsdsId("organization", 42));
+  expect(hsdsId("organization", 42)).not.toBe(hsdsId("service", 42));
+  expect(hsdsId("schedule", 42, 1)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+});
+
+test("links service, location and organization rows", () => {
+  const records = toHsdsRecords(resource);
+  const organization = records.organization[0]!;
+  const service = records.service[0]!;
+  const location = records.location[0]!;
+
+  expect(service.organization_id).toBe(organization.id);
+  expect(location.organization_id).toBe(organization.id);
+  expect(records.service_at_location[0]).toEqual({ id: expect.any(String), service_id: service.id, location_id: location.id });
+  expect(records.address[0]!.address_1).toBe("500 Elm St");
+  expect(records.phone[0]!.number).toBe("937-555-0199");
+  expect(service.eligibility_description).toBe("Montgomery County residents");
+  expect(location.external_identifier_type).toBe("google_place_id");
+});
+
+test("groups weekdays that share opening hours into one schedule row", () => {
+  const schedule = toHsdsRecords(resource).schedule;
+  expect(schedule.map((row) => [row.byday, row.opens_at, row.closes_at])).toEqual([
+    ["MO,WE,FR", "09:00", "12:00"],
+    ["SA", "10:00", "14:00"],
+  ]);
+  expect(schedule.every((row) => row.freq === "WEEKLY")).toBe(true);
+});
+
+test("keeps unparseable hours as a schedule description", () => {
+  const schedule = toHsdsRecords({ ...resource, hours: "Third Thursday of the month" }).schedule;
+  expect(schedule).toHaveLength(1);
+  expect(schedule[0]!.byday).toBeNull();
+  expect(schedule[0]!.description).toBe("Third Thursday of the month");
+});
+
+test("omits phone rows when there is no phone", () => {
+  expect(toHsdsRecords({ ...resource, phone: undefined }).phone).toEqual([]);
+});
@@ -0,0 +1,189 @@
+// ABOUTME: Maps resources to Open Referral HSDS 3.0 tables (organization, service, location, schedule...)
+// ABOUTME: Each resource becomes one organization offering one food service at one physical location
+
+import { createHash } from "node:crypto";
+import type { FoodResource } from "../core/database";
+import { parseHours, WEEKDAYS, type Weekday } from "../utils/opening-hours";
+import { cleanHours } from "../utils/format-hours";
+
+export const HSDS_TABLES = [
+  "organization",
+  "service",
+  "location",
+  "service_at_location",
+  "address",
+  "phone",
+  "schedule",
+] as const;
+export type HsdsTable = (typeof HSDS_TABLES)[number];
+
+/**
+ * Columns written per table. A subset of HSDS 3.0 covering what we know about a resource.
+ */
+export const HSDS_COLUMNS = {
+  organization: ["id", "name", "description", "website", "email"],
+  service: ["id", "organization_id", "name", "description", "url", "status", "eligibility_description", "last_modified"],
+  location: ["id", "location_type", "organization_id", "name", "latitude", "longitude", "external_identifier", "external_identifier_type"],
+  service_at_location: ["id", "service_id", "location_id"],
+  address: ["id", "location_id", "address_1", "address_2", "city", "region", "state_province", "postal_code", "country", "address_type"],
+  phone: ["id", "location_id", "service_id", "number", "type"],
+  schedule: ["id", "service_id", "location_id", "service_at_location_id", "freq", "wkst", "byday", "opens_at", "closes_at", "description"],
+} as const satisfies Record<HsdsTable, readonly string[]>;
+
+type HsdsRow<T extends HsdsTable> = Record<(typeof HSDS_COLUMNS)[T][number], string | number | null>;
+
+export type HsdsRecords = { [T in HsdsTable]: HsdsRow<T>[] };
+
+const BYDAY: Record<Weekday, string> = {
+  sunday: "SU",
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+};
+
+/**
+ * Stable UUID for an HSDS record derived from the resource id, so repeated
+ * exports keep the same identifiers
+ */
+export function hsdsId(table: HsdsTable, resourceId: number, index = 0): string {
+  const hex = createHash("sha1").update(`${table}:${resourceId}:${index}`).digest("hex");
+  // Format as a name-based (version 5) UUID
+  const variant = ((parseInt(hex[16]!, 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toIsoString(value: string | Date | null | undefined): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Weekly schedule rows, one per distinct open interval with every weekday
+ * it applies to. Hours we can't parse are kept as a free-text description.
+ */
+function scheduleRows(
+  resource: FoodResource,
+  ids: { service: string; location: string; serviceAtLocation: string }
+): HsdsRow<"schedule">[] {
+  const base = {
+    service_id: ids.service,
+    location_id: ids.location,
+    service_at_location_id: ids.serviceAtLocation,
+  };
+
+  const schedule = resource.hours_schedule || parseHours(resource.hours);
+  if (!schedule) {
+    const description = cleanHours(resource.hours);
+    if (!description) return [];
+    return [{
+      id: hsdsId("schedule", resource.id!),
+      ...base,
+      freq: null,
+      wkst: null,
+      byday: null,
+      opens_at: null,
+      closes_at: null,
+      description,
+    }];
+  }
+
+  // Group days sharing the same interval ("MO,WE,FR 09:00-12:00")
+  const intervals = new Map<string, { open: string; close: string; days: Weekday[] }>();
+  for (const day of WEEKDAYS) {
+    for (const range of schedule[day] || []) {
+      const key = `${range.open}-${range.close}`;
+      const interval = intervals.get(key);
+      if (interval) interval.days.push(day);
+      else intervals.set(key, { ...range, days: [day] });
+    }
+  }
+
+  return [...intervals.values()].map((interval, index) => ({
+    id: hsdsId("schedule", resource.id!, index),
+    ...base,
+    freq: "WEEKLY",
+    wkst: "MO",
+    byday: interval.days.map((day) => BYDAY[day]).join(","),
+    opens_at: interval.open,
+    closes_at: interval.close,
+    description: null,
+  }));
+}
+
+/**
+ * Rows for every HSDS table describing one resource
+ */
+export function toHsdsRecords(resource: FoodResource): HsdsRecords {
+  const id = resource.id!;
+  const organizationId = hsdsId("organization", id);
+  const serviceId = hsdsId("service", id);
+  const locationId = hsdsId("location", id);
+  const serviceAtLocationId = hsdsId("service_at_location", id);
+
+  const serviceName = resource.type === "bank" ? "Food Bank" : "Food Pantry";
+  const description = resource.editorial_summary || resource.notes || null;
+
+  return {
+    organization: [{
+      id: organizationId,
+      name: resource.name,
+      description,
+      website: resource.source_url || null,
+      email: null,
+    }],
+    service: [{
+      id: serviceId,
+      organization_id: organizationId,
+      name: serviceName,
+      description: resource.services_offered || null,
+      url: resource.source_url || null,
+      status: "active",
+      eligibility_description: resource.eligibility_requirements || null,
+      last_modified: toIsoString(resource.last_verified_at || resource.created_at),
+    }],
+    location: [{
+      id: locationId,
+      location_type: "physical",
+      organization_id: organizationId,
+      name: resource.name,
+      latitude: resource.latitude ?? null,
+      longitude: resource.longitude ?? null,
+      external_identifier: resource.google_place_id || null,
+      external_identifier_type: resource.google_place_id ? "google_place_id" : null,
+    }],
+    service_at_location: [{
+      id: serviceAtLocationId,
+      service_id: serviceId,
+      location_id: locationId,
+    }],
+    address: [{
+      id: hsdsId("address", id),
+      location_id: locationId,
+      address_1: resource.address.split(",")[0]!.trim(), // Stored addresses include city, state and ZIP
+      address_2: null,
+      city: resource.city || null,
+      region: resource.county_name || null,
+      state_province: resource.state || null,
+      postal_code: resource.zip_code || null,
+      country: "US",
+      address_type: "physical",
+    }],
+    phone: resource.phone
+      ? [{
+          id: hsdsId("phone", id),
+          location_id: locationId,
+          service_id: serviceId,
+          number: resource.phone,
+          type: "voice",
+        }]
+      : [],
+    schedule: scheduleRows(resource, {
+      service: serviceId,
+      location: locationId,
+      serviceAtLocation: serviceAtLocationId,
+    }),
+  };
+}
@@ -0,0 +1,183 @@
+// ABOUTME: Built-in allow/deny/flag rules shared by the discovery source filter and the false-positive detector
+// ABOUTME: Seeded into filter_rules by key; editing a rule in the database overrides the version here
+
+import type { FilterRuleInput, FilterRuleAction, FilterRuleScope, SuspicionSignal } from "./rules";
+
+function group(
+  prefix: string,
+  action: FilterRuleAction,
+  scope: FilterRuleScope,
+  signal: SuspicionSignal | null,
+  description: string,
+  patterns: Array<RegExp | string>
+): FilterRuleInput[] {
+  return patterns.map((pattern, index) => ({
+    key: `${prefix}-${index + 1}`,
+    action,
+    scope,
+    pattern: pattern instanceof RegExp ? pattern.source : pattern,
+    state: null,
+    signal,
+    description,
+    enabled: true,
+  }));
+}
+
+/**
+ * The rules as they were compiled into source-filter.ts and false-positive-detector.ts.
+ * Patterns both files had are one deny rule with a suspicion signal; the rest stay separate.
+ */
+export const DEFAULT_FILTER_RULES: FilterRuleInput[] = [
+  // Dropped during discovery, and flagged in the analyze UI
+  ...group("directory-name", "deny", "name", "directory_page", "Directory/listing pages, not individual resources", [
+    /\b(food\s+)?assistance\s+director(y|ies)\b/,
+    /\bfood\s+bank\s+director(y|ies)\b/,
+    /\bfood\s+pantry\s+director(y|ies)\b/,
+    /\bresource\s+director(y|ies)\b/,
+    /\b(food\s+)?resources?\s+list(ing)?s?\b/,
+    /\bfood\s+locator\b/,
+    /\bfood\s+finder\b/,
+    /\bmember\s+(organizations?|agencies)\b(?!.*\b(food pantry|food bank)\b)/,
+    /\bpartner\s+(organizations?|agencies)\b(?!.*\b(food pantry|food bank)\b)/,
+  ]),
+  ...group("school-name", "deny", "name", null, "Schools, unless the name mentions a pantry or food bank", [
+    /\b(elementary|middle|high|junior high|senior high)\s+school\b(?!.*\b(food pantry|food bank|pantry)\b)/,
+    /\b(university|college)\b(?!.*\b(food pantry|food bank|pantry)\b)/,
+    /\bschool\b(?!.*\b(food pantry|food bank|pantry)\b)/,
+  ]),
+  ...group("commercial-name", "deny", "name", null, "Commercial businesses", [
+    /\b(meal prep|restaurant|cafe|grocery|market|store)\b/,
+  ]),
+  ...group("law-enforcement-name", "deny", "name", "law_enforcement", "Law enforcement, not food distribution sites", [
+    /\bsheriff'?s?\s+(office|department|dept)\b(?!.*\b(food|pantry|bank|donation|feeding)\b)/,
+    /\bpolice\s+(department|dept|station|office)\b(?!.*\b(food|pantry|bank|donation|feeding)\b)/,
+    /\blaw\s+enforcement\b(?!.*\b(food|pantry|bank|donation|feeding)\b)/,
+    /\bcorrections\s+(department|facility|office)\b/,
+    /\bjail\b(?!.*\b(food|pantry|bank)\b)/,
+    /\bdetention\s+center\b(?!.*\b(food|pantry|bank)\b)/,
+  ]),
+  ...group("government-name", "deny", "name", null, "Government offices, unless explicitly food distribution", [
+    /\b(city hall|county office|dmv|department of)\b(?!.*\b(food|nutrition|wic|pantry|bank)\b)/,
+    /\b(borough office|municipal office)\b(?!.*\b(food|pantry|bank|distribution)\b)/,
+    /\b(procurement|public works|administration)\b(?!.*\b(food|pantry|bank|nutrition|wic|meal|feeding)\b)/,
+    /\b(senior citizen center|senior services)\b(?!.*\b(food|pantry|bank|meal|nutrition)\b)/,
+    /\b(emergency management|housing authority)\b(?!.*\b(food|pantry|bank|nutrition|wic|meal|feeding|distribution)\b)/,
+  ]),
+  ...group("umbrella-name", "deny", "name", null, "National umbrella organizations, not distribution sites", [
+    /^feeding america$/,
+    /^feedingamerica$/,
+  ]),
+  ...group("social-domain", "deny", "domain", null, "Social, review and listing sites are not reliable sources", [
+    "nextdoor.com",
+    "facebook.com",
+    "fb.com",
+    "reddit.com",
+    "twitter.com",
+    "x.com",
+    "instagram.com",
+    "tiktok.com",
+    "yelp.com",
+  ]),
+  ...group("directory-url", "deny", "url", "directory_page", "Directory/listing page URLs", [
+    /\/(directory|directories)\b/,
+    /\/(list|listing|listings)\b/,
+  ]),
+  ...group("generic-url", "deny", "url", null, "Generic directory and government pages", [
+    /\/(locator|finder)\b(?!.*\b(pantry|bank)\b)/,
+    /\/(resources|members|partners|organizations)\b(?!.*\b(pantry|bank|food)\b)/,
+    /\.gov$/,
+    /\.gov\/?$/,
+    /\.gov\/(about|contact|home|index)\/?$/,
+  ]),
+  ...group("food-path-url", "allow", "url", null, "URLs with a food-specific path are kept even on generic sites", [
+    /^[a-z]+:\/\/[^\/]+\/(.*\/)?(food|pantry|bank|nutrition|wic|snap|assistance|feeding)/,
+  ]),
+  ...group("blocked-place-type", "deny", "google_type", null, "Google place types that aren't food assistance", [
+    "school",
+    "primary_school",
+    "secondary_school",
+    "university",
+    "restaurant",
+    "cafe",
+    "meal_takeaway",
+    "meal_delivery",
+    "supermarket",
+    "grocery_or_supermarket",
+    "convenience_store",
+    "store",
+    "bar",
+    "night_club",
+    "shopping_mall",
+  ]),
+
+  // Only flagged in the analyze UI
+  ...group("directory-flag-name", "flag", "name", "directory_page", "Directory/listing pages", [
+    /\bdirector(y|ies)\b(?!.*\b(director|executive)\b)/,
+    /\bfind\s+food\b(?!.*\b(pantry|bank)\b)/,
+    /\bmember\s+(organizations?|agencies)\b/,
+    /\bpartner\s+(organizations?|agencies)\b/,
+  ]),
+  ...group("directory-flag-url", "flag", "url", "directory_page", "Directory/listing page URLs", [
+    /\/(locator|finder)\b/,
+    /\/(resources|assistance)\b(?!.*\/(pantry|bank|food)\b)/,
+    /\/(find-food|food-finder)\b/,
+    /\/(members|partners|organizations)\b/,
+  ]),
+  ...group("financial", "flag", "text", "financial_bank", "Financial institutions, not food banks", [
+    /\b(atm|credit union|savings|loan|mortgage|investment|checking account)\b/,
+    /\b(wells fargo|chase|bank of america|citibank|us bank|pnc bank|td bank|capital one)\b/,
+    /\bfederal reserve\b/,
+    /\bbanking center\b/,
+    /\b(branch|atm) location\b/,
+  ]),
+  ...group("wrong-bank", "flag", "text", "wrong_bank_type", "Other kinds of bank", [
+    /\bblood bank\b/,
+    /\bmilk bank\b/,
+    /\btissue bank\b/,
+    /\beye bank\b/,
+    /\borgan bank\b/,
+    /\bseed bank\b/,
+    /\bgene bank\b/,
+    /\bsperm bank\b/,
+  ]),
+  ...group("government-flag", "flag", "text", "government_office", "Government offices", [
+    /\b(department of|dept of|division of)\b(?!.*\b(food|nutrition|agriculture|health|human services|social services)\b)/,
+    /\b(city hall|town hall|county clerk|registrar)\b/,
+    /\b(tax office|revenue|treasury|finance department)\b/,
+    /\b(planning commission|zoning|building department)\b/,
+    /\b(public works|sanitation|utilities)\b/,
+  ]),
+  ...group("community-flag", "flag", "text", "community_center", "Community centers and churches without food services", [
+    /\bcommunity center\b(?!.*\b(food|pantry|bank|meal|nutrition|feeding)\b)/,
+    /\b(church|cathedral|temple|mosque|synagogue)\b(?!.*\b(food|pantry|bank|meal|feeding|distribution)\b)/,
+    /\brec center\b(?!.*\b(food|pantry|meal)\b)/,
+    /\byouth center\b(?!.*\b(food|pantry|meal)\b)/,
+  ]),
+  ...group("school-flag", "flag", "text", "school", "Schools without a dedicated pantry", [
+    /\b(elementary|middle|high school|university|college)\b(?!.*\b(food pantry|food bank)\b)/,
+  ]),
+  ...group("generic-name-flag", "flag", "name", "generic_listing", "Names too generic to verify", [
+    /^food bank$/,
+    /^pantry$/,
+    /^community food$/,
+    /^free food$/,
+  ]),
+
+  // Positive indicators lower suspicion in the analyze UI
+  ...group("food-indicator", "allow", "text", "food_indicator", "Clear food assistance wording", [
+    /\bfood pantry\b/,
+    /\bfood bank\b/,
+    /\bfood distribution\b/,
+    /\bfeeding america\b/,
+    /\bemergency food\b/,
+    /\bfood shelf\b/,
+    /\bfood ministry\b/,
+    /\bfood cupboard\b/,
+    /\bfood closet\b/,
+    /\bsoup kitchen\b/,
+    /\bmeal program\b/,
+    /\bfeeding program\b/,
+    /\bnutrition program\b/,
+    /\bharvest\b.*\b(food|pantry)\b/,
+  ]),
+];
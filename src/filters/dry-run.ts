@@ -0,0 +1,172 @@
+// ABOUTME: Previews a filter rule change against stored resources and rejected candidates before saving it
+// ABOUTME: Reports which resources the change would newly reject, stop rejecting, flag or stop flagging
+
+import type { Database, FoodResource } from "../core/database";
+import { analyzeResource } from "../validation/false-positive-detector";
+import { deniedBy, validateFilterRule, type FilterRule, type FilterRuleInput, type FilterSubject } from "./rules";
+
+// The change to preview: a new rule, edits to rule `id`, or deleting rule `id`
+export interface RuleProposal {
+  id?: number;
+  delete?: boolean;
+  rule?: Partial<FilterRuleInput>;
+}
+
+export type DryRunResource = FoodResource & { google_types?: string[] | null };
+
+export interface DryRunExample {
+  id: number;
+  name: string | null;
+  source_url: string | null;
+  rule: string | null; // Key of the deny rule involved, if any
+}
+
+export interface DryRunChange {
+  count: number;
+  examples: DryRunExample[];
+}
+
+export interface DryRunReport {
+  resources_checked: number;
+  newly_rejected: DryRunChange;
+  no_longer_rejected: DryRunChange;
+  newly_flagged: DryRunChange;
+  no_longer_flagged: DryRunChange;
+  rejected_candidates_checked: number;
+  rejected_candidates_released: DryRunChange;
+}
+
+const MAX_EXAMPLES = 20;
+// Same cut-off the analyze page uses for suspicious resources
+const FLAG_SCORE = 50;
+
+function emptyChange(): DryRunChange {
+  return { count: 0, examples: [] };
+}
+
+function addExample(change: DryRunChange, example: DryRunExample): void {
+  change.count++;
+  if (change.examples.length < MAX_EXAMPLES) change.examples.push(example);
+}
+
+/**
+ * The rule set after a proposal, or an error if it names a missing rule or leaves an invalid one
+ */
+export function applyProposal(rules: FilterRule[], proposal: RuleProposal): { rules?: FilterRule[]; error?: string } {
+  if (proposal.id === undefined) {
+    if (!proposal.rule) return { error: "Provide a rule, or an id with rule changes or delete" };
+    const rule: FilterRule = {
+      key: "proposed",
+      action: "deny",
+      scope: "name",
+      pattern: "",
+      state: null,
+      signal: null,
+      description: null,
+      enabled: true,
+      ...proposal.rule,
+      id: null,
+      builtin: false,
+    };
+    const invalid = validateFilterRule(rule);
+    return invalid ? { error: invalid } : { rules: [...rules, rule] };
+  }
+
+  const existing = rules.find((rule) => rule.id === proposal.id);
+  if (!existing) return { error: `Filter rule ${proposal.id} not found` };
+  if (proposal.delete) return { rules: rules.filter((rule) => rule !== existing) };
+  const edited = { ...existing, ...proposal.rule };
+  const invalid = validateFilterRule(edited);
+  return invalid ? { error: invalid } : { rules: rules.map((rule) => (rule === existing ? edited : rule)) };
+}
+
+function subjectOf(resource: DryRunResource): FilterSubject {
+  return {
+    name: resource.name,
+    notes: resource.notes,
+    verification_notes: resource.verification_notes,
+    source_url: resource.source_url,
+    state: resource.state,
+    google_types: resource.google_types,
+  };
+}
+
+/**
+ * Compare what two rule sets do to the same resources and discovery rejections
+ */
+export function compareRulesets(
+  current: FilterRule[],
+  proposed: FilterRule[],
+  resources: DryRunResource[],
+  rejections: Array<{ id: number; candidate: Partial<FoodResource> }> = []
+): DryRunReport {
+  const report: DryRunReport = {
+    resources_checked: resources.length,
+    newly_rejected: emptyChange(),
+    no_longer_rejected: emptyChange(),
+    newly_flagged: emptyChange(),
+    no_longer_flagged: emptyChange(),
+    rejected_candidates_checked: rejections.length,
+    rejected_candidates_released: emptyChange(),
+  };
+
+  for (const resource of resources) {
+    const subject = subjectOf(resource);
+    const before = deniedBy(current, subject);
+    const after = deniedBy(proposed, subject);
+    const example = (match: typeof before) => ({
+      id: resource.id!,
+      name: resource.name,
+      source_url: resource.source_url ?? null,
+      rule: match?.rule.key ?? null,
+    });
+    if (!before && after) addExample(report.newly_rejected, example(after));
+    if (before && !after) addExample(report.no_longer_rejected, example(before));
+
+    const flaggedBefore = analyzeResource(resource, current).score >= FLAG_SCORE;
+    const flaggedAfter = analyzeResource(resource, proposed).score >= FLAG_SCORE;
+    if (!flaggedBefore && flaggedAfter) addExample(report.newly_flagged, example(null));
+    if (flaggedBefore && !flaggedAfter) addExample(report.no_longer_flagged, example(null));
+  }
+
+  for (const rejection of rejections) {
+    const before = deniedBy(current, rejection.candidate);
+    if (before && !deniedBy(proposed, rejection.candidate)) {
+      addExample(report.rejected_candidates_released, {
+        id: rejection.id,
+        name: rejection.candidate.name ?? null,
+        source_url: rejection.candidate.source_url ?? null,
+        rule: before.rule.key,
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Preview a proposal against every resource (with the Google types Places returned for it) and
+ * every candidate the source filter is still holding back
+ */
+export async function dryRunFilterRules(
+  db: Database,
+  current: FilterRule[],
+  proposal: RuleProposal
+): Promise<{ report?: DryRunReport; error?: string }> {
+  const { rules: proposed, error } = applyProposal(current, proposal);
+  if (!proposed) return { error };
+
+  const [resources, rejections] = await Promise.all([
+    db<DryRunResource[]>`
+      SELECT r.*, rs.raw_payload->'types' AS google_types
+      FROM resources r
+      LEFT JOIN resource_sources rs ON rs.resource_id = r.id AND rs.provider = 'google-places'
+    `,
+    db<Array<{ id: number; candidate: Partial<FoodResource> }>>`
+      SELECT id, candidate FROM rejected_candidates
+      WHERE status = 'rejected' AND stage = 'source-filter'
+    `,
+  ]);
+
+  return { report: compareRulesets(current, proposed, resources, rejections) };
+}
@@ -0,0 +1,159 @@
+// ABOUTME: Tests for filter rule matching, allow and per-state overrides, validation and dry-run comparison
+// ABOUTME: Uses in-memory rule sets built from the defaults, no database
+
+import { test, expect, describe } from "bun:test";
+import type { FoodResource } from "../core/database";
+import { sourceRejection } from "../utils/source-filter";
+import { analyzeResource } from "../validation/false-positive-detector";
+import { DEFAULT_FILTER_RULES } from "./default-rules";
+import { applyProposal, compareRulesets } from "./dry-run";
+import { deniedBy, matchRules, parseFilterRule, validateFilterRule, type FilterRule, type FilterRuleInput } from "./rules";
+
+function rule(input: Partial<FilterRuleInput> & Pick<FilterRuleInput, "key" | "pattern">, id: number | null = null): FilterRule {
+  return {
+    action: "deny",
+    scope: "name",
+    state: null,
+    signal: null,
+    description: null,
+    enabled: true,
+    ...input,
+    id,
+    builtin: false,
+  };
+}
+
+const defaults: FilterRule[] = DEFAULT_FILTER_RULES.map((r, i) => ({ ...r, id: i + 1, builtin: true }));
+
+function resource(fields: Partial<FoodResource>): FoodResource {
+  return {
+    id: 1,
+    name: "Hope Food Pantry",
+    address: "1 Main St",
+    type: "pantry",
+    is_verified: true,
+    phone: "555-0100",
+    ...fields,
+  } as FoodResource;
+}
+
+describe("deniedBy", () => {
+  test("matches names case-insensitively and domains including subdomains", () => {
+    const rules = [rule({ key: "jail", pattern: "\\bjail\\b" }), rule({ key: "yelp", scope: "domain", pattern: "yelp.com" })];
+    expect(deniedBy(rules, { name: "County JAIL" })?.rule.key).toBe("jail");
+    expect(deniedBy(rules, { name: "Hope Pantry", source_url: "https://m.yelp.com/biz/hope" })?.rule.key).toBe("yelp");
+    expect(deniedBy(rules, { name: "Hope Pantry", source_url: "https://notyelp.com/" })).toBeNull();
+  });
+
+  test("an allow rule of the same scope exempts a candidate from deny rules", () => {
+    const rules = [
+      rule({ key: "resources", scope: "url", pattern: "\\/resources\\b" }),
+      rule({ key: "food-path", action: "allow", scope: "url", pattern: "\\/food" }),
+    ];
+    expect(deniedBy(rules, { source_url: "https://county.org/resources" })?.rule.key).toBe("resources");
+    expect(deniedBy(rules, { source_url: "https://county.org/food/resources" })).toBeNull();
+  });
+
+  test("state rules only apply in their state, so a state allow overrides a global deny", () => {
+    const rules = [
+      rule({ key: "church-type", scope: "google_type", pattern: "church" }),
+      rule({ key: "church-type-pa", action: "allow", scope: "google_type", pattern: "church", state: "PA" }),
+    ];
+    expect(deniedBy(rules, { google_types: ["church"], state: "NJ" })?.rule.key).toBe("church-type");
+    expect(deniedBy(rules, { google_types: ["church"], state: "pa" })).toBeNull();
+  });
+
+  test("disabled rules don't match", () => {
+    expect(deniedBy([rule({ key: "jail", pattern: "jail", enabled: false })], { name: "County Jail" })).toBeNull();
+  });
+
+  test("the default rules reproduce the source filter's name, domain and URL checks", () => {
+    expect(sourceRejection({ name: "Lincoln Elementary School" }, defaults)?.rule).toBe("blocked_name_pattern");
+    expect(sourceRejection({ name: "Lincoln Elementary School Food Pantry" }, defaults)).toBeNull();
+    expect(sourceRejection({ name: "Hope Pantry", source_url: "https://county.gov/" }, defaults)?.rule).toBe("generic_url");
+    expect(sourceRejection({ name: "Hope Pantry", source_url: "https://county.gov/food-pantry" }, defaults)).toBeNull();
+  });
+});
+
+describe("suspicion signals", () => {
+  test("rules with a signal drive the false-positive detector", () => {
+    const blood = resource({ name: "Community Blood Bank", type: "bank" });
+    expect(analyzeResource(blood, defaults).category).toBe("wrong_bank_type");
+
+    const withoutSignal = defaults.filter((r) => r.signal !== "wrong_bank_type");
+    expect(analyzeResource(blood, withoutSignal).category).not.toBe("wrong_bank_type");
+  });
+
+  test("law enforcement name rules are also checked against notes", () => {
+    const subject = { name: "Main Street Office", notes: "Police department lobby" };
+    expect(matchRules(defaults, subject, { signals: ["law_enforcement"], as: "text" })).toHaveLength(1);
+    expect(matchRules(defaults, subject, { signals: ["law_enforcement"] })).toHaveLength(0);
+  });
+});
+
+describe("parseFilterRule", () => {
+  test("requires key, action, scope and pattern for new rules", () => {
+    expect(parseFilterRule({ key: "jail", action: "deny", scope: "name" }).error).toBe("pattern is required");
+    expect(parseFilterRule({ key: "jail", action: "deny", scope: "name", pattern: "jail", state: "pa" }).rule).toEqual({
+      key: "jail",
+      action: "deny",
+      scope: "name",
+      pattern: "jail",
+      state: "PA",
+    });
+  });
+
+  test("rejects unknown fields and bad values", () => {
+    expect(parseFilterRule({ enabled: false, builtin: true }, true).error).toBe("Unknown fields: builtin");
+    expect(parseFilterRule({ action: "block" }, true).error).toMatch(/^action must be one of/);
+    expect(parseFilterRule({ state: "Pennsylvania" }, true).error).toMatch(/^state must be/);
+    expect(parseFilterRule({ enabled: false }, true).rule).toEqual({ enabled: false });
+  });
+
+  test("checks patterns fit their scope", () => {
+    expect(validateFilterRule(rule({ key: "bad", pattern: "(unclosed" }))).toMatch(/^pattern is not a valid regular expression/);
+    expect(validateFilterRule(rule({ key: "bad", scope: "domain", pattern: "https://yelp.com" }))).toMatch(/hostname/);
+    expect(validateFilterRule(rule({ key: "ok", scope: "domain", pattern: "yelp.com" }))).toBeNull();
+  });
+});
+
+describe("dry run", () => {
+  const resources = [
+    resource({ id: 1, name: "Grace Church Pantry", state: "PA" }),
+    resource({ id: 2, name: "Lincoln Middle School Pantry", state: "PA" }),
+    resource({ id: 3, name: "County Jail", state: "NJ" }),
+  ];
+
+  test("reports resources a new rule would reject", () => {
+    const { rules: proposed } = applyProposal(defaults, { rule: { key: "church", action: "deny", scope: "name", pattern: "church" } });
+    const report = compareRulesets(defaults, proposed!, resources);
+
+    expect(report.resources_checked).toBe(3);
+    expect(report.newly_rejected).toEqual({
+      count: 1,
+      examples: [{ id: 1, name: "Grace Church Pantry", source_url: null, rule: "church" }],
+    });
+    expect(report.no_longer_rejected.count).toBe(0);
+  });
+
+  test("reports resources and rejected candidates a disabled rule would let through", () => {
+    const jail = defaults.find((r) => r.pattern.startsWith("\\bjail"))!;
+    const { rules: proposed } = applyProposal(defaults, { id: jail.id!, rule: { enabled: false } });
+    const report = compareRulesets(defaults, proposed!, resources, [
+      { id: 9, candidate: { name: "Cumberland County Jail", source_url: "https://ccjail.org" } },
+    ]);
+
+    expect(report.no_longer_rejected.examples.map((e) => e.id)).toEqual([3]);
+    expect(report.rejected_candidates_released).toEqual({
+      count: 1,
+      examples: [{ id: 9, name: "Cumberland County Jail", source_url: "https://ccjail.org", rule: jail.key }],
+    });
+  });
+
+  test("rejects proposals for missing rules or with invalid patterns", () => {
+    expect(applyProposal(defaults, { id: 9999, delete: true }).error).toBe("Filter rule 9999 not found");
+    expect(applyProposal(defaults, { rule: { key: "bad", action: "deny", scope: "name", pattern: "(" } }).error).toMatch(
+      /^pattern is not a valid regular expression/
+    );
+  });
+});
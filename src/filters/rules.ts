@@ -0,0 +1,376 @@
+// ABOUTME: Allow/deny/flag filter rules by scope (name, text, domain, URL, Google type) with per-state overrides
+// ABOUTME: Evaluates candidates against the active rule set, which lives in filter_rules once useStoredFilterRules runs
+
+import type { Database } from "../core/database";
+import { createLogger } from "../utils/logger";
+import { DEFAULT_FILTER_RULES } from "./default-rules";
+
+// deny drops a candidate during discovery; flag only raises suspicion in the analyze UI;
+// allow exempts a candidate from deny rules of the same scope
+export type FilterRuleAction = "deny" | "allow" | "flag";
+
+// name: resource name; text: name, notes and verification notes; domain: source URL host
+// (and its subdomains); url: full source URL; google_type: a Google Places type
+export type FilterRuleScope = "name" | "text" | "domain" | "url" | "google_type";
+
+// What a matching rule tells the false-positive detector
+export type SuspicionSignal =
+  | "directory_page"
+  | "financial_bank"
+  | "wrong_bank_type"
+  | "law_enforcement"
+  | "government_office"
+  | "community_center"
+  | "school"
+  | "generic_listing"
+  | "food_indicator";
+
+export const FILTER_RULE_ACTIONS: FilterRuleAction[] = ["deny", "allow", "flag"];
+export const FILTER_RULE_SCOPES: FilterRuleScope[] = ["name", "text", "domain", "url", "google_type"];
+export const SUSPICION_SIGNALS: SuspicionSignal[] = [
+  "directory_page",
+  "financial_bank",
+  "wrong_bank_type",
+  "law_enforcement",
+  "government_office",
+  "community_center",
+  "school",
+  "generic_listing",
+  "food_indicator",
+];
+
+export interface FilterRuleInput {
+  key: string;
+  action: FilterRuleAction;
+  scope: FilterRuleScope;
+  pattern: string; // Case-insensitive regex for name/text/url, a hostname for domain, a type for google_type
+  state: string | null; // Two-letter state the rule is limited to; null applies everywhere
+  signal: SuspicionSignal | null;
+  description: string | null;
+  enabled: boolean;
+}
+
+export interface FilterRule extends FilterRuleInput {
+  id: number | null; // null for built-in rules that aren't stored yet
+  builtin: boolean;
+  updated_by?: string | null;
+  updated_at?: string | null;
+}
+
+// What a rule is checked against
+export interface FilterSubject {
+  name?: string | null;
+  notes?: string | null;
+  verification_notes?: string | null;
+  source_url?: string | null;
+  state?: string | null;
+  google_types?: string[] | null;
+}
+
+export interface RuleMatch {
+  rule: FilterRule;
+  value: string; // The name, host, URL or type that matched
+}
+
+const log = createLogger("filter-rules");
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const compiled = new Map<string, RegExp | null>();
+
+function regexFor(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      compiled.set(pattern, null);
+    }
+  }
+  return compiled.get(pattern)!;
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function valuesFor(scope: FilterRuleScope, subject: FilterSubject): string[] {
+  switch (scope) {
+    case "name":
+      return subject.name ? [subject.name] : [];
+    case "text":
+      return [`${subject.name || ""} ${subject.notes || ""} ${subject.verification_notes || ""}`];
+    case "domain": {
+      const host = subject.source_url ? hostOf(subject.source_url) : null;
+      return host ? [host] : [];
+    }
+    case "url":
+      return subject.source_url ? [subject.source_url] : [];
+    case "google_type":
+      return subject.google_types || [];
+  }
+}
+
+function ruleMatches(rule: FilterRule, value: string): boolean {
+  switch (rule.scope) {
+    case "domain": {
+      const domain = rule.pattern.toLowerCase();
+      return value === domain || value.endsWith(`.${domain}`);
+    }
+    case "google_type":
+      return value === rule.pattern;
+    default:
+      return regexFor(rule.pattern)?.test(value) ?? false;
+  }
+}
+
+function appliesTo(rule: FilterRule, subject: FilterSubject): boolean {
+  return rule.enabled && (!rule.state || rule.state === subject.state?.toUpperCase());
+}
+
+export interface MatchOptions {
+  actions?: FilterRuleAction[];
+  scopes?: FilterRuleScope[];
+  signals?: SuspicionSignal[];
+  // Test regex rules against this scope's value instead of their own (the detector checks
+  // law enforcement name patterns against notes too); domain and type rules are skipped
+  as?: "name" | "text" | "url";
+}
+
+/**
+ * Every enabled rule matching the options that matches the subject, in rule order
+ */
+export function matchRules(rules: FilterRule[], subject: FilterSubject, options: MatchOptions = {}): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    if (options.actions && !options.actions.includes(rule.action)) continue;
+    if (options.scopes && !options.scopes.includes(rule.scope)) continue;
+    if (options.signals && (!rule.signal || !options.signals.includes(rule.signal))) continue;
+    if (options.as && (rule.scope === "domain" || rule.scope === "google_type")) continue;
+    if (!appliesTo(rule, subject)) continue;
+    const value = valuesFor(options.as ?? rule.scope, subject).find((v) => ruleMatches(rule, v));
+    if (value !== undefined) matches.push({ rule, value });
+  }
+  return matches;
+}
+
+/**
+ * The deny rule that drops this subject, checking scopes in the given order. A matching allow rule
+ * of the same scope exempts the subject from that scope's deny rules.
+ */
+export function deniedBy(
+  rules: FilterRule[],
+  subject: FilterSubject,
+  scopes: FilterRuleScope[] = FILTER_RULE_SCOPES
+): RuleMatch | null {
+  for (const scope of scopes) {
+    const deny = matchRules(rules, subject, { actions: ["deny"], scopes: [scope] })[0];
+    if (!deny) continue;
+    if (matchRules(rules, subject, { actions: ["allow"], scopes: [scope] }).length > 0) continue;
+    return deny;
+  }
+  return null;
+}
+
+export function describeMatch(match: RuleMatch): string {
+  return `${match.rule.key}: ${match.rule.pattern}`;
+}
+
+/**
+ * Validate a rule from a request body. With partial, only the given fields are checked (for PATCH).
+ */
+export function parseFilterRule(
+  body: unknown,
+  partial = false
+): { rule?: Partial<FilterRuleInput>; error?: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+  const input = body as Record<string, unknown>;
+  const known = ["key", "action", "scope", "pattern", "state", "signal", "description", "enabled"];
+  const unknownFields = Object.keys(input).filter((field) => !known.includes(field));
+  if (unknownFields.length > 0) {
+    return { error: `Unknown fields: ${unknownFields.join(", ")}` };
+  }
+
+  if (!partial) {
+    for (const field of ["key", "action", "scope", "pattern"]) {
+      if (input[field] === undefined) return { error: `${field} is required` };
+    }
+  }
+
+  const rule: Partial<FilterRuleInput> = {};
+  if (input.key !== undefined) {
+    if (typeof input.key !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(input.key)) {
+      return { error: "key must be lowercase letters, digits and dashes" };
+    }
+    rule.key = input.key;
+  }
+  if (input.action !== undefined) {
+    if (!FILTER_RULE_ACTIONS.includes(input.action as FilterRuleAction)) {
+      return { error: `action must be one of ${FILTER_RULE_ACTIONS.join(", ")}` };
+    }
+    rule.action = input.action as FilterRuleAction;
+  }
+  if (input.scope !== undefined) {
+    if (!FILTER_RULE_SCOPES.includes(input.scope as FilterRuleScope)) {
+      return { error: `scope must be one of ${FILTER_RULE_SCOPES.join(", ")}` };
+    }
+    rule.scope = input.scope as FilterRuleScope;
+  }
+  if (input.pattern !== undefined) {
+    if (typeof input.pattern !== "string" || !input.pattern.trim()) {
+      return { error: "pattern must be a non-empty string" };
+    }
+    rule.pattern = input.pattern;
+  }
+  if (input.state !== undefined) {
+    if (input.state !== null && (typeof input.state !== "string" || !/^[A-Za-z]{2}$/.test(input.state))) {
+      return { error: "state must be a two-letter state code or null" };
+    }
+    rule.state = input.state === null ? null : (input.state as string).toUpperCase();
+  }
+  if (input.signal !== undefined) {
+    if (input.signal !== null && !SUSPICION_SIGNALS.includes(input.signal as SuspicionSignal)) {
+      return { error: `signal must be null or one of ${SUSPICION_SIGNALS.join(", ")}` };
+    }
+    rule.signal = input.signal as SuspicionSignal | null;
+  }
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      return { error: "description must be a string" };
+    }
+    rule.description = input.description as string | null;
+  }
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") return { error: "enabled must be true or false" };
+    rule.enabled = input.enabled;
+  }
+
+  return { rule };
+}
+
+/**
+ * Check a complete rule: regex patterns must compile, hosts and types must look like hosts and types
+ */
+export function validateFilterRule(rule: FilterRuleInput): string | null {
+  if (rule.scope === "domain") {
+    if (!/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(rule.pattern)) return "domain rules need a hostname such as example.com";
+  } else if (rule.scope === "google_type") {
+    if (!/^[a-z_]+$/.test(rule.pattern)) return "google_type rules need a Places type such as place_of_worship";
+  } else {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch (error) {
+      return `pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+function builtinRules(): FilterRule[] {
+  return DEFAULT_FILTER_RULES.map((rule) => ({ ...rule, id: null, builtin: true }));
+}
+
+let activeRules: FilterRule[] = builtinRules();
+
+/**
+ * The rule set filters use right now: the built-in rules, or filter_rules once loaded
+ */
+export function activeFilterRules(): FilterRule[] {
+  return activeRules;
+}
+
+export function setActiveFilterRules(rules: FilterRule[]): void {
+  activeRules = rules;
+}
+
+export async function listFilterRules(db: Database): Promise<FilterRule[]> {
+  return db<FilterRule[]>`
+    SELECT id, key, action, scope, pattern, state, signal, description, enabled, builtin, updated_by, updated_at
+    FROM filter_rules
+    ORDER BY id
+  `;
+}
+
+export async function reloadFilterRules(db: Database): Promise<FilterRule[]> {
+  activeRules = await listFilterRules(db);
+  return activeRules;
+}
+
+/**
+ * Add built-in rules that aren't stored yet (stored ones keep their edits), load filter_rules, and
+ * re-read it every minute so edits made through another process take effect everywhere
+ */
+export async function useStoredFilterRules(db: Database): Promise<() => void> {
+  for (const rule of DEFAULT_FILTER_RULES) {
+    await db`
+      INSERT INTO filter_rules (key, action, scope, pattern, state, signal, description, enabled, builtin, updated_by)
+      VALUES (
+        ${rule.key}, ${rule.action}, ${rule.scope}, ${rule.pattern}, ${rule.state},
+        ${rule.signal}, ${rule.description}, ${rule.enabled}, true, ${"builtin"}
+      )
+      ON CONFLICT (key) DO NOTHING
+    `;
+  }
+  await reloadFilterRules(db);
+
+  const timer = setInterval(() => {
+    reloadFilterRules(db).catch((error) => {
+      log.error("Failed to reload filter rules", { error });
+    });
+  }, REFRESH_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+export async function getFilterRule(db: Database, id: number): Promise<FilterRule | null> {
+  const [rule] = await db<FilterRule[]>`SELECT * FROM filter_rules WHERE id = ${id}`;
+  return rule || null;
+}
+
+/**
+ * Store a new rule and make it active. Returns null if a rule with the same key exists.
+ */
+export async function createFilterRule(
+  db: Database,
+  rule: FilterRuleInput,
+  changedBy: string
+): Promise<FilterRule | null> {
+  const [created] = await db<FilterRule[]>`
+    INSERT INTO filter_rules (key, action, scope, pattern, state, signal, description, enabled, builtin, updated_by)
+    VALUES (
+      ${rule.key}, ${rule.action}, ${rule.scope}, ${rule.pattern}, ${rule.state},
+      ${rule.signal}, ${rule.description}, ${rule.enabled}, false, ${changedBy}
+    )
+    ON CONFLICT (key) DO NOTHING
+    RETURNING *
+  `;
+  if (created) await reloadFilterRules(db);
+  return created || null;
+}
+
+export async function updateFilterRule(
+  db: Database,
+  id: number,
+  updates: Partial<FilterRuleInput>,
+  changedBy: string
+): Promise<FilterRule | null> {
+  const [updated] = await db<FilterRule[]>`
+    UPDATE filter_rules SET ${db({ ...updates, updated_by: changedBy })}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${id}
+    RETURNING *
+  `;
+  if (updated) await reloadFilterRules(db);
+  return updated || null;
+}
+
+/**
+ * Delete a rule added through the API. Built-in rules can only be disabled; startup would seed them again.
+ */
+export async function deleteFilterRule(db: Database, id: number): Promise<boolean> {
+  const deleted = await db`DELETE FROM filter_rules WHERE id = ${id} AND builtin = false RETURNING id`;
+  if (deleted.length > 0) await reloadFilterRules(db);
+  return deleted.length > 0;
+}
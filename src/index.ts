@@ -3,15 +3,46 @@
 
 import { initDatabase, type FoodResource } from "./core/database";
 import { searchFoodResources } from "./search/search";
-import { searchFoodResourcesByCounty } from "./search/county-search";
+import { getStoredCountyResults, recordCountyRequest } from "./search/county-search";
 import { findCounty } from "./core/counties";
-import { searchWithJina } from "./search/jina-search";
+import { findCountyMismatches } from "./core/county-assignment";
+import { preloadBoundaries } from "./core/boundaries";
+import { startSaturatedTileLog, listSaturatedTiles } from "./search/places-tiles";
 import { startEnrichmentWorker } from "./enrichment/enrichment-worker";
+import { startCrawlWorker } from "./jobs/crawl-worker";
+import { startReverificationScheduler } from "./validation/reverification-worker";
+import { getReverificationStatus } from "./validation/reverification";
+import { scheduleQualityRefresh, parseMinQuality } from "./validation/quality-score";
+import {
+  enqueueCrawlJob,
+  getCrawlJob,
+  listCrawlJobs,
+  cancelCrawlJob,
+  CRAWL_JOB_TYPES,
+  DEFAULT_MAX_ATTEMPTS,
+  type CrawlJobType,
+  type CrawlJobStatus,
+} from "./jobs/crawl-jobs";
+import {
+  scanForDuplicates,
+  listDuplicateCandidates,
+  getDuplicateCandidate,
+  mergeDuplicateCandidate,
+  rejectDuplicateCandidate,
+  mergeResources,
+} from "./dedup/duplicates";
+import {
+  startRejectionLog,
+  listRejectedCandidates,
+  rescueRejectedCandidate,
+  type RejectionStage,
+} from "./discovery/rejections";
 import {
   getCountyStats,
   getEnrichmentStats,
   getUnprocessedCounties,
   getStateCountyStats,
+  getCountyNeedStats,
 } from "./monitoring/monitoring";
 import { generateStatusPage } from "./monitoring/status-page";
 import { analyzeResources, filterBySuspicion, groupByCategory } from "./validation/false-positive-detector";
@@ -19,19 +50,136 @@ import { validateBatch } from "./validation/ai-validator";
 import { enrichWithGooglePlaces } from "./enrichment/google-places";
 import { generateAnalyzePage } from "./monitoring/analyze-page";
 import { expandDirectory } from "./utils/directory-expander";
-import { cleanHours } from "./utils/format-hours";
+import { filterOpenAt, parseOpenFilter } from "./utils/opening-hours";
+import { EXPORT_FORMATS, EXPORT_CONTENT_TYPES, createExportWriter, type ExportFormat } from "./export/formats";
+import { exportableResources, createExportStream } from "./export/export-stream";
+import { HSDS_TABLES, type HsdsTable } from "./export/hsds";
+import { parseChangesQuery, getExportChanges } from "./export/changes";
+import { authorize, apiKeyCookie, clientAddress, type Principal } from "./auth/access";
+import { createApiKey, listApiKeys, revokeApiKey, isRole } from "./auth/api-keys";
+import { createRateLimiter } from "./auth/rate-limit";
+import { configuredProviders } from "./discovery/registry";
+import { getResourceSources, getProviderYield } from "./discovery/discover";
+import {
+  useStoredFilterRules,
+  listFilterRules,
+  getFilterRule,
+  createFilterRule,
+  updateFilterRule,
+  deleteFilterRule,
+  parseFilterRule,
+  validateFilterRule,
+  type FilterRuleInput,
+} from "./filters/rules";
+import { dryRunFilterRules } from "./filters/dry-run";
+import { startCostLedger, getCostReport } from "./costs/ledger";
+import { limitedFetch, useSharedProviderLimits } from "./utils/provider-limits";
+import { renderMetrics } from "./monitoring/metrics";
+import { withCallContext, newCorrelationId } from "./core/call-context";
+import { isValidCoordinate } from "./utils/geo";
+import {
+  findNearbyResources,
+  DEFAULT_RADIUS_MILES,
+  MAX_RADIUS_MILES,
+  DEFAULT_NEARBY_LIMIT,
+  MAX_NEARBY_LIMIT,
+} from "./search/nearby-search";
+import { parseResourceQuery, queryResources } from "./core/resource-query";
+import {
+  createResource,
+  updateResource,
+  deleteResources,
+  getResourceChanges,
+  parseResourceUpdate,
+  type ChangeContext,
+} from "./core/resource-changes";
 
 const db = await initDatabase();
 
+// Identify who made a manual edit for the resource_changes audit trail: always the
+// authenticated key, never a client-supplied name
+function manualChange(principal: Principal): ChangeContext {
+  return { source: "manual", changedBy: principal.apiKey?.name || "api" };
+}
+
+const rateLimiter = createRateLimiter();
+
+// Meter every outbound Google Places, OpenAI and Jina call in the api_usage ledger
+startCostLedger(db);
+
+// Keep every candidate the discovery and enrichment filters drop, for review in the analyze UI
+startRejectionLog(db);
+
+// Parse the county and ZIP boundaries now rather than inside the first resource edit
+preloadBoundaries();
+
+// Keep Places search tiles that hit the 60-result cap, so they can be subdivided
+startSaturatedTileLog(db);
+
+// Share provider rate limits with any other server processes through Postgres
+useSharedProviderLimits(db);
+
+// Discovery filters and the false-positive detector use the editable rules in filter_rules
+await useStoredFilterRules(db);
+
+// Score resources written before the last restart or rule change
+scheduleQualityRefresh(db);
+
 // Start background enrichment worker
 startEnrichmentWorker(db);
 
+// Start background worker for queued county crawls
+startCrawlWorker(db);
+
+// Re-check resources whose verification is older than REVERIFY_AFTER_DAYS
+startReverificationScheduler(db);
+
 const server = Bun.serve({
   port: process.env.PORT || 3000,
-  idleTimeout: 120,
-  async fetch(req) {
+  async fetch(req, server) {
     const url = new URL(req.url);
 
+    let principal: Principal;
+    try {
+      const auth = await authorize(
+        db,
+        req,
+        clientAddress(req, server.requestIP(req)?.address),
+        rateLimiter.consume
+      );
+      if (!auth.ok) {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (auth.rateLimit && !auth.rateLimit.allowed) {
+          headers["Retry-After"] = String(auth.rateLimit.retryAfterSeconds);
+        }
+        return new Response(JSON.stringify({ error: auth.error }), { status: auth.status, headers });
+      }
+      principal = auth.principal;
+    } catch (error) {
+      console.error("Authorization error:", error);
+      return new Response(
+        JSON.stringify({
+          error: "Failed to authorize request",
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Browser pages are opened with ?api_key=...; keep the key in a cookie
+    // for the page's own requests and take it out of the address bar
+    const queryKey = url.searchParams.get("api_key");
+    if (queryKey && req.method === "GET" && ["/analyze-ui", "/status/counties"].includes(url.pathname)) {
+      url.searchParams.delete("api_key");
+      return new Response(null, {
+        status: 303,
+        headers: { Location: url.pathname + url.search, "Set-Cookie": apiKeyCookie(queryKey) },
+      });
+    }
+
     if (url.pathname === "/search" && req.method === "GET") {
       const zipCode = url.searchParams.get("zip");
 
@@ -56,12 +204,33 @@ const server = Bun.serve({
         );
       }
 
+      const openFilter = parseOpenFilter(url.searchParams);
+      if (openFilter.error) {
+        return new Response(
+          JSON.stringify({ error: openFilter.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
       try {
-        const results = await searchFoodResources(db, zipCode);
+        // A ZIP search may crawl the counties it overlaps, so trace it like a county search
+        const requestId = req.headers.get("X-Request-Id") || newCorrelationId();
+        const results = await withCallContext({ correlation_id: requestId }, () => searchFoodResources(db, zipCode));
+        const body = openFilter.at
+          ? {
+              ...results,
+              pantries: filterOpenAt(results.pantries, openFilter.at),
+              banks: filterOpenAt(results.banks, openFilter.at),
+              mixed: filterOpenAt(results.mixed, openFilter.at),
+            }
+          : results;
 
-        return new Response(JSON.stringify(results), {
+        return new Response(JSON.stringify(body), {
           status: 200,
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "X-Request-Id": requestId },
         });
       } catch (error) {
         console.error("Search error:", error);
@@ -94,6 +263,17 @@ const server = Bun.serve({
         );
       }
 
+      const openFilter = parseOpenFilter(url.searchParams);
+      if (openFilter.error) {
+        return new Response(
+          JSON.stringify({ error: openFilter.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
       try {
         const county = await findCounty(countyName, state);
 
@@ -109,11 +289,37 @@ const server = Bun.serve({
           );
         }
 
-        const results = await searchFoodResourcesByCounty(db, county);
+        const requestId = req.headers.get("X-Request-Id") || newCorrelationId();
+        const stored = await getStoredCountyResults(db, county.geoid);
 
-        return new Response(JSON.stringify(results), {
+        // Never-searched counties are crawled by the job queue; poll the job, then search again
+        if (!stored) {
+          const { job, created } = await enqueueCrawlJob(db, "county-search", county);
+          return new Response(JSON.stringify({ county: `${county.name}, ${county.state}`, created, job }), {
+            status: 202,
+            headers: { "Content-Type": "application/json", "X-Request-Id": requestId },
+          });
+        }
+
+        await recordCountyRequest(db, county.geoid);
+        // Stale counties are answered from stored results while a refresh crawl is queued
+        const refresh = stored.stale ? await enqueueCrawlJob(db, "county-search", county) : null;
+        const { results } = stored;
+        const body = {
+          ...results,
+          ...(openFilter.at
+            ? {
+                pantries: filterOpenAt(results.pantries, openFilter.at),
+                banks: filterOpenAt(results.banks, openFilter.at),
+                mixed: filterOpenAt(results.mixed, openFilter.at),
+              }
+            : {}),
+          ...(refresh ? { refresh_job_id: refresh.job.id } : {}),
+        };
+
+        return new Response(JSON.stringify(body), {
           status: 200,
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "X-Request-Id": requestId },
         });
       } catch (error) {
         console.error("County search error:", error);
@@ -130,15 +336,97 @@ const server = Bun.serve({
       }
     }
 
-    if (url.pathname === "/search-county-jina" && req.method === "POST") {
-      const countyName = url.searchParams.get("county");
-      const state = url.searchParams.get("state");
+    if (url.pathname === "/nearby" && req.method === "GET") {
+      const latParam = url.searchParams.get("lat");
+      const lngParam = url.searchParams.get("lng");
 
-      if (!countyName || !state) {
+      if (!latParam || !lngParam) {
+        return new Response(
+          JSON.stringify({ error: "lat and lng parameters are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const latitude = parseFloat(latParam);
+      const longitude = parseFloat(lngParam);
+      if (!isValidCoordinate(latitude, longitude)) {
+        return new Response(
+          JSON.stringify({ error: "lat must be between -90 and 90 and lng between -180 and 180" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const radiusMiles = url.searchParams.get("radius_miles")
+        ? parseFloat(url.searchParams.get("radius_miles")!)
+        : DEFAULT_RADIUS_MILES;
+      if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > MAX_RADIUS_MILES) {
+        return new Response(
+          JSON.stringify({ error: `radius_miles must be greater than 0 and at most ${MAX_RADIUS_MILES}` }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const limit = url.searchParams.get("limit")
+        ? Number(url.searchParams.get("limit"))
+        : DEFAULT_NEARBY_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NEARBY_LIMIT) {
+        return new Response(
+          JSON.stringify({ error: `limit must be an integer between 1 and ${MAX_NEARBY_LIMIT}` }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const openFilter = parseOpenFilter(url.searchParams);
+      if (openFilter.error) {
+        return new Response(
+          JSON.stringify({ error: openFilter.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const results = await findNearbyResources(db, latitude, longitude, radiusMiles, limit, openFilter.at);
+
+        return new Response(JSON.stringify(results), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Nearby search error:", error);
         return new Response(
           JSON.stringify({
-            error: "county and state parameters are required",
+            error: "Failed to search for nearby food resources",
+            details: error instanceof Error ? error.message : String(error),
           }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/resources" && req.method === "GET") {
+      const parsed = parseResourceQuery(url.searchParams);
+
+      if (parsed.error || !parsed.query) {
+        return new Response(
+          JSON.stringify({ error: parsed.error }),
           {
             status: 400,
             headers: { "Content-Type": "application/json" },
@@ -147,143 +435,1130 @@ const server = Bun.serve({
       }
 
       try {
-        const county = await findCounty(countyName, state);
+        const page = await queryResources(db, parsed.query);
 
-        if (!county) {
+        return new Response(JSON.stringify(page), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Resources query error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to query resources",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/resources" && req.method === "POST") {
+      try {
+        const parsed = parseResourceUpdate(await req.json());
+
+        if (parsed.error || !parsed.updates) {
           return new Response(
-            JSON.stringify({
-              error: `County not found: ${countyName}, ${state}`,
-            }),
+            JSON.stringify({ error: parsed.error }),
             {
-              status: 404,
+              status: 400,
               headers: { "Content-Type": "application/json" },
             }
           );
         }
 
-        console.log(`Performing Jina search for ${county.name}, ${county.state}`);
-
-        // Use Jina to search for resources
-        const query = `${county.name} County, ${county.state}`;
-        const jinaResults = await searchWithJina(query, "county");
+        const { updates } = parsed;
+        if (!updates.name || !updates.address || !updates.type) {
+          return new Response(
+            JSON.stringify({ error: "name, address and type are required" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
 
-        console.log(`Jina search found ${jinaResults.length} resources`);
+        // Manually added resources still go through Google Places enrichment
+        const resource = await createResource(
+          db,
+          { is_verified: false, needs_enrichment: true, ...updates },
+          manualChange(principal)
+        );
 
-        // Deduplicate Jina results by address (keep first occurrence)
-        const seenAddressesInResults = new Map<string, typeof jinaResults[0]>();
-        for (const resource of jinaResults) {
-          const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
-          if (normalizedAddress && !seenAddressesInResults.has(normalizedAddress)) {
-            seenAddressesInResults.set(normalizedAddress, resource);
-          } else if (normalizedAddress) {
-            console.log(`Skipping duplicate from Jina: ${resource.name} at ${resource.address} (already have ${seenAddressesInResults.get(normalizedAddress)?.name})`);
+        return new Response(JSON.stringify(resource), {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Create resource error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to create resource",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
           }
-        }
+        );
+      }
+    }
 
-        const dedupedJinaResults = Array.from(seenAddressesInResults.values());
-        console.log(`After deduplication: ${dedupedJinaResults.length} unique addresses (${jinaResults.length - dedupedJinaResults.length} duplicates removed)`);
+    const resourceChangesMatch = url.pathname.match(/^\/resources\/(\d+)\/changes$/);
+    if (resourceChangesMatch && req.method === "GET") {
+      const resourceId = parseInt(resourceChangesMatch[1]!);
 
-        // Check for existing resources to avoid duplicates
-        const existingResources = await db<Array<{ id: number; address: string }>>`
-          SELECT id, address FROM resources
-        `;
+      try {
+        const changes = await getResourceChanges(db, resourceId);
 
-        const existingAddresses = new Set(
-          existingResources.map(r => r.address?.toLowerCase().trim().replace(/\s+/g, ' ')).filter(Boolean)
+        return new Response(JSON.stringify({
+          resource_id: resourceId,
+          count: changes.length,
+          changes,
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Resource changes error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get resource changes",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
         );
+      }
+    }
 
-        // Store results in database
-        let insertedCount = 0;
-        for (const resource of dedupedJinaResults) {
-          try {
-            const normalizedAddress = resource.address?.toLowerCase().trim().replace(/\s+/g, ' ');
+    const resourceSourcesMatch = url.pathname.match(/^\/resources\/(\d+)\/sources$/);
+    if (resourceSourcesMatch && req.method === "GET") {
+      const resourceId = parseInt(resourceSourcesMatch[1]!);
 
-            // Skip if we already have this address
-            if (normalizedAddress && existingAddresses.has(normalizedAddress)) {
-              console.log(`Skipping duplicate: ${resource.name} at ${resource.address}`);
-              continue;
-            }
+      try {
+        const sources = await getResourceSources(db, resourceId);
 
-            await db`
-              INSERT INTO resources (
-                name, address, city, state, zip_code, county_name, county_geoid, location_type,
-                latitude, longitude, type, phone, hours, rating, wait_time_minutes,
-                eligibility_requirements, services_offered, languages_spoken, accessibility_notes,
-                notes, is_verified, verification_notes, source_url, needs_enrichment
-              ) VALUES (
-                ${resource.name || ""},
-                ${resource.address || ""},
-                ${resource.city || null},
-                ${resource.state || county.state},
-                ${resource.zip_code || null},
-                ${county.name},
-                ${county.geoid},
-                'county',
-                ${resource.latitude || null},
-                ${resource.longitude || null},
-                ${resource.type || "mixed"},
-                ${resource.phone || null},
-                ${resource.hours || null},
-                ${resource.rating || null},
-                ${resource.wait_time_minutes || null},
-                ${resource.eligibility_requirements || null},
-                ${resource.services_offered || null},
-                ${resource.languages_spoken || null},
-                ${resource.accessibility_notes || null},
-                ${resource.notes || null},
-                ${resource.is_verified !== undefined ? resource.is_verified : true},
-                ${resource.verification_notes || "Found via Jina search"},
-                ${resource.source_url || null},
-                ${true}
-              )
-            `;
-
-            if (normalizedAddress) {
-              existingAddresses.add(normalizedAddress);
-            }
-            insertedCount++;
-          } catch (error) {
-            console.error(`Error inserting resource ${resource.name}:`, error);
+        return new Response(JSON.stringify({
+          resource_id: resourceId,
+          count: sources.length,
+          sources,
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Resource sources error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get resource sources",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
           }
-        }
+        );
+      }
+    }
 
-        // Update county_searches table
-        // First check if this county has been searched before
-        const existingSearch = await db<Array<{ id: number }>>`
-          SELECT id FROM county_searches
-          WHERE county_geoid = ${county.geoid}
-        `;
+    const resourceMatch = url.pathname.match(/^\/resources\/(\d+)$/);
+    if (resourceMatch && ["GET", "PATCH", "DELETE"].includes(req.method)) {
+      const resourceId = parseInt(resourceMatch[1]!);
+      const notFound = () => new Response(
+        JSON.stringify({ error: `Resource ${resourceId} not found` }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
 
-        if (existingSearch.length > 0) {
-          // Update existing record
-          await db`
-            UPDATE county_searches
-            SET result_count = ${insertedCount},
-                searched_at = NOW()
-            WHERE county_geoid = ${county.geoid}
-          `;
-        } else {
-          // Insert new record
-          await db`
-            INSERT INTO county_searches (county_geoid, county_name, state, result_count, searched_at)
-            VALUES (${county.geoid}, ${county.name}, ${county.state}, ${insertedCount}, NOW())
+      try {
+        if (req.method === "GET") {
+          const [resource] = await db<FoodResource[]>`
+            SELECT * FROM resources WHERE id = ${resourceId}
           `;
+          if (!resource) return notFound();
+
+          return new Response(JSON.stringify(resource), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        if (req.method === "DELETE") {
+          const deletedIds = await deleteResources(db, [resourceId], manualChange(principal));
+          if (deletedIds.length === 0) return notFound();
+
+          return new Response(JSON.stringify({ deleted: true, resource_id: resourceId }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        const parsed = parseResourceUpdate(await req.json());
+        if (parsed.error || !parsed.updates) {
+          return new Response(
+            JSON.stringify({ error: parsed.error }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
         }
 
-        return new Response(JSON.stringify({
-          success: true,
-          county: `${county.name}, ${county.state}`,
-          found: jinaResults.length,
-          inserted: insertedCount,
-        }), {
+        const resource = await updateResource(db, resourceId, parsed.updates, manualChange(principal));
+        if (!resource) return notFound();
+
+        return new Response(JSON.stringify(resource), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Resource error:", error);
+        return new Response(
+          JSON.stringify({
+            error: `Failed to ${req.method === "GET" ? "get" : req.method === "PATCH" ? "update" : "delete"} resource`,
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/duplicates/scan" && req.method === "POST") {
+      const autoMerge = url.searchParams.get("auto_merge") === "true";
+
+      try {
+        const context: ChangeContext = autoMerge
+          ? { source: "dedup", changedBy: principal.apiKey?.name || "duplicate-scan" }
+          : manualChange(principal);
+        const result = await scanForDuplicates(db, autoMerge, context);
+
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Duplicate scan error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to scan for duplicates",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/duplicates" && req.method === "GET") {
+      const status = url.searchParams.get("status") || "pending";
+      if (status !== "pending" && status !== "merged" && status !== "rejected") {
+        return new Response(
+          JSON.stringify({ error: "status must be pending, merged, or rejected" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const limit = parseInt(url.searchParams.get("limit") || "50");
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        return new Response(
+          JSON.stringify({ error: "limit must be between 1 and 500" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const candidates = await listDuplicateCandidates(db, status, limit);
+
+        return new Response(JSON.stringify({ count: candidates.length, candidates }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("List duplicates error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to list duplicate candidates",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const duplicateMatch = url.pathname.match(/^\/duplicates\/(\d+)\/(merge|reject)$/);
+    if (duplicateMatch && req.method === "POST") {
+      const candidateId = parseInt(duplicateMatch[1]!);
+      const action = duplicateMatch[2];
+
+      try {
+        const candidate = await getDuplicateCandidate(db, candidateId);
+        if (!candidate) {
+          return new Response(
+            JSON.stringify({ error: `Duplicate candidate ${candidateId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (candidate.status !== "pending") {
+          return new Response(
+            JSON.stringify({ error: `Duplicate candidate ${candidateId} is already ${candidate.status}` }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (action === "reject") {
+          const rejected = await rejectDuplicateCandidate(db, candidateId, manualChange(principal).changedBy);
+          return new Response(JSON.stringify(rejected), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        const body = req.headers.get("Content-Type")?.includes("application/json")
+          ? await req.json() as { keep_id?: number }
+          : {};
+        if (body.keep_id !== undefined && body.keep_id !== candidate.resource_a_id && body.keep_id !== candidate.resource_b_id) {
+          return new Response(
+            JSON.stringify({ error: "keep_id must be one of the pair's resource ids" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await mergeDuplicateCandidate(db, candidate, body.keep_id ?? null, manualChange(principal));
+        if (!result) {
+          return new Response(
+            JSON.stringify({ error: "One of the pair's resources no longer exists" }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Duplicate review error:", error);
+        return new Response(
+          JSON.stringify({
+            error: `Failed to ${action} duplicate candidate`,
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/rejected-candidates" && req.method === "GET") {
+      const status = url.searchParams.get("status") || "rejected";
+      if (status !== "rejected" && status !== "rescued") {
+        return new Response(
+          JSON.stringify({ error: "status must be rejected or rescued" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const stage = url.searchParams.get("stage") || undefined;
+      const stages: RejectionStage[] = ["source-filter", "geo-filter", "places-search", "places-enrichment"];
+      if (stage && !stages.includes(stage as RejectionStage)) {
+        return new Response(
+          JSON.stringify({ error: `stage must be one of ${stages.join(", ")}` }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const limit = parseInt(url.searchParams.get("limit") || "50");
+      const offset = parseInt(url.searchParams.get("offset") || "0");
+      if (isNaN(limit) || limit < 1 || limit > 500 || isNaN(offset) || offset < 0) {
+        return new Response(
+          JSON.stringify({ error: "limit must be between 1 and 500 and offset at least 0" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const result = await listRejectedCandidates(db, {
+          status,
+          stage: stage as RejectionStage | undefined,
+          rule: url.searchParams.get("rule") || undefined,
+          county_geoid: url.searchParams.get("county_geoid") || undefined,
+          limit,
+          offset,
+        });
+
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("List rejected candidates error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to list rejected candidates",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const rescueMatch = url.pathname.match(/^\/rejected-candidates\/(\d+)\/rescue$/);
+    if (rescueMatch && req.method === "POST") {
+      const rejectionId = parseInt(rescueMatch[1]!);
+
+      try {
+        const result = await rescueRejectedCandidate(db, rejectionId, manualChange(principal));
+        if (result.outcome === "not_found") {
+          return new Response(
+            JSON.stringify({ error: `Rejected candidate ${rejectionId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (result.outcome === "already_rescued") {
+          return new Response(
+            JSON.stringify({
+              error: `Rejected candidate ${rejectionId} was already rescued`,
+              resource_id: result.resource_id,
+            }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (result.outcome === "exists") {
+          return new Response(
+            JSON.stringify({ error: "A matching resource already exists", resource_id: result.resource_id }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (result.outcome === "missing_resource") {
+          return new Response(
+            JSON.stringify({ error: "The resource this match was rejected for no longer exists" }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(result), {
+          status: result.outcome === "created" ? 201 : 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Rescue rejected candidate error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to rescue rejected candidate",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/filter-rules" && req.method === "GET") {
+      try {
+        const rules = await listFilterRules(db);
+        return new Response(JSON.stringify({ total: rules.length, rules }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("List filter rules error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to list filter rules",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/filter-rules" && req.method === "POST") {
+      try {
+        const parsed = parseFilterRule(await req.json());
+        const rule = parsed.rule && {
+          state: null,
+          signal: null,
+          description: null,
+          enabled: true,
+          ...parsed.rule,
+        } as FilterRuleInput;
+        const error = parsed.error || (rule && validateFilterRule(rule));
+        if (error || !rule) {
+          return new Response(
+            JSON.stringify({ error }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const created = await createFilterRule(db, rule, manualChange(principal).changedBy);
+        if (!created) {
+          return new Response(
+            JSON.stringify({ error: `A filter rule with key ${rule.key} already exists` }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        scheduleQualityRefresh(db);
+
+        return new Response(JSON.stringify(created), {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Create filter rule error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to create filter rule",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/filter-rules/dry-run" && req.method === "POST") {
+      try {
+        const body = await req.json() as { id?: unknown; delete?: unknown; rule?: unknown };
+        if (body.id !== undefined && !Number.isInteger(body.id)) {
+          return new Response(
+            JSON.stringify({ error: "id must be a filter rule id" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const parsed = body.rule === undefined ? {} : parseFilterRule(body.rule, body.id !== undefined);
+        if (parsed.error) {
+          return new Response(
+            JSON.stringify({ error: parsed.error }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await dryRunFilterRules(db, await listFilterRules(db), {
+          id: body.id as number | undefined,
+          delete: body.delete === true,
+          rule: parsed.rule,
+        });
+        if (!result.report) {
+          return new Response(
+            JSON.stringify({ error: result.error }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(result.report), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Filter rule dry run error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to dry-run filter rule change",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const filterRuleMatch = url.pathname.match(/^\/filter-rules\/(\d+)$/);
+    if (filterRuleMatch && req.method === "PATCH") {
+      const ruleId = parseInt(filterRuleMatch[1]!);
+
+      try {
+        const parsed = parseFilterRule(await req.json(), true);
+        if (parsed.error || !parsed.rule || Object.keys(parsed.rule).length === 0) {
+          return new Response(
+            JSON.stringify({ error: parsed.error || "No fields to update" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const existing = await getFilterRule(db, ruleId);
+        if (!existing) {
+          return new Response(
+            JSON.stringify({ error: `Filter rule ${ruleId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const error = parsed.rule.key !== undefined && parsed.rule.key !== existing.key
+          ? "key can't be changed"
+          : validateFilterRule({ ...existing, ...parsed.rule });
+        if (error) {
+          return new Response(
+            JSON.stringify({ error }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const updated = await updateFilterRule(db, ruleId, parsed.rule, manualChange(principal).changedBy);
+        scheduleQualityRefresh(db);
+        return new Response(JSON.stringify(updated), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Update filter rule error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to update filter rule",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (filterRuleMatch && req.method === "DELETE") {
+      const ruleId = parseInt(filterRuleMatch[1]!);
+
+      try {
+        const existing = await getFilterRule(db, ruleId);
+        if (!existing) {
+          return new Response(
+            JSON.stringify({ error: `Filter rule ${ruleId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (existing.builtin) {
+          return new Response(
+            JSON.stringify({ error: `Filter rule ${existing.key} is built in; disable it instead` }),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        await deleteFilterRule(db, ruleId);
+        scheduleQualityRefresh(db);
+        return new Response(JSON.stringify({ deleted: true, rule_id: ruleId }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Delete filter rule error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to delete filter rule",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const resourceMergeMatch = url.pathname.match(/^\/resources\/(\d+)\/merge$/);
+    if (resourceMergeMatch && req.method === "POST") {
+      const keepId = parseInt(resourceMergeMatch[1]!);
+
+      try {
+        const body = await req.json() as { merge_ids?: number[] };
+        if (!Array.isArray(body.merge_ids) || body.merge_ids.length === 0 || !body.merge_ids.every(Number.isInteger)) {
+          return new Response(
+            JSON.stringify({ error: "merge_ids must be a non-empty array of resource ids" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await mergeResources(db, keepId, body.merge_ids, manualChange(principal));
+        if (!result) {
+          return new Response(
+            JSON.stringify({ error: `Resource ${keepId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Merge resources error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to merge resources",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/jobs" && req.method === "POST") {
+      try {
+        const body = await req.json() as {
+          type?: string;
+          county?: string;
+          state?: string;
+          max_attempts?: number;
+        };
+
+        if (!body.type || !CRAWL_JOB_TYPES.includes(body.type as CrawlJobType)) {
+          return new Response(
+            JSON.stringify({ error: `type must be one of: ${CRAWL_JOB_TYPES.join(", ")}` }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (!body.county || !body.state) {
+          return new Response(
+            JSON.stringify({ error: "county and state are required" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const maxAttempts = body.max_attempts ?? DEFAULT_MAX_ATTEMPTS;
+        if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 10) {
+          return new Response(
+            JSON.stringify({ error: "max_attempts must be an integer between 1 and 10" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const county = await findCounty(body.county, body.state);
+        if (!county) {
+          return new Response(
+            JSON.stringify({ error: `County not found: ${body.county}, ${body.state}` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const { job, created } = await enqueueCrawlJob(db, body.type as CrawlJobType, county, maxAttempts);
+
+        return new Response(JSON.stringify({ created, job }), {
+          status: created ? 202 : 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Enqueue job error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to enqueue job",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/jobs" && req.method === "GET") {
+      const status = url.searchParams.get("status");
+      if (status && !["queued", "running", "succeeded", "failed", "cancelled"].includes(status)) {
+        return new Response(
+          JSON.stringify({ error: "status must be queued, running, succeeded, failed, or cancelled" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const limit = parseInt(url.searchParams.get("limit") || "50");
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        return new Response(
+          JSON.stringify({ error: "limit must be between 1 and 500" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const jobs = await listCrawlJobs(db, status as CrawlJobStatus | null, limit);
+
+        return new Response(JSON.stringify({ count: jobs.length, jobs }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("List jobs error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to list jobs",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const jobMatch = url.pathname.match(/^\/jobs\/(\d+)(\/cancel)?$/);
+    if (jobMatch && ((req.method === "GET" && !jobMatch[2]) || (req.method === "POST" && jobMatch[2]))) {
+      const jobId = parseInt(jobMatch[1]!);
+
+      try {
+        const job = jobMatch[2]
+          ? await cancelCrawlJob(db, jobId)
+          : await getCrawlJob(db, jobId);
+
+        if (!job) {
+          return new Response(
+            JSON.stringify({ error: `Job ${jobId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(job), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Job error:", error);
+        return new Response(
+          JSON.stringify({
+            error: jobMatch[2] ? "Failed to cancel job" : "Failed to get job",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/search-county-jina" && req.method === "POST") {
+      const countyName = url.searchParams.get("county");
+      const state = url.searchParams.get("state");
+
+      if (!countyName || !state) {
+        return new Response(
+          JSON.stringify({
+            error: "county and state parameters are required",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const county = await findCounty(countyName, state);
+
+        if (!county) {
+          return new Response(
+            JSON.stringify({
+              error: `County not found: ${countyName}, ${state}`,
+            }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        // Jina crawls always run fresh, so every request goes through the job queue
+        const { job, created } = await enqueueCrawlJob(db, "county-jina-search", county);
+
+        return new Response(JSON.stringify({
+          county: `${county.name}, ${county.state}`,
+          created,
+          job,
+        }), {
+          status: 202,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Jina county search error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to search for food resources with Jina",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/health") {
+      return new Response(JSON.stringify({ status: "ok" }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (url.pathname === "/metrics" && req.method === "GET") {
+      try {
+        return new Response(await renderMetrics(db), {
+          status: 200,
+          headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+        });
+      } catch (error) {
+        console.error("Metrics error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to render metrics",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/status/counties" && req.method === "GET") {
+      try {
+        const html = await generateStatusPage(db);
+        return new Response(html, {
+          status: 200,
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+      } catch (error) {
+        console.error("County stats error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get county stats",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname.startsWith("/status/counties/") && req.method === "GET") {
+      const state = url.pathname.split("/")[3];
+      if (!state) {
+        return new Response(JSON.stringify({ error: "State code required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const stats = await getStateCountyStats(db, state);
+        return new Response(JSON.stringify(stats), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("State county stats error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get state county stats",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/status/enrichment" && req.method === "GET") {
+      try {
+        const stats = await getEnrichmentStats(db);
+        return new Response(JSON.stringify(stats), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Enrichment stats error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get enrichment stats",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/status/reverification" && req.method === "GET") {
+      try {
+        const status = await getReverificationStatus(db);
+        return new Response(JSON.stringify(status), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Re-verification status error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get re-verification status",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/status/costs" && req.method === "GET") {
+      const days = parseInt(url.searchParams.get("days") || "7");
+      const county_geoid = url.searchParams.get("county_geoid") || undefined;
+
+      if (isNaN(days) || days < 1 || days > 366) {
+        return new Response(
+          JSON.stringify({ error: "days must be between 1 and 366" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const report = await getCostReport(db, { days, county_geoid });
+        return new Response(JSON.stringify(report), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("Jina county search error:", error);
+        console.error("Cost report error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to search for food resources with Jina",
+            error: "Failed to get cost report",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -294,24 +1569,27 @@ const server = Bun.serve({
       }
     }
 
-    if (url.pathname === "/health") {
-      return new Response(JSON.stringify({ status: "ok" }), {
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    if (url.pathname === "/status/providers" && req.method === "GET") {
+      const state = url.searchParams.get("state")?.toUpperCase() || undefined;
+      const county_geoid = url.searchParams.get("county_geoid") || undefined;
 
-    if (url.pathname === "/status/counties" && req.method === "GET") {
       try {
-        const html = await generateStatusPage(db);
-        return new Response(html, {
+        const providers = configuredProviders().map(({ provider, enabled, weight }) => ({
+          name: provider.name,
+          description: provider.description,
+          enabled,
+          weight,
+        }));
+        const yields = await getProviderYield(db, { state, county_geoid });
+        return new Response(JSON.stringify({ providers, yield: yields }), {
           status: 200,
-          headers: { "Content-Type": "text/html; charset=utf-8" },
+          headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("County stats error:", error);
+        console.error("Provider status error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to get county stats",
+            error: "Failed to get provider status",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -322,26 +1600,44 @@ const server = Bun.serve({
       }
     }
 
-    if (url.pathname.startsWith("/status/counties/") && req.method === "GET") {
-      const state = url.pathname.split("/")[3];
-      if (!state) {
-        return new Response(JSON.stringify({ error: "State code required" }), {
-          status: 400,
+    if (url.pathname === "/status/unprocessed" && req.method === "GET") {
+      const state = url.searchParams.get("state") || undefined;
+
+      try {
+        const unprocessed = await getUnprocessedCounties(db, state);
+        return new Response(JSON.stringify({ unprocessed }), {
+          status: 200,
           headers: { "Content-Type": "application/json" },
         });
+      } catch (error) {
+        console.error("Unprocessed counties error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to get unprocessed counties",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
       }
+    }
+
+    if (url.pathname === "/status/need" && req.method === "GET") {
+      const state = url.searchParams.get("state") || undefined;
 
       try {
-        const stats = await getStateCountyStats(db, state);
-        return new Response(JSON.stringify(stats), {
+        const counties = await getCountyNeedStats(db, state);
+        return new Response(JSON.stringify({ counties }), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("State county stats error:", error);
+        console.error("County need error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to get state county stats",
+            error: "Failed to get county need",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -352,18 +1648,39 @@ const server = Bun.serve({
       }
     }
 
-    if (url.pathname === "/status/enrichment" && req.method === "GET") {
+    if (url.pathname === "/status/county-mismatches" && req.method === "GET") {
+      const state = url.searchParams.get("state")?.toUpperCase() || undefined;
+      const limit = parseInt(url.searchParams.get("limit") || "100");
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        return new Response(
+          JSON.stringify({ error: "limit must be between 1 and 1000" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
       try {
-        const stats = await getEnrichmentStats(db);
-        return new Response(JSON.stringify(stats), {
+        const result = await findCountyMismatches(db, { state, limit });
+        if (!result) {
+          return new Response(
+            JSON.stringify({ error: "County boundaries not available; run scripts/download-boundaries.ts" }),
+            {
+              status: 503,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        return new Response(JSON.stringify(result), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("Enrichment stats error:", error);
+        console.error("County mismatch error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to get enrichment stats",
+            error: "Failed to check resource counties",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -374,20 +1691,30 @@ const server = Bun.serve({
       }
     }
 
-    if (url.pathname === "/status/unprocessed" && req.method === "GET") {
-      const state = url.searchParams.get("state") || undefined;
+    if (url.pathname === "/status/places-tiles" && req.method === "GET") {
+      const county_geoid = url.searchParams.get("county_geoid") || undefined;
+      const limit = parseInt(url.searchParams.get("limit") || "100");
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        return new Response(
+          JSON.stringify({ error: "limit must be between 1 and 1000" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
       try {
-        const unprocessed = await getUnprocessedCounties(db, state);
-        return new Response(JSON.stringify({ unprocessed }), {
+        const tiles = await listSaturatedTiles(db, { county_geoid, limit });
+        return new Response(JSON.stringify({ tiles }), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("Unprocessed counties error:", error);
+        console.error("Saturated tiles error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to get unprocessed counties",
+            error: "Failed to get saturated Places tiles",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -517,7 +1844,7 @@ const server = Bun.serve({
 
         const expanded = [];
         const failed = [];
-        const allNewResources: Partial<FoodResource>[] = [];
+        const allNewResources: FoodResource[] = [];
 
         for (const resource of resources) {
           const result = await expandDirectory(resource);
@@ -525,41 +1852,36 @@ const server = Bun.serve({
           if (result.success && result.new_resources.length > 0) {
             // Store new resources
             for (const newResource of result.new_resources) {
-              const inserted = await db<{ id: number }[]>`
-                INSERT INTO resources (
-                  name, address, city, state, zip_code, county_name, county_geoid, location_type,
-                  latitude, longitude, type, phone, hours, notes, is_verified, verification_notes,
-                  source_url, needs_enrichment
-                ) VALUES (
-                  ${newResource.name || ""},
-                  ${newResource.address || ""},
-                  ${newResource.city || null},
-                  ${newResource.state || null},
-                  ${newResource.zip_code || null},
-                  ${newResource.county_name || null},
-                  ${newResource.county_geoid || null},
-                  ${newResource.location_type || "county"},
-                  ${newResource.latitude || null},
-                  ${newResource.longitude || null},
-                  ${newResource.type || "mixed"},
-                  ${newResource.phone || null},
-                  ${newResource.hours || null},
-                  ${newResource.notes || null},
-                  ${newResource.is_verified || false},
-                  ${newResource.verification_notes || null},
-                  ${newResource.source_url || null},
-                  ${true}
-                )
-                RETURNING id
-              `;
-
-              if (inserted.length > 0) {
-                allNewResources.push({ ...newResource, id: inserted[0].id });
-              }
+              const created = await createResource(
+                db,
+                {
+                  name: newResource.name || "",
+                  address: newResource.address || "",
+                  city: newResource.city || null,
+                  state: newResource.state || null,
+                  zip_code: newResource.zip_code || null,
+                  // Left to the boundary lookup when the directory didn't say
+                  county_name: newResource.county_name || undefined,
+                  county_geoid: newResource.county_geoid || undefined,
+                  location_type: newResource.location_type || "county",
+                  latitude: newResource.latitude || null,
+                  longitude: newResource.longitude || null,
+                  type: newResource.type || "mixed",
+                  phone: newResource.phone || null,
+                  hours: newResource.hours || null,
+                  notes: newResource.notes || null,
+                  is_verified: newResource.is_verified || false,
+                  verification_notes: newResource.verification_notes || null,
+                  source_url: newResource.source_url || null,
+                  needs_enrichment: true,
+                },
+                manualChange(principal)
+              );
+              allNewResources.push(created);
             }
 
             // Delete original directory entry
-            await db`DELETE FROM resources WHERE id = ${resource.id}`;
+            await deleteResources(db, [resource.id!], manualChange(principal));
 
             expanded.push({
               id: resource.id,
@@ -614,11 +1936,16 @@ const server = Bun.serve({
         }
 
         // Mark resource as exportable
-        await db`
-          UPDATE resources
-          SET exportable = true
-          WHERE id = ${resource_id}
-        `;
+        const resource = await updateResource(db, resource_id, { exportable: true }, manualChange(principal));
+        if (!resource) {
+          return new Response(
+            JSON.stringify({ error: `Resource ${resource_id} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
 
         return new Response(JSON.stringify({
           success: true,
@@ -658,11 +1985,16 @@ const server = Bun.serve({
         }
 
         // Update the resource
-        await db`
-          UPDATE resources
-          SET source_url = ${source_url}
-          WHERE id = ${resource_id}
-        `;
+        const resource = await updateResource(db, resource_id, { source_url }, manualChange(principal));
+        if (!resource) {
+          return new Response(
+            JSON.stringify({ error: `Resource ${resource_id} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
 
         return new Response(JSON.stringify({
           success: true,
@@ -705,16 +2037,12 @@ const server = Bun.serve({
 
         if (action === "delete") {
           // Delete resources
-          const result = await db`
-            DELETE FROM resources
-            WHERE id = ANY(${resourceIds})
-            RETURNING id
-          `;
+          const deletedIds = await deleteResources(db, resourceIds, manualChange(principal));
 
           return new Response(JSON.stringify({
             action: "delete",
-            deleted_count: result.length,
-            deleted_ids: result.map(r => r.id),
+            deleted_count: deletedIds.length,
+            deleted_ids: deletedIds,
           }), {
             status: 200,
             headers: { "Content-Type": "application/json" },
@@ -743,12 +2071,19 @@ const server = Bun.serve({
 
             // Update verification status based on validation
             const notes = `AI validation: ${validation.reasoning} (confidence: ${validation.confidence}%)`;
-            await db`
-              UPDATE resources SET
-                is_verified = ${validation.is_food_resource},
-                verification_notes = ${notes}
-              WHERE id = ${id}
-            `;
+            await updateResource(
+              db,
+              id,
+              {
+                is_verified: validation.is_food_resource,
+                verification_notes: notes,
+                verification_signals: {
+                  ai_is_food_resource: validation.is_food_resource,
+                  ai_confidence: validation.confidence,
+                },
+              },
+              { ...manualChange(principal), source: "openai" }
+            );
           }
 
           return new Response(JSON.stringify({
@@ -778,42 +2113,50 @@ const server = Bun.serve({
               if (enrichmentResult.data) {
                 const enrichedData = enrichmentResult.data;
                 // Update resource with enriched data
-                await db`
-                  UPDATE resources SET
-                    name = ${enrichedData.name || resource.name},
-                    phone = ${enrichedData.phone || resource.phone},
-                    hours = ${enrichedData.hours || resource.hours},
-                    rating = ${enrichedData.rating || resource.rating},
-                    latitude = ${enrichedData.latitude || resource.latitude},
-                    longitude = ${enrichedData.longitude || resource.longitude},
-                    google_place_id = ${enrichedData.google_place_id || resource.google_place_id},
-                    editorial_summary = ${enrichedData.editorial_summary || resource.editorial_summary},
-                    wheelchair_accessible = ${enrichedData.wheelchair_accessible ?? resource.wheelchair_accessible},
-                    has_curbside_pickup = ${enrichedData.has_curbside_pickup ?? resource.has_curbside_pickup},
-                    has_delivery = ${enrichedData.has_delivery ?? resource.has_delivery},
-                    has_takeout = ${enrichedData.has_takeout ?? resource.has_takeout},
-                    url_facebook = ${enrichedData.url_facebook || resource.url_facebook},
-                    url_twitter = ${enrichedData.url_twitter || resource.url_twitter},
-                    url_instagram = ${enrichedData.url_instagram || resource.url_instagram},
-                    url_youtube = ${enrichedData.url_youtube || resource.url_youtube},
-                    needs_enrichment = false,
-                    enrichment_failure_count = 0,
-                    enrichment_failure_reason = null,
-                    last_enrichment_attempt = NOW()
-                  WHERE id = ${resource.id}
-                `;
+                await updateResource(
+                  db,
+                  resource.id!,
+                  {
+                    name: enrichedData.name || resource.name,
+                    phone: enrichedData.phone || resource.phone,
+                    hours: enrichedData.hours || resource.hours,
+                    rating: enrichedData.rating || resource.rating,
+                    latitude: enrichedData.latitude || resource.latitude,
+                    longitude: enrichedData.longitude || resource.longitude,
+                    google_place_id: enrichedData.google_place_id || resource.google_place_id,
+                    verification_signals: enrichedData.verification_signals,
+                    editorial_summary: enrichedData.editorial_summary || resource.editorial_summary,
+                    wheelchair_accessible: enrichedData.wheelchair_accessible ?? resource.wheelchair_accessible,
+                    has_curbside_pickup: enrichedData.has_curbside_pickup ?? resource.has_curbside_pickup,
+                    has_delivery: enrichedData.has_delivery ?? resource.has_delivery,
+                    has_takeout: enrichedData.has_takeout ?? resource.has_takeout,
+                    url_facebook: enrichedData.url_facebook || resource.url_facebook,
+                    url_twitter: enrichedData.url_twitter || resource.url_twitter,
+                    url_instagram: enrichedData.url_instagram || resource.url_instagram,
+                    url_youtube: enrichedData.url_youtube || resource.url_youtube,
+                    needs_enrichment: false,
+                    enrichment_failure_count: 0,
+                    enrichment_failure_reason: null,
+                    last_enrichment_attempt: new Date().toISOString(),
+                  },
+                  { ...manualChange(principal), source: "google-places" }
+                );
                 enriched.push(resource.id);
               } else {
                 // Check if permanently closed - mark as unexportable
                 if (enrichmentResult.failureReason === 'Permanently closed') {
-                  await db`
-                    UPDATE resources SET
-                      exportable = false,
-                      last_enrichment_attempt = NOW(),
-                      enrichment_failure_count = ${(resource.enrichment_failure_count || 0) + 1},
-                      enrichment_failure_reason = ${enrichmentResult.failureReason}
-                    WHERE id = ${resource.id}
-                  `;
+                  await updateResource(
+                    db,
+                    resource.id!,
+                    {
+                      exportable: false,
+                      verification_signals: { business_status: "CLOSED_PERMANENTLY" },
+                      last_enrichment_attempt: new Date().toISOString(),
+                      enrichment_failure_count: (resource.enrichment_failure_count || 0) + 1,
+                      enrichment_failure_reason: enrichmentResult.failureReason,
+                    },
+                    { ...manualChange(principal), source: "google-places" }
+                  );
                 }
                 failed.push({
                   id: resource.id,
@@ -826,9 +2169,6 @@ const server = Bun.serve({
                 reason: error instanceof Error ? error.message : String(error)
               });
             }
-
-            // Rate limiting
-            await new Promise((resolve) => setTimeout(resolve, 200));
           }
 
           return new Response(JSON.stringify({
@@ -892,6 +2232,8 @@ const server = Bun.serve({
 
         console.log(`[Validation] Found ${resources.length} resources with URLs`);
 
+        const urlValidationChange = manualChange(principal);
+
         const FOOD_KEYWORDS = [
           'pantry', 'food bank', 'food pickup', 'food distribution',
           'food assistance', 'meal', 'feeding', 'nutrition', 'hungry',
@@ -919,12 +2261,12 @@ const server = Bun.serve({
               try {
                 console.log(`[Validation] Fetching ${resource.name} (${resource.source_url})`);
 
-                const response = await fetch(resource.source_url!, {
+                const response = await limitedFetch(resource.source_url!, {
                   headers: {
                     'User-Agent': 'Mozilla/5.0 (compatible; FoodBankBot/1.0)'
                   },
                   signal: AbortSignal.timeout(10000),
-                });
+                }, "web");
 
                 if (!response.ok) {
                   const result = {
@@ -938,11 +2280,12 @@ const server = Bun.serve({
                   invalidCount++;
 
                   // Mark as unexportable
-                  await db`
-                    UPDATE resources
-                    SET exportable = false
-                    WHERE id = ${resource.id}
-                  `;
+                  await updateResource(
+                    db,
+                    resource.id!,
+                    { exportable: false, verification_signals: { url_valid: false } },
+                    urlValidationChange
+                  );
 
                   allResults.push(result);
                   completed++;
@@ -973,15 +2316,17 @@ const server = Bun.serve({
                 if (valid) {
                   console.log(`[Validation] ✅ ${resource.name} - Found: ${foundKeywords.slice(0, 3).join(', ')}`);
                   validCount++;
+                  await updateResource(db, resource.id!, { verification_signals: { url_valid: true } }, urlValidationChange);
                 } else {
                   console.log(`[Validation] ❌ ${resource.name} - No food keywords found`);
                   invalidCount++;
                   // Mark as unexportable
-                  await db`
-                    UPDATE resources
-                    SET exportable = false
-                    WHERE id = ${resource.id}
-                  `;
+                  await updateResource(
+                    db,
+                    resource.id!,
+                    { exportable: false, verification_signals: { url_valid: false } },
+                    urlValidationChange
+                  );
                 }
 
                 allResults.push(result);
@@ -1000,11 +2345,12 @@ const server = Bun.serve({
                 invalidCount++;
 
                 // Mark as unexportable
-                await db`
-                  UPDATE resources
-                  SET exportable = false
-                  WHERE id = ${resource.id}
-                `;
+                await updateResource(
+                  db,
+                  resource.id!,
+                  { exportable: false, verification_signals: { url_valid: false } },
+                  urlValidationChange
+                );
 
                 allResults.push(result);
                 completed++;
@@ -1054,79 +2400,215 @@ const server = Bun.serve({
       }
     }
 
+    if (url.pathname === "/export/changes" && req.method === "GET") {
+      const parsed = parseChangesQuery(url.searchParams);
+      if (parsed.error) {
+        return new Response(
+          JSON.stringify({ error: parsed.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const changes = await getExportChanges(db, parsed.query!);
+        return new Response(JSON.stringify(changes), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("Export changes error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to export changes",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
     if (url.pathname === "/export" && req.method === "GET") {
       const state = url.searchParams.get("state") || undefined;
       const limit = url.searchParams.get("limit")
         ? parseInt(url.searchParams.get("limit")!)
         : undefined;
+      const format = (url.searchParams.get("format") || "json") as ExportFormat;
+      const table = url.searchParams.get("table") as HsdsTable | null;
+
+      if (!EXPORT_FORMATS.includes(format)) {
+        return new Response(
+          JSON.stringify({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (format === "hsds" && (!table || !HSDS_TABLES.includes(table))) {
+        return new Response(
+          JSON.stringify({ error: `table must be one of: ${HSDS_TABLES.join(", ")}` }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const openFilter = parseOpenFilter(url.searchParams);
+      if (openFilter.error) {
+        return new Response(
+          JSON.stringify({ error: openFilter.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const minQuality = parseMinQuality(url.searchParams);
+      if (minQuality.error) {
+        return new Response(
+          JSON.stringify({ error: minQuality.error }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
       try {
-        // Get all exportable resources with URLs (or filtered by state)
-        const resources = await db<FoodResource[]>`
-          SELECT * FROM resources
-          WHERE exportable = true
-            AND source_url IS NOT NULL
-            AND source_url != ''
-          ${state ? db`AND state = ${state.toUpperCase()}` : db``}
-          ORDER BY created_at DESC
-          ${limit ? db`LIMIT ${limit}` : db``}
-        `;
+        // Rows are read with a cursor and written as they arrive
+        const resources = exportableResources(db, { state, limit, openAt: openFilter.at, minQuality: minQuality.min });
+        const stream = await createExportStream(resources, createExportWriter(format, table || undefined));
+
+        const headers: Record<string, string> = { "Content-Type": EXPORT_CONTENT_TYPES[format] };
+        if (format === "csv" || format === "hsds") {
+          headers["Content-Disposition"] = `attachment; filename="${format === "hsds" ? table : "resources"}.csv"`;
+        }
+
+        return new Response(stream, { status: 200, headers });
+      } catch (error) {
+        console.error("Export error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to export resources",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/api-keys" && req.method === "GET") {
+      try {
+        const keys = await listApiKeys(db);
+        return new Response(JSON.stringify({ count: keys.length, api_keys: keys }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        console.error("List API keys error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to list API keys",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (url.pathname === "/api-keys" && req.method === "POST") {
+      try {
+        const body = await req.json() as { name?: unknown; role?: unknown; rate_limit_per_minute?: unknown };
+        const rateLimit = body.rate_limit_per_minute ?? null;
+
+        if (typeof body.name !== "string" || !body.name.trim()) {
+          return new Response(
+            JSON.stringify({ error: "name is required" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (!isRole(body.role)) {
+          return new Response(
+            JSON.stringify({ error: "role must be reader, curator or admin" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        if (rateLimit !== null && (!Number.isInteger(rateLimit) || (rateLimit as number) < 1)) {
+          return new Response(
+            JSON.stringify({ error: "rate_limit_per_minute must be a positive integer" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
 
-        // Transform to app format
-        const exportData = resources.map(resource => {
-          // Map type to store_type format
-          let storeType = "Food Pantry";
-          if (resource.type === "bank") storeType = "Food Bank";
-          else if (resource.type === "mixed") storeType = "Food Pantry";
-
-          // Build description from available fields (excluding hours)
-          const descParts = [];
-          if (resource.eligibility_requirements) descParts.push(resource.eligibility_requirements);
-          if (resource.services_offered) descParts.push(`Services: ${resource.services_offered}`);
-          if (resource.notes) descParts.push(resource.notes);
-
-          return {
-            source: "county-search",
-            source_url: resource.source_url || "",
-            source_record_id: resource.id?.toString() || "",
-            source_objectid: resource.google_place_id || "",
-            store_name: resource.name,
-            store_street_address: resource.address,
-            additional_address: "",
-            city: resource.city || "",
-            state: resource.state || "",
-            zip4: "",
-            county: resource.county_name || "",
-            store_type: storeType,
-            latitude: resource.latitude?.toString() || "",
-            longitude: resource.longitude?.toString() || "",
-            incentive_program: "",
-            grantee_name: "",
-            first_scraped_at: resource.created_at || new Date().toISOString(),
-            last_scraped_at: resource.last_verified_at || resource.created_at || new Date().toISOString(),
-            address: resource.address,
-            zip5: resource.zip_code || "",
-            phone: resource.phone || "",
-            hours: cleanHours(resource.hours),
-            places_id: resource.google_place_id || "",
-            description: descParts.join(". "),
-            url: resource.source_url || "",
-            url_facebook: resource.url_facebook || "",
-            url_instagram: resource.url_instagram || "",
-            url_twitter: resource.url_twitter || "",
-            url_youtube: resource.url_youtube || "",
-          };
+        const { apiKey, key } = await createApiKey(db, body.name.trim(), body.role, rateLimit as number | null);
+        return new Response(JSON.stringify({ api_key: apiKey, key }), {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
         });
+      } catch (error) {
+        console.error("Create API key error:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to create API key",
+            details: error instanceof Error ? error.message : String(error),
+          }),
+          {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const apiKeyMatch = url.pathname.match(/^\/api-keys\/(\d+)$/);
+    if (apiKeyMatch && req.method === "DELETE") {
+      const keyId = parseInt(apiKeyMatch[1]!);
+
+      try {
+        const apiKey = await revokeApiKey(db, keyId);
+        if (!apiKey) {
+          return new Response(
+            JSON.stringify({ error: `API key ${keyId} not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
 
-        return new Response(JSON.stringify(exportData, null, 2), {
+        return new Response(JSON.stringify({ revoked: true, api_key: apiKey }), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
-        console.error("Export error:", error);
+        console.error("Revoke API key error:", error);
         return new Response(
           JSON.stringify({
-            error: "Failed to export resources",
+            error: "Failed to revoke API key",
             details: error instanceof Error ? error.message : String(error),
           }),
           {
@@ -0,0 +1,73 @@
+// ABOUTME: Tests for crawl job retry scheduling, failed-attempt outcomes and claiming
+// ABOUTME: Verifies exponential backoff and that cancelled jobs are never retried or claimed
+
+import { test, expect, describe } from "bun:test";
+import type { Database } from "../core/database";
+import { claimCrawlJob, failCrawlJob, retryDelayMs, type CrawlJob } from "./crawl-jobs";
+
+describe("retryDelayMs", () => {
+  test("doubles the delay after each failed attempt", () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+  });
+
+  test("caps the delay at 30 minutes", () => {
+    expect(retryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+});
+
+// Fake tagged-template database answering each query with the next canned result set
+// and capturing the bound values, run inside a fake transaction
+function fakeDb(results: unknown[][]) {
+  const calls: unknown[][] = [];
+  const db = ((_strings: TemplateStringsArray, ...values: unknown[]) => {
+    calls.push(values);
+    return Promise.resolve(results.shift() ?? []);
+  }) as unknown as Database;
+  Object.assign(db, { begin: (fn: (tx: Database) => unknown) => fn(db) });
+  return { db, calls };
+}
+
+describe("failCrawlJob", () => {
+  const job = { id: 7, attempts: 1, max_attempts: 3 } as CrawlJob;
+
+  test("finishes a job as cancelled when cancellation was requested during the attempt", async () => {
+    const { db, calls } = fakeDb([[{ attempts: 1, max_attempts: 3, cancel_requested: true }]]);
+    expect(await failCrawlJob(db, job, "worker-1", "boom")).toBe("cancelled");
+    expect(calls[1]![0]).toBe("cancelled");
+  });
+
+  test("requeues jobs with attempts left and fails exhausted ones", async () => {
+    const retrying = fakeDb([[{ attempts: 1, max_attempts: 3, cancel_requested: false }]]);
+    expect(await failCrawlJob(retrying.db, job, "worker-1", "boom")).toBe("retrying");
+    expect(retrying.calls[1]![0]).toBe("queued");
+
+    const exhausted = fakeDb([[{ attempts: 3, max_attempts: 3, cancel_requested: false }]]);
+    expect(await failCrawlJob(exhausted.db, job, "worker-1", "boom")).toBe("failed");
+    expect(exhausted.calls[1]![0]).toBe("failed");
+  });
+
+  test("leaves the job alone when another worker holds the lease", async () => {
+    const { db, calls } = fakeDb([[]]);
+    expect(await failCrawlJob(db, job, "worker-1", "boom")).toBe("retrying");
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("claimCrawlJob", () => {
+  test("finishes queued jobs marked for cancellation instead of claiming them", async () => {
+    const cancelled = { id: 7, status: "queued", cancel_requested: true };
+    const next = { id: 8, status: "queued", cancel_requested: false };
+    const claimed = { ...next, status: "running", lease_owner: "worker-1" };
+    const { db, calls } = fakeDb([[cancelled], [], [next], [claimed]]);
+
+    expect(await claimCrawlJob(db, "worker-1")).toEqual(claimed as unknown as CrawlJob);
+    expect(calls[1]).toEqual(["cancelled", 7]);
+  });
+
+  test("claims nothing when the only runnable job was cancelled", async () => {
+    const { db } = fakeDb([[{ id: 7, status: "queued", cancel_requested: true }], [], []]);
+    expect(await claimCrawlJob(db, "worker-1")).toBeNull();
+  });
+});
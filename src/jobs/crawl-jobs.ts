@@ -0,0 +1,283 @@
+// ABOUTME: Postgres-backed queue for county crawl jobs
+// ABOUTME: Handles enqueueing, leasing, progress, retries with backoff, and cancellation
+
+import { inTransaction, type Database } from "../core/database";
+import type { County } from "../core/counties";
+
+export const CRAWL_JOB_TYPES = ["county-search", "county-jina-search"] as const;
+export type CrawlJobType = (typeof CRAWL_JOB_TYPES)[number];
+
+export type CrawlJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+export interface CrawlJobProgress {
+  step: string;
+  at: string;
+  detail?: Record<string, unknown>;
+}
+
+export interface CrawlJob {
+  id: number;
+  type: CrawlJobType;
+  county_geoid: string;
+  county_name: string;
+  state: string;
+  status: CrawlJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  cancel_requested: boolean;
+  progress: CrawlJobProgress[];
+  result: Record<string, unknown> | null;
+  last_error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * Exponential backoff before retrying a failed attempt (1-based)
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Queue a crawl for a county. If the same crawl is already queued or running,
+ * that job is returned instead of creating a duplicate.
+ */
+export async function enqueueCrawlJob(
+  db: Database,
+  type: CrawlJobType,
+  county: County,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<{ job: CrawlJob; created: boolean }> {
+  const [created] = await db<CrawlJob[]>`
+    INSERT INTO crawl_jobs (type, county_geoid, county_name, state, max_attempts)
+    VALUES (${type}, ${county.geoid}, ${county.name}, ${county.state}, ${maxAttempts})
+    ON CONFLICT (type, county_geoid) WHERE status IN ('queued', 'running') DO NOTHING
+    RETURNING *
+  `;
+  if (created) return { job: created, created: true };
+
+  const [existing] = await db<CrawlJob[]>`
+    SELECT * FROM crawl_jobs
+    WHERE type = ${type}
+    AND county_geoid = ${county.geoid}
+    AND status IN ('queued', 'running')
+  `;
+  return { job: existing!, created: false };
+}
+
+export async function getCrawlJob(db: Database, id: number): Promise<CrawlJob | null> {
+  const [job] = await db<CrawlJob[]>`SELECT * FROM crawl_jobs WHERE id = ${id}`;
+  return job || null;
+}
+
+export async function listCrawlJobs(
+  db: Database,
+  status: CrawlJobStatus | null,
+  limit: number
+): Promise<CrawlJob[]> {
+  return await db<CrawlJob[]>`
+    SELECT * FROM crawl_jobs
+    ${status ? db`WHERE status = ${status}` : db``}
+    ORDER BY id DESC
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Cancel a job. Queued jobs are cancelled immediately; running jobs are
+ * flagged and stop at their next progress checkpoint. Returns null if the
+ * job doesn't exist.
+ */
+export async function cancelCrawlJob(db: Database, id: number): Promise<CrawlJob | null> {
+  const [job] = await db<CrawlJob[]>`
+    UPDATE crawl_jobs SET
+      cancel_requested = true,
+      status = CASE WHEN status = 'queued' THEN 'cancelled' ELSE status END,
+      finished_at = CASE WHEN status = 'queued' THEN NOW() ELSE finished_at END
+    WHERE id = ${id}
+    AND status IN ('queued', 'running')
+    RETURNING *
+  `;
+  return job || (await getCrawlJob(db, id));
+}
+
+/**
+ * Lease the next runnable job: a queued job whose backoff has elapsed, or a
+ * running job whose worker stopped renewing its lease. Jobs whose cancellation
+ * was requested are finished as cancelled instead of being run again.
+ */
+export async function claimCrawlJob(
+  db: Database,
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<CrawlJob | null> {
+  return inTransaction(db, async (tx) => {
+    for (;;) {
+      const [candidate] = await tx<CrawlJob[]>`
+        SELECT * FROM crawl_jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+        OR (status = 'running' AND lease_expires_at < NOW() AND attempts < max_attempts)
+        ORDER BY run_after, id
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      `;
+      if (!candidate) return null;
+
+      if (candidate.cancel_requested) {
+        await tx`
+          UPDATE crawl_jobs SET
+            status = ${"cancelled"},
+            lease_owner = NULL,
+            lease_expires_at = NULL,
+            finished_at = NOW()
+          WHERE id = ${candidate.id}
+        `;
+        continue;
+      }
+
+      const [job] = await tx<CrawlJob[]>`
+        UPDATE crawl_jobs SET
+          status = 'running',
+          attempts = attempts + 1,
+          lease_owner = ${workerId},
+          lease_expires_at = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+          started_at = COALESCE(started_at, NOW())
+        WHERE id = ${candidate.id}
+        RETURNING *
+      `;
+      return job!;
+    }
+  });
+}
+
+/**
+ * Close out jobs whose worker died on their last attempt or after cancellation was requested
+ */
+export async function expireAbandonedCrawlJobs(db: Database): Promise<number> {
+  const expired = await db`
+    UPDATE crawl_jobs SET
+      status = CASE WHEN cancel_requested THEN 'cancelled' ELSE 'failed' END,
+      last_error = COALESCE(last_error, 'Worker lease expired'),
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      finished_at = NOW()
+    WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND (attempts >= max_attempts OR cancel_requested = true)
+    RETURNING id
+  `;
+  return expired.length;
+}
+
+/**
+ * Renew the lease and optionally append a progress entry. Returns whether
+ * cancellation was requested, or null if this worker no longer holds the lease.
+ */
+export async function renewCrawlJobLease(
+  db: Database,
+  id: number,
+  workerId: string,
+  progress: CrawlJobProgress | null = null,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<{ cancelRequested: boolean } | null> {
+  const [row] = await db<Array<{ cancel_requested: boolean }>>`
+    UPDATE crawl_jobs SET
+      lease_expires_at = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+      progress = ${progress ? db`progress || ${JSON.stringify([progress])}::jsonb` : db`progress`}
+    WHERE id = ${id}
+    AND lease_owner = ${workerId}
+    AND status = 'running'
+    RETURNING cancel_requested
+  `;
+  return row ? { cancelRequested: row.cancel_requested } : null;
+}
+
+export async function completeCrawlJob(
+  db: Database,
+  job: CrawlJob,
+  workerId: string,
+  result: Record<string, unknown>
+): Promise<void> {
+  await db`
+    UPDATE crawl_jobs SET
+      status = 'succeeded',
+      result = ${JSON.stringify(result)},
+      last_error = NULL,
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      finished_at = NOW()
+    WHERE id = ${job.id}
+    AND lease_owner = ${workerId}
+  `;
+}
+
+/**
+ * Record a failed attempt: requeue with backoff, fail for good once
+ * max_attempts is reached, or finish as cancelled if cancellation was
+ * requested while the attempt ran
+ */
+export async function failCrawlJob(
+  db: Database,
+  job: CrawlJob,
+  workerId: string,
+  error: string
+): Promise<"retrying" | "failed" | "cancelled"> {
+  return inTransaction(db, async (tx) => {
+    // Lock the row so a cancel that lands while this attempt ran is seen here and never requeued
+    const [current] = await tx<Array<Pick<CrawlJob, "attempts" | "max_attempts" | "cancel_requested">>>`
+      SELECT attempts, max_attempts, cancel_requested FROM crawl_jobs
+      WHERE id = ${job.id}
+      AND lease_owner = ${workerId}
+      FOR UPDATE
+    `;
+
+    // No row: the lease moved to another worker, which now owns the job's fate
+    if (!current) return job.attempts < job.max_attempts ? "retrying" : "failed";
+
+    const status: CrawlJobStatus = current.cancel_requested
+      ? "cancelled"
+      : current.attempts < current.max_attempts ? "queued" : "failed";
+    const requeue = status === "queued";
+    await tx`
+      UPDATE crawl_jobs SET
+        status = ${status},
+        run_after = CASE
+          WHEN ${requeue} THEN NOW() + ${retryDelayMs(current.attempts)} * INTERVAL '1 millisecond'
+          ELSE run_after
+        END,
+        finished_at = CASE WHEN ${requeue} THEN finished_at ELSE NOW() END,
+        last_error = ${error},
+        lease_owner = NULL,
+        lease_expires_at = NULL
+      WHERE id = ${job.id}
+    `;
+    return requeue ? "retrying" : (status as "failed" | "cancelled");
+  });
+}
+
+export async function markCrawlJobCancelled(
+  db: Database,
+  job: CrawlJob,
+  workerId: string
+): Promise<void> {
+  await db`
+    UPDATE crawl_jobs SET
+      status = 'cancelled',
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      finished_at = NOW()
+    WHERE id = ${job.id}
+    AND lease_owner = ${workerId}
+  `;
+}
@@ -0,0 +1,172 @@
+// ABOUTME: Background worker that runs queued county crawl jobs
+// ABOUTME: Leases one job at a time, renews the lease while running, and persists step progress
+
+import { hostname } from "node:os";
+import type { Database } from "../core/database";
+import { findCountyByGeoid, type County } from "../core/counties";
+import {
+  searchFoodResourcesByCounty,
+  searchFoodResourcesByCountyWithJina,
+  type ProgressCallback,
+} from "../search/county-search";
+import {
+  claimCrawlJob,
+  completeCrawlJob,
+  expireAbandonedCrawlJobs,
+  failCrawlJob,
+  markCrawlJobCancelled,
+  renewCrawlJobLease,
+  DEFAULT_LEASE_MS,
+  type CrawlJob,
+  type CrawlJobType,
+} from "./crawl-jobs";
+import { createBudgetGuard } from "../costs/ledger";
+import { withCallContext } from "../core/call-context";
+import { createLogger } from "../utils/logger";
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+const log = createLogger("crawl");
+
+let shouldStop = false;
+
+export type CrawlJobHandler = (
+  db: Database,
+  county: County,
+  onProgress: ProgressCallback
+) => Promise<Record<string, unknown>>;
+
+const DEFAULT_HANDLERS: Record<CrawlJobType, CrawlJobHandler> = {
+  "county-search": async (db, county, onProgress) => {
+    const result = await searchFoodResourcesByCounty(db, county, onProgress);
+    return {
+      pantries: result.pantries.length,
+      banks: result.banks.length,
+      mixed: result.mixed.length,
+      cached: result.cached,
+    };
+  },
+  "county-jina-search": async (db, county, onProgress) => {
+    const { found, inserted } = await searchFoodResourcesByCountyWithJina(db, county, onProgress);
+    return { found, inserted };
+  },
+};
+
+// Thrown from the progress callback to stop a job between pipeline steps
+class CrawlJobInterruptedError extends Error {
+  constructor(public reason: "cancelled" | "lease_lost") {
+    super(reason === "cancelled" ? "Job cancelled" : "Job lease lost to another worker");
+  }
+}
+
+/**
+ * Run one claimed job. Everything it does, including its own log lines, carries the job's call context.
+ */
+async function runJob(
+  db: Database,
+  job: CrawlJob,
+  workerId: string,
+  handlers: Record<CrawlJobType, CrawlJobHandler>
+): Promise<void> {
+  await withCallContext({ correlation_id: `job:${job.id}`, county_geoid: job.county_geoid, job_id: job.id }, () =>
+    attemptJob(db, job, workerId, handlers)
+  );
+}
+
+async function attemptJob(
+  db: Database,
+  job: CrawlJob,
+  workerId: string,
+  handlers: Record<CrawlJobType, CrawlJobHandler>
+): Promise<void> {
+  const fields = { job_type: job.type, county: `${job.county_name}, ${job.state}` };
+  log.info("Job started", { ...fields, attempt: job.attempts, max_attempts: job.max_attempts });
+
+  // Long steps (Google Places tiling, Jina) can outlast the lease without a heartbeat
+  const heartbeat = setInterval(() => {
+    renewCrawlJobLease(db, job.id, workerId).catch((error) => {
+      log.error("Heartbeat failed", { ...fields, error });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const county = await findCountyByGeoid(job.county_geoid);
+    if (!county) {
+      throw new Error(`County not found: ${job.county_geoid}`);
+    }
+
+    const onProgress: ProgressCallback = async (step, detail) => {
+      const lease = await renewCrawlJobLease(db, job.id, workerId, {
+        step,
+        at: new Date().toISOString(),
+        detail,
+      });
+      if (!lease) throw new CrawlJobInterruptedError("lease_lost");
+      if (lease.cancelRequested) throw new CrawlJobInterruptedError("cancelled");
+    };
+
+    const result = await handlers[job.type](db, county, onProgress);
+    await completeCrawlJob(db, job, workerId, result);
+    log.info("Job succeeded", { ...fields, result });
+  } catch (error) {
+    if (error instanceof CrawlJobInterruptedError) {
+      if (error.reason === "cancelled") {
+        await markCrawlJobCancelled(db, job, workerId);
+      }
+      log.info("Job stopped", { ...fields, reason: error.reason });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const outcome = await failCrawlJob(db, job, workerId, message);
+    log.error("Job failed", { ...fields, error, outcome });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function crawlLoop(
+  db: Database,
+  workerId: string,
+  handlers: Record<CrawlJobType, CrawlJobHandler>
+) {
+  const withinBudget = createBudgetGuard(db, "Crawl");
+
+  while (!shouldStop) {
+    try {
+      await expireAbandonedCrawlJobs(db);
+
+      // Leave jobs queued until the daily API budget allows more spending
+      if (!(await withinBudget())) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        continue;
+      }
+
+      const job = await claimCrawlJob(db, workerId, DEFAULT_LEASE_MS);
+      if (job) {
+        await runJob(db, job, workerId, handlers);
+        continue; // Check for more work immediately
+      }
+    } catch (error) {
+      log.error("Error in main loop", { error });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+export function startCrawlWorker(
+  db: Database,
+  handlers: Record<CrawlJobType, CrawlJobHandler> = DEFAULT_HANDLERS
+): () => void {
+  shouldStop = false;
+  const workerId = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+  crawlLoop(db, workerId, handlers).catch((error) => {
+    log.error("Fatal error", { error });
+  });
+
+  return () => {
+    shouldStop = true;
+  };
+}
@@ -666,6 +666,53 @@ export async function generateAnalyzePage(db: Database): Promise<string> {
         <p>Configure filters above and click "Analyze" to scan for false positives.</p>
       </div>
     </div>
+
+    <h1 style="margin-top: 40px;">🚫 Rejected Candidates</h1>
+    <p class="subtitle">Places the discovery and enrichment filters dropped, with the rule that fired. Rescue any that are real food resources.</p>
+
+    <div class="filters">
+      <div class="filter-group">
+        <label>Status</label>
+        <select id="rejectionStatusFilter">
+          <option value="rejected" selected>Rejected</option>
+          <option value="rescued">Rescued</option>
+        </select>
+      </div>
+
+      <div class="filter-group">
+        <label>Stage</label>
+        <select id="rejectionStageFilter">
+          <option value="">All Stages</option>
+          <option value="source-filter">Source Filter</option>
+          <option value="geo-filter">Geo Filter</option>
+          <option value="places-search">Places Search</option>
+          <option value="places-enrichment">Places Enrichment</option>
+        </select>
+      </div>
+
+      <div class="filter-group">
+        <label>Rule</label>
+        <input type="text" id="rejectionRuleFilter" placeholder="e.g. blocked_place_type">
+      </div>
+
+      <div class="filter-group">
+        <label>County GEOID</label>
+        <input type="text" id="rejectionCountyFilter" placeholder="e.g. 42091">
+      </div>
+
+      <div class="filter-actions">
+        <button class="btn btn-primary" onclick="loadRejections()">Load Rejections</button>
+      </div>
+    </div>
+
+    <div id="rejectionSummarySection"></div>
+
+    <div id="rejectionsSection">
+      <div class="no-results">
+        <h3>No Rejections Loaded</h3>
+        <p>Click "Load Rejections" to review candidates the filters dropped.</p>
+      </div>
+    </div>
   </div>
 
   <div id="validationModal" class="modal">
@@ -847,6 +894,130 @@ export async function generateAnalyzePage(db: Database): Promise<string> {
       }
     }
 
+    async function loadRejections() {
+      const rejectionsSection = document.getElementById('rejectionsSection');
+      const summarySection = document.getElementById('rejectionSummarySection');
+      rejectionsSection.innerHTML = \`
+        <div class="loading">
+          <div class="spinner"></div>
+          <div>Loading rejected candidates...</div>
+        </div>
+      \`;
+      summarySection.innerHTML = '';
+
+      try {
+        const params = new URLSearchParams({ limit: '200' });
+        const status = document.getElementById('rejectionStatusFilter').value;
+        const stage = document.getElementById('rejectionStageFilter').value;
+        const rule = document.getElementById('rejectionRuleFilter').value.trim();
+        const county = document.getElementById('rejectionCountyFilter').value.trim();
+
+        params.append('status', status);
+        if (stage) params.append('stage', stage);
+        if (rule) params.append('rule', rule);
+        if (county) params.append('county_geoid', county);
+
+        const response = await fetch('/rejected-candidates?' + params.toString());
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Request failed');
+
+        if (data.rules.length > 0) {
+          summarySection.innerHTML = \`
+            <div class="summary">
+              <div class="summary-title">\${data.total.toLocaleString()} \${status} candidate(s) match</div>
+              <div class="summary-grid" style="margin-top: 15px;">
+                \${data.rules.map(item => \`
+                  <div class="summary-item" style="cursor: pointer;" onclick="filterRejections('\${item.stage}', '\${item.rule}')">
+                    <div class="summary-category">\${escapeHtml(item.stage)}: \${formatCategory(item.rule)}</div>
+                    <div class="summary-count">\${item.count}</div>
+                  </div>
+                \`).join('')}
+              </div>
+            </div>
+          \`;
+        }
+
+        if (data.candidates.length === 0) {
+          rejectionsSection.innerHTML = \`
+            <div class="no-results">
+              <h3>No Rejected Candidates</h3>
+              <p>Nothing matched these filters.</p>
+            </div>
+          \`;
+          return;
+        }
+
+        rejectionsSection.innerHTML = \`
+          <table class="results-table">
+            <thead>
+              <tr>
+                <th>Candidate</th>
+                <th>Stage</th>
+                <th>Rule</th>
+                <th>Matched</th>
+                <th>Seen</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              \${data.candidates.map(candidate => \`
+                <tr>
+                  <td>
+                    <div class="resource-name">\${escapeHtml(candidate.name || '(no name)')}</div>
+                    <div class="resource-address">\${escapeHtml(candidate.address || '')}</div>
+                    <div class="resource-address">County \${escapeHtml(candidate.county_geoid || 'unknown')}\${candidate.resource_id ? ' | resource #' + candidate.resource_id : ''}</div>
+                    \${candidate.source_url ? \`<div class="resource-address" style="margin-top: 4px;"><a href="\${escapeHtml(candidate.source_url)}" target="_blank" rel="noopener noreferrer" style="color: #3498db; text-decoration: none;">🔗 View Source</a></div>\` : ''}
+                  </td>
+                  <td>\${escapeHtml(candidate.stage)}</td>
+                  <td>\${formatCategory(candidate.rule)}</td>
+                  <td style="max-width: 280px; word-break: break-word; font-size: 12px;">\${escapeHtml(candidate.detail || '')}</td>
+                  <td>\${candidate.times_seen}×<div class="resource-address">\${new Date(candidate.last_seen_at).toLocaleDateString()}</div></td>
+                  <td>
+                    <div class="action-buttons">
+                      \${candidate.status === 'rejected'
+                        ? \`<button class="btn btn-success" onclick="rescueCandidate(\${candidate.id})" title="\${candidate.stage === 'places-enrichment' ? 'Accept this Google match for the resource' : 'Add as a resource'}">Rescue</button>\`
+                        : \`<span class="resource-address">Rescued as #\${candidate.rescued_resource_id} by \${escapeHtml(candidate.rescued_by || '')}</span>\`}
+                    </div>
+                  </td>
+                </tr>
+              \`).join('')}
+            </tbody>
+          </table>
+        \`;
+      } catch (error) {
+        rejectionsSection.innerHTML = \`
+          <div class="no-results">
+            <h3>Error</h3>
+            <p>Failed to load rejected candidates: \${escapeHtml(error.message)}</p>
+          </div>
+        \`;
+        showToast('Error', 'Failed to load rejected candidates', 'error');
+      }
+    }
+
+    function filterRejections(stage, rule) {
+      document.getElementById('rejectionStageFilter').value = stage;
+      document.getElementById('rejectionRuleFilter').value = rule;
+      loadRejections();
+    }
+
+    async function rescueCandidate(rejectionId) {
+      try {
+        const response = await fetch('/rejected-candidates/' + rejectionId + '/rescue', { method: 'POST' });
+        const result = await response.json();
+
+        if (response.ok) {
+          const verb = result.outcome === 'created' ? 'Created' : 'Updated';
+          showToast('Rescued', verb + ' resource #' + result.resource.id + ': ' + result.resource.name, 'success');
+          loadRejections();
+        } else {
+          showToast('Error', result.error + (result.resource_id ? ' (#' + result.resource_id + ')' : ''), 'error');
+        }
+      } catch (error) {
+        showToast('Error', 'Failed to rescue candidate: ' + error.message, 'error');
+      }
+    }
+
     function formatCategory(category) {
       return category.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
     }
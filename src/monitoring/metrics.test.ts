@@ -0,0 +1,37 @@
+// ABOUTME: Tests for the Prometheus metrics registry and text output
+// ABOUTME: Renders without a database, so queue depth gauges are left out
+
+import { test, expect } from "bun:test";
+import { createCounter, createHistogram, reasonLabel, renderMetrics } from "./metrics";
+
+test("renders counters per label set", async () => {
+  const counter = createCounter("test_widgets_total", "Widgets made");
+  counter.inc({ color: "red" });
+  counter.inc({ color: "red" }, 2);
+  counter.inc({ color: 'say "blue"' });
+
+  const text = await renderMetrics();
+  expect(text).toContain("# TYPE test_widgets_total counter");
+  expect(text).toContain('test_widgets_total{color="red"} 3');
+  expect(text).toContain('test_widgets_total{color="say \\"blue\\""} 1');
+});
+
+test("renders cumulative histogram buckets", async () => {
+  const histogram = createHistogram("test_duration_seconds", "How long", [0.5, 1]);
+  histogram.observe({ provider: "jina" }, 0.2);
+  histogram.observe({ provider: "jina" }, 0.7);
+  histogram.observe({ provider: "jina" }, 3);
+
+  const text = await renderMetrics();
+  expect(text).toContain('test_duration_seconds_bucket{provider="jina",le="0.5"} 1');
+  expect(text).toContain('test_duration_seconds_bucket{provider="jina",le="1"} 2');
+  expect(text).toContain('test_duration_seconds_bucket{provider="jina",le="+Inf"} 3');
+  expect(text).toContain('test_duration_seconds_sum{provider="jina"} 3.9');
+  expect(text).toContain('test_duration_seconds_count{provider="jina"} 3');
+});
+
+test("failure reasons drop the error detail", () => {
+  expect(reasonLabel("API error: fetch failed")).toBe("API error");
+  expect(reasonLabel("Permanently closed")).toBe("Permanently closed");
+  expect(reasonLabel(null)).toBe("Unknown error");
+});
@@ -0,0 +1,152 @@
+// ABOUTME: In-process Prometheus counters and histograms for the discovery, enrichment and validation pipeline
+// ABOUTME: renderMetrics adds queue depths from the database and formats everything for GET /metrics
+
+import type { Database } from "../core/database";
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+
+  return {
+    inc(labels: Labels = {}, amount = 1): void {
+      const key = seriesKey(labels);
+      const entry = series.get(key) || { labels, value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  });
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      const entry = series.get(key) || { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]!++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Failure reasons can embed error messages; keep only the part before the first colon so
+ * label values stay few ("API error: timeout" -> "API error")
+ */
+export function reasonLabel(reason: string | null | undefined): string {
+  return (reason || "Unknown error").split(":")[0]!.trim();
+}
+
+export const discoveredResources = createCounter(
+  "pantry_resources_discovered_total",
+  "Records returned by each discovery provider, before merging duplicates"
+);
+
+export const enrichmentOutcomes = createCounter(
+  "pantry_enrichments_total",
+  "Google Places enrichment attempts by outcome and failure reason"
+);
+
+export const jinaValidationOutcomes = createCounter(
+  "pantry_jina_validations_total",
+  "Jina website validations by outcome"
+);
+
+export const reverificationOutcomes = createCounter(
+  "pantry_reverifications_total",
+  "Re-verifications of stale resources by outcome"
+);
+
+export const openAIParseFailures = createCounter(
+  "pantry_openai_parse_failures_total",
+  "OpenAI web search responses whose JSON could not be extracted or parsed"
+);
+
+export const externalApiDuration = createHistogram(
+  "pantry_external_api_request_duration_seconds",
+  "Latency of outbound Google Places, OpenAI, Jina and website requests",
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+async function queueDepthLines(db: Database): Promise<string[]> {
+  const [enrichment] = await db<Array<{ pending: number }>>`
+    SELECT COUNT(*)::int AS pending
+    FROM resources
+    WHERE needs_enrichment = true
+    AND (enrichment_failure_count < 3 OR enrichment_failure_count IS NULL)
+    AND (enrichment_failure_reason IS NULL OR enrichment_failure_reason NOT LIKE '%Permanently closed%')
+  `;
+  const jobs = await db<Array<{ status: string; count: number }>>`
+    SELECT status, COUNT(*)::int AS count
+    FROM crawl_jobs
+    WHERE status IN ('queued', 'running')
+    GROUP BY status
+  `;
+  const jobCounts: Record<string, number> = { queued: 0, running: 0 };
+  for (const row of jobs) jobCounts[row.status] = row.count;
+
+  return [
+    "# HELP pantry_enrichment_queue_depth Resources waiting for Google Places enrichment",
+    "# TYPE pantry_enrichment_queue_depth gauge",
+    `pantry_enrichment_queue_depth ${enrichment?.pending ?? 0}`,
+    "# HELP pantry_crawl_jobs Crawl jobs waiting or in progress",
+    "# TYPE pantry_crawl_jobs gauge",
+    ...Object.entries(jobCounts).map(([status, count]) => `pantry_crawl_jobs${formatLabels({ status })} ${count}`),
+  ];
+}
+
+/**
+ * Everything in the Prometheus text exposition format. Counters are per process.
+ */
+export async function renderMetrics(db?: Database): Promise<string> {
+  const lines = registry.flatMap((metric) => metric.render());
+  if (db) lines.push(...(await queueDepthLines(db)));
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,50 @@
+// ABOUTME: Tests for county coverage per resident in need and the crawl priority built on it
+// ABOUTME: Covers the per-10k rate and ordering of under-served, high-need counties
+
+import { test, expect, describe } from "bun:test";
+import type { County } from "../core/counties";
+import { prioritizeCounties, resourcesPer10kInNeed } from "./monitoring";
+
+function county(geoid: string, peopleInPoverty: number | null): County {
+  return {
+    state: "PA",
+    geoid,
+    name: `County ${geoid}`,
+    latitude: 40,
+    longitude: -75,
+    landAreaSqMi: 500,
+    population: peopleInPoverty === null ? null : peopleInPoverty * 10,
+    peopleInPoverty,
+    povertyRate: peopleInPoverty === null ? null : 0.1,
+    snapHouseholdRate: null,
+  };
+}
+
+describe("resourcesPer10kInNeed", () => {
+  test("scales resources to 10,000 residents below the poverty line", () => {
+    expect(resourcesPer10kInNeed(30, 50000)).toBe(6);
+    expect(resourcesPer10kInNeed(0, 50000)).toBe(0);
+  });
+
+  test("is unknown without poverty estimates", () => {
+    expect(resourcesPer10kInNeed(12, null)).toBeNull();
+    expect(resourcesPer10kInNeed(12, 0)).toBeNull();
+  });
+});
+
+describe("prioritizeCounties", () => {
+  test("puts the fewest resources per resident in need first, then the most residents in need", () => {
+    const counties = [county("001", 5000), county("003", 40000), county("005", 20000), county("007", null)];
+    const resources = new Map([
+      ["001", 10], // 20 per 10k
+      ["003", 8], // 2 per 10k
+    ]);
+
+    expect(prioritizeCounties(counties, resources).map((c) => c.geoid)).toEqual(["005", "003", "001", "007"]);
+  });
+
+  test("unsearched counties are ordered by need", () => {
+    const counties = [county("001", 5000), county("003", 40000), county("005", 20000)];
+    expect(prioritizeCounties(counties, new Map()).map((c) => c.geoid)).toEqual(["003", "005", "001"]);
+  });
+});
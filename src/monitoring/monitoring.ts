@@ -1,8 +1,8 @@
 // ABOUTME: Monitoring endpoints for tracking county processing and enrichment status
-// ABOUTME: Provides visibility into which counties have been searched and enrichment queue state
+// ABOUTME: Provides visibility into which counties have been searched, enrichment queue state and coverage per resident in need
 
 import type { Database } from "../core/database";
-import { getAllCounties } from "../core/counties";
+import { getAllCounties, type County } from "../core/counties";
 
 export interface CountyStats {
   total: number;
@@ -23,6 +23,20 @@ export interface UnprocessedCounty {
   geoid: string;
 }
 
+export interface CountyNeedStats {
+  geoid: string;
+  county_name: string;
+  state: string;
+  land_area_sq_mi: number;
+  population: number | null;
+  people_in_poverty: number | null;
+  poverty_rate: number | null;
+  snap_household_rate: number | null;
+  searched: boolean;
+  resources: number;
+  resources_per_10k_in_need: number | null;
+}
+
 export async function getCountyStats(db: Database): Promise<CountyStats> {
   const allCounties = await getAllCounties();
 
@@ -161,3 +175,71 @@ export async function getStateCountyStats(
     pending_counties: pendingCounties,
   };
 }
+
+/**
+ * Resources per 10,000 residents below the poverty line, or null without ACS data
+ */
+export function resourcesPer10kInNeed(resources: number, peopleInPoverty: number | null): number | null {
+  if (!peopleInPoverty) return null;
+  return Math.round((resources / peopleInPoverty) * 10000 * 100) / 100;
+}
+
+/**
+ * Most under-served first: fewest resources per 10k residents in need, then the most residents
+ * in need. Counties without ACS data keep their order at the end.
+ */
+export function prioritizeCounties<T extends County>(counties: T[], resourceCounts: Map<string, number>): T[] {
+  const coverage = (county: T) => resourcesPer10kInNeed(resourceCounts.get(county.geoid) || 0, county.peopleInPoverty);
+  return [...counties].sort((a, b) => {
+    const coverageA = coverage(a);
+    const coverageB = coverage(b);
+    if (coverageA !== null && coverageB !== null) {
+      return coverageA - coverageB || b.peopleInPoverty! - a.peopleInPoverty!;
+    }
+    if (coverageA !== null) return -1;
+    if (coverageB !== null) return 1;
+    return 0;
+  });
+}
+
+export async function getResourceCountsByCounty(db: Database): Promise<Map<string, number>> {
+  const rows = await db<Array<{ county_geoid: string; count: string }>>`
+    SELECT county_geoid, COUNT(*) as count
+    FROM resources
+    WHERE county_geoid IS NOT NULL
+    GROUP BY county_geoid
+  `;
+  return new Map(rows.map((r) => [r.county_geoid, parseInt(r.count)]));
+}
+
+/**
+ * Population, need indicators and resource coverage per county, most under-served first
+ */
+export async function getCountyNeedStats(db: Database, state?: string): Promise<CountyNeedStats[]> {
+  const allCounties = await getAllCounties();
+  const counties = state ? allCounties.filter((c) => c.state === state.toUpperCase()) : allCounties;
+
+  const searchedCountiesResult = await db<Array<{ county_geoid: string }>>`
+    SELECT DISTINCT county_geoid
+    FROM county_searches
+  `;
+  const searchedSet = new Set(searchedCountiesResult.map((c) => c.county_geoid));
+  const resourceCounts = await getResourceCountsByCounty(db);
+
+  return prioritizeCounties(counties, resourceCounts).map((c) => {
+    const resources = resourceCounts.get(c.geoid) || 0;
+    return {
+      geoid: c.geoid,
+      county_name: c.name,
+      state: c.state,
+      land_area_sq_mi: c.landAreaSqMi,
+      population: c.population,
+      people_in_poverty: c.peopleInPoverty,
+      poverty_rate: c.povertyRate,
+      snap_household_rate: c.snapHouseholdRate,
+      searched: searchedSet.has(c.geoid),
+      resources,
+      resources_per_10k_in_need: resourcesPer10kInNeed(resources, c.peopleInPoverty),
+    };
+  });
+}
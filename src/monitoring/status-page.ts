@@ -509,7 +509,7 @@ export async function generateStatusPage(db: Database): Promise<string> {
             <div class="counties-list" id="counties-${state}">
               ${counties.map(county => `
                 <div class="county-item ${county.searched ? 'searched' : 'pending'}">
-                  <span class="county-name" onclick="viewCounty('${encodeURIComponent(county.name)}', '${state}')">${county.name}</span>
+                  <span class="county-name" onclick="viewCounty('${encodeURIComponent(county.name)}', '${state}', ${county.searched})">${county.name}</span>
                   <div class="county-status">
                     ${county.searched
                       ? `
@@ -544,6 +544,55 @@ export async function generateStatusPage(db: Database): Promise<string> {
       document.getElementById('overlay').classList.remove('visible');
     }
 
+    // Steps are named after the discovery provider; the underscored names are from older jobs
+    const JOB_STEP_LABELS = {
+      'google-places': 'Searched Google Places',
+      openai: 'Searched the web with OpenAI',
+      jina: 'Searched with Jina',
+      google_places: 'Searched Google Places',
+      jina_search: 'Searched with Jina',
+      filtering: 'Filtered results',
+      storing: 'Stored results',
+    };
+
+    // Queue a crawl job and poll it until it finishes; onUpdate receives each job snapshot
+    async function runCrawlJob(type, countyName, state, onUpdate) {
+      const response = await fetch('/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, county: decodeURIComponent(countyName), state }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue job');
+      }
+
+      let job = data.job;
+      while (job.status === 'queued' || job.status === 'running') {
+        onUpdate(job);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const pollResponse = await fetch('/jobs/' + job.id);
+        job = await pollResponse.json();
+        if (!pollResponse.ok) {
+          throw new Error(job.error || 'Failed to check job status');
+        }
+      }
+      onUpdate(job);
+
+      if (job.status !== 'succeeded') {
+        throw new Error(\`Job \${job.status}\${job.last_error ? ': ' + job.last_error : ''}\`);
+      }
+      return job;
+    }
+
+    function describeJob(job) {
+      if (job.status === 'queued') {
+        return job.attempts > 0 ? \`Waiting to retry (attempt \${job.attempts + 1}/\${job.max_attempts})\` : 'Queued...';
+      }
+      const last = job.progress[job.progress.length - 1];
+      return last ? (JOB_STEP_LABELS[last.step] || last.step) + '...' : 'Starting...';
+    }
+
     async function rerunCountyJina(countyName, state, buttonEl) {
       if (!confirm(\`Re-run search for \${decodeURIComponent(countyName)}, \${state} using Jina AI?\\n\\nThis will search for new food resources using Jina's search engine.\`)) {
         return;
@@ -554,19 +603,13 @@ export async function generateStatusPage(db: Database): Promise<string> {
       buttonEl.textContent = '⏳ Running...';
 
       try {
-        const response = await fetch(\`/search-county-jina?county=\${countyName}&state=\${state}\`, {
-          method: 'POST',
+        const job = await runCrawlJob('county-jina-search', countyName, state, (update) => {
+          buttonEl.textContent = '⏳ ' + describeJob(update);
         });
 
-        const data = await response.json();
-
-        if (response.ok && data.success) {
-          alert(\`Jina search completed!\\n\\nFound: \${data.found} resources\\nInserted: \${data.inserted} new resources\\n\\nRefresh the page to see updated results.\`);
-          // Optionally reload the page
-          window.location.reload();
-        } else {
-          alert(\`Error: \${data.error || 'Unknown error'}\\n\\nDetails: \${data.details || 'None'}\`);
-        }
+        alert(\`Jina search completed!\\n\\nFound: \${job.result.found} resources\\nInserted: \${job.result.inserted} new resources\\n\\nRefresh the page to see updated results.\`);
+        // Optionally reload the page
+        window.location.reload();
       } catch (error) {
         alert(\`Failed to run Jina search:\\n\${error.message}\`);
       } finally {
@@ -575,7 +618,7 @@ export async function generateStatusPage(db: Database): Promise<string> {
       }
     }
 
-    async function viewCounty(countyName, state) {
+    async function viewCounty(countyName, state, searched) {
       if (isLoadingCounty) return; // Prevent multiple clicks
 
       isLoadingCounty = true;
@@ -596,6 +639,15 @@ export async function generateStatusPage(db: Database): Promise<string> {
       overlay.classList.add('visible');
 
       try {
+        // Crawl unsearched counties through the job queue so they don't hit the
+        // request timeout; the search below is then answered from stored results
+        if (!searched) {
+          await runCrawlJob('county-search', countyName, state, (job) => {
+            const status = sidebarContent.querySelector('.loading div:last-child');
+            if (status) status.textContent = describeJob(job);
+          });
+        }
+
         const response = await fetch('/search-county?county=' + countyName + '&state=' + state);
         const data = await response.json();
 
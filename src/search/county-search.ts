@@ -1,12 +1,17 @@
 // ABOUTME: County-based search functionality for food resources
 // ABOUTME: Handles searching by county name/state with caching
 
-import type { Database, FoodResource, CountySearch } from "../core/database";
-import { searchWithOpenAI } from "./openai-search";
-import { searchGooglePlaces } from "./google-places-search";
+import type { Database, FoodResource, CountySearch, ChangeSource } from "../core/database";
 import { filterBySource } from "../utils/source-filter";
+import { createMatchIndex } from "../dedup/matcher";
+import { configuredProviders, enabledProviders } from "../discovery/registry";
+import { runDiscovery, recordResourceSources, type DiscoverySource } from "../discovery/discover";
+import { rejectCandidate } from "../discovery/rejections";
 import { enrichWithGooglePlaces } from "../enrichment/google-places";
 import type { County } from "../core/counties";
+import { countyAt, type PointCounty } from "../core/county-assignment";
+import { createLogger } from "../utils/logger";
+import { createResource, updateResource, type ChangeContext } from "../core/resource-changes";
 
 interface SearchResult {
   pantries: FoodResource[];
@@ -17,10 +22,17 @@ interface SearchResult {
 }
 
 const CACHE_EXPIRY_DAYS = 30;
+const log = createLogger("county-search");
+const COUNTY_SEARCH_CHANGE_CONTEXT: ChangeContext = { source: "google-places", changedBy: "county-search" };
+const JINA_SEARCH_CHANGE_CONTEXT: ChangeContext = { source: "jina", changedBy: "county-jina-search" };
+
+// Called after each pipeline step so crawl jobs can persist progress (and cancel by throwing)
+export type ProgressCallback = (step: string, detail?: Record<string, unknown>) => Promise<void> | void;
 
 export async function searchFoodResourcesByCounty(
   db: Database,
-  county: County
+  county: County,
+  onProgress?: ProgressCallback
 ): Promise<SearchResult> {
   // Check for cached results first
   const cachedResults = await getCachedCountyResults(db, county.geoid);
@@ -29,97 +41,107 @@ export async function searchFoodResourcesByCounty(
   }
 
   // Perform multiple searches to get comprehensive coverage
-  console.log(`Performing fresh search for ${county.name}, ${county.state}`);
-
-  const allResults: Partial<FoodResource>[] = [];
-
-  // 1. Search using Google Places API (most reliable for discovery)
-  console.log(`\nSearching Google Places API...`);
-  const googleResults = await searchGooglePlaces(county);
-  allResults.push(...googleResults);
-  console.log(`Google Places found ${googleResults.length} resources`);
-
-  // 2. Search using OpenAI web search (catches resources not in Google Places)
-  console.log(`\nSearching via OpenAI web search...`);
-  const searches = [
-    `food pantries food banks in ${county.name}, ${county.state}`,
-    `list of food pantries ${county.name} ${county.state} directory`
-  ];
-
-  for (const query of searches) {
-    console.log(`  Search: "${query}"`);
-    const results = await searchWithOpenAI(query, "county");
-    allResults.push(...results);
-    // Small delay between searches
-    await new Promise((resolve) => setTimeout(resolve, 500));
-  }
+  log.info("Performing fresh search", { county: county.name, state: county.state });
 
-  console.log(`\nCombined results: ${allResults.length} total resources from Google Places + OpenAI`);
+  // Run every enabled provider (Google Places, OpenAI web search, ...) and merge duplicates
+  const { candidates, found } = await runDiscovery(county, enabledProviders(), async (provider, count) => {
+    await onProgress?.(provider, { found: count });
+  });
+
+  const totalFound = Object.values(found).reduce((sum, count) => sum + count, 0);
+  log.info("Combined discovery results", { count: totalFound, found });
 
-  // Deduplicate results
-  const uniqueResults = deduplicateResults(allResults);
+  const uniqueResults = candidates.map((candidate) => candidate.resource);
+  const sourcesOf = new Map(candidates.map((candidate) => [candidate.resource, candidate.sources]));
 
   // Filter by source to exclude unreliable domains and names
   const filteredResults = filterBySource(uniqueResults);
 
-  // Filter by geography - remove results that are in the wrong state
+  // Filter by geography - remove results that are in the wrong state, by address or by coordinates
+  const locatedAt = await locateResults(filteredResults);
   const geoFilteredResults = filteredResults.filter((result) => {
     if (result.state && result.state.toUpperCase() !== county.state.toUpperCase()) {
-      console.log(
-        `Filtering out ${result.name} - wrong state (${result.state} instead of ${county.state})`
-      );
+      rejectCandidate({
+        stage: "geo-filter",
+        rule: "wrong_state",
+        detail: `${result.state} instead of ${county.state}`,
+        candidate: result,
+      });
+      return false;
+    }
+    const located = locatedAt.get(result)?.county;
+    if (located && located.state !== county.state.toUpperCase()) {
+      rejectCandidate({
+        stage: "geo-filter",
+        rule: "wrong_state",
+        detail: `Coordinates in ${located.name}, ${located.state} instead of ${county.state}`,
+        candidate: result,
+      });
       return false;
     }
     return true;
   });
 
-  console.log(
-    `${filteredResults.length} after name/source filtering, ${geoFilteredResults.length} after geographic filtering`
-  );
+  log.info("Filtered results", {
+    source_filtered: filteredResults.length,
+    geo_filtered: geoFilteredResults.length,
+  });
+  await onProgress?.("filtering", {
+    unique: uniqueResults.length,
+    source_filtered: filteredResults.length,
+    geo_filtered: geoFilteredResults.length,
+  });
 
   // Check against existing resources
   const existingResources = await db<FoodResource[]>`
-    SELECT id, name, address, latitude, longitude, google_place_id, needs_enrichment, enrichment_failure_count FROM resources
+    SELECT id, name, address, zip_code, phone, latitude, longitude, google_place_id, needs_enrichment, enrichment_failure_count FROM resources
   `;
-
-  const existingByAddress = new Map<string, FoodResource>();
-  for (const resource of existingResources) {
-    const key = resource.address?.toLowerCase().trim() || '';
-    if (key) {
-      existingByAddress.set(key, resource);
-    }
-  }
+  const existingIndex = createMatchIndex(existingResources);
 
   const needsStorage: Partial<FoodResource>[] = [];
   const needsUpdate: Array<{ id: number; data: Partial<FoodResource> }> = [];
+  const foundExisting: Array<{ id: number; sources: DiscoverySource[] }> = [];
 
   for (const result of geoFilteredResults) {
-    const key = result.address?.toLowerCase().trim() || '';
-    const existing = existingByAddress.get(key);
+    const existing = existingIndex.findBest(result)?.record;
 
     if (!existing) {
       // New resource - store it
       needsStorage.push(result);
-    } else if (shouldUpdateExisting(existing, result)) {
+      continue;
+    }
+
+    foundExisting.push({ id: existing.id!, sources: sourcesOf.get(result) || [] });
+    if (shouldUpdateExisting(existing, result)) {
       // Better data available - update the existing record
       needsUpdate.push({ id: existing.id, data: result });
     }
     // else: existing record is good, skip this result
   }
 
-  console.log(
-    `${geoFilteredResults.length} unique results: ${needsStorage.length} new, ${needsUpdate.length} updates, ${geoFilteredResults.length - needsStorage.length - needsUpdate.length} skip (already have good data)`
-  );
+  log.info("Matched against existing resources", {
+    unique: geoFilteredResults.length,
+    new: needsStorage.length,
+    updates: needsUpdate.length,
+    skipped: geoFilteredResults.length - needsStorage.length - needsUpdate.length,
+  });
 
   // Update existing records with better data
   if (needsUpdate.length > 0) {
-    console.log(`Updating ${needsUpdate.length} existing records with better data...`);
     await updateExistingResources(db, needsUpdate);
   }
 
   // Store new results
-  console.log(`Storing ${needsStorage.length} new results (enrichment will happen in background)...`);
-  const storedResults = await storeCountyResults(db, needsStorage, county);
+  const storedResults = await storeCountyResults(db, needsStorage, county, locatedAt, sourcesOf);
+
+  // Record which providers found each new or already-known resource (every insert returns a row, so
+  // storedResults lines up with needsStorage)
+  for (const [index, stored] of storedResults.entries()) {
+    await recordResourceSources(db, stored.id!, county.geoid, sourcesOf.get(needsStorage[index]!) || []);
+  }
+  for (const { id, sources } of foundExisting) {
+    await recordResourceSources(db, id, county.geoid, sources);
+  }
 
   // Fetch all resources for this county to return (including updated ones)
   const allCountyResources = await db<FoodResource[]>`
@@ -128,10 +150,137 @@ export async function searchFoodResourcesByCounty(
 
   // Record search
   await recordCountySearch(db, county, needsStorage.length + needsUpdate.length);
+  await onProgress?.("storing", { inserted: needsStorage.length, updated: needsUpdate.length });
 
   return categorizeResults(allCountyResources, false);
 }
 
+export interface JinaCountySearchResult {
+  found: number;
+  inserted: number;
+}
+
+/**
+ * Discover resources for a county with Jina search and insert new addresses.
+ * Always runs fresh (no cache) so counties can be re-crawled on demand.
+ */
+export async function searchFoodResourcesByCountyWithJina(
+  db: Database,
+  county: County,
+  onProgress?: ProgressCallback
+): Promise<JinaCountySearchResult> {
+  log.info("Performing Jina search", { county: county.name, state: county.state });
+
+  // Run only the Jina provider, whether or not it is enabled for regular county searches
+  const jina = configuredProviders().filter((p) => p.provider.name === "jina");
+  const { candidates, found } = await runDiscovery(county, jina, async (provider, count) => {
+    await onProgress?.(provider, { found: count });
+  });
+  const jinaFound = found.jina || 0;
+
+  // Jina results that describe the same place are already merged
+  log.info("Deduplicated Jina results", { unique: candidates.length, merged: jinaFound - candidates.length });
+
+  // Check for existing resources to avoid duplicates
+  const existingResources = await db<Array<Partial<FoodResource>>>`
+    SELECT id, name, address, zip_code, phone, latitude, longitude, google_place_id FROM resources
+  `;
+  const existingIndex = createMatchIndex(existingResources);
+
+  // Store results in database
+  let insertedCount = 0;
+  for (const { resource, sources } of candidates) {
+    try {
+      // Skip if we already have this place, but note that Jina found it too
+      const existing = existingIndex.findBest(resource);
+      if (existing) {
+        log.info("Skipping duplicate", {
+          name: resource.name,
+          address: resource.address,
+          matches_id: existing.record.id,
+          matches_name: existing.record.name,
+        });
+        if (existing.record.id) {
+          await recordResourceSources(db, existing.record.id, county.geoid, sources);
+        }
+        continue;
+      }
+
+      const { county: home, zip_code: locatedZip } = await locateResult(resource);
+      const inserted = await createResource(
+        db,
+        {
+          name: resource.name || "",
+          address: resource.address || "",
+          city: resource.city || null,
+          state: resource.state || county.state,
+          zip_code: resource.zip_code || locatedZip || null,
+          county_name: (home || county).name,
+          county_geoid: (home || county).geoid,
+          location_type: "county",
+          latitude: resource.latitude || null,
+          longitude: resource.longitude || null,
+          type: resource.type || "mixed",
+          phone: resource.phone || null,
+          hours: resource.hours || null,
+          rating: resource.rating || null,
+          wait_time_minutes: resource.wait_time_minutes || null,
+          eligibility_requirements: resource.eligibility_requirements || null,
+          services_offered: resource.services_offered || null,
+          languages_spoken: resource.languages_spoken || null,
+          accessibility_notes: resource.accessibility_notes || null,
+          notes: resource.notes || null,
+          is_verified: resource.is_verified !== undefined ? resource.is_verified : true,
+          verification_notes: resource.verification_notes || "Found via Jina search",
+          source_url: resource.source_url || null,
+          needs_enrichment: true,
+        },
+        JINA_SEARCH_CHANGE_CONTEXT
+      );
+
+      await recordResourceSources(db, inserted.id!, county.geoid, sources);
+      existingIndex.add({ ...resource, id: inserted.id });
+      insertedCount++;
+    } catch (error) {
+      log.error("Error inserting resource", { name: resource.name, error });
+    }
+  }
+
+  await recordCountySearch(db, county, insertedCount);
+  await onProgress?.("storing", { unique: candidates.length, inserted: insertedCount });
+
+  return { found: jinaFound, inserted: insertedCount };
+}
+
+/**
+ * A searched county's stored resources, without crawling, or null if the county was never
+ * searched. stale is set once the last search is older than the cache expiry.
+ */
+export async function getStoredCountyResults(
+  db: Database,
+  countyGeoid: string
+): Promise<{ results: SearchResult; stale: boolean } | null> {
+  const [lastSearch] = await db<CountySearch[]>`
+    SELECT * FROM county_searches
+    WHERE county_geoid = ${countyGeoid}
+    ORDER BY searched_at DESC
+    LIMIT 1
+  `;
+  if (!lastSearch) {
+    return null;
+  }
+
+  const resources = await db<FoodResource[]>`
+    SELECT * FROM resources
+    WHERE county_geoid = ${countyGeoid}
+    ORDER BY name
+  `;
+
+  const expiryDate = new Date();
+  expiryDate.setDate(expiryDate.getDate() - CACHE_EXPIRY_DAYS);
+  return { results: categorizeResults(resources, true), stale: new Date(lastSearch.searched_at!) <= expiryDate };
+}
+
 async function getCachedCountyResults(
   db: Database,
   countyGeoid: string
@@ -163,89 +312,73 @@ async function getCachedCountyResults(
     return null;
   }
 
-  console.log(`Using cached results for county: ${countyGeoid}`);
+  log.info("Using cached results", { county_geoid: countyGeoid });
   return categorizeResults(resources, true);
 }
 
-function deduplicateResults(
-  results: Partial<FoodResource>[]
-): Partial<FoodResource>[] {
-  const seen = new Map<string, Partial<FoodResource>>();
-
-  for (const result of results) {
-    // Deduplicate by address only - same physical location should only appear once
-    const key = result.address?.toLowerCase().trim() || '';
-    if (!seen.has(key) || !key) {
-      seen.set(key, result);
-    } else {
-      // Keep the entry with the more descriptive name (longer is usually better)
-      const existing = seen.get(key)!;
-      if ((result.name?.length || 0) > (existing.name?.length || 0)) {
-        seen.set(key, result);
-      }
-    }
-  }
-
-  return Array.from(seen.values());
-}
-
 async function storeCountyResults(
   db: Database,
   results: Partial<FoodResource>[],
-  county: County
+  county: County,
+  locatedAt: Map<Partial<FoodResource>, PointCounty>,
+  sourcesOf: Map<Partial<FoodResource>, DiscoverySource[]>
 ): Promise<FoodResource[]> {
   const stored: FoodResource[] = [];
 
   for (const result of results) {
-    const inserted = await db<{ id: number }[]>`
-      INSERT INTO resources (
-        name, address, city, state, zip_code, county_name, county_geoid, location_type,
-        latitude, longitude, type, phone, hours, rating, wait_time_minutes,
-        eligibility_requirements, services_offered, languages_spoken, accessibility_notes,
-        notes, is_verified, verification_notes, source_url, google_place_id, needs_enrichment,
-        url_facebook, url_twitter, url_instagram, url_youtube
-      ) VALUES (
-        ${result.name || ""},
-        ${result.address || ""},
-        ${result.city || null},
-        ${result.state || county.state},
-        ${result.zip_code || null},
-        ${county.name},
-        ${county.geoid},
-        ${"county"},
-        ${result.latitude || null},
-        ${result.longitude || null},
-        ${result.type || "mixed"},
-        ${result.phone || null},
-        ${result.hours || null},
-        ${result.rating || null},
-        ${result.wait_time_minutes || null},
-        ${result.eligibility_requirements || null},
-        ${result.services_offered || null},
-        ${result.languages_spoken || null},
-        ${result.accessibility_notes || null},
-        ${result.notes || null},
-        ${result.is_verified || false},
-        ${result.verification_notes || null},
-        ${result.source_url || null},
-        ${result.google_place_id || null},
-        ${result.google_place_id ? false : true},
-        ${result.url_facebook || null},
-        ${result.url_twitter || null},
-        ${result.url_instagram || null},
-        ${result.url_youtube || null}
-      )
-      RETURNING id
-    `;
-
-    if (inserted.length > 0) {
-      stored.push({ ...result, id: inserted[0].id } as FoodResource);
-    }
+    // A result across the county line belongs to the county its coordinates fall in
+    const located = locatedAt.get(result);
+    const home = located?.county || county;
+    stored.push(await createResource(
+      db,
+      {
+        name: result.name || "",
+        address: result.address || "",
+        city: result.city || null,
+        state: result.state || county.state,
+        zip_code: result.zip_code || located?.zip_code || null,
+        county_name: home.name,
+        county_geoid: home.geoid,
+        location_type: "county",
+        latitude: result.latitude || null,
+        longitude: result.longitude || null,
+        type: result.type || "mixed",
+        phone: result.phone || null,
+        hours: result.hours || null,
+        rating: result.rating || null,
+        wait_time_minutes: result.wait_time_minutes || null,
+        eligibility_requirements: result.eligibility_requirements || null,
+        services_offered: result.services_offered || null,
+        languages_spoken: result.languages_spoken || null,
+        accessibility_notes: result.accessibility_notes || null,
+        notes: result.notes || null,
+        is_verified: result.is_verified || false,
+        verification_notes: result.verification_notes || null,
+        source_url: result.source_url || null,
+        google_place_id: result.google_place_id || null,
+        needs_enrichment: !result.google_place_id,
+        url_facebook: result.url_facebook || null,
+        url_twitter: result.url_twitter || null,
+        url_instagram: result.url_instagram || null,
+        url_youtube: result.url_youtube || null,
+        verification_signals: result.verification_signals || {},
+      },
+      crawlChangeContext(sourcesOf.get(result) || [])
+    ));
   }
 
   return stored;
 }
 
+/**
+ * Audit source for a new crawl result: the heaviest provider that found it
+ */
+function crawlChangeContext(sources: DiscoverySource[]): ChangeContext {
+  const provider = sources[0]?.provider;
+  const source: ChangeSource = provider === "openai" || provider === "jina" ? provider : "google-places";
+  return { source, changedBy: "county-search" };
+}
+
 async function recordCountySearch(
   db: Database,
   county: County,
@@ -254,9 +387,40 @@ async function recordCountySearch(
   await db`
     INSERT INTO county_searches (county_geoid, county_name, state, result_count)
     VALUES (${county.geoid}, ${county.name}, ${county.state}, ${resultCount})
+    ON CONFLICT (county_geoid) DO UPDATE SET
+      result_count = EXCLUDED.result_count,
+      searched_at = NOW()
+  `;
+}
+
+/**
+ * Count a user request for the county's resources; the re-verification scheduler checks busy counties first
+ */
+export async function recordCountyRequest(db: Database, countyGeoid: string): Promise<void> {
+  await db`
+    UPDATE county_searches SET
+      request_count = request_count + 1,
+      last_requested_at = NOW()
+    WHERE county_geoid = ${countyGeoid}
   `;
 }
 
+/**
+ * County and ZIP at a result's coordinates, or nothing for results without coordinates
+ */
+async function locateResult(result: Partial<FoodResource>): Promise<PointCounty> {
+  if (result.latitude == null || result.longitude == null) return { county: null, zip_code: null };
+  return countyAt(result.latitude, result.longitude);
+}
+
+async function locateResults(results: Partial<FoodResource>[]): Promise<Map<Partial<FoodResource>, PointCounty>> {
+  const located = new Map<Partial<FoodResource>, PointCounty>();
+  for (const result of results) {
+    located.set(result, await locateResult(result));
+  }
+  return located;
+}
+
 function categorizeResults(
   resources: FoodResource[],
   cached: boolean
@@ -299,39 +463,44 @@ function shouldUpdateExisting(
 }
 
 /**
- * Update existing resources with better data
+ * Update existing resources with better data, recording what the crawl changed
  */
 async function updateExistingResources(
   db: Database,
   updates: Array<{ id: number; data: Partial<FoodResource> }>
 ): Promise<void> {
   for (const { id, data } of updates) {
-    await db`
-      UPDATE resources SET
-        name = ${data.name || null},
-        address = ${data.address || null},
-        city = ${data.city || null},
-        state = ${data.state || null},
-        zip_code = ${data.zip_code || null},
-        latitude = ${data.latitude || null},
-        longitude = ${data.longitude || null},
-        type = ${data.type || "mixed"},
-        phone = ${data.phone || null},
-        hours = ${data.hours || null},
-        rating = ${data.rating || null},
-        source_url = ${data.source_url || null},
-        google_place_id = ${data.google_place_id || null},
-        is_verified = ${data.is_verified || false},
-        verification_notes = ${data.verification_notes || null},
-        needs_enrichment = ${false},
-        enrichment_failure_count = ${0},
-        enrichment_failure_reason = ${null},
-        last_enrichment_attempt = ${new Date()},
-        url_facebook = ${data.url_facebook || null},
-        url_twitter = ${data.url_twitter || null},
-        url_instagram = ${data.url_instagram || null},
-        url_youtube = ${data.url_youtube || null}
-      WHERE id = ${id}
-    `;
+    await updateResource(
+      db,
+      id,
+      {
+        name: data.name || null,
+        address: data.address || null,
+        city: data.city || null,
+        state: data.state || null,
+        // Left to the boundary lookup when the result has no ZIP
+        zip_code: data.zip_code || undefined,
+        latitude: data.latitude || null,
+        longitude: data.longitude || null,
+        type: data.type || "mixed",
+        phone: data.phone || null,
+        hours: data.hours || null,
+        rating: data.rating || null,
+        source_url: data.source_url || null,
+        google_place_id: data.google_place_id || null,
+        is_verified: data.is_verified || false,
+        verification_notes: data.verification_notes || null,
+        needs_enrichment: false,
+        enrichment_failure_count: 0,
+        enrichment_failure_reason: null,
+        last_enrichment_attempt: new Date().toISOString(),
+        url_facebook: data.url_facebook || null,
+        url_twitter: data.url_twitter || null,
+        url_instagram: data.url_instagram || null,
+        url_youtube: data.url_youtube || null,
+        verification_signals: data.verification_signals,
+      },
+      COUNTY_SEARCH_CHANGE_CONTEXT
+    );
   }
 }
@@ -1,10 +1,22 @@
 // ABOUTME: Google Places Text Search API integration for discovering food resources
-// ABOUTME: Uses keyword-based search to find food pantries and banks in geographic areas
+// ABOUTME: Runs keyword searches over rectangles tiling the county to find food pantries and banks
 
-import type { FoodResource } from "../core/database";
+import type { FoodResource, VerificationSignals } from "../core/database";
 import type { County } from "../core/counties";
+import { fixtureFetch, fixtureApiKey } from "../utils/api-fixtures";
+import { createLogger } from "../utils/logger";
+import { rejectCandidate } from "../discovery/rejections";
+import { activeFilterRules, deniedBy, describeMatch, type RuleMatch } from "../filters/rules";
+import type { BoundingBox } from "../utils/geo";
+import { countySearchTiles, reportSaturatedTile, PLACES_RESULT_CAP } from "./places-tiles";
 
-const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
+const GOOGLE_PLACES_API_KEY = fixtureApiKey(process.env.GOOGLE_MAPS_API_KEY);
+const log = createLogger("google-places-search");
+
+export type GooglePlace = NonNullable<PlacesTextSearchResponse["places"]>[number];
+
+// Receives each converted result with the Places API record it came from
+export type PlaceCallback = (resource: Partial<FoodResource>, place: GooglePlace) => void;
 
 interface PlacesTextSearchResponse {
   places?: Array<{
@@ -33,10 +45,11 @@ interface PlacesTextSearchResponse {
  * This provides direct access to Google's places database to discover food pantries
  */
 export async function searchGooglePlaces(
-  county: County
+  county: County,
+  onPlace?: PlaceCallback
 ): Promise<Partial<FoodResource>[]> {
   if (!GOOGLE_PLACES_API_KEY) {
-    console.warn("Google Places API key not configured, skipping Places search");
+    log.warn("Google Places API key not configured, skipping Places search");
     return [];
   }
 
@@ -46,35 +59,42 @@ export async function searchGooglePlaces(
     `emergency food assistance in ${county.name}, ${county.state}`,
   ];
 
+  // Small counties get a tile or two, large ones more, so each search stays under the result cap
+  const tiles = await countySearchTiles(county);
   const allResults: Partial<FoodResource>[] = [];
 
   for (const query of queries) {
-    console.log(`  Google Places search: "${query}"`);
-
-    try {
-      const results = await performTextSearch(query, county);
-      console.log(`    Found ${results.length} results`);
-      allResults.push(...results);
-
-      // Small delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    } catch (error) {
-      console.error(`    Error searching Google Places: ${error instanceof Error ? error.message : String(error)}`);
+    log.info("Google Places search", { query, tiles: tiles.length });
+
+    // Neighboring tiles share edges, so a place on the line can come back twice
+    const seen = new Set<string>();
+    let count = 0;
+    for (const tile of tiles) {
+      try {
+        const results = await performTextSearch(query, county, tile, onPlace);
+        for (const result of results) {
+          if (result.google_place_id && seen.has(result.google_place_id)) continue;
+          if (result.google_place_id) seen.add(result.google_place_id);
+          allResults.push(result);
+          count++;
+        }
+      } catch (error) {
+        log.error("Google Places search failed", { query, tile, error });
+      }
     }
+    log.info("Google Places search results", { query, count });
   }
 
-  console.log(`Google Places total: ${allResults.length} resources from ${queries.length} queries`);
+  log.info("Google Places search complete", { count: allResults.length, queries: queries.length, tiles: tiles.length });
   return allResults;
 }
 
 async function performTextSearch(
   query: string,
-  county: County
+  county: County,
+  tile: BoundingBox,
+  onPlace?: PlaceCallback
 ): Promise<Partial<FoodResource>[]> {
-  // Calculate search radius based on county area (larger counties need bigger radius)
-  // Most US counties are 20-50 miles wide, so we'll use a 50km (~31 mile) radius
-  const radiusMeters = 50000;
-
   const allPlaces: PlacesTextSearchResponse["places"] = [];
   let pageToken: string | undefined;
   let pageCount = 0;
@@ -84,13 +104,11 @@ async function performTextSearch(
     const requestBody: any = {
       textQuery: query,
       pageSize: 20, // Max results per page
-      locationBias: {
-        circle: {
-          center: {
-            latitude: county.latitude,
-            longitude: county.longitude,
-          },
-          radius: radiusMeters,
+      // Unlike a bias, a restriction drops places outside the tile
+      locationRestriction: {
+        rectangle: {
+          low: { latitude: tile.minLatitude, longitude: tile.minLongitude },
+          high: { latitude: tile.maxLatitude, longitude: tile.maxLongitude },
         },
       },
     };
@@ -101,7 +119,7 @@ async function performTextSearch(
 
     const url = "https://places.googleapis.com/v1/places:searchText";
 
-    const response = await fetch(url, {
+    const response = await fixtureFetch(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -137,13 +155,13 @@ async function performTextSearch(
 
     pageToken = data.nextPageToken;
     pageCount++;
-
-    // Small delay between pagination requests
-    if (pageToken && pageCount < maxPages) {
-      await new Promise((resolve) => setTimeout(resolve, 200));
-    }
   } while (pageToken && pageCount < maxPages);
 
+  // Hitting the cap means the tile holds more places than Google will return for it
+  if (allPlaces.length >= PLACES_RESULT_CAP) {
+    reportSaturatedTile({ county_geoid: county.geoid, query, tile, result_count: allPlaces.length });
+  }
+
   if (allPlaces.length === 0) {
     return [];
   }
@@ -152,16 +170,6 @@ async function performTextSearch(
   const results: Partial<FoodResource>[] = [];
 
   for (const place of allPlaces) {
-    // Skip permanently or temporarily closed places
-    if (place.businessStatus === "CLOSED_PERMANENTLY" || place.businessStatus === "CLOSED_TEMPORARILY") {
-      continue;
-    }
-
-    // Skip non-food-assistance places
-    if (place.types && shouldExcludeByType(place.types)) {
-      continue;
-    }
-
     // Parse address components
     const addressParts = place.formattedAddress?.split(", ") || [];
     const streetAddress = addressParts[0] || "";
@@ -185,7 +193,7 @@ async function performTextSearch(
       type = "pantry";
     }
 
-    results.push({
+    const resource: Partial<FoodResource> = {
       name: name,
       address: streetAddress,
       city: city || undefined,
@@ -201,33 +209,41 @@ async function performTextSearch(
       is_verified: true,
       verification_notes: `Found via Google Places Text Search API${place.userRatingCount ? ` (${place.userRatingCount} reviews)` : ""}`,
       google_place_id: place.id,
-    });
+      verification_signals: {
+        business_status: place.businessStatus as VerificationSignals["business_status"],
+        rating_count: place.userRatingCount ?? 0,
+      },
+    };
+
+    // Skip permanently or temporarily closed places. Checked after converting so a rejected
+    // place can be rescued with everything Google returned.
+    if (place.businessStatus === "CLOSED_PERMANENTLY" || place.businessStatus === "CLOSED_TEMPORARILY") {
+      rejectCandidate({ stage: "places-search", rule: "closed", detail: place.businessStatus, candidate: resource });
+      continue;
+    }
+
+    // Skip non-food-assistance places
+    const typeMatch = place.types ? blockedTypeMatch(place.types, resource.state) : null;
+    if (typeMatch) {
+      rejectCandidate({
+        stage: "places-search",
+        rule: "blocked_place_type",
+        detail: describeMatch(typeMatch),
+        candidate: resource,
+      });
+      continue;
+    }
+
+    results.push(resource);
+    onPlace?.(resource, place);
   }
 
   return results;
 }
 
 /**
- * Check if place types indicate this is not a food assistance location
+ * The google_type deny rule these place types trip, if any (a state can allow a type that's denied elsewhere)
  */
-function shouldExcludeByType(types: string[]): boolean {
-  const blockedTypes = [
-    "school",
-    "primary_school",
-    "secondary_school",
-    "university",
-    "restaurant",
-    "cafe",
-    "meal_takeaway",
-    "meal_delivery",
-    "supermarket",
-    "grocery_or_supermarket",
-    "convenience_store",
-    "store",
-    "bar",
-    "night_club",
-    "shopping_mall",
-  ];
-
-  return types.some((type) => blockedTypes.includes(type));
+function blockedTypeMatch(types: string[], state: string | null | undefined): RuleMatch | null {
+  return deniedBy(activeFilterRules(), { google_types: types, state }, ["google_type"]);
 }
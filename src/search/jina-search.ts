@@ -1,12 +1,12 @@
 // ABOUTME: Jina AI Search API integration for finding food resources
 // ABOUTME: Uses Jina's search API to find food pantries/banks and extract structured data
 
-import OpenAI from "openai";
 import type { FoodResource } from "../core/database";
+import { fixtureFetch, createOpenAIClient } from "../utils/api-fixtures";
+import { createLogger } from "../utils/logger";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const openai = createOpenAIClient();
+const log = createLogger("jina-search");
 
 interface JinaSearchResult {
   title: string;
@@ -56,7 +56,7 @@ async function fetchJinaSearchResults(
     // Jina Search API returns ~10 results per request
     // We'll make multiple requests with different page parameters to get more results
     const requestsNeeded = Math.ceil(maxResults / 10);
-    console.log(`Fetching up to ${maxResults} Jina search results for: ${query}`);
+    log.info("Fetching Jina search results", { query, max_results: maxResults });
 
     for (let page = 0; page < requestsNeeded; page++) {
       const url = new URL("https://s.jina.ai/");
@@ -79,41 +79,36 @@ async function fetchJinaSearchResults(
         headers["Authorization"] = `Bearer ${process.env.JINA_API_KEY}`;
       }
 
-      console.log(`  Fetching page ${page + 1}/${requestsNeeded}...`);
-      const response = await fetch(url.toString(), { headers });
+      log.debug("Fetching Jina search page", { query, page: page + 1, pages: requestsNeeded });
+      const response = await fixtureFetch(url.toString(), { headers });
 
       if (!response.ok) {
-        console.warn(`Jina API returned ${response.status} for page ${page + 1}, stopping pagination`);
+        log.warn("Jina search page failed, stopping pagination", { query, page: page + 1, status: response.status });
         break;
       }
 
       const data = await response.json() as JinaSearchResponse;
 
       if (!data.data || !Array.isArray(data.data)) {
-        console.warn(`Invalid response format from Jina for page ${page + 1}, stopping pagination`);
+        log.warn("Invalid Jina search response, stopping pagination", { query, page: page + 1 });
         break;
       }
 
-      console.log(`  Got ${data.data.length} results from page ${page + 1}`);
+      log.debug("Jina search page results", { query, page: page + 1, count: data.data.length });
 
       // If we got fewer results than expected, we've reached the end
       if (data.data.length === 0) {
-        console.log(`  No more results available, stopping pagination`);
+        log.debug("No more Jina search results", { query, page: page + 1 });
         break;
       }
 
       allResults.push(...data.data);
-
-      // Small delay between requests to be respectful to the API
-      if (page < requestsNeeded - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
     }
 
-    console.log(`Total: ${allResults.length} search results from Jina`);
+    log.info("Jina search results", { query, count: allResults.length });
     return allResults;
   } catch (error) {
-    console.error("Error fetching from Jina:", error);
+    log.error("Jina search request failed", { query, error });
     throw new Error(
       `Failed to fetch from Jina: ${error instanceof Error ? error.message : String(error)}`
     );
@@ -280,7 +275,7 @@ CRITICAL:
 
     const content = completion.choices[0]?.message?.content;
     if (!content) {
-      console.log(`  No content returned for ${searchResult.url}`);
+      log.warn("No extraction returned", { url: searchResult.url });
       return null;
     }
 
@@ -288,7 +283,7 @@ CRITICAL:
 
     // If not verified or missing required fields, skip
     if (!extracted.is_verified || !extracted.name || !extracted.address || !extracted.type) {
-      console.log(`  Skipping ${searchResult.url}: ${extracted.verification_notes}`);
+      log.info("Skipped unverified result", { url: searchResult.url, reason: extracted.verification_notes });
       return null;
     }
 
@@ -297,7 +292,7 @@ CRITICAL:
       source_url: searchResult.url,
     };
   } catch (error) {
-    console.error(`Error extracting data from ${searchResult.url}:`, error);
+    log.error("Extraction failed", { url: searchResult.url, error });
     return null;
   }
 }
@@ -318,12 +313,12 @@ export async function searchWithJina(
     const searchResults = await fetchJinaSearchResults(query);
 
     if (searchResults.length === 0) {
-      console.log("No search results from Jina");
+      log.info("No search results from Jina", { location });
       return [];
     }
 
     // Extract data from each search result directly
-    console.log(`Extracting data from ${searchResults.length} search results...`);
+    log.info("Extracting search results", { location, count: searchResults.length });
     const extractionPromises = searchResults.map((result) =>
       extractDataFromSearchResult(result, location)
     );
@@ -335,7 +330,7 @@ export async function searchWithJina(
       (resource): resource is ExtractedResource => resource !== null
     );
 
-    console.log(`Extracted ${allResources.length} valid resources from search results`);
+    log.info("Extracted resources", { location, count: allResources.length });
 
     // Additional geographic filtering for county searches
     let geoFilteredResources = allResources;
@@ -361,20 +356,20 @@ export async function searchWithJina(
         const resourceCity = resource.city?.toLowerCase().trim();
 
         if (!resourceCity) {
-          console.log(`  No city found for ${resource.name}, keeping it`);
+          log.debug("No city, keeping result", { name: resource.name });
           return true; // Keep if no city specified
         }
 
         // Reject if it's a major city and we're not searching for that city
         if (majorCitiesToReject.has(resourceCity) && !expectedCity.toLowerCase().includes(resourceCity)) {
-          console.log(`  Filtered out ${resource.name} - located in major city ${resource.city} outside search area`);
+          log.info("Dropped: major city outside search area", { name: resource.name, city: resource.city });
           return false;
         }
 
         return true;
       });
 
-      console.log(`After geographic filtering: ${geoFilteredResources.length} resources (${allResources.length - geoFilteredResources.length} filtered)`);
+      log.info("Geographic filtering", { location, kept: geoFilteredResources.length, dropped: allResources.length - geoFilteredResources.length });
     }
 
     // Deduplicate by URL (case-insensitive)
@@ -382,18 +377,18 @@ export async function searchWithJina(
     const dedupedResources = geoFilteredResources.filter((resource) => {
       const normalizedUrl = resource.source_url.toLowerCase().trim();
       if (seenUrls.has(normalizedUrl)) {
-        console.log(`  Duplicate URL skipped: ${resource.source_url}`);
+        log.debug("Duplicate URL skipped", { url: resource.source_url });
         return false;
       }
       seenUrls.add(normalizedUrl);
       return true;
     });
 
-    console.log(`After deduplication: ${dedupedResources.length} unique resources`);
+    log.info("Deduplicated by URL", { location, unique: dedupedResources.length });
 
     return dedupedResources;
   } catch (error) {
-    console.error("Jina search error:", error);
+    log.error("Jina search failed", { location, error });
     throw new Error(
       `Failed to search with Jina: ${error instanceof Error ? error.message : String(error)}`
     );
@@ -0,0 +1,72 @@
+// ABOUTME: Read-only radius search over stored resources by latitude/longitude
+// ABOUTME: Uses a bounding-box prefilter on idx_location, then sorts by haversine distance
+
+import type { Database, FoodResource } from "../core/database";
+import { boundingBox, haversineDistanceMiles } from "../utils/geo";
+import { isResourceOpenAt } from "../utils/opening-hours";
+
+export const DEFAULT_RADIUS_MILES = 10;
+export const MAX_RADIUS_MILES = 100;
+export const DEFAULT_NEARBY_LIMIT = 50;
+export const MAX_NEARBY_LIMIT = 500;
+
+export interface NearbyResource extends FoodResource {
+  distance_miles: number;
+}
+
+export interface NearbySearchResult {
+  latitude: number;
+  longitude: number;
+  radius_miles: number;
+  count: number;
+  resources: NearbyResource[];
+}
+
+/**
+ * Find stored resources within a radius of a point, closest first.
+ * Never triggers a crawl - only rows already in the resources table are returned.
+ * When openAt is given, only resources open at that instant are included.
+ */
+export async function findNearbyResources(
+  db: Database,
+  latitude: number,
+  longitude: number,
+  radiusMiles: number = DEFAULT_RADIUS_MILES,
+  limit: number = DEFAULT_NEARBY_LIMIT,
+  openAt: Date | null = null
+): Promise<NearbySearchResult> {
+  const box = boundingBox(latitude, longitude, radiusMiles);
+
+  const candidates = await db<FoodResource[]>`
+    SELECT * FROM resources
+    WHERE latitude BETWEEN ${box.minLatitude} AND ${box.maxLatitude}
+      AND longitude BETWEEN ${box.minLongitude} AND ${box.maxLongitude}
+  `;
+
+  const resources = candidates
+    .map((resource) => ({
+      ...resource,
+      distance_miles: haversineDistanceMiles(
+        latitude,
+        longitude,
+        resource.latitude!,
+        resource.longitude!
+      ),
+    }))
+    .filter((resource) => resource.distance_miles <= radiusMiles)
+    .filter((resource) => !openAt || isResourceOpenAt(resource, openAt))
+    .sort((a, b) => a.distance_miles - b.distance_miles)
+    .slice(0, limit)
+    .map((resource) => ({
+      ...resource,
+      distance_miles: Math.round(resource.distance_miles * 100) / 100,
+    }));
+
+  return {
+    latitude,
+    longitude,
+    radius_miles: radiusMiles,
+    count: resources.length,
+    resources,
+  };
+}
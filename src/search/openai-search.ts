@@ -1,12 +1,13 @@
 // ABOUTME: OpenAI API integration with web search for finding food resources
 // ABOUTME: Uses GPT-4 with web search to find and verify food pantries/banks
 
-import OpenAI from "openai";
 import type { FoodResource } from "../core/database";
+import { createOpenAIClient } from "../utils/api-fixtures";
+import { openAIParseFailures } from "../monitoring/metrics";
+import { createLogger } from "../utils/logger";
 
-const client = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const client = createOpenAIClient();
+const log = createLogger("openai-search");
 
 interface OpenAISearchResult {
   resources: Array<{
@@ -132,7 +133,7 @@ Return this exact format:
       throw new Error("No response from OpenAI");
     }
 
-    console.log("OpenAI response preview:", outputText.substring(0, 500));
+    log.debug("OpenAI response preview", { location, preview: outputText.substring(0, 500) });
 
     // Parse JSON from response - handle markdown code blocks and truncated responses
     let jsonText = outputText;
@@ -141,18 +142,18 @@ Return this exact format:
     const markdownMatch = outputText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
     if (markdownMatch) {
       jsonText = markdownMatch[1];
-      console.log("Extracted JSON from markdown code block");
+      log.debug("Extracted JSON from markdown code block", { location });
     } else {
       // Step 2: Try to find raw JSON block
       const jsonMatch = outputText.match(/\{[\s\S]*"resources"[\s\S]*\}/);
       if (!jsonMatch) {
-        console.error("Full response:", outputText);
-        console.error("\nCould not find JSON in OpenAI response. Logging to failed-responses.log");
+        log.error("No JSON in OpenAI response, logged to failed-responses.log", { location, response: outputText });
 
         // Log the failed response for manual review
         const fs = await import("fs");
         const logEntry = `\n${"=".repeat(80)}\nTimestamp: ${new Date().toISOString()}\nLocation: ${location}\n${"-".repeat(80)}\n${outputText}\n`;
         fs.appendFileSync("failed-responses.log", logEntry);
+        openAIParseFailures.inc({ stage: "no_json" });
 
         throw new Error("No JSON found in OpenAI response");
       }
@@ -164,7 +165,7 @@ Return this exact format:
     try {
       result = JSON.parse(jsonText);
     } catch (parseError) {
-      console.warn("Initial JSON parse failed, attempting to fix truncated response...");
+      log.warn("Initial JSON parse failed, attempting to fix truncated response", { location });
 
       // Count opening and closing brackets
       const openBrackets = (jsonText.match(/\[/g) || []).length;
@@ -183,18 +184,19 @@ Return this exact format:
 
       try {
         result = JSON.parse(fixedJson);
-        console.log("Successfully recovered truncated JSON");
+        log.info("Recovered truncated JSON", { location });
       } catch (secondError) {
-        console.error("Could not fix JSON. Original:", jsonText.substring(jsonText.length - 200));
+        log.error("Could not fix truncated JSON", { location, tail: jsonText.substring(jsonText.length - 200) });
+        openAIParseFailures.inc({ stage: "invalid_json" });
         throw parseError;
       }
     }
 
-    console.log(`OpenAI returned ${result.resources.length} resources`);
+    log.info("OpenAI search results", { location, count: result.resources.length });
 
     return result.resources;
   } catch (error) {
-    console.error("OpenAI search error:", error);
+    log.error("OpenAI search failed", { location, error });
     throw new Error(
       `Failed to search with OpenAI: ${error instanceof Error ? error.message : String(error)}`
     );
@@ -0,0 +1,70 @@
+// ABOUTME: Tests for splitting counties into Places search rectangles
+// ABOUTME: Covers land-area estimates, tile counts for small and large counties, and the tile cap
+
+import { test, expect, describe } from "bun:test";
+import type { County } from "../core/counties";
+import { estimateCountyBounds, tileBounds } from "./places-tiles";
+
+const montgomery: County = {
+  state: "PA",
+  geoid: "42091",
+  name: "Montgomery County",
+  latitude: 40.21,
+  longitude: -75.37,
+  landAreaSqMi: 483,
+  population: null,
+  peopleInPoverty: null,
+  povertyRate: null,
+  snapHouseholdRate: null,
+};
+
+const sanBernardino: County = {
+  state: "CA",
+  geoid: "06071",
+  name: "San Bernardino County",
+  latitude: 34.84,
+  longitude: -116.18,
+  landAreaSqMi: 20057,
+  population: null,
+  peopleInPoverty: null,
+  povertyRate: null,
+  snapHouseholdRate: null,
+};
+
+function widthMiles(box: { minLongitude: number; maxLongitude: number; minLatitude: number; maxLatitude: number }) {
+  return (box.maxLongitude - box.minLongitude) * 69 * Math.cos((((box.minLatitude + box.maxLatitude) / 2) * Math.PI) / 180);
+}
+
+describe("estimateCountyBounds", () => {
+  test("centers a padded square of the county's land area on its internal point", () => {
+    const box = estimateCountyBounds(montgomery);
+    const side = Math.sqrt(483) * 1.3;
+    expect((box.maxLatitude - box.minLatitude) * 69).toBeCloseTo(side, 5);
+    expect(widthMiles(box)).toBeCloseTo(side, 0);
+    expect((box.minLatitude + box.maxLatitude) / 2).toBeCloseTo(40.21, 6);
+  });
+});
+
+describe("tileBounds", () => {
+  test("a small county gets a few tiles that exactly cover its box", () => {
+    const box = estimateCountyBounds(montgomery);
+    const tiles = tileBounds(box);
+    expect(tiles.length).toBe(4);
+    expect(Math.min(...tiles.map((t) => t.minLatitude))).toBeCloseTo(box.minLatitude, 5);
+    expect(Math.max(...tiles.map((t) => t.maxLongitude))).toBeCloseTo(box.maxLongitude, 5);
+    // Neighboring tiles share an edge
+    expect(tiles[0]!.maxLongitude).toBe(tiles[1]!.minLongitude);
+  });
+
+  test("a box smaller than one tile is searched whole", () => {
+    const tiles = tileBounds({ minLatitude: 40, maxLatitude: 40.05, minLongitude: -75.1, maxLongitude: -75 });
+    expect(tiles).toEqual([{ minLatitude: 40, maxLatitude: 40.05, minLongitude: -75.1, maxLongitude: -75 }]);
+  });
+
+  test("a large county's tiles grow so there are never more than the cap", () => {
+    const tiles = tileBounds(estimateCountyBounds(sanBernardino));
+    expect(tiles.length).toBeLessThanOrEqual(25);
+    expect(tiles.length).toBeGreaterThan(16);
+    expect(tileBounds(estimateCountyBounds(sanBernardino), 15, 9).length).toBeLessThanOrEqual(9);
+  });
+});
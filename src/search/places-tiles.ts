@@ -0,0 +1,194 @@
+// ABOUTME: Splits a county into rectangles for Google Places Text Search, sized from its boundary or land area
+// ABOUTME: Tiles that come back with the 60-result cap are recorded in places_saturated_tiles so they can be subdivided
+
+import type { Database } from "../core/database";
+import type { County } from "../core/counties";
+import { countyBounds } from "../core/boundaries";
+import type { BoundingBox } from "../utils/geo";
+import { createLogger } from "../utils/logger";
+
+// Text Search returns at most 3 pages of 20 results
+export const PLACES_RESULT_CAP = 60;
+
+// Tiles start 15 miles on a side and grow for large counties so a county costs at most 25 tiles per query
+const TILE_SIDE_MILES = 15;
+const MAX_TILES = 25;
+
+// The land-area estimate assumes a square county centered on its internal point; pad it so
+// irregular counties aren't cut off
+const ESTIMATE_PADDING = 1.3;
+
+const MILES_PER_DEGREE_LATITUDE = 69;
+
+const log = createLogger("places-tiles");
+
+function milesPerDegreeLongitude(latitude: number): number {
+  return MILES_PER_DEGREE_LATITUDE * Math.cos((latitude * Math.PI) / 180);
+}
+
+// Six decimals (~10 cm) keeps tiles identical between runs, so recorded API fixtures and
+// saturated tiles line up
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Square around the county's internal point covering its land area, for when the boundary isn't available
+ */
+export function estimateCountyBounds(county: County): BoundingBox {
+  const halfSide = (Math.sqrt(Math.max(county.landAreaSqMi, 1)) * ESTIMATE_PADDING) / 2;
+  const halfLatitude = halfSide / MILES_PER_DEGREE_LATITUDE;
+  const halfLongitude = halfSide / milesPerDegreeLongitude(county.latitude);
+  return {
+    minLatitude: county.latitude - halfLatitude,
+    maxLatitude: county.latitude + halfLatitude,
+    minLongitude: county.longitude - halfLongitude,
+    maxLongitude: county.longitude + halfLongitude,
+  };
+}
+
+/**
+ * Split a box into a grid of equal tiles about sideMiles across, widening them until there are
+ * at most maxTiles
+ */
+export function tileBounds(
+  bounds: BoundingBox,
+  sideMiles: number = TILE_SIDE_MILES,
+  maxTiles: number = MAX_TILES
+): BoundingBox[] {
+  const heightMiles = (bounds.maxLatitude - bounds.minLatitude) * MILES_PER_DEGREE_LATITUDE;
+  const widthMiles =
+    (bounds.maxLongitude - bounds.minLongitude) *
+    milesPerDegreeLongitude((bounds.minLatitude + bounds.maxLatitude) / 2);
+
+  let side = sideMiles;
+  let rows = Math.max(1, Math.ceil(heightMiles / side));
+  let cols = Math.max(1, Math.ceil(widthMiles / side));
+  while (rows * cols > maxTiles) {
+    side *= 1.1;
+    rows = Math.max(1, Math.ceil(heightMiles / side));
+    cols = Math.max(1, Math.ceil(widthMiles / side));
+  }
+
+  const latitudeStep = (bounds.maxLatitude - bounds.minLatitude) / rows;
+  const longitudeStep = (bounds.maxLongitude - bounds.minLongitude) / cols;
+  const tiles: BoundingBox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({
+        minLatitude: round6(bounds.minLatitude + row * latitudeStep),
+        maxLatitude: round6(bounds.minLatitude + (row + 1) * latitudeStep),
+        minLongitude: round6(bounds.minLongitude + col * longitudeStep),
+        maxLongitude: round6(bounds.minLongitude + (col + 1) * longitudeStep),
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Tiles covering a county: its boundary's bounding box when the boundaries are downloaded,
+ * otherwise a box sized from its land area
+ */
+export async function countySearchTiles(county: County): Promise<BoundingBox[]> {
+  return tileBounds((await countyBounds(county.geoid)) || estimateCountyBounds(county));
+}
+
+export interface SaturatedTile {
+  county_geoid: string;
+  query: string;
+  tile: BoundingBox;
+  result_count: number;
+}
+
+type SaturatedTileObserver = (saturated: SaturatedTile) => void;
+
+const observers = new Set<SaturatedTileObserver>();
+
+/**
+ * Note a tile whose search hit the result cap, so results beyond it were never returned
+ */
+export function reportSaturatedTile(saturated: SaturatedTile): void {
+  log.warn("Places search hit the result cap; subdivide this tile", {
+    county_geoid: saturated.county_geoid,
+    query: saturated.query,
+    tile: saturated.tile,
+    result_count: saturated.result_count,
+  });
+  for (const observer of observers) {
+    try {
+      observer(saturated);
+    } catch (error) {
+      log.error("Saturated tile observer failed", { error });
+    }
+  }
+}
+
+export function observeSaturatedTiles(observer: SaturatedTileObserver): () => void {
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+async function recordSaturatedTile(db: Database, saturated: SaturatedTile): Promise<void> {
+  const { tile } = saturated;
+  await db`
+    INSERT INTO places_saturated_tiles (
+      county_geoid, query, min_latitude, max_latitude, min_longitude, max_longitude, result_count
+    ) VALUES (
+      ${saturated.county_geoid},
+      ${saturated.query},
+      ${tile.minLatitude},
+      ${tile.maxLatitude},
+      ${tile.minLongitude},
+      ${tile.maxLongitude},
+      ${saturated.result_count}
+    )
+    ON CONFLICT (county_geoid, query, min_latitude, max_latitude, min_longitude, max_longitude) DO UPDATE SET
+      result_count = EXCLUDED.result_count,
+      times_seen = places_saturated_tiles.times_seen + 1,
+      last_seen_at = CURRENT_TIMESTAMP
+  `;
+}
+
+/**
+ * Store every saturated tile this process reports in places_saturated_tiles. Returns a stop function.
+ */
+export function startSaturatedTileLog(db: Database): () => void {
+  return observeSaturatedTiles((saturated) => {
+    recordSaturatedTile(db, saturated).catch((error) => {
+      log.error("Failed to record saturated tile", { error });
+    });
+  });
+}
+
+export interface SaturatedTileRow {
+  id: number;
+  county_geoid: string;
+  query: string;
+  min_latitude: number;
+  max_latitude: number;
+  min_longitude: number;
+  max_longitude: number;
+  result_count: number;
+  times_seen: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Saturated tiles, most recently seen first
+ */
+export async function listSaturatedTiles(
+  db: Database,
+  filters: { county_geoid?: string; limit: number }
+): Promise<SaturatedTileRow[]> {
+  return await db<SaturatedTileRow[]>`
+    SELECT * FROM places_saturated_tiles
+    WHERE TRUE
+    ${filters.county_geoid ? db`AND county_geoid = ${filters.county_geoid}` : db``}
+    ORDER BY last_seen_at DESC, id DESC
+    LIMIT ${filters.limit}
+  `;
+}
@@ -1,10 +1,17 @@
 // ABOUTME: Search functionality for finding and verifying food resources
-// ABOUTME: Handles web search, result parsing, caching, and verification logic
+// ABOUTME: Answers ZIP searches from the counties the ZIP overlaps, queueing crawls for unseen counties
 
 import type { Database, FoodResource } from "../core/database";
 import { searchWithOpenAI } from "./openai-search";
 import { filterBySource } from "../utils/source-filter";
+import { deduplicateResults } from "../dedup/merge";
 import { enrichWithGooglePlaces } from "../enrichment/google-places";
+import { findCountyByGeoid, findZipArea, type County, type ZipArea } from "../core/counties";
+import { haversineDistanceMiles } from "../utils/geo";
+import { recordCountyRequest } from "./county-search";
+import { enqueueCrawlJob } from "../jobs/crawl-jobs";
+import { createLogger } from "../utils/logger";
+import { createResource, type ChangeContext } from "../core/resource-changes";
 
 interface SearchResult {
   pantries: FoodResource[];
@@ -12,14 +19,43 @@ interface SearchResult {
   mixed: FoodResource[];
   cached: boolean;
   search_timestamp: string;
+  counties?: Array<{ geoid: string; name: string; state: string; share: number }>;
+  pending_counties?: PendingCounty[];
+}
+
+// An overlapping county whose first crawl is queued or running
+interface PendingCounty {
+  geoid: string;
+  name: string;
+  state: string;
+  job_id: number;
+}
+
+export interface ZipSearchResource extends FoodResource {
+  distance_miles: number | null; // From the ZIP's internal point; null without coordinates
 }
 
 const CACHE_EXPIRY_DAYS = 30;
+const log = createLogger("search");
+const ZIP_SEARCH_CHANGE_CONTEXT: ChangeContext = { source: "openai", changedBy: "zip-search" };
+
+// Counties holding less of the ZIP's land than this are only read, never crawled, unless
+// they hold the largest share
+const MIN_CRAWL_SHARE = 0.1;
 
 export async function searchFoodResources(
   db: Database,
   zipCode: string
 ): Promise<SearchResult> {
+  // Answer from county data when the crosswalk knows which counties the ZIP overlaps
+  const area = await findZipArea(zipCode);
+  if (area) {
+    const countyResults = await searchZipCounties(db, area);
+    if (countyResults) {
+      return countyResults;
+    }
+  }
+
   // Check for cached results first
   const cachedResults = await getCachedResults(db, zipCode);
   if (cachedResults) {
@@ -27,7 +63,7 @@ export async function searchFoodResources(
   }
 
   // Perform fresh search using OpenAI web search
-  console.log(`Performing fresh search for zip code: ${zipCode}`);
+  log.info("Performing fresh search", { zip: zipCode });
 
   const searchResults = await searchWithOpenAI(zipCode, "zip");
 
@@ -38,20 +74,16 @@ export async function searchFoodResources(
   const filteredResults = filterBySource(uniqueResults);
 
   // Enrich with Google Places API (this filters out places we can't verify)
-  console.log(`Enriching ${filteredResults.length} results with Google Places...`);
+  log.info("Enriching results with Google Places", { zip: zipCode, count: filteredResults.length });
   const enrichedResults: Partial<FoodResource>[] = [];
   for (const result of filteredResults) {
     const enriched = await enrichWithGooglePlaces(result);
     if (enriched) {
       enrichedResults.push(enriched);
     }
-    // Small delay to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
-  console.log(
-    `Successfully enriched ${enrichedResults.length}/${filteredResults.length} results`
-  );
+  log.info("Enriched results", { zip: zipCode, enriched: enrichedResults.length, total: filteredResults.length });
 
   // Store results in database
   const storedResults = await storeResults(db, enrichedResults, zipCode);
@@ -62,6 +94,80 @@ export async function searchFoodResources(
   return categorizeResults(storedResults, false);
 }
 
+/**
+ * Stored resources of every county the ZIP overlaps, closest to the ZIP first. Counties that have
+ * never been searched get a crawl job. Returns null when none of the counties is in the gazetteer.
+ */
+async function searchZipCounties(db: Database, area: ZipArea): Promise<SearchResult | null> {
+  const counties: Array<{ county: County; share: number }> = [];
+  for (const { geoid, share } of area.counties) {
+    const county = await findCountyByGeoid(geoid);
+    if (county) counties.push({ county, share });
+  }
+  if (counties.length === 0) {
+    return null;
+  }
+
+  const geoids = counties.map(({ county }) => county.geoid);
+  const searched = await db<Array<{ county_geoid: string }>>`
+    SELECT county_geoid FROM county_searches WHERE county_geoid = ANY(${geoids})
+  `;
+  const searchedSet = new Set(searched.map((s) => s.county_geoid));
+
+  // Unsearched counties are crawled by the job queue; this answer only has what is stored so far
+  const pending: PendingCounty[] = [];
+  for (const [index, { county, share }] of counties.entries()) {
+    if (searchedSet.has(county.geoid)) {
+      await recordCountyRequest(db, county.geoid);
+    } else if (index === 0 || share >= MIN_CRAWL_SHARE) {
+      const { job } = await enqueueCrawlJob(db, "county-search", county);
+      log.info("Queued crawl for unsearched county", { zip: area.zip, county_geoid: county.geoid, job_id: job.id });
+      pending.push({ geoid: county.geoid, name: county.name, state: county.state, job_id: job.id });
+    }
+  }
+
+  // Rows from older per-ZIP crawls have no county, so include them by ZIP
+  const resources = await db<FoodResource[]>`
+    SELECT * FROM resources
+    WHERE county_geoid = ANY(${geoids}) OR zip_code = ${area.zip}
+  `;
+
+  const primary = counties[0]!.county;
+  const ranked = rankByDistance(resources, area.latitude ?? primary.latitude, area.longitude ?? primary.longitude);
+  await recordSearch(db, area.zip, ranked.length);
+
+  return {
+    ...categorizeResults(ranked, true),
+    counties: counties.map(({ county, share }) => ({
+      geoid: county.geoid,
+      name: county.name,
+      state: county.state,
+      share: Math.round(share * 1000) / 1000,
+    })),
+    pending_counties: pending,
+  };
+}
+
+/**
+ * Closest first; resources without coordinates go last, by name
+ */
+export function rankByDistance(resources: FoodResource[], latitude: number, longitude: number): ZipSearchResource[] {
+  return resources
+    .map((resource) => ({
+      ...resource,
+      distance_miles:
+        resource.latitude != null && resource.longitude != null
+          ? Math.round(haversineDistanceMiles(latitude, longitude, resource.latitude, resource.longitude) * 100) / 100
+          : null,
+    }))
+    .sort((a, b) => {
+      if (a.distance_miles !== null && b.distance_miles !== null) return a.distance_miles - b.distance_miles;
+      if (a.distance_miles !== null) return -1;
+      if (b.distance_miles !== null) return 1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
 async function getCachedResults(
   db: Database,
   zipCode: string
@@ -93,32 +199,10 @@ async function getCachedResults(
     return null;
   }
 
-  console.log(`Using cached results for zip code: ${zipCode}`);
+  log.info("Using cached results", { zip: zipCode });
   return categorizeResults(resources, true);
 }
 
-function deduplicateResults(
-  results: Partial<FoodResource>[]
-): Partial<FoodResource>[] {
-  const seen = new Map<string, Partial<FoodResource>>();
-
-  for (const result of results) {
-    // Deduplicate by address only - same physical location should only appear once
-    const key = result.address?.toLowerCase().trim() || '';
-    if (!seen.has(key) || !key) {
-      seen.set(key, result);
-    } else {
-      // Keep the entry with the more descriptive name (longer is usually better)
-      const existing = seen.get(key)!;
-      if ((result.name?.length || 0) > (existing.name?.length || 0)) {
-        seen.set(key, result);
-      }
-    }
-  }
-
-  return Array.from(seen.values());
-}
-
 async function storeResults(
   db: Database,
   results: Partial<FoodResource>[],
@@ -127,41 +211,34 @@ async function storeResults(
   const stored: FoodResource[] = [];
 
   for (const result of results) {
-    const inserted = await db<{ id: number }[]>`
-      INSERT INTO resources (
-        name, address, city, state, zip_code, latitude, longitude,
-        type, phone, hours, rating, wait_time_minutes, eligibility_requirements,
-        services_offered, languages_spoken, accessibility_notes, notes,
-        is_verified, verification_notes, source_url, location_type
-      ) VALUES (
-        ${result.name || ""},
-        ${result.address || ""},
-        ${result.city || null},
-        ${result.state || null},
-        ${zipCode},
-        ${result.latitude || null},
-        ${result.longitude || null},
-        ${result.type || "mixed"},
-        ${result.phone || null},
-        ${result.hours || null},
-        ${result.rating || null},
-        ${result.wait_time_minutes || null},
-        ${result.eligibility_requirements || null},
-        ${result.services_offered || null},
-        ${result.languages_spoken || null},
-        ${result.accessibility_notes || null},
-        ${result.notes || null},
-        ${result.is_verified || false},
-        ${result.verification_notes || null},
-        ${result.source_url || null},
-        ${"zip"}
-      )
-      RETURNING id
-    `;
-
-    if (inserted.length > 0) {
-      stored.push({ ...result, id: inserted[0].id } as FoodResource);
-    }
+    // createResource assigns the county from the coordinates
+    stored.push(await createResource(
+      db,
+      {
+        name: result.name || "",
+        address: result.address || "",
+        city: result.city || null,
+        state: result.state || null,
+        zip_code: zipCode,
+        latitude: result.latitude || null,
+        longitude: result.longitude || null,
+        type: result.type || "mixed",
+        phone: result.phone || null,
+        hours: result.hours || null,
+        rating: result.rating || null,
+        wait_time_minutes: result.wait_time_minutes || null,
+        eligibility_requirements: result.eligibility_requirements || null,
+        services_offered: result.services_offered || null,
+        languages_spoken: result.languages_spoken || null,
+        accessibility_notes: result.accessibility_notes || null,
+        notes: result.notes || null,
+        is_verified: result.is_verified || false,
+        verification_notes: result.verification_notes || null,
+        source_url: result.source_url || null,
+        location_type: "zip",
+      },
+      ZIP_SEARCH_CHANGE_CONTEXT
+    ));
   }
 
   return stored;
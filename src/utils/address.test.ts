@@ -0,0 +1,112 @@
+// ABOUTME: Tests for USPS-style address parsing, street address normalization and phone normalization
+// ABOUTME: Covers suffix/directional standardization, unit extraction, city/state/ZIP+4 parsing and dedup keys
+
+import { test, expect, describe } from "bun:test";
+import { addressKey, normalizeAddress, normalizePhone, parseAddress, standardizeStreetLine } from "./address";
+
+describe("standardizeStreetLine", () => {
+  test("abbreviates the suffix and directionals in their USPS positions", () => {
+    expect(standardizeStreetLine("123 North Main Street")).toBe("123 N MAIN ST");
+    expect(standardizeStreetLine("45 Park Avenue South")).toBe("45 PARK AVE S");
+    expect(standardizeStreetLine("9 Boulevard Of The Arts")).toBe("9 BOULEVARD OF THE ARTS");
+  });
+
+  test("keeps direction and suffix words that are the street's name", () => {
+    expect(standardizeStreetLine("300 North Avenue")).toBe("300 NORTH AVE");
+    expect(standardizeStreetLine("1200 Street Road")).toBe("1200 STREET RD");
+  });
+
+  test("standardizes route numbers, name words and PO boxes", () => {
+    expect(standardizeStreetLine("100 Rte 9")).toBe(standardizeStreetLine("100 Route 9"));
+    expect(standardizeStreetLine("12 Mount Vernon St")).toBe("12 MT VERNON ST");
+    expect(standardizeStreetLine("P.O. Box 55")).toBe("PO BOX 55");
+  });
+});
+
+describe("parseAddress", () => {
+  test("splits a full address into street lines, city, state and ZIP+4", () => {
+    expect(parseAddress("123 North Main Street, Suite 200, Abington, PA 19001-1234, USA")).toEqual({
+      street_line1: "123 N MAIN ST",
+      street_line2: "STE 200",
+      city: "Abington",
+      state: "PA",
+      zip5: "19001",
+      zip4: "1234",
+    });
+  });
+
+  test("parses addresses without commas and spelled-out states", () => {
+    expect(parseAddress("1 Main St Apt 4 Abington PA 19001")).toMatchObject({
+      street_line1: "1 MAIN ST",
+      street_line2: "APT 4",
+      city: "Abington",
+      state: "PA",
+    });
+    expect(parseAddress("45 Oak Ave, Springfield, Illinois 62701")).toMatchObject({ city: "Springfield", state: "IL", zip5: "62701" });
+  });
+
+  test("drops a leading place name and falls back to the other columns", () => {
+    expect(parseAddress("Grace Church, 45 Oak Ave", { city: "Media", state: "pa", zip_code: "19063" })).toEqual({
+      street_line1: "45 OAK AVE",
+      street_line2: null,
+      city: "Media",
+      state: "PA",
+      zip5: "19063",
+      zip4: null,
+    });
+  });
+
+  test("doesn't read a city as a state without a ZIP", () => {
+    expect(parseAddress("100 Main St, Washington")).toMatchObject({ city: "Washington", state: null });
+  });
+});
+
+describe("normalizeAddress", () => {
+  test("canonicalizes street suffixes and directionals", () => {
+    expect(normalizeAddress("123 North Main Street")?.street).toBe("123 n main st");
+    expect(normalizeAddress("123 N. Main St.")?.street).toBe("123 n main st");
+  });
+
+  test("separates the unit from the street line", () => {
+    expect(normalizeAddress("123 Main Street, Suite A")).toEqual({ street: "123 main st", unit: "a", zip: null });
+    expect(normalizeAddress("45 Oak Ave #5")).toEqual({ street: "45 oak ave", unit: "5", zip: null });
+    expect(normalizeAddress("9 Oak Rd Ste 200, Town, PA")?.unit).toBe("200");
+  });
+
+  test("does not mistake street names for units", () => {
+    expect(normalizeAddress("45 Flatbush Ave")).toEqual({ street: "45 flatbush ave", unit: null, zip: null });
+  });
+
+  test("takes the ZIP from the address or the zip_code column", () => {
+    expect(normalizeAddress("1 Main St, Abington, PA 19001-1234")?.zip).toBe("19001");
+    expect(normalizeAddress("1 Main St", "19046")?.zip).toBe("19046");
+  });
+
+  test("returns null without a street line", () => {
+    expect(normalizeAddress("")).toBeNull();
+    expect(normalizeAddress(undefined)).toBeNull();
+  });
+});
+
+describe("addressKey", () => {
+  test("matches spelled-out and abbreviated forms of the same address", () => {
+    expect(addressKey("123 North Main Street, Abington, PA 19001")).toBe(addressKey("123 N Main St", "19001"));
+    expect(addressKey("123 N Main St Suite 4", "19001")).not.toBe(addressKey("123 N Main St", "19001"));
+  });
+
+  test("falls back to the raw text without a street line", () => {
+    expect(addressKey("  PO Box 12 ")).toBe(addressKey("po box 12"));
+    expect(addressKey(null)).toBeNull();
+  });
+});
+
+describe("normalizePhone", () => {
+  test("keeps the last 10 digits", () => {
+    expect(normalizePhone("(215) 555-0100")).toBe("2155550100");
+    expect(normalizePhone("+1 215.555.0100")).toBe("2155550100");
+  });
+
+  test("rejects numbers that are too short", () => {
+    expect(normalizePhone("555-0100")).toBeNull();
+  });
+});
@@ -0,0 +1,395 @@
+// ABOUTME: Offline USPS-style address standardization and component parsing for free-text addresses
+// ABOUTME: Splits "123 Main St, Town, ST 12345" into street lines, city, state and ZIP+4, and derives dedup keys
+
+// USPS Publication 28 street suffixes (common spellings → standard abbreviation)
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: "ALY", allee: "ALY", ally: "ALY",
+  avenue: "AVE", av: "AVE", aven: "AVE", avenu: "AVE", avn: "AVE", avnue: "AVE",
+  boulevard: "BLVD", boul: "BLVD", boulv: "BLVD",
+  branch: "BR", brnch: "BR",
+  bridge: "BRG", brdge: "BRG",
+  brook: "BRK",
+  bypass: "BYP", bypa: "BYP", bypas: "BYP", byps: "BYP",
+  causeway: "CSWY", causwa: "CSWY",
+  center: "CTR", centre: "CTR", centr: "CTR", cent: "CTR", cntr: "CTR", cnter: "CTR",
+  circle: "CIR", circ: "CIR", circl: "CIR", crcl: "CIR", crcle: "CIR",
+  cliff: "CLF",
+  common: "CMN",
+  corner: "COR",
+  court: "CT",
+  cove: "CV",
+  creek: "CRK",
+  crescent: "CRES", crsent: "CRES",
+  crossing: "XING", crssng: "XING",
+  drive: "DR", driv: "DR", drv: "DR",
+  estates: "ESTS",
+  expressway: "EXPY", exp: "EXPY", expr: "EXPY", express: "EXPY", expw: "EXPY",
+  extension: "EXT", extn: "EXT", extnsn: "EXT",
+  freeway: "FWY", frway: "FWY", frwy: "FWY",
+  gardens: "GDNS", garden: "GDN",
+  gateway: "GTWY", gatewy: "GTWY",
+  glen: "GLN",
+  grove: "GRV",
+  harbor: "HBR",
+  heights: "HTS", ht: "HTS",
+  highway: "HWY", highwy: "HWY", hiway: "HWY", hiwy: "HWY", hway: "HWY",
+  hill: "HL",
+  hollow: "HOLW",
+  junction: "JCT",
+  lake: "LK",
+  landing: "LNDG",
+  lane: "LN",
+  loop: "LOOP",
+  manor: "MNR",
+  meadows: "MDWS",
+  mill: "ML",
+  parkway: "PKWY", parkwy: "PKWY", pkway: "PKWY", pky: "PKWY",
+  pike: "PIKE",
+  place: "PL",
+  plaza: "PLZ", plza: "PLZ",
+  point: "PT",
+  ridge: "RDG",
+  road: "RD",
+  route: "RTE",
+  run: "RUN",
+  square: "SQ", sqr: "SQ", squ: "SQ",
+  station: "STA", statn: "STA", stn: "STA",
+  street: "ST", str: "ST", strt: "ST",
+  terrace: "TER", terr: "TER",
+  trace: "TRCE",
+  trail: "TRL", trails: "TRL",
+  turnpike: "TPKE", turnpk: "TPKE",
+  valley: "VLY",
+  view: "VW",
+  village: "VLG",
+  way: "WAY",
+};
+
+const SUFFIX_ABBREVIATIONS = new Set(Object.values(STREET_SUFFIXES));
+
+const DIRECTIONALS: Record<string, string> = {
+  north: "N",
+  south: "S",
+  east: "E",
+  west: "W",
+  northeast: "NE",
+  northwest: "NW",
+  southeast: "SE",
+  southwest: "SW",
+};
+
+const DIRECTIONAL_ABBREVIATIONS = new Set(Object.values(DIRECTIONALS));
+
+// Abbreviated wherever they appear in a street name, so "Mount Vernon" and "Mt Vernon" agree
+const NAME_WORDS: Record<string, string> = {
+  mount: "MT",
+  fort: "FT",
+  saint: "ST",
+};
+
+// Secondary unit designators that take an identifier (USPS Publication 28, appendix C2)
+const UNIT_DESIGNATORS: Record<string, string> = {
+  apartment: "APT", apt: "APT",
+  building: "BLDG", bldg: "BLDG",
+  department: "DEPT", dept: "DEPT",
+  floor: "FL", fl: "FL",
+  room: "RM", rm: "RM",
+  suite: "STE", ste: "STE",
+  trailer: "TRLR", trlr: "TRLR",
+  unit: "UNIT",
+  "#": "#",
+};
+
+const STATE_CODES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA", colorado: "CO",
+  connecticut: "CT", delaware: "DE", "district of columbia": "DC", florida: "FL", georgia: "GA",
+  hawaii: "HI", idaho: "ID", illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY",
+  louisiana: "LA", maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH",
+  "new jersey": "NJ", "new mexico": "NM", "new york": "NY", "north carolina": "NC", "north dakota": "ND",
+  ohio: "OH", oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "puerto rico": "PR", "rhode island": "RI",
+  "south carolina": "SC", "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+};
+
+const VALID_STATE_CODES = new Set(Object.values(STATE_CODES));
+
+export interface ParsedAddress {
+  street_line1: string | null; // e.g. "123 N MAIN ST"
+  street_line2: string | null; // e.g. "STE 200"
+  city: string | null; // As written, not uppercased
+  state: string | null; // Two-letter code
+  zip5: string | null;
+  zip4: string | null;
+}
+
+// Values already known from other columns, used where the address text doesn't say
+export interface AddressFallback {
+  city?: string | null;
+  state?: string | null;
+  zip_code?: string | null;
+}
+
+export interface NormalizedAddress {
+  street: string; // e.g. "123 n main st"
+  unit: string | null; // e.g. "a" for "Suite A"
+  zip: string | null;
+}
+
+const UNIT_ALTERNATION = Object.keys(UNIT_DESIGNATORS).map((d) => d.replace("#", "\\#")).join("|");
+const UNIT_PATTERN = new RegExp(`(?:^|\\s)(${UNIT_ALTERNATION})(?:\\s*#\\s*|\\s+|(?=\\d))([a-z0-9-]+)$`);
+const UNIT_SEGMENT_PATTERN = new RegExp(`^(${UNIT_ALTERNATION})(?:\\s*#\\s*|\\s+|(?=\\d))([a-z0-9-]+)$`);
+const UNIT_PREFIX_PATTERN = new RegExp(`^(?:${UNIT_ALTERNATION})(?:\\s*#\\s*|\\s+|(?=\\d))[a-z0-9-]+(?:\\s|$)`);
+const UNIT_LINE_PATTERN = new RegExp(`^(?:${[...new Set(Object.values(UNIT_DESIGNATORS))].join("|")}) ([A-Z0-9-]+)`);
+const COUNTRY_PATTERN = /^(?:usa|us|united states(?: of america)?)$/;
+const ZIP_PATTERN = /^(\d{5})(?:-?(\d{4}))?$/;
+const TRAILING_ZIP_PATTERN = /^(.+?)\s+(\d{5})(?:-?(\d{4}))?$/;
+
+function stateCode(text: string): string | null {
+  const lower = text.trim().toLowerCase();
+  if (STATE_CODES[lower]) return STATE_CODES[lower]!;
+  const upper = lower.toUpperCase();
+  return VALID_STATE_CODES.has(upper) ? upper : null;
+}
+
+function cleanSegment(text: string): string {
+  return text.toLowerCase().replace(/[.']/g, "").replace(/[^a-z0-9# -]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Take "ST 12345", "State 12345-6789", "12345" or a lone state off the last segment.
+ * Returns what's left of the segment in front of them.
+ */
+function takeStateAndZip(segment: string, parsed: ParsedAddress): string {
+  const zipOnly = segment.match(ZIP_PATTERN);
+  if (zipOnly) {
+    parsed.zip5 = zipOnly[1]!;
+    parsed.zip4 = zipOnly[2] ?? null;
+    return "";
+  }
+
+  // Spelled-out state names only count next to a ZIP, so a city like "Washington" stays a city
+  const lone = /^[a-z]{2}$/i.test(segment.trim()) ? stateCode(segment) : null;
+  if (lone) {
+    parsed.state = lone;
+    return "";
+  }
+
+  const match = segment.match(TRAILING_ZIP_PATTERN);
+  if (!match) return segment;
+  parsed.zip5 = match[2]!;
+  parsed.zip4 = match[3] ?? null;
+
+  // The longest run of words before the ZIP that names a state ("new york 10001", "town pa 19001")
+  const words = match[1]!.split(" ");
+  for (let take = Math.min(3, words.length); take >= 1; take--) {
+    const state = stateCode(words.slice(-take).join(" "));
+    if (state) {
+      parsed.state = state;
+      return words.slice(0, -take).join(" ");
+    }
+  }
+  return match[1]!;
+}
+
+/**
+ * Split "123 Main St Town" after the last street suffix (and any directional after it)
+ */
+function splitTrailingCity(text: string): [string, string | null] {
+  const words = text.split(" ");
+  for (let i = words.length - 2; i >= 1; i--) {
+    const word = cleanSegment(words[i]!);
+    if (STREET_SUFFIXES[word] === undefined && !SUFFIX_ABBREVIATIONS.has(word.toUpperCase())) continue;
+    let end = i + 1;
+    const next = cleanSegment(words[end]!);
+    if (DIRECTIONALS[next] || DIRECTIONAL_ABBREVIATIONS.has(next.toUpperCase())) end++;
+    // Keep a unit with the street: "123 Main St Ste 4 Town"
+    const unit = cleanSegment(words.slice(end).join(" ")).match(UNIT_PREFIX_PATTERN);
+    if (unit) end += unit[0].trim().split(" ").length;
+    if (end >= words.length) return [text, null];
+    return [words.slice(0, end).join(" "), words.slice(end).join(" ")];
+  }
+  return [text, null];
+}
+
+function standardizeUnit(designator: string, identifier: string): string {
+  const standard = UNIT_DESIGNATORS[designator]!;
+  return `${standard} ${identifier.toUpperCase()}`;
+}
+
+/**
+ * Standardize a street line: house number, pre-directional, street name, suffix and post-directional
+ */
+export function standardizeStreetLine(line: string): string {
+  const tokens = cleanSegment(line).replace(/#/g, " ").split(" ").filter(Boolean);
+  if (tokens.length === 0) return "";
+
+  // PO boxes have their own standard form
+  const boxMatch = tokens.join(" ").match(/^(?:p ?o|post office)(?: box)?\s*(?:box\s*)?(\w+)$/);
+  if (boxMatch && /\d/.test(boxMatch[1]!)) return `PO BOX ${boxMatch[1]!.toUpperCase()}`;
+
+  const start = /^\d/.test(tokens[0]!) ? 1 : 0;
+  const out = tokens.map((token) => token.toUpperCase());
+  const isSuffix = (token: string | undefined) =>
+    !!token && (STREET_SUFFIXES[token] !== undefined || SUFFIX_ABBREVIATIONS.has(token.toUpperCase()));
+
+  // Suffix: the last word, or the one before a trailing directional
+  let end = tokens.length;
+  const last = tokens[end - 1]!;
+  if (end - start >= 3 && (DIRECTIONALS[last] || DIRECTIONAL_ABBREVIATIONS.has(last.toUpperCase())) && isSuffix(tokens[end - 2])) {
+    out[end - 1] = DIRECTIONALS[last] ?? last.toUpperCase();
+    end--;
+  }
+  // "Route 9" and "Rte 9" name the same road; the route number is not a suffix position
+  for (let i = start; i < end - 1; i++) {
+    const token = tokens[i]!;
+    if (/^\d/.test(tokens[i + 1]!)) {
+      if (["route", "rte", "rt"].includes(token)) out[i] = "ROUTE";
+      if (["highway", "hwy", "hiway", "hway"].includes(token)) out[i] = "HIGHWAY";
+    }
+  }
+  if (end - start >= 2 && STREET_SUFFIXES[tokens[end - 1]!]) {
+    out[end - 1] = STREET_SUFFIXES[tokens[end - 1]!]!;
+  }
+
+  // Pre-directional: a direction word before the street name, but not when it is the name ("North Ave")
+  const first = tokens[start];
+  if (first && DIRECTIONALS[first] && end - start >= 2 && !(end - start === 2 && isSuffix(tokens[start + 1]))) {
+    out[start] = DIRECTIONALS[first]!;
+  }
+
+  for (let i = start; i < end - 1; i++) {
+    const word = NAME_WORDS[tokens[i]!];
+    if (word) out[i] = word;
+  }
+
+  return out.join(" ");
+}
+
+/**
+ * Split a free-text address into USPS-style components. Parts the text doesn't contain come from
+ * the fallback columns; street_line1 is null when there is no usable street line.
+ */
+export function parseAddress(address: string | null | undefined, fallback: AddressFallback = {}): ParsedAddress {
+  const parsed: ParsedAddress = { street_line1: null, street_line2: null, city: null, state: null, zip5: null, zip4: null };
+
+  const segments = (address || "")
+    .replace(/\s+/g, " ")
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  while (segments.length > 0 && COUNTRY_PATTERN.test(segments[segments.length - 1]!.toLowerCase().replace(/\./g, ""))) {
+    segments.pop();
+  }
+
+  if (segments.length > 0) {
+    // "Town, ST 12345" / "ST 12345" / "12345" at the end
+    const last = segments.pop()!;
+    const rest = takeStateAndZip(last, parsed);
+    if (rest && rest !== last && segments.length === 0) {
+      // No commas at all: "123 Main St Town ST 12345"
+      const [street, city] = splitTrailingCity(rest);
+      segments.push(street);
+      if (city) segments.push(city);
+    } else if (rest) {
+      segments.push(rest);
+    }
+    if (rest !== last && parsed.zip5 && !parsed.state && segments.length > 1) {
+      // "Town, ST, 12345"
+      const state = stateCode(segments[segments.length - 1]!);
+      if (state) {
+        parsed.state = state;
+        segments.pop();
+      }
+    }
+  }
+
+  // Of what's left, the first segment with a house number (or PO box) is the street and a trailing
+  // segment that isn't a unit is the city. Segments between them are secondary address lines;
+  // anything before the street is a name ("Grace Church, 12 Oak St"), not part of the address.
+  const cleaned = segments.map(cleanSegment);
+  let streetIndex = cleaned.findIndex((segment) => /^\d/.test(segment) || /^(?:p ?o|post office) box/.test(segment));
+  if (streetIndex === -1) streetIndex = 0;
+  const lastIndex = cleaned.length - 1;
+  const cityIndex = lastIndex > streetIndex && !UNIT_SEGMENT_PATTERN.test(cleaned[lastIndex]!) ? lastIndex : -1;
+
+  const secondary: string[] = [];
+  cleaned.forEach((segment, index) => {
+    if (index <= streetIndex || index === cityIndex || !segment) return;
+    const unit = segment.match(UNIT_SEGMENT_PATTERN);
+    secondary.push(unit ? standardizeUnit(unit[1]!, unit[2]!) : segment.toUpperCase());
+  });
+
+  let streetLine = cleaned[streetIndex] ?? "";
+  const unitMatch = streetLine.match(UNIT_PATTERN);
+  if (unitMatch) {
+    secondary.unshift(standardizeUnit(unitMatch[1]!, unitMatch[2]!));
+    streetLine = streetLine.slice(0, unitMatch.index).trim();
+  }
+
+  parsed.street_line1 = standardizeStreetLine(streetLine) || null;
+  parsed.street_line2 = secondary.length > 0 ? secondary.join(" ") : null;
+  // City names aren't abbreviated, so they keep the casing they were written with
+  if (cityIndex !== -1 && cleaned[cityIndex]) parsed.city = segments[cityIndex]!;
+
+  parsed.city = parsed.city ?? (fallback.city?.trim() || null);
+  parsed.state = parsed.state ?? (fallback.state ? stateCode(fallback.state) : null);
+  if (!parsed.zip5 && fallback.zip_code) {
+    const zip = fallback.zip_code.trim().match(ZIP_PATTERN);
+    if (zip) {
+      parsed.zip5 = zip[1]!;
+      parsed.zip4 = zip[2] ?? null;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * street_line1/street_line2/zip5/zip4 column values for a resource, derived from its address
+ * and the city, state and zip_code columns
+ */
+export function addressColumns(resource: { address?: string | null } & AddressFallback): {
+  street_line1: string | null;
+  street_line2: string | null;
+  zip5: string | null;
+  zip4: string | null;
+} {
+  const parsed = parseAddress(resource.address, resource);
+  return { street_line1: parsed.street_line1, street_line2: parsed.street_line2, zip5: parsed.zip5, zip4: parsed.zip4 };
+}
+
+/**
+ * Comparable key for a free-text address: the standardized street line, unit and ZIP, lowercased.
+ * Returns null if there's no usable street line.
+ */
+export function normalizeAddress(address: string | null | undefined, zipCode?: string | null): NormalizedAddress | null {
+  const parsed = parseAddress(address, { zip_code: zipCode });
+  if (!parsed.street_line1) return null;
+
+  const unit = parsed.street_line2?.match(UNIT_LINE_PATTERN)?.[1] ?? null;
+  return {
+    street: parsed.street_line1.toLowerCase(),
+    unit: unit ? unit.toLowerCase() : null,
+    zip: parsed.zip5,
+  };
+}
+
+/**
+ * Dedup key for an address: the normalized street, unit and ZIP, so "123 North Main Street" and
+ * "123 N Main St" match. Falls back to the trimmed, lowercased text when there's no street line.
+ */
+export function addressKey(address: string | null | undefined, zipCode?: string | null): string | null {
+  const normalized = normalizeAddress(address, zipCode);
+  if (!normalized) return address?.trim().toLowerCase() || null;
+  return [normalized.street, normalized.unit, normalized.zip].filter(Boolean).join("|");
+}
+
+/**
+ * Last 10 digits of a phone number, or null if it doesn't look like one
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length < 10) return null;
+  return digits.slice(-10);
+}
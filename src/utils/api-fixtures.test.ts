@@ -0,0 +1,97 @@
+// ABOUTME: Tests for recording and replaying outbound API calls
+// ABOUTME: Records against a mocked fetch into a temp directory, then replays with the network disabled
+
+import { test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createOpenAIClient, fixtureApiKey, fixtureFetch, fixturePath, MissingFixtureError } from "./api-fixtures";
+
+const originalFetch = global.fetch;
+const originalEnv = { ...process.env };
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "api-fixtures-"));
+  process.env.API_FIXTURES_DIR = dir;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  process.env = { ...originalEnv };
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function offline() {
+  global.fetch = mock(async () => {
+    throw new Error("network disabled");
+  }) as unknown as typeof fetch;
+}
+
+test("replays a recorded response without calling the network", async () => {
+  const live = mock(async () => Response.json({ status: "OK", candidates: [{ place_id: "abc" }] }));
+  global.fetch = live as unknown as typeof fetch;
+  process.env.API_FIXTURES = "record";
+
+  const url = "https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=Hope%20Pantry&key=secret";
+  const recorded = await (await fixtureFetch(url)).json();
+  expect(live).toHaveBeenCalledTimes(1);
+
+  offline();
+  process.env.API_FIXTURES = "replay";
+  const replayed = await fixtureFetch(url);
+  expect(replayed.status).toBe(200);
+  expect(await replayed.json()).toEqual(recorded);
+});
+
+test("keys fixtures by method, URL and body but never stores API keys", async () => {
+  expect(fixturePath("GET", "https://example.com/a?q=1&key=one", null))
+    .toBe(fixturePath("GET", "https://example.com/a?q=1&key=two", null));
+  expect(fixturePath("POST", "https://example.com/a", '{"q":1}'))
+    .not.toBe(fixturePath("POST", "https://example.com/a", '{"q":2}'));
+  expect(fixturePath("GET", "https://example.com/a", null)).toStartWith(`${dir}/example.com/`);
+
+  global.fetch = mock(async () => new Response("ok")) as unknown as typeof fetch;
+  process.env.API_FIXTURES = "record";
+  const url = "https://maps.googleapis.com/maps/api/geocode/json?address=x&key=secret";
+  await fixtureFetch(url);
+
+  const saved = await Bun.file(fixturePath("GET", url, null)).text();
+  expect(saved).not.toContain("secret");
+});
+
+test("fails loudly when a replayed request was never recorded", async () => {
+  offline();
+  process.env.API_FIXTURES = "replay";
+  await expect(fixtureFetch("https://r.jina.ai/https://example.org")).rejects.toBeInstanceOf(MissingFixtureError);
+});
+
+test("passes through to fetch when fixtures are off", async () => {
+  const live = mock(async () => new Response("live"));
+  global.fetch = live as unknown as typeof fetch;
+  delete process.env.API_FIXTURES;
+
+  expect(await (await fixtureFetch("https://example.com")).text()).toBe("live");
+  expect(fixtureApiKey(undefined)).toBeUndefined();
+});
+
+test("OpenAI calls replay through the same layer", async () => {
+  const completion = {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt-4o-mini",
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "{\"resources\": []}" } }],
+  };
+  global.fetch = mock(async () => Response.json(completion)) as unknown as typeof fetch;
+  process.env.API_FIXTURES = "record";
+  process.env.OPENAI_API_KEY = "sk-test";
+  const request = { model: "gpt-4o-mini", messages: [{ role: "user" as const, content: "Find pantries" }] };
+  await createOpenAIClient().chat.completions.create(request);
+
+  offline();
+  process.env.API_FIXTURES = "replay";
+  delete process.env.OPENAI_API_KEY;
+  const replayed = await createOpenAIClient().chat.completions.create(request);
+  expect(replayed.choices[0]!.message.content).toBe("{\"resources\": []}");
+});
@@ -0,0 +1,158 @@
+// ABOUTME: Record/replay layer for outbound calls to Google Places, Jina and OpenAI
+// ABOUTME: API_FIXTURES=record saves responses to disk, replay serves them offline; observers see every live call
+
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import { limitedFetch } from "./provider-limits";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+const DEFAULT_FIXTURES_DIR = "./fixtures/api";
+
+// Query parameters that carry credentials; stripped before keying or saving a request
+const SECRET_PARAMS = ["key", "api_key"];
+
+// Stand-in credential so clients that refuse to start without a key still run during replay
+const REPLAY_API_KEY = "replay-fixture-key";
+
+export interface ApiFixture {
+  request: { method: string; url: string; body: string | null };
+  response: { status: number; statusText: string; contentType: string | null; body: string };
+  recorded_at: string;
+}
+
+export class MissingFixtureError extends Error {
+  constructor(public method: string, public url: string, public path: string) {
+    super(`No recorded fixture for ${method} ${url} (expected ${path}); record it with API_FIXTURES=record`);
+  }
+}
+
+export interface LiveApiCall {
+  method: string;
+  url: string; // Credentials stripped
+  response: Response; // A clone the observer may read
+}
+
+type ApiCallObserver = (call: LiveApiCall) => void;
+
+const observers = new Set<ApiCallObserver>();
+
+/**
+ * Be told about every call that reached a live API (not replayed ones). Returns an unsubscribe function.
+ */
+export function observeApiCalls(observer: ApiCallObserver): () => void {
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+function notifyObservers(method: string, url: string, response: Response): void {
+  for (const observer of observers) {
+    try {
+      observer({ method, url: redactUrl(url), response: response.clone() as Response });
+    } catch (error) {
+      console.error("API call observer error:", error);
+    }
+  }
+}
+
+/**
+ * Current mode, read on every call so tests and scripts can switch it
+ */
+export function fixtureMode(): FixtureMode {
+  const mode = process.env.API_FIXTURES;
+  if (!mode || mode === "off") return "off";
+  if (mode === "record" || mode === "replay") return mode;
+  throw new Error(`API_FIXTURES must be "record", "replay" or "off", got "${mode}"`);
+}
+
+function fixturesDir(): string {
+  return process.env.API_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Fixture file for a request. Headers are ignored: they only carry credentials and field masks
+ * that are fixed per call site.
+ */
+export function fixturePath(method: string, url: string, body: string | null): string {
+  const redacted = redactUrl(url);
+  const hash = createHash("sha256")
+    .update(`${method.toUpperCase()} ${redacted}\n${body ?? ""}`)
+    .digest("hex")
+    .slice(0, 20);
+  return `${fixturesDir()}/${new URL(redacted).hostname}/${hash}.json`;
+}
+
+/**
+ * Drop-in replacement for fetch. Passes straight through when fixtures are off.
+ */
+export async function fixtureFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === "off") {
+    const response = await limitedFetch(input, init);
+    if (observers.size > 0) {
+      const url = input instanceof Request ? input.url : input.toString();
+      notifyObservers(init?.method || (input instanceof Request ? input.method : "GET"), url, response);
+    }
+    return response;
+  }
+
+  const request = input instanceof Request ? new Request(input, init) : new Request(input.toString(), init);
+  const body = request.body ? await request.clone().text() : null;
+  const path = fixturePath(request.method, request.url, body);
+
+  if (mode === "replay") {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new MissingFixtureError(request.method, redactUrl(request.url), path);
+    }
+    const fixture = (await file.json()) as ApiFixture;
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers: fixture.response.contentType ? { "Content-Type": fixture.response.contentType } : {},
+    });
+  }
+
+  const response = await limitedFetch(input, init);
+  const fixture: ApiFixture = {
+    request: { method: request.method, url: redactUrl(request.url), body },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get("content-type"),
+      body: await response.clone().text(),
+    },
+    recorded_at: new Date().toISOString(),
+  };
+  await Bun.write(path, JSON.stringify(fixture, null, 2));
+  notifyObservers(request.method, request.url, response);
+  return response;
+}
+
+/**
+ * API key for a client, with a placeholder during replay so offline runs don't need real keys
+ */
+export function fixtureApiKey(key: string | undefined): string | undefined {
+  return key || (fixtureMode() === "replay" ? REPLAY_API_KEY : undefined);
+}
+
+/**
+ * OpenAI client whose requests go through the fixture layer and provider rate limits
+ */
+export function createOpenAIClient(): OpenAI {
+  return new OpenAI({
+    apiKey: fixtureApiKey(process.env.OPENAI_API_KEY),
+    fetch: fixtureFetch,
+    maxRetries: 0, // limitedFetch retries with the shared backoff policy
+  });
+}
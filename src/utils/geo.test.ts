@@ -0,0 +1,63 @@
+// ABOUTME: Tests for geographic distance helpers
+// ABOUTME: Validates haversine distances, unit conversion and bounding boxes
+
+import { test, expect, describe } from "bun:test";
+import {
+  haversineDistanceKm,
+  haversineDistanceMiles,
+  boundingBox,
+  isValidCoordinate,
+} from "./geo";
+
+describe("haversineDistance", () => {
+  test("returns zero for the same point", () => {
+    expect(haversineDistanceKm(40.2, -75.37, 40.2, -75.37)).toBe(0);
+  });
+
+  test("matches known Montgomery County to Jenkintown distance", () => {
+    const km = haversineDistanceKm(40.209999, -75.370201, 40.0931773, -75.1292825);
+    expect(km).toBeCloseTo(24.25, 1);
+  });
+
+  test("converts to miles", () => {
+    const km = haversineDistanceKm(34.0522, -118.2437, 37.7749, -122.4194);
+    const miles = haversineDistanceMiles(34.0522, -118.2437, 37.7749, -122.4194);
+    expect(miles).toBeCloseTo(km / 1.609344, 6);
+    expect(miles).toBeGreaterThan(340);
+    expect(miles).toBeLessThan(350);
+  });
+});
+
+describe("boundingBox", () => {
+  test("contains points exactly at the radius in every direction", () => {
+    const box = boundingBox(40, -75, 10);
+    expect(box.minLatitude).toBeLessThan(40);
+    expect(box.maxLatitude).toBeGreaterThan(40);
+
+    // A point 10 miles due north should sit on the top edge
+    const northDistance = haversineDistanceMiles(40, -75, box.maxLatitude, -75);
+    expect(northDistance).toBeCloseTo(10, 3);
+
+    // Longitude span is wider than latitude span away from the equator
+    expect(box.maxLongitude - box.minLongitude).toBeGreaterThan(box.maxLatitude - box.minLatitude);
+  });
+
+  test("clamps to valid coordinate ranges near the poles", () => {
+    const box = boundingBox(89.9, 179.9, 50);
+    expect(box.maxLatitude).toBeLessThanOrEqual(90);
+    expect(box.maxLongitude).toBeLessThanOrEqual(180);
+    expect(box.minLongitude).toBeGreaterThanOrEqual(-180);
+  });
+});
+
+describe("isValidCoordinate", () => {
+  test("accepts valid coordinates", () => {
+    expect(isValidCoordinate(40.1, -75.1)).toBe(true);
+  });
+
+  test("rejects out of range or non-numeric values", () => {
+    expect(isValidCoordinate(91, 0)).toBe(false);
+    expect(isValidCoordinate(0, -181)).toBe(false);
+    expect(isValidCoordinate(NaN, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+// ABOUTME: Geographic distance helpers shared by search endpoints and scripts
+// ABOUTME: Provides haversine distance and lat/lng bounding boxes for radius queries
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_MILE = 1.609344;
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometers
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+/**
+ * Great-circle distance between two points in miles
+ */
+export function haversineDistanceMiles(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  return haversineDistanceKm(lat1, lon1, lat2, lon2) / KM_PER_MILE;
+}
+
+export function milesToKm(miles: number): number {
+  return miles * KM_PER_MILE;
+}
+
+export function kmToMiles(km: number): number {
+  return km / KM_PER_MILE;
+}
+
+/**
+ * Lat/lng rectangle that fully contains a circle of the given radius.
+ * Used to narrow radius queries with the (latitude, longitude) index before
+ * computing exact distances.
+ */
+export function boundingBox(
+  latitude: number,
+  longitude: number,
+  radiusMiles: number
+): BoundingBox {
+  const radiusKm = milesToKm(radiusMiles);
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+
+  // Longitude degrees shrink toward the poles; clamp so we never divide by ~0
+  const cosLat = Math.max(Math.cos(toRadians(latitude)), 0.01);
+  const lonDelta = Math.min(latDelta / cosLat, 180);
+
+  return {
+    minLatitude: Math.max(latitude - latDelta, -90),
+    maxLatitude: Math.min(latitude + latDelta, 90),
+    minLongitude: Math.max(longitude - lonDelta, -180),
+    maxLongitude: Math.min(longitude + lonDelta, 180),
+  };
+}
+
+export function isValidCoordinate(latitude: number, longitude: number): boolean {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+}
@@ -0,0 +1,61 @@
+// ABOUTME: Tests for the structured logger's levels, formats and call-context stamping
+// ABOUTME: Captures lines through setLogSink instead of the console
+
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { withCallContext } from "../core/call-context";
+import { createLogger, setLogSink, type LogLevel } from "./logger";
+
+const originalEnv = { ...process.env };
+let lines: Array<{ level: LogLevel; line: string }> = [];
+let restoreSink: () => void;
+
+beforeEach(() => {
+  lines = [];
+  restoreSink = setLogSink((level, line) => lines.push({ level, line }));
+  delete process.env.LOG_LEVEL;
+  delete process.env.LOG_FORMAT;
+});
+
+afterEach(() => {
+  restoreSink();
+  process.env = { ...originalEnv };
+});
+
+test("writes one JSON object per line with component, message and fields", () => {
+  createLogger("jina").info("Dropped: not a food resource", { name: "Hope Pantry", url: undefined });
+
+  expect(lines).toHaveLength(1);
+  const entry = JSON.parse(lines[0]!.line);
+  expect(entry).toMatchObject({ level: "info", component: "jina", msg: "Dropped: not a food resource", name: "Hope Pantry" });
+  expect(entry).not.toHaveProperty("url");
+  expect(typeof entry.time).toBe("string");
+});
+
+test("carries the correlation id and attribution through nested async work", async () => {
+  const log = createLogger("google-places");
+  await withCallContext({ correlation_id: "req-1", county_geoid: "42091" }, async () => {
+    await Promise.resolve();
+    await withCallContext({ resource_id: 12 }, async () => log.info("Geocoded"));
+  });
+  log.info("Outside");
+
+  expect(JSON.parse(lines[0]!.line)).toMatchObject({ correlation_id: "req-1", county_geoid: "42091", resource_id: 12 });
+  expect(JSON.parse(lines[1]!.line)).not.toHaveProperty("correlation_id");
+});
+
+test("skips levels below LOG_LEVEL", () => {
+  process.env.LOG_LEVEL = "warn";
+  const log = createLogger("enrichment");
+  log.debug("a");
+  log.info("b");
+  log.warn("c");
+  log.error("d");
+  expect(lines.map((l) => l.level)).toEqual(["warn", "error"]);
+});
+
+test("serializes errors and supports a text format", () => {
+  process.env.LOG_FORMAT = "text";
+  createLogger("enrichment").error("Fatal error", { error: new Error("boom"), name: "Hope Pantry" });
+
+  expect(lines[0]!.line).toMatch(/^\S+ ERROR \[enrichment\] Fatal error error="boom" name="Hope Pantry"$/);
+});
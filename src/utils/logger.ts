@@ -0,0 +1,94 @@
+// ABOUTME: Leveled logger that writes one JSON object per line, stamped with the current call context
+// ABOUTME: LOG_LEVEL picks the minimum level and LOG_FORMAT=text switches to a readable single-line format
+
+import { currentCallContext } from "../core/call-context";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+type LogSink = (level: LogLevel, line: string) => void;
+
+const defaultSink: LogSink = (level, line) => {
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+let sink: LogSink = defaultSink;
+
+function minimumLevel(): number {
+  const configured = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return LEVELS[configured && configured in LEVELS ? configured : "info"];
+}
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Build the entry for one log call. Context keys that are unset are left out; explicit fields win over context.
+ */
+export function buildLogEntry(level: LogLevel, component: string, msg: string, fields: LogFields = {}): LogFields {
+  const entry: LogFields = { time: new Date().toISOString(), level, component, msg };
+  for (const [key, value] of Object.entries(currentCallContext())) {
+    if (value !== undefined && value !== null) entry[key] = value;
+  }
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = serializeValue(value);
+  }
+  return entry;
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, component, msg, ...rest } = entry;
+  const extras = Object.entries(rest).map(([key, value]) => {
+    if (value && typeof value === "object") {
+      return `${key}=${JSON.stringify((value as { message?: unknown }).message ?? value)}`;
+    }
+    return `${key}=${typeof value === "string" && /\s/.test(value) ? JSON.stringify(value) : String(value)}`;
+  });
+  return [time, String(level).toUpperCase(), `[${component}]`, msg, ...extras].join(" ");
+}
+
+function write(level: LogLevel, component: string, msg: string, fields?: LogFields): void {
+  if (LEVELS[level] < minimumLevel()) return;
+  const entry = buildLogEntry(level, component, msg, fields);
+  sink(level, process.env.LOG_FORMAT === "text" ? formatText(entry) : JSON.stringify(entry));
+}
+
+/**
+ * Logger for one pipeline component, e.g. createLogger("enrichment")
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields) => write("debug", component, msg, fields),
+    info: (msg, fields) => write("info", component, msg, fields),
+    warn: (msg, fields) => write("warn", component, msg, fields),
+    error: (msg, fields) => write("error", component, msg, fields),
+  };
+}
+
+/**
+ * Send log lines somewhere else (tests capture them). Returns a function that restores the default.
+ */
+export function setLogSink(next: LogSink): () => void {
+  sink = next;
+  return () => {
+    sink = defaultSink;
+  };
+}
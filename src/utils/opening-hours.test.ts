@@ -0,0 +1,114 @@
+// ABOUTME: Tests for parsing opening hours into a weekly schedule
+// ABOUTME: Covers Google weekday_text, free-text formats and open-at evaluation
+
+import { test, expect, describe } from "bun:test";
+import { parseHours, isOpenAt, isResourceOpenAt, parseOpenFilter } from "./opening-hours";
+
+describe("parseHours", () => {
+  test("parses Google weekday_text with closed days", () => {
+    const schedule = parseHours(
+      "Monday: Closed; Tuesday: 10:00 AM – 12:00 PM; Wednesday: Closed; Thursday: Closed; Friday: Closed; Saturday: Closed; Sunday: 11:30 AM – 12:00 PM"
+    );
+    expect(schedule?.monday).toEqual([]);
+    expect(schedule?.tuesday).toEqual([{ open: "10:00", close: "12:00" }]);
+    expect(schedule?.sunday).toEqual([{ open: "11:30", close: "12:00" }]);
+  });
+
+  test("parses Google split ranges and narrow no-break spaces", () => {
+    const schedule = parseHours("Monday: 9:00\u2009–\u200911:00\u202fAM, 1:00\u2009–\u20094:00\u202fPM");
+    expect(schedule?.monday).toEqual([
+      { open: "09:00", close: "11:00" },
+      { open: "13:00", close: "16:00" },
+    ]);
+  });
+
+  test("parses day ranges in compact format", () => {
+    const schedule = parseHours("Mon-Fri 9AM-5PM");
+    expect(schedule?.monday).toEqual([{ open: "09:00", close: "17:00" }]);
+    expect(schedule?.friday).toEqual([{ open: "09:00", close: "17:00" }]);
+    expect(schedule?.saturday).toEqual([]);
+  });
+
+  test("parses day lists with dotted meridiems", () => {
+    const schedule = parseHours("Mon, Tues, Thurs, Fri 9 a.m.–12 p.m.");
+    expect(schedule?.tuesday).toEqual([{ open: "09:00", close: "12:00" }]);
+    expect(schedule?.thursday).toEqual([{ open: "09:00", close: "12:00" }]);
+    expect(schedule?.wednesday).toEqual([]);
+  });
+
+  test("parses ampersand day lists and multiple segments", () => {
+    const schedule = parseHours("Mon & Thurs 10 a.m.–2 p.m., Tues & Fri 10 a.m.–2 p.m.");
+    expect(schedule?.monday).toEqual([{ open: "10:00", close: "14:00" }]);
+    expect(schedule?.friday).toEqual([{ open: "10:00", close: "14:00" }]);
+  });
+
+  test("infers afternoon hours without meridiems", () => {
+    const schedule = parseHours("Saturday 9-12, Wednesday 1-3");
+    expect(schedule?.saturday).toEqual([{ open: "09:00", close: "12:00" }]);
+    expect(schedule?.wednesday).toEqual([{ open: "13:00", close: "15:00" }]);
+  });
+
+  test("handles open 24 hours", () => {
+    const schedule = parseHours("Tuesday: Open 24 hours");
+    expect(schedule?.tuesday).toEqual([{ open: "00:00", close: "24:00" }]);
+  });
+
+  test("skips monthly schedules it cannot represent", () => {
+    expect(parseHours("Third Thurs 10 a.m.–12 p.m.")).toBeNull();
+  });
+
+  test("returns null for empty or unparseable input", () => {
+    expect(parseHours(null)).toBeNull();
+    expect(parseHours("")).toBeNull();
+    expect(parseHours("Call for hours")).toBeNull();
+  });
+});
+
+describe("isOpenAt", () => {
+  const schedule = parseHours("Tuesday: 10:00 AM – 12:00 PM; Friday: 10:00 PM – 2:00 AM")!;
+
+  test("is open inside a range in local time", () => {
+    // Tuesday 11:00 in New York (EDT, UTC-4)
+    expect(isOpenAt(schedule, new Date("2025-06-10T15:00:00Z"), "America/New_York")).toBe(true);
+  });
+
+  test("is closed outside a range", () => {
+    // Tuesday 12:30 in New York
+    expect(isOpenAt(schedule, new Date("2025-06-10T16:30:00Z"), "America/New_York")).toBe(false);
+  });
+
+  test("handles ranges running past midnight", () => {
+    // Saturday 01:00 in New York, inside Friday's 22:00-02:00 range
+    expect(isOpenAt(schedule, new Date("2025-06-14T05:00:00Z"), "America/New_York")).toBe(true);
+  });
+});
+
+describe("isResourceOpenAt", () => {
+  test("uses the resource state time zone", () => {
+    const resource = { name: "Test", hours: "Tuesday: 10:00 AM – 12:00 PM", state: "CA" };
+    // Tuesday 11:00 in Los Angeles (PDT, UTC-7) is 14:00 in New York
+    expect(isResourceOpenAt(resource, new Date("2025-06-10T18:00:00Z"))).toBe(true);
+    expect(isResourceOpenAt({ ...resource, state: "NY" }, new Date("2025-06-10T18:00:00Z"))).toBe(false);
+  });
+
+  test("treats unknown hours as not open", () => {
+    expect(isResourceOpenAt({ name: "Test" }, new Date())).toBe(false);
+  });
+});
+
+describe("parseOpenFilter", () => {
+  test("returns null when no filter is requested", () => {
+    expect(parseOpenFilter(new URLSearchParams("state=CA")).at).toBeNull();
+  });
+
+  test("parses open_at timestamps and rejects invalid ones", () => {
+    expect(parseOpenFilter(new URLSearchParams("open_at=2025-06-10T15:00:00Z")).at?.toISOString()).toBe(
+      "2025-06-10T15:00:00.000Z"
+    );
+    expect(parseOpenFilter(new URLSearchParams("open_at=tonight")).error).toBeDefined();
+  });
+
+  test("uses the current time for open_now", () => {
+    expect(parseOpenFilter(new URLSearchParams("open_now=true")).at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,391 @@
+// ABOUTME: Parses free-text opening hours into a normalized weekly schedule
+// ABOUTME: Evaluates whether a resource is open at a given moment in its local time zone
+
+import type { FoodResource } from "../core/database";
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * A single open interval in 24-hour "HH:MM" local time.
+ * close may be "24:00" for end of day, or earlier than open for ranges
+ * that run past midnight (e.g. 22:00-02:00).
+ */
+export type TimeRange = { open: string; close: string };
+
+export type WeeklySchedule = Record<Weekday, TimeRange[]>;
+
+// Primary time zone per state. States split across zones use the zone that
+// covers most of their population.
+const STATE_TIME_ZONES: Record<string, string> = {
+  AL: "America/Chicago", AK: "America/Anchorage", AZ: "America/Phoenix",
+  AR: "America/Chicago", CA: "America/Los_Angeles", CO: "America/Denver",
+  CT: "America/New_York", DE: "America/New_York", DC: "America/New_York",
+  FL: "America/New_York", GA: "America/New_York", HI: "Pacific/Honolulu",
+  ID: "America/Boise", IL: "America/Chicago", IN: "America/Indiana/Indianapolis",
+  IA: "America/Chicago", KS: "America/Chicago", KY: "America/New_York",
+  LA: "America/Chicago", ME: "America/New_York", MD: "America/New_York",
+  MA: "America/New_York", MI: "America/Detroit", MN: "America/Chicago",
+  MS: "America/Chicago", MO: "America/Chicago", MT: "America/Denver",
+  NE: "America/Chicago", NV: "America/Los_Angeles", NH: "America/New_York",
+  NJ: "America/New_York", NM: "America/Denver", NY: "America/New_York",
+  NC: "America/New_York", ND: "America/Chicago", OH: "America/New_York",
+  OK: "America/Chicago", OR: "America/Los_Angeles", PA: "America/New_York",
+  RI: "America/New_York", SC: "America/New_York", SD: "America/Chicago",
+  TN: "America/Chicago", TX: "America/Chicago", UT: "America/Denver",
+  VT: "America/New_York", VA: "America/New_York", WA: "America/Los_Angeles",
+  WV: "America/New_York", WI: "America/Chicago", WY: "America/Denver",
+  PR: "America/Puerto_Rico", GU: "Pacific/Guam", VI: "America/St_Thomas",
+  AS: "Pacific/Pago_Pago", MP: "Pacific/Saipan",
+};
+
+const DEFAULT_TIME_ZONE = "America/New_York";
+
+const DAY_PATTERNS: Array<[RegExp, Weekday]> = [
+  [/^sun(day)?s?$/, "sunday"],
+  [/^mon(day)?s?$/, "monday"],
+  [/^tue(s|sday)?s?$/, "tuesday"],
+  [/^wed(s|nesday)?s?$/, "wednesday"],
+  [/^thu(r|rs|rsday)?s?$/, "thursday"],
+  [/^fri(day)?s?$/, "friday"],
+  [/^sat(urday)?s?$/, "saturday"],
+];
+
+const DAY_WORD = "(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*|daily|every\\s*day|weekdays?|weekends?";
+
+// Monthly schedules ("third Thursday") can't be represented in a weekly model
+const ORDINAL_PATTERN = /\b(first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)\b/i;
+
+const TIME = "(\\d{1,2}(?::\\d{2})?\\s*(?:[ap]\\.?\\s?m\\.?)?|noon|midnight)";
+const RANGE_PATTERN = new RegExp(`${TIME}\\s*(?:-|to|until)\\s*${TIME}`, "gi");
+
+function emptySchedule(): WeeklySchedule {
+  return {
+    sunday: [],
+    monday: [],
+    tuesday: [],
+    wednesday: [],
+    thursday: [],
+    friday: [],
+    saturday: [],
+  };
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[\u00a0\u2009\u202f]/g, " ")
+    .replace(/[\u2013\u2014]/g, "-")
+    .toLowerCase();
+}
+
+function toWeekday(token: string): Weekday | null {
+  for (const [pattern, day] of DAY_PATTERNS) {
+    if (pattern.test(token)) return day;
+  }
+  return null;
+}
+
+function dayRange(start: Weekday, end: Weekday): Weekday[] {
+  const days: Weekday[] = [];
+  let index = WEEKDAYS.indexOf(start);
+  const endIndex = WEEKDAYS.indexOf(end);
+  // Walk forward with wraparound so "Sat-Mon" works
+  for (let i = 0; i < 7; i++) {
+    days.push(WEEKDAYS[index]!);
+    if (index === endIndex) break;
+    index = (index + 1) % 7;
+  }
+  return days;
+}
+
+/**
+ * Parse the day portion of a segment ("Mon-Fri", "Mon & Wed", "Tuesday")
+ */
+function parseDays(text: string): Weekday[] {
+  const normalized = text.replace(/\b(through|thru|to)\b/g, "-");
+  const tokens = normalized.match(new RegExp(`${DAY_WORD}|-`, "g")) || [];
+
+  const days: Weekday[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!.replace(/\s+/g, "");
+    if (token === "-") continue;
+
+    if (token === "daily" || token === "everyday") {
+      days.push(...WEEKDAYS);
+      continue;
+    }
+    if (token.startsWith("weekday")) {
+      days.push("monday", "tuesday", "wednesday", "thursday", "friday");
+      continue;
+    }
+    if (token.startsWith("weekend")) {
+      days.push("saturday", "sunday");
+      continue;
+    }
+
+    const day = toWeekday(token);
+    if (!day) continue;
+
+    const end = tokens[i + 1] === "-" && tokens[i + 2] ? toWeekday(tokens[i + 2]!) : null;
+    if (end) {
+      days.push(...dayRange(day, end));
+      i += 2;
+    } else {
+      days.push(day);
+    }
+  }
+
+  return Array.from(new Set(days));
+}
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  meridiem: "am" | "pm" | null;
+}
+
+function parseTime(token: string): ParsedTime | null {
+  const value = token.trim();
+  if (value === "noon") return { hour: 12, minute: 0, meridiem: "pm" };
+  if (value === "midnight") return { hour: 0, minute: 0, meridiem: "am" };
+
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?/);
+  if (!match) return null;
+
+  const hour = parseInt(match[1]!, 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (hour > 24 || minute > 59) return null;
+
+  const meridiem = match[3] === "a" ? "am" : match[3] === "p" ? "pm" : null;
+  return { hour, minute, meridiem };
+}
+
+function to24Hour(time: ParsedTime, meridiem: "am" | "pm" | null): number {
+  let hour = time.hour;
+  if (meridiem === "pm" && hour < 12) hour += 12;
+  if (meridiem === "am" && hour === 12) hour = 0;
+  return hour * 60 + time.minute;
+}
+
+function formatMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * Convert an open/close pair to minutes, inferring missing AM/PM markers.
+ * Google writes "9:00 – 11:00 AM" and sources often write "9-5".
+ */
+function resolveRange(openToken: string, closeToken: string): TimeRange | null {
+  const open = parseTime(openToken);
+  const close = parseTime(closeToken);
+  if (!open || !close) return null;
+
+  let openMinutes: number;
+  let closeMinutes: number;
+
+  if (open.meridiem && close.meridiem) {
+    openMinutes = to24Hour(open, open.meridiem);
+    closeMinutes = to24Hour(close, close.meridiem);
+  } else if (close.meridiem) {
+    closeMinutes = to24Hour(close, close.meridiem);
+    openMinutes = to24Hour(open, close.meridiem);
+    if (openMinutes > closeMinutes) openMinutes = to24Hour(open, "am");
+  } else if (open.meridiem) {
+    openMinutes = to24Hour(open, open.meridiem);
+    closeMinutes = to24Hour(close, open.meridiem);
+    if (closeMinutes <= openMinutes) closeMinutes = to24Hour(close, open.meridiem === "am" ? "pm" : "am");
+  } else {
+    // No markers at all: treat early hours as afternoon ("1-3" means 1 PM - 3 PM)
+    openMinutes = open.hour < 7 && open.hour !== 0 ? to24Hour(open, "pm") : open.hour * 60 + open.minute;
+    closeMinutes = close.hour * 60 + close.minute;
+    if (closeMinutes <= openMinutes && close.hour < 12) closeMinutes += 12 * 60;
+  }
+
+  if (closeMinutes === 0 && openMinutes > 0) closeMinutes = 24 * 60;
+  if (openMinutes === closeMinutes) return null;
+
+  return { open: formatMinutes(openMinutes), close: formatMinutes(closeMinutes) };
+}
+
+function parseRanges(text: string): TimeRange[] {
+  if (/open\s*24\s*hours/.test(text)) {
+    return [{ open: "00:00", close: "24:00" }];
+  }
+
+  const ranges: TimeRange[] = [];
+  for (const match of text.matchAll(RANGE_PATTERN)) {
+    const range = resolveRange(match[1]!, match[2]!);
+    if (range) ranges.push(range);
+  }
+  return ranges;
+}
+
+/**
+ * Split hours text into day-led segments. Commas only start a new segment
+ * when followed by a day name, so "9 AM - 12 PM, 1 - 5 PM" stays together.
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(new RegExp(`[;\\n|]|,(?=\\s*(?:${DAY_WORD})\\b)`))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse hours from Google weekday_text ("Monday: 9:00 AM – 5:00 PM; Tuesday: Closed"),
+ * Jina or OpenAI extractions ("Mon-Fri 9AM-5PM", "Mon & Wed 9 a.m.–3 p.m.").
+ * Returns null when nothing recognizable was found.
+ */
+export function parseHours(hours: string | null | undefined): WeeklySchedule | null {
+  if (!hours) return null;
+
+  const schedule = emptySchedule();
+  let foundAny = false;
+  let pendingDays: Weekday[] = [];
+
+  for (const segment of splitSegments(normalizeText(hours))) {
+    if (ORDINAL_PATTERN.test(segment)) {
+      pendingDays = [];
+      continue;
+    }
+
+    // Days come before the first digit or hour keyword
+    const timeStart = segment.search(/\d|open\s*24|closed|noon|midnight/);
+    const dayText = timeStart === -1 ? segment : segment.slice(0, timeStart);
+    const timeText = timeStart === -1 ? "" : segment.slice(timeStart);
+
+    const days = [...pendingDays, ...parseDays(dayText)];
+
+    if (!timeText) {
+      // "Mon, Tues, Thurs, Fri 9 a.m.–12 p.m." arrives as separate day-only segments
+      pendingDays = days;
+      continue;
+    }
+    pendingDays = [];
+
+    if (days.length === 0) continue;
+
+    if (/^closed\b/.test(timeText)) {
+      foundAny = true;
+      continue;
+    }
+
+    const ranges = parseRanges(timeText);
+    if (ranges.length === 0) continue;
+
+    foundAny = true;
+    for (const day of days) {
+      schedule[day].push(...ranges);
+    }
+  }
+
+  return foundAny ? schedule : null;
+}
+
+/**
+ * JSON for the hours_schedule column, or null when the hours can't be parsed
+ */
+export function hoursScheduleJson(hours: string | null | undefined): string | null {
+  const schedule = parseHours(hours);
+  return schedule ? JSON.stringify(schedule) : null;
+}
+
+export function timeZoneForState(state: string | null | undefined): string {
+  return (state && STATE_TIME_ZONES[state.toUpperCase()]) || DEFAULT_TIME_ZONE;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":");
+  return parseInt(hour!, 10) * 60 + parseInt(minute!, 10);
+}
+
+function localDayAndMinutes(at: Date, timeZone: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const weekday = parts.find((p) => p.type === "weekday")!.value.toLowerCase() as Weekday;
+  const hour = parseInt(parts.find((p) => p.type === "hour")!.value, 10);
+  const minute = parseInt(parts.find((p) => p.type === "minute")!.value, 10);
+
+  return { day: weekday, minutes: hour * 60 + minute };
+}
+
+/**
+ * Whether the schedule is open at the given instant, evaluated in local time
+ */
+export function isOpenAt(schedule: WeeklySchedule, at: Date, timeZone: string): boolean {
+  const { day, minutes } = localDayAndMinutes(at, timeZone);
+
+  for (const range of schedule[day] || []) {
+    const open = toMinutes(range.open);
+    const close = toMinutes(range.close);
+    if (close > open ? minutes >= open && minutes < close : minutes >= open) {
+      return true;
+    }
+  }
+
+  // Ranges that started yesterday and run past midnight
+  const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7]!;
+  for (const range of schedule[previousDay] || []) {
+    const open = toMinutes(range.open);
+    const close = toMinutes(range.close);
+    if (close < open && minutes < close) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether a resource is open at the given instant. Resources whose hours
+ * can't be parsed are treated as not open, since we can't promise they are.
+ */
+export function isResourceOpenAt(resource: Partial<FoodResource>, at: Date): boolean {
+  const schedule = resource.hours_schedule || parseHours(resource.hours);
+  if (!schedule) return false;
+  return isOpenAt(schedule, at, timeZoneForState(resource.state));
+}
+
+export function filterOpenAt<T extends Partial<FoodResource>>(resources: T[], at: Date): T[] {
+  return resources.filter((resource) => isResourceOpenAt(resource, at));
+}
+
+/**
+ * Read the open_now / open_at query parameters shared by search and export routes.
+ * Returns the instant to filter on, null when no filter was requested, or an error.
+ */
+export function parseOpenFilter(
+  params: URLSearchParams
+): { at: Date | null; error?: string } {
+  const openAt = params.get("open_at");
+  if (openAt) {
+    const at = new Date(openAt);
+    if (isNaN(at.getTime())) {
+      return { at: null, error: "open_at must be an ISO 8601 timestamp" };
+    }
+    return { at };
+  }
+
+  if (params.get("open_now") === "true") {
+    return { at: new Date() };
+  }
+
+  return { at: null };
+}
@@ -1,22 +1,31 @@
 #!/usr/bin/env bun
 // ABOUTME: CLI tool to systematically process all counties for food resource searches
-// ABOUTME: Supports filtering by state, batch sizing, and force re-processing
+// ABOUTME: Supports filtering by state, batch sizing, force re-processing and most-in-need-first ordering
 
 import { initDatabase } from "../core/database";
 import { getAllCounties, getCountiesByState, type County } from "../core/counties";
 import { searchFoodResourcesByCounty } from "../search/county-search";
+import { enqueueCrawlJob, type CrawlJob } from "../jobs/crawl-jobs";
+import { getResourceCountsByCounty, prioritizeCounties } from "../monitoring/monitoring";
+import type { Database } from "../core/database";
 
 interface ProcessOptions {
   state?: string;
   batchSize: number;
   force: boolean;
+  enqueue: boolean;
+  order: "need" | "gazetteer";
 }
 
+const JOB_POLL_INTERVAL_MS = 10000;
+
 function parseArgs(): ProcessOptions {
   const args = process.argv.slice(2);
   const options: ProcessOptions = {
     batchSize: 10,
     force: false,
+    enqueue: false,
+    order: "need",
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -27,6 +36,15 @@ function parseArgs(): ProcessOptions {
       options.batchSize = parseInt(arg.split("=")[1], 10);
     } else if (arg === "--force") {
       options.force = true;
+    } else if (arg === "--enqueue") {
+      options.enqueue = true;
+    } else if (arg?.startsWith("--order=")) {
+      const order = arg.split("=")[1];
+      if (order !== "need" && order !== "gazetteer") {
+        console.error("--order must be need or gazetteer");
+        process.exit(1);
+      }
+      options.order = order;
     } else if (arg === "--help" || arg === "-h") {
       console.log(`
 Usage: bun process-counties.ts [options]
@@ -37,6 +55,11 @@ Options:
   --state=XX          Process only counties in the specified state (e.g., --state=CA)
   --batch-size=N      Number of counties to process in each batch (default: 10)
   --force             Re-process counties that have already been searched
+  --enqueue           Submit crawl jobs to the server's job queue and poll them
+                      instead of crawling in this process
+  --order=ORDER       need (default): fewest resources per 10k residents in poverty
+                      first, then the most residents in poverty (needs the ACS data);
+                      gazetteer: state and county code order
   --help, -h          Show this help message
 
 Examples:
@@ -44,6 +67,8 @@ Examples:
   bun process-counties.ts --state=CA
   bun process-counties.ts --state=NY --batch-size=5
   bun process-counties.ts --force
+  bun process-counties.ts --state=PA --enqueue
+  bun process-counties.ts --order=gazetteer
       `);
       process.exit(0);
     }
@@ -81,13 +106,22 @@ async function main() {
     );
   }
 
-  console.log(`Processing ${countiesToProcess.length} counties...`);
+  if (options.order === "need") {
+    countiesToProcess = prioritizeCounties(countiesToProcess, await getResourceCountsByCounty(db));
+  }
+
+  console.log(`Processing ${countiesToProcess.length} counties (${options.order === "need" ? "most under-served first" : "gazetteer order"})...`);
 
   if (countiesToProcess.length === 0) {
     console.log("No counties to process. Use --force to re-process all.");
     process.exit(0);
   }
 
+  if (options.enqueue) {
+    await enqueueAndPoll(db, countiesToProcess);
+    process.exit(0);
+  }
+
   let processed = 0;
   let totalFound = 0;
 
@@ -112,9 +146,6 @@ async function main() {
         console.log(
           `    ✓ Found ${total} resources (${result.pantries.length} pantries, ${result.banks.length} banks, ${result.mixed.length} mixed) ${result.cached ? "[cached]" : ""}`
         );
-
-        // Small delay between searches to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 500));
       } catch (error) {
         console.error(`    ✗ Error processing ${county.name}:`, error);
       }
@@ -127,6 +158,49 @@ async function main() {
   process.exit(0);
 }
 
+/**
+ * Queue a county-search job per county and wait until every job finishes.
+ * The jobs are run by the crawl worker in the API server.
+ */
+async function enqueueAndPoll(db: Database, counties: County[]): Promise<void> {
+  const jobIds: number[] = [];
+  for (const county of counties) {
+    const { job, created } = await enqueueCrawlJob(db, "county-search", county);
+    jobIds.push(job.id);
+    if (!created) {
+      console.log(`  [${county.state}] ${county.name} already queued as job #${job.id}`);
+    }
+  }
+
+  console.log(`Queued ${jobIds.length} jobs, waiting for the crawl worker...`);
+
+  while (true) {
+    const jobs = await db<CrawlJob[]>`
+      SELECT * FROM crawl_jobs WHERE id = ANY(${jobIds})
+    `;
+
+    const counts = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+    for (const job of jobs) {
+      counts[job.status]++;
+    }
+
+    console.log(
+      `Progress: ${counts.succeeded} succeeded, ${counts.failed} failed, ${counts.cancelled} cancelled, ${counts.running} running, ${counts.queued} queued`
+    );
+
+    if (counts.queued === 0 && counts.running === 0) {
+      for (const job of jobs.filter((j) => j.status === "failed")) {
+        console.error(`  ✗ ${job.county_name}, ${job.state}: ${job.last_error}`);
+      }
+      break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+
+  console.log(`\nCompleted! ${jobIds.length} county jobs finished.`);
+}
+
 main().catch((error) => {
   console.error("Fatal error:", error);
   process.exit(1);
@@ -0,0 +1,167 @@
+// ABOUTME: Tests for outbound provider token buckets and the retry/backoff policy
+// ABOUTME: Uses a fake clock, fake sleep and stubbed fetch so nothing waits or hits the network
+
+import { test, expect, describe, afterEach } from "bun:test";
+import {
+  createLimitedFetch,
+  createMemoryBucketStore,
+  parseProviderLimits,
+  policyFor,
+  retryDelayMs,
+  takeToken,
+} from "./provider-limits";
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+const policy = { perSecond: 2, burst: 2, maxAttempts: 3 };
+
+describe("takeToken", () => {
+  test("spends the burst, then says how long until the next token", () => {
+    let { tokens, waitMs } = takeToken(2, 0, policy);
+    expect(waitMs).toBe(0);
+    ({ tokens, waitMs } = takeToken(tokens, 0, policy));
+    expect(waitMs).toBe(0);
+    ({ tokens, waitMs } = takeToken(tokens, 0, policy));
+    expect(waitMs).toBe(500);
+    expect(takeToken(tokens, 0.5, policy).waitMs).toBe(0);
+  });
+
+  test("never refills past the burst", () => {
+    expect(takeToken(0, 3600, policy).tokens).toBe(1);
+  });
+});
+
+describe("retryDelayMs", () => {
+  test("honors Retry-After in seconds or as a date, capped at a minute", () => {
+    expect(retryDelayMs(1, "3")).toBe(3000);
+    expect(retryDelayMs(1, new Date(10_000).toUTCString(), Math.random, 4_000)).toBe(6000);
+    expect(retryDelayMs(1, "3600")).toBe(60_000);
+  });
+
+  test("backs off exponentially with full jitter", () => {
+    expect(retryDelayMs(1, null, () => 0.999)).toBe(999);
+    expect(retryDelayMs(3, null, () => 0.5)).toBe(2000);
+    expect(retryDelayMs(20, null, () => 0.999)).toBe(29_970);
+    expect(retryDelayMs(2, null, () => 0)).toBe(0);
+  });
+});
+
+test("policies can be overridden per provider", () => {
+  process.env.PROVIDER_RATE_LIMITS = '{"google-places": {"per_second": 2, "max_attempts": 1}}';
+  expect(policyFor("google-places")).toEqual({ perSecond: 2, burst: 10, maxAttempts: 1 });
+  expect(() => parseProviderLimits('{"bing": {}}')).toThrow("not a provider");
+  expect(() => parseProviderLimits('{"jina": {"burst": 0}}')).toThrow("positive number");
+});
+
+describe("limitedFetch", () => {
+  function harness(responses: Array<Response | Error>) {
+    let clock = 0;
+    const slept: number[] = [];
+    const requested: string[] = [];
+    const bodies: string[] = [];
+    const store = createMemoryBucketStore(() => clock);
+    const limitedFetch = createLimitedFetch({
+      providerStore: store,
+      webStore: createMemoryBucketStore(() => clock),
+      fetch: async (input) => {
+        requested.push(input instanceof Request ? input.url : input.toString());
+        if (input instanceof Request) bodies.push(await input.text());
+        const next = responses.shift()!;
+        if (next instanceof Error) throw next;
+        return next;
+      },
+      sleep: async (ms) => {
+        slept.push(ms);
+        clock += ms;
+      },
+      random: () => 0.5,
+    });
+    return { limitedFetch, slept, requested, bodies, store };
+  }
+
+  test("retries a 429 after Retry-After and pauses the provider bucket", async () => {
+    process.env.PROVIDER_RATE_LIMITS = '{"google-places": {"per_second": 100, "burst": 100}}';
+    const { limitedFetch, slept, store } = harness([
+      new Response("slow down", { status: 429, headers: { "Retry-After": "2" } }),
+      Response.json({ status: "OK" }),
+    ]);
+
+    const response = await limitedFetch("https://maps.googleapis.com/maps/api/geocode/json?address=x");
+    expect(response.status).toBe(200);
+    // Slept once for Retry-After, after which the shared bucket is open again
+    expect(slept).toEqual([2000]);
+    expect(await store.take("google-places", policyFor("google-places"))).toBe(0);
+  });
+
+  test("gives up after maxAttempts and returns the last response", async () => {
+    process.env.PROVIDER_RATE_LIMITS = '{"openai": {"max_attempts": 2}}';
+    const { limitedFetch, requested } = harness([
+      new Response("", { status: 503 }),
+      new Response("", { status: 503 }),
+    ]);
+
+    const response = await limitedFetch("https://api.openai.com/v1/responses", { method: "POST" });
+    expect(response.status).toBe(503);
+    expect(requested).toHaveLength(2);
+  });
+
+  test("retries POSTs only when the provider says it didn't handle them", async () => {
+    const { limitedFetch, requested } = harness([
+      new Response("", { status: 503 }),
+      new Response("", { status: 500 }),
+      new TypeError("fetch failed"),
+    ]);
+
+    const response = await limitedFetch("https://api.openai.com/v1/responses", { method: "POST" });
+    expect(response.status).toBe(500);
+    expect(requested).toHaveLength(2);
+    await expect(limitedFetch("https://api.openai.com/v1/responses", { method: "POST" })).rejects.toThrow("fetch failed");
+    expect(requested).toHaveLength(3);
+  });
+
+  test("sends a fresh copy of a Request's body on each attempt", async () => {
+    const { limitedFetch, bodies } = harness([
+      new Response("", { status: 429, headers: { "Retry-After": "1" } }),
+      Response.json({ id: "resp_1" }),
+    ]);
+    const request = new Request("https://api.openai.com/v1/responses", { method: "POST", body: '{"input":"x"}' });
+
+    expect((await limitedFetch(request)).status).toBe(200);
+    expect(bodies).toEqual(['{"input":"x"}', '{"input":"x"}']);
+  });
+
+  test("retries network errors but not timeouts", async () => {
+    const { limitedFetch, requested } = harness([new TypeError("fetch failed"), new Response("ok")]);
+    expect(await (await limitedFetch("https://s.jina.ai/?q=pantry")).text()).toBe("ok");
+    expect(requested).toHaveLength(2);
+
+    const timeout = new Error("timed out");
+    timeout.name = "TimeoutError";
+    const second = harness([timeout]);
+    await expect(second.limitedFetch("https://r.jina.ai/https://example.org")).rejects.toThrow("timed out");
+  });
+
+  test("spaces calls once the burst is spent", async () => {
+    process.env.PROVIDER_RATE_LIMITS = '{"jina": {"per_second": 1, "burst": 1}}';
+    const { limitedFetch, slept } = harness([new Response("a"), new Response("b")]);
+    await limitedFetch("https://s.jina.ai/?q=a");
+    await limitedFetch("https://s.jina.ai/?q=b");
+    expect(slept).toEqual([1000]);
+  });
+
+  test("leaves other hosts alone unless asked to treat them as websites", async () => {
+    const { limitedFetch, requested, slept } = harness([
+      new Response("", { status: 503 }),
+      new Response("", { status: 503 }),
+      new Response("ok"),
+    ]);
+    expect((await limitedFetch("https://pantry.example.org")).status).toBe(503);
+    expect((await limitedFetch("https://pantry.example.org", undefined, "web")).status).toBe(200);
+    expect(requested).toHaveLength(3);
+    expect(slept).toHaveLength(1);
+  });
+});
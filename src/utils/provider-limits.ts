@@ -0,0 +1,302 @@
+// ABOUTME: Per-provider token buckets and retry policy for outbound calls to Google Places, OpenAI, Jina and websites
+// ABOUTME: Provider buckets live in Postgres once useSharedProviderLimits is called so every process shares one quota
+
+import type { Database } from "../core/database";
+import { providerForUrl, type CostProvider } from "../costs/pricing";
+import { externalApiDuration } from "../monitoring/metrics";
+import { createLogger } from "./logger";
+
+export type LimitedProvider = CostProvider | "web";
+
+export interface ProviderLimitPolicy {
+  perSecond: number; // Sustained request rate
+  burst: number; // Bucket size
+  maxAttempts: number; // Including the first try
+}
+
+const DEFAULT_POLICIES: Record<LimitedProvider, ProviderLimitPolicy> = {
+  "google-places": { perSecond: 10, burst: 10, maxAttempts: 4 }, // Default Places quota is 600/minute
+  openai: { perSecond: 5, burst: 5, maxAttempts: 4 },
+  jina: { perSecond: 0.33, burst: 2, maxAttempts: 4 }, // 20/minute without a key; see policyFor
+  web: { perSecond: 1, burst: 2, maxAttempts: 2 }, // Per host, for checking resource websites
+};
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// A POST that failed mid-flight or with a 5xx may still have been processed (and billed), so
+// only the statuses that mean "not handled" are retried for methods that aren't idempotent
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const NOT_HANDLED_STATUSES = new Set([429, 503]);
+
+const log = createLogger("limits");
+
+/**
+ * Parse overrides, e.g. {"google-places": {"per_second": 5}, "jina": {"burst": 5, "max_attempts": 2}}
+ */
+export function parseProviderLimits(json: string | undefined): Partial<Record<LimitedProvider, Partial<ProviderLimitPolicy>>> {
+  if (!json) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("PROVIDER_RATE_LIMITS must be a JSON object");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("PROVIDER_RATE_LIMITS must be a JSON object");
+  }
+
+  const overrides: Partial<Record<LimitedProvider, Partial<ProviderLimitPolicy>>> = {};
+  for (const [name, settings] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!(name in DEFAULT_POLICIES)) {
+      throw new Error(`PROVIDER_RATE_LIMITS.${name} is not a provider (use ${Object.keys(DEFAULT_POLICIES).join(", ")})`);
+    }
+    if (!settings || typeof settings !== "object") {
+      throw new Error(`PROVIDER_RATE_LIMITS.${name} must be an object`);
+    }
+    const { per_second, burst, max_attempts } = settings as Record<string, unknown>;
+    for (const [field, value] of Object.entries({ per_second, burst, max_attempts })) {
+      if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+        throw new Error(`PROVIDER_RATE_LIMITS.${name}.${field} must be a positive number`);
+      }
+    }
+    overrides[name as LimitedProvider] = {
+      perSecond: per_second as number | undefined,
+      burst: burst as number | undefined,
+      maxAttempts: max_attempts as number | undefined,
+    };
+  }
+  return overrides;
+}
+
+export function policyFor(provider: LimitedProvider): ProviderLimitPolicy {
+  const base = provider === "jina" && process.env.JINA_API_KEY
+    ? { ...DEFAULT_POLICIES.jina, perSecond: 3 } // 200/minute with a key
+    : DEFAULT_POLICIES[provider];
+  const override = parseProviderLimits(process.env.PROVIDER_RATE_LIMITS)[provider] || {};
+  return {
+    perSecond: override.perSecond ?? base.perSecond,
+    burst: override.burst ?? base.burst,
+    maxAttempts: override.maxAttempts ?? base.maxAttempts,
+  };
+}
+
+/**
+ * Refill a bucket for elapsed seconds and try to take one token. waitMs is 0 when a token was taken,
+ * otherwise how long until one will be available.
+ */
+export function takeToken(
+  tokens: number,
+  elapsedSeconds: number,
+  policy: ProviderLimitPolicy
+): { tokens: number; waitMs: number } {
+  const available = Math.min(policy.burst, tokens + Math.max(0, elapsedSeconds) * policy.perSecond);
+  if (available >= 1) {
+    return { tokens: available - 1, waitMs: 0 };
+  }
+  return { tokens: available, waitMs: Math.ceil(((1 - available) / policy.perSecond) * 1000) };
+}
+
+/**
+ * Delay before retry number `attempt` (1-based). Honors Retry-After (seconds or an HTTP date),
+ * otherwise exponential backoff with full jitter.
+ */
+export function retryDelayMs(
+  attempt: number,
+  retryAfter: string | null,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - now;
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, MAX_RETRY_AFTER_MS);
+  }
+  return Math.floor(random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt));
+}
+
+export interface BucketStore {
+  take(bucket: string, policy: ProviderLimitPolicy): Promise<number>; // ms to wait; 0 = token taken
+  block(bucket: string, ms: number): Promise<void>; // Nobody takes tokens until this passes
+}
+
+export function createMemoryBucketStore(now: () => number = Date.now): BucketStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; blockedUntil: number }>();
+
+  return {
+    async take(bucket, policy) {
+      const time = now();
+      const state = buckets.get(bucket) || { tokens: policy.burst, updatedAt: time, blockedUntil: 0 };
+      buckets.set(bucket, state);
+      if (state.blockedUntil > time) return state.blockedUntil - time;
+
+      const { tokens, waitMs } = takeToken(state.tokens, (time - state.updatedAt) / 1000, policy);
+      state.tokens = tokens;
+      state.updatedAt = time;
+      return waitMs;
+    },
+    async block(bucket, ms) {
+      const state = buckets.get(bucket) || { tokens: 0, updatedAt: now(), blockedUntil: 0 };
+      state.blockedUntil = Math.max(state.blockedUntil, now() + ms);
+      buckets.set(bucket, state);
+    },
+  };
+}
+
+/**
+ * Buckets in the provider_rate_limits table, timed by the database clock. A row lock serializes
+ * takers across processes.
+ */
+export function createPostgresBucketStore(db: Database): BucketStore {
+  return {
+    async take(bucket, policy) {
+      return await db.begin(async (tx) => {
+        await tx`
+          INSERT INTO provider_rate_limits (bucket, tokens, refilled_at)
+          VALUES (${bucket}, ${policy.burst}, clock_timestamp()::timestamp)
+          ON CONFLICT (bucket) DO NOTHING
+        `;
+        const [row] = await tx<Array<{ tokens: number; elapsed: number; blocked_for: number }>>`
+          SELECT
+            tokens,
+            EXTRACT(EPOCH FROM (clock_timestamp()::timestamp - refilled_at))::float AS elapsed,
+            COALESCE(EXTRACT(EPOCH FROM (blocked_until - clock_timestamp()::timestamp)), 0)::float AS blocked_for
+          FROM provider_rate_limits
+          WHERE bucket = ${bucket}
+          FOR UPDATE
+        `;
+        if (row!.blocked_for > 0) return Math.ceil(row!.blocked_for * 1000);
+
+        const { tokens, waitMs } = takeToken(row!.tokens, row!.elapsed, policy);
+        await tx`
+          UPDATE provider_rate_limits
+          SET tokens = ${tokens}, refilled_at = clock_timestamp()::timestamp
+          WHERE bucket = ${bucket}
+        `;
+        return waitMs;
+      });
+    },
+    async block(bucket, ms) {
+      await db`
+        INSERT INTO provider_rate_limits (bucket, tokens, refilled_at, blocked_until)
+        VALUES (${bucket}, 0, clock_timestamp()::timestamp, clock_timestamp()::timestamp + ${ms} * INTERVAL '1 millisecond')
+        ON CONFLICT (bucket) DO UPDATE SET
+          blocked_until = GREATEST(provider_rate_limits.blocked_until, EXCLUDED.blocked_until)
+      `;
+    },
+  };
+}
+
+type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export interface LimitedFetchOptions {
+  providerStore: BucketStore; // Paid providers
+  webStore: BucketStore; // Per-host website buckets, always in-process
+  fetch: FetchFunction;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+/**
+ * Build a fetch that waits for a token from the URL's provider bucket and retries 429s, 5xx responses
+ * and network errors with backoff; POSTs are only retried on 429 and 503. A 429 pauses the provider
+ * for everyone sharing the store. URLs that aren't a known provider pass straight through unless
+ * provider "web" is given.
+ */
+export function createLimitedFetch(options: LimitedFetchOptions) {
+  async function acquire(store: BucketStore, bucket: string, policy: ProviderLimitPolicy): Promise<void> {
+    for (;;) {
+      let waitMs: number;
+      try {
+        waitMs = await store.take(bucket, policy);
+      } catch (error) {
+        // Never let limiter bookkeeping stop an API call
+        log.error("Could not take a token", { bucket, error });
+        return;
+      }
+      if (waitMs <= 0) return;
+      await options.sleep(waitMs);
+    }
+  }
+
+  return async function limitedFetch(
+    input: string | URL | Request,
+    init?: RequestInit,
+    provider: LimitedProvider | null = null
+  ): Promise<Response> {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const resolved = provider || providerForUrl(url);
+    if (!resolved) {
+      return options.fetch(input, init);
+    }
+
+    const policy = policyFor(resolved);
+    const store = resolved === "web" ? options.webStore : options.providerStore;
+    const bucket = resolved === "web" ? `web:${url.hostname}` : resolved;
+    const method = (init?.method || (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const retryStatuses = IDEMPOTENT_METHODS.has(method) ? RETRY_STATUSES : NOT_HANDLED_STATUSES;
+
+    for (let attempt = 1; ; attempt++) {
+      await acquire(store, bucket, policy);
+
+      let response: Response;
+      const started = performance.now();
+      try {
+        // A Request's body can only be read once, so each attempt sends a fresh copy
+        response = await options.fetch(input instanceof Request ? (input.clone() as Request) : input, init);
+        externalApiDuration.observe({ provider: resolved, status: String(response.status) }, (performance.now() - started) / 1000);
+      } catch (error) {
+        externalApiDuration.observe({ provider: resolved, status: "error" }, (performance.now() - started) / 1000);
+        const aborted = error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+        if (aborted || !IDEMPOTENT_METHODS.has(method) || attempt >= policy.maxAttempts) throw error;
+        const delay = retryDelayMs(attempt, null, options.random);
+        log.warn("Request failed, retrying", { bucket, error, delay_ms: delay, attempt: attempt + 1, max_attempts: policy.maxAttempts });
+        await options.sleep(delay);
+        continue;
+      }
+
+      if (!retryStatuses.has(response.status) || attempt >= policy.maxAttempts) {
+        return response;
+      }
+
+      const delay = retryDelayMs(attempt, response.headers.get("retry-after"), options.random);
+      if (response.status === 429) {
+        await store.block(bucket, delay).catch((error) => {
+          log.error("Could not pause bucket", { bucket, error });
+        });
+      }
+      log.warn("Retryable response, retrying", {
+        bucket,
+        status: response.status,
+        delay_ms: delay,
+        attempt: attempt + 1,
+        max_attempts: policy.maxAttempts,
+      });
+      await response.body?.cancel();
+      await options.sleep(delay);
+    }
+  };
+}
+
+const defaults: LimitedFetchOptions = {
+  providerStore: createMemoryBucketStore(),
+  webStore: createMemoryBucketStore(),
+  fetch: (input, init) => fetch(input, init),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: Math.random,
+};
+
+/**
+ * Rate-limited fetch shared by everything in this process
+ */
+export const limitedFetch = createLimitedFetch(defaults);
+
+/**
+ * Move provider buckets into Postgres so all server processes share one quota per provider
+ */
+export function useSharedProviderLimits(db: Database): void {
+  defaults.providerStore = createPostgresBucketStore(db);
+}
@@ -2,7 +2,7 @@
 // ABOUTME: Validates blocked patterns and ensures food distribution sites aren't filtered
 
 import { test, expect, describe } from "bun:test";
-import { filterBySource } from "../utils/source-filter";
+import { filterBySource, sourceRejection } from "../utils/source-filter";
 import type { FoodResource } from "../core/database";
 
 describe("filterBySource", () => {
@@ -179,3 +179,18 @@ describe("filterBySource", () => {
     });
   });
 });
+
+describe("sourceRejection", () => {
+  test("names the rule that fired and what it matched", () => {
+    expect(sourceRejection({ name: "Cowley County Housing Authority" })?.rule).toBe("blocked_name_pattern");
+    expect(sourceRejection({ name: "Hope Pantry", source_url: "https://www.facebook.com/hopepantry" })).toEqual({
+      rule: "blocked_domain",
+      detail: "social-domain-2: facebook.com",
+    });
+    expect(sourceRejection({ name: "Hope Pantry", source_url: "not a url" })).toEqual({ rule: "invalid_url", detail: null });
+  });
+
+  test("returns null for resources that pass", () => {
+    expect(sourceRejection({ name: "St. Mary's Church Food Pantry", source_url: "https://stmarys.org/pantry" })).toBeNull();
+  });
+});
@@ -1,12 +1,10 @@
 // ABOUTME: AI-powered validation using OpenAI to check if location serves food
 // ABOUTME: Uses cheap model to validate suspicious resources quickly
 
-import OpenAI from "openai";
 import type { FoodResource } from "../core/database";
+import { createOpenAIClient } from "../utils/api-fixtures";
 
-const client = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const client = createOpenAIClient();
 
 export interface ValidationResult {
   is_food_resource: boolean;
@@ -106,9 +104,6 @@ export async function validateBatch(
     if (onProgress) {
       onProgress(i + 1, resources.length);
     }
-
-    // Rate limiting: small delay between requests
-    await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
   return results;
@@ -1,12 +1,17 @@
 // ABOUTME: Validates and enriches food resource data using Jina AI web scraping
 // ABOUTME: Fetches website content, extracts structured data, and returns enrichment data
 
-import OpenAI from "openai";
 import type { FoodResource, Database } from "../core/database";
+import { updateResource, type ChangeContext } from "../core/resource-changes";
+import { parseAddress } from "../utils/address";
+import { fixtureFetch, createOpenAIClient } from "../utils/api-fixtures";
+import { jinaValidationOutcomes } from "../monitoring/metrics";
+import { createLogger } from "../utils/logger";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const openai = createOpenAIClient();
+const log = createLogger("jina");
+
+const JINA_CHANGE_CONTEXT: ChangeContext = { source: "jina", changedBy: "jina-validator" };
 
 function standardizePhoneNumber(phone: string | null): string | null {
   if (!phone) return null;
@@ -22,7 +27,7 @@ function standardizePhoneNumber(phone: string | null): string | null {
   }
 
   // Invalid format - return null
-  console.log(`    WARNING: Invalid phone format: ${phone}`);
+  log.warn("Invalid phone format", { phone });
   return null;
 }
 
@@ -71,8 +76,9 @@ async function searchForDedicatedUrl(
 ): Promise<string | null> {
   try {
     // Build a specific search query (without quotes to avoid API issues)
-    const query = `${resource.name} ${resource.street_address} ${resource.city} ${resource.state}`;
-    console.log(`[Jina] Searching for dedicated URL: ${query}`);
+    const address = parseAddress(resource.address, resource);
+    const query = [resource.name, address.street_line1, address.city, address.state].filter(Boolean).join(" ");
+    log.info("Searching for dedicated URL", { name: resource.name, query });
 
     const url = new URL("https://s.jina.ai/");
     url.searchParams.set("q", query);
@@ -88,23 +94,22 @@ async function searchForDedicatedUrl(
       headers["Authorization"] = `Bearer ${process.env.JINA_API_KEY}`;
     }
 
-    const response = await fetch(url.toString(), { headers });
+    const response = await fixtureFetch(url.toString(), { headers });
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unable to read error');
-      console.log(`[Jina] Search failed: HTTP ${response.status}`);
-      console.log(`[Jina] Error response: ${errorText.substring(0, 200)}`);
+      log.warn("Dedicated URL search failed", { name: resource.name, status: response.status, response: errorText.substring(0, 200) });
       return null;
     }
 
     const data = await response.json() as JinaSearchResponse;
 
     if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-      console.log(`[Jina] No search results found`);
+      log.info("No search results found", { name: resource.name });
       return null;
     }
 
-    console.log(`[Jina] Found ${data.data.length} search results`);
+    log.debug("Search results", { name: resource.name, count: data.data.length });
 
     // Score and sort results by quality
     const scoredResults = data.data.slice(0, 10).map(result => {
@@ -132,7 +137,7 @@ async function searchForDedicatedUrl(
 
     // Look through top scored results
     for (const { result, score } of scoredResults.slice(0, 5)) {
-      console.log(`[Jina] Checking (score: ${score}): ${result.title} (${result.url})`);
+      log.debug("Checking search result", { name: resource.name, score, title: result.title, url: result.url });
       const lowerUrl = result.url.toLowerCase();
       const lowerTitle = result.title.toLowerCase();
       const lowerContent = result.content.toLowerCase();
@@ -154,7 +159,7 @@ async function searchForDedicatedUrl(
       });
 
       if (shouldSkip) {
-        console.log(`[Jina] Skipping: ${result.url}`);
+        log.debug("Skipping search result", { name: resource.name, url: result.url });
         continue;
       }
 
@@ -170,19 +175,19 @@ async function searchForDedicatedUrl(
 
       // Match if key name appears in title or content
       if (keyName && (normalizedTitle.includes(keyName) || normalizedContent.includes(keyName))) {
-        console.log(`[Jina] ✓ Found match for "${keyName}"`);
+        log.info("Search result matches resource", { name: resource.name, key_name: keyName, url: result.url });
         // Don't return immediately - we might want to verify it's not another directory
         // Collect potential matches and return the best one
         return result.url;
       }
 
-      console.log(`[Jina]   × No match for "${keyName}"`);
+      log.debug("Search result does not match resource", { name: resource.name, key_name: keyName, url: result.url });
     }
 
-    console.log(`[Jina] No dedicated URL found in search results`);
+    log.info("No dedicated URL found in search results", { name: resource.name });
     return null;
   } catch (error) {
-    console.log(`[Jina] Search error: ${error instanceof Error ? error.message : String(error)}`);
+    log.warn("Dedicated URL search error", { name: resource.name, error });
     return null;
   }
 }
@@ -201,7 +206,7 @@ async function fetchWithJina(url: string): Promise<JinaResponse> {
       headers['Authorization'] = `Bearer ${process.env.JINA_API_KEY}`;
     }
 
-    const response = await fetch(jinaUrl, { headers });
+    const response = await fixtureFetch(jinaUrl, { headers });
 
     if (!response.ok) {
       return { success: false, error: `HTTP ${response.status}` };
@@ -292,7 +297,7 @@ Return only the full URLs (not the link text).`;
     const response = JSON.parse(content);
     return response.selected_links.slice(0, 2);
   } catch (error) {
-    console.log(`    ERROR selecting links: ${error instanceof Error ? error.message : String(error)}`);
+    log.warn("Selecting links failed", { error });
     return [];
   }
 }
@@ -316,8 +321,6 @@ async function fetchMultiPageContent(url: string): Promise<JinaResponse & { page
 
     if (selectedLinks.length > 0) {
       for (const link of selectedLinks) {
-        await new Promise(resolve => setTimeout(resolve, 3500));
-
         const subResult = await fetchWithJina(link);
 
         if (subResult.success && subResult.text) {
@@ -436,7 +439,7 @@ CRITICAL RULES FOR DIRECTORY LISTINGS:
 
     // Validate phone number - should only be one number
     if (extracted.phone && extracted.phone.includes(',')) {
-      console.log(`    WARNING: Multiple phone numbers detected, discarding: ${extracted.phone}`);
+      log.warn("Multiple phone numbers detected, discarding", { phone: extracted.phone });
       extracted.phone = null;
     }
 
@@ -444,14 +447,14 @@ CRITICAL RULES FOR DIRECTORY LISTINGS:
     if (extracted.phone) {
       const standardized = standardizePhoneNumber(extracted.phone);
       if (standardized !== extracted.phone) {
-        console.log(`    Standardized phone: "${extracted.phone}" → "${standardized}"`);
+        log.debug("Standardized phone", { phone: extracted.phone, standardized });
       }
       extracted.phone = standardized;
     }
 
     return extracted;
   } catch (error) {
-    console.log(`    ERROR in LLM call: ${error instanceof Error ? error.message : String(error)}`);
+    log.warn("Extraction failed", { name: resourceName, error });
     return {
       is_food_resource: true,
       is_directory_listing: false,
@@ -480,12 +483,12 @@ export async function validateResourceWithJina(
       };
     }
 
-    console.log(`[Jina] Validating: ${resource.name} (${resource.source_url})`);
+    log.info("Validating resource", { name: resource.name, url: resource.source_url });
 
     const webResult = await fetchMultiPageContent(resource.source_url);
 
     if (!webResult.success) {
-      console.log(`[Jina] Fetch failed: ${webResult.error}`);
+      log.info("Dropped: website failed to load", { name: resource.name, url: resource.source_url, reason: webResult.error });
       return {
         success: false,
         should_mark_unexportable: true,
@@ -493,14 +496,19 @@ export async function validateResourceWithJina(
       };
     }
 
-    console.log(`[Jina] Fetched ${webResult.text?.length || 0} chars from ${webResult.pages_fetched?.length || 1} page(s)`);
+    log.debug("Fetched website", { name: resource.name, chars: webResult.text?.length || 0, pages: webResult.pages_fetched?.length || 1 });
 
     const extractedData = await extractDataFromWebsite(webResult.text || '', resource.name);
 
-    console.log(`[Jina] Is food resource: ${extractedData.is_food_resource} (confidence: ${extractedData.confidence})`);
-    console.log(`[Jina] Is directory listing: ${extractedData.is_directory_listing}`);
+    log.info("Extracted website data", {
+      name: resource.name,
+      is_food_resource: extractedData.is_food_resource,
+      is_directory_listing: extractedData.is_directory_listing,
+      confidence: extractedData.confidence,
+    });
 
     if (!extractedData.is_food_resource) {
+      log.info("Dropped: not a food resource", { name: resource.name, url: resource.source_url, reason: extractedData.reasoning });
       return {
         success: true,
         extracted_data: extractedData,
@@ -511,24 +519,27 @@ export async function validateResourceWithJina(
 
     // If this is a directory listing, try to find a better URL
     if (extractedData.is_directory_listing) {
-      console.log(`[Jina] Directory listing detected, searching for dedicated URL...`);
+      log.info("Directory listing detected, searching for dedicated URL", { name: resource.name, url: resource.source_url });
       const betterUrl = await searchForDedicatedUrl(resource);
 
       if (betterUrl && betterUrl !== resource.source_url) {
-        console.log(`[Jina] Found better URL: ${betterUrl}`);
-        console.log(`[Jina] Re-fetching with dedicated URL...`);
+        log.info("Re-fetching with dedicated URL", { name: resource.name, url: betterUrl });
 
         // Fetch the dedicated page
         const dedicatedResult = await fetchMultiPageContent(betterUrl);
 
         if (dedicatedResult.success) {
-          console.log(`[Jina] Successfully fetched dedicated page (${dedicatedResult.text?.length || 0} chars)`);
+          log.debug("Fetched dedicated page", { name: resource.name, chars: dedicatedResult.text?.length || 0 });
 
           // Re-extract data from the dedicated page
           const dedicatedData = await extractDataFromWebsite(dedicatedResult.text || '', resource.name);
 
-          console.log(`[Jina] Dedicated page - Is food resource: ${dedicatedData.is_food_resource}`);
-          console.log(`[Jina] Dedicated page - Is directory: ${dedicatedData.is_directory_listing}`);
+          log.info("Extracted dedicated page data", {
+            name: resource.name,
+            url: betterUrl,
+            is_food_resource: dedicatedData.is_food_resource,
+            is_directory_listing: dedicatedData.is_directory_listing,
+          });
 
           // If the dedicated page is valid and not also a directory, use it
           if (dedicatedData.is_food_resource && !dedicatedData.is_directory_listing) {
@@ -538,10 +549,10 @@ export async function validateResourceWithJina(
               better_url: betterUrl,
             };
           } else {
-            console.log(`[Jina] Dedicated page not suitable, falling back to directory extraction`);
+            log.info("Dedicated page not suitable, falling back to directory extraction", { name: resource.name, url: betterUrl });
           }
         } else {
-          console.log(`[Jina] Failed to fetch dedicated page: ${dedicatedResult.error}`);
+          log.info("Failed to fetch dedicated page", { name: resource.name, url: betterUrl, reason: dedicatedResult.error });
         }
       }
     }
@@ -551,7 +562,7 @@ export async function validateResourceWithJina(
       extracted_data: extractedData,
     };
   } catch (error) {
-    console.log(`[Jina] Exception: ${error instanceof Error ? error.message : String(error)}`);
+    log.error("Validation failed", { name: resource.name, error });
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
@@ -567,40 +578,61 @@ export async function applyJinaValidation(
   resource: FoodResource,
   validationResult: JinaValidationResult
 ): Promise<void> {
-  if (!validationResult.success || !validationResult.extracted_data) {
-    // Mark as unexportable if validation failed or determined it's not a food resource
+  // Mark as unexportable if validation failed or determined it's not a food resource
+  if (!validationResult.success || !validationResult.extracted_data || validationResult.should_mark_unexportable) {
     if (validationResult.should_mark_unexportable) {
-      await db`
-        UPDATE resources
-        SET
-          exportable = ${false},
-          verification_notes = ${validationResult.unexportable_reason || 'Jina validation failed'}
-        WHERE id = ${resource.id}
-      `;
-      console.log(`[Jina] ⛔ Marked unexportable: ${resource.name}`);
+      await updateResource(
+        db,
+        resource.id!,
+        {
+          exportable: false,
+          verification_notes: validationResult.unexportable_reason || 'Jina validation failed',
+          // Without extracted data the website itself failed to load
+          verification_signals: validationResult.extracted_data
+            ? {
+                jina_is_food_resource: validationResult.extracted_data.is_food_resource,
+                jina_confidence: validationResult.extracted_data.confidence,
+              }
+            : { url_valid: false },
+        },
+        JINA_CHANGE_CONTEXT
+      );
+      jinaValidationOutcomes.inc({ outcome: "marked_unexportable" });
+      log.info("Marked unexportable", { name: resource.name, reason: validationResult.unexportable_reason });
+    } else {
+      jinaValidationOutcomes.inc({ outcome: "failed" });
     }
     return;
   }
 
   const extracted = validationResult.extracted_data;
 
-  // Update resource with extracted data and better URL if found
-  await db`
-    UPDATE resources
-    SET
-      source_url = COALESCE(${validationResult.better_url}, source_url),
-      hours = COALESCE(${extracted.hours}, hours),
-      phone = COALESCE(${extracted.phone}, phone),
-      services_offered = COALESCE(${extracted.services}, services_offered),
-      eligibility_requirements = COALESCE(${extracted.eligibility}, eligibility_requirements),
-      verification_notes = ${`Validated via Jina on ${new Date().toISOString()}: ${extracted.reasoning}`},
-      last_verified_at = CURRENT_TIMESTAMP
-    WHERE id = ${resource.id}
-  `;
+  // Update resource with extracted data and better URL if found.
+  // Previous values are kept in resource_changes.
+  await updateResource(
+    db,
+    resource.id!,
+    {
+      source_url: validationResult.better_url ?? undefined,
+      hours: extracted.hours ?? undefined,
+      phone: extracted.phone ?? undefined,
+      services_offered: extracted.services ?? undefined,
+      eligibility_requirements: extracted.eligibility ?? undefined,
+      verification_notes: `Validated via Jina on ${new Date().toISOString()}: ${extracted.reasoning}`,
+      last_verified_at: new Date().toISOString(),
+      verification_signals: {
+        jina_is_food_resource: extracted.is_food_resource,
+        jina_confidence: extracted.confidence,
+        url_valid: true,
+      },
+    },
+    JINA_CHANGE_CONTEXT
+  );
 
+  jinaValidationOutcomes.inc({ outcome: validationResult.better_url ? "updated_with_url" : "updated" });
   if (validationResult.better_url) {
-    console.log(`[Jina] ✅ Updated with dedicated URL: ${resource.name}`);
+    log.info("Updated with dedicated URL", { name: resource.name, url: validationResult.better_url });
   } else {
-    console.log(`[Jina] ✅ Updated: ${resource.name}`);
+    log.info("Updated", { name: resource.name });
   }
 }
@@ -0,0 +1,99 @@
+// ABOUTME: Tests for the quality score that combines verification signals
+// ABOUTME: Covers signal weighting, checks that haven't run, the suspicion penalty and min_quality parsing
+
+import { test, expect, describe } from "bun:test";
+import type { FoodResource } from "../core/database";
+import { DEFAULT_FILTER_RULES } from "../filters/default-rules";
+import type { FilterRule } from "../filters/rules";
+import { computeQualityScore, parseMinQuality } from "./quality-score";
+
+const rules: FilterRule[] = DEFAULT_FILTER_RULES.map((r, i) => ({ ...r, id: i + 1, builtin: true }));
+
+function resource(fields: Partial<FoodResource> = {}): FoodResource {
+  return {
+    id: 1,
+    name: "Hope Food Pantry",
+    address: "1 Main St",
+    type: "pantry",
+    phone: "555-0100",
+    is_verified: true,
+    google_place_id: "ChIJhope",
+    source_url: "https://hopepantry.org",
+    ...fields,
+  };
+}
+
+describe("computeQualityScore", () => {
+  test("a resource every check agrees on scores 100", () => {
+    const { score, breakdown } = computeQualityScore(
+      resource({
+        verification_signals: {
+          business_status: "OPERATIONAL",
+          rating_count: 150,
+          url_valid: true,
+          jina_is_food_resource: true,
+          jina_confidence: "high",
+          ai_is_food_resource: true,
+          ai_confidence: 100,
+        },
+      }),
+      rules
+    );
+    expect(score).toBe(100);
+    expect(breakdown.components.map((c) => c.signal)).toEqual(["verified", "business_status", "rating_count", "url", "jina", "ai"]);
+    expect(breakdown.suspicion_penalty).toBe(0);
+  });
+
+  test("checks that haven't run are left out instead of counting against the resource", () => {
+    const { score, breakdown } = computeQualityScore(resource(), rules);
+    // verified (15 × 1) and a Google match with no status yet (25 × 0.8) out of 40
+    expect(breakdown.components.map((c) => c.signal)).toEqual(["verified", "business_status"]);
+    expect(score).toBe(88);
+  });
+
+  test("negative signals pull the score down", () => {
+    const { score, breakdown } = computeQualityScore(
+      resource({
+        verification_signals: { business_status: "CLOSED_PERMANENTLY", url_valid: false, ai_is_food_resource: false, ai_confidence: 90 },
+      }),
+      rules
+    );
+    expect(breakdown.components.find((c) => c.signal === "ai")?.value).toBe(0.1);
+    expect(score).toBe(Math.round((100 * (15 + 0 + 0 + 2)) / 70));
+  });
+
+  test("a Jina verdict that the site isn't a food resource outweighs its confidence", () => {
+    const { breakdown } = computeQualityScore(
+      resource({ verification_signals: { jina_is_food_resource: false, jina_confidence: "high" } }),
+      rules
+    );
+    expect(breakdown.components.find((c) => c.signal === "jina")).toMatchObject({ value: 0, weight: 20 });
+  });
+
+  test("resources without a website get no URL credit", () => {
+    const { breakdown } = computeQualityScore(resource({ source_url: undefined }), rules);
+    expect(breakdown.components.find((c) => c.signal === "url")).toMatchObject({ value: 0, detail: "No website" });
+  });
+
+  test("false-positive suspicion is subtracted from the evidence", () => {
+    const { score, breakdown } = computeQualityScore(resource({ name: "Community Blood Bank", type: "bank" }), rules);
+    expect(breakdown.suspicion).toBeGreaterThan(0);
+    expect(breakdown.suspicion_penalty).toBe(Math.round(breakdown.suspicion / 2));
+    expect(score).toBe(Math.max(0, breakdown.evidence - breakdown.suspicion_penalty));
+    expect(breakdown.suspicion_reasons.length).toBeGreaterThan(0);
+  });
+});
+
+describe("parseMinQuality", () => {
+  test("accepts whole numbers from 0 to 100 and defaults to no threshold", () => {
+    expect(parseMinQuality(new URLSearchParams())).toEqual({ min: null });
+    expect(parseMinQuality(new URLSearchParams("min_quality=0"))).toEqual({ min: 0 });
+    expect(parseMinQuality(new URLSearchParams("min_quality=75"))).toEqual({ min: 75 });
+  });
+
+  test("rejects anything else", () => {
+    for (const value of ["101", "-1", "7.5", "high"]) {
+      expect(parseMinQuality(new URLSearchParams({ min_quality: value })).error).toMatch(/^min_quality/);
+    }
+  });
+});
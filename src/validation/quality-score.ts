@@ -0,0 +1,214 @@
+// ABOUTME: Combines a resource's verification signals into a 0-100 quality score with a stored breakdown
+// ABOUTME: Evidence from Google, Jina, OpenAI and URL checks is weighted, then the false-positive suspicion is subtracted
+
+import type { Database, FoodResource, VerificationSignals } from "../core/database";
+import { activeFilterRules, type FilterRule } from "../filters/rules";
+import { analyzeResource } from "./false-positive-detector";
+import { createLogger } from "../utils/logger";
+
+export type QualitySignal = "verified" | "business_status" | "rating_count" | "url" | "jina" | "ai";
+
+export interface QualityComponent {
+  signal: QualitySignal;
+  value: number; // 0-1
+  weight: number;
+  detail: string;
+}
+
+export interface QualityBreakdown {
+  components: QualityComponent[];
+  evidence: number; // Weighted average of the components, 0-100
+  suspicion: number; // False-positive detector score, 0-100
+  suspicion_penalty: number;
+  suspicion_reasons: string[];
+}
+
+// Checks that haven't run are left out rather than counted as failures, so a resource is
+// scored on the evidence there is. Verification and the Google match always count.
+const WEIGHTS: Record<QualitySignal, number> = {
+  verified: 15,
+  business_status: 25,
+  rating_count: 10,
+  url: 10,
+  jina: 20,
+  ai: 20,
+};
+
+const BUSINESS_STATUS_VALUES: Record<NonNullable<VerificationSignals["business_status"]>, number> = {
+  OPERATIONAL: 1,
+  CLOSED_TEMPORARILY: 0.3,
+  CLOSED_PERMANENTLY: 0,
+  NOT_FOUND: 0.2,
+};
+
+const JINA_CONFIDENCE_VALUES: Record<NonNullable<VerificationSignals["jina_confidence"]>, number> = {
+  high: 1,
+  medium: 0.7,
+  low: 0.4,
+};
+
+// Each suspicion point costs half a quality point
+const SUSPICION_PENALTY_RATE = 0.5;
+
+const log = createLogger("quality-score");
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function components(resource: FoodResource): QualityComponent[] {
+  const signals = resource.verification_signals || {};
+  const list: QualityComponent[] = [];
+  const add = (signal: QualitySignal, value: number, detail: string) => {
+    list.push({ signal, value: round2(value), weight: WEIGHTS[signal], detail });
+  };
+
+  add("verified", resource.is_verified ? 1 : 0, resource.is_verified ? "Verified" : "Not verified");
+
+  if (signals.business_status) {
+    add("business_status", BUSINESS_STATUS_VALUES[signals.business_status], `Google Places: ${signals.business_status}`);
+  } else if (resource.google_place_id) {
+    add("business_status", 0.8, "Matched to a Google place, status not checked");
+  } else {
+    add("business_status", 0, "Not matched to a Google place");
+  }
+
+  if (signals.rating_count != null) {
+    // 100 or more reviews counts in full
+    add("rating_count", Math.min(1, Math.log10(1 + signals.rating_count) / 2), `${signals.rating_count} Google reviews`);
+  }
+
+  if (!resource.source_url) {
+    add("url", 0, "No website");
+  } else if (signals.url_valid != null) {
+    add("url", signals.url_valid ? 1 : 0, signals.url_valid ? "Website checked" : "Website failed validation");
+  }
+
+  if (signals.jina_is_food_resource === false) {
+    add("jina", 0, "Website doesn't describe a food resource");
+  } else if (signals.jina_confidence) {
+    add("jina", JINA_CONFIDENCE_VALUES[signals.jina_confidence], `Website checked, ${signals.jina_confidence} confidence`);
+  }
+
+  if (signals.ai_confidence != null) {
+    const confidence = Math.max(0, Math.min(100, signals.ai_confidence)) / 100;
+    add(
+      "ai",
+      signals.ai_is_food_resource === false ? 1 - confidence : confidence,
+      `AI validation: ${signals.ai_is_food_resource === false ? "not " : ""}a food resource (${signals.ai_confidence}% confidence)`
+    );
+  }
+
+  return list;
+}
+
+/**
+ * Score a resource from its verification signals and the current filter rules
+ */
+export function computeQualityScore(
+  resource: FoodResource,
+  rules: FilterRule[] = activeFilterRules()
+): { score: number; breakdown: QualityBreakdown } {
+  const parts = components(resource);
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  const evidence = Math.round((100 * parts.reduce((sum, part) => sum + part.value * part.weight, 0)) / totalWeight);
+
+  const suspicion = analyzeResource(resource, rules);
+  const penalty = Math.round(suspicion.score * SUSPICION_PENALTY_RATE);
+
+  return {
+    score: Math.max(0, Math.min(100, evidence - penalty)),
+    breakdown: {
+      components: parts,
+      evidence,
+      suspicion: suspicion.score,
+      suspicion_penalty: penalty,
+      suspicion_reasons: suspicion.reasons,
+    },
+  };
+}
+
+/**
+ * quality_score and quality_breakdown column values for a resource, ready to write
+ */
+export function qualityColumns(
+  resource: FoodResource,
+  rules?: FilterRule[]
+): { quality_score: number; quality_breakdown: string } {
+  const { score, breakdown } = computeQualityScore(resource, rules);
+  return { quality_score: score, quality_breakdown: JSON.stringify(breakdown) };
+}
+
+const REFRESH_BATCH_SIZE = 500;
+
+/**
+ * Recompute stored scores, for resources written outside updateResource/createResource and after
+ * filter rule changes. Only rows whose score or breakdown changed are written, so unchanged
+ * resources don't reappear in /export/changes. Returns how many rows changed.
+ */
+export async function refreshQualityScores(db: Database, ids?: number[]): Promise<number> {
+  if (ids && ids.length === 0) return 0;
+  const rules = activeFilterRules();
+  let changed = 0;
+
+  const query = db<FoodResource[]>`
+    SELECT * FROM resources
+    ${ids ? db`WHERE id = ANY(${ids})` : db``}
+    ORDER BY id
+  `;
+  for await (const batch of query.cursor(REFRESH_BATCH_SIZE)) {
+    for (const resource of batch) {
+      const { score, breakdown } = computeQualityScore(resource, rules);
+      // jsonb doesn't keep key order, so compare the breakdown structurally
+      if (resource.quality_score === score && Bun.deepEquals(resource.quality_breakdown, breakdown)) continue;
+      await db`
+        UPDATE resources
+        SET quality_score = ${score}, quality_breakdown = ${JSON.stringify(breakdown)}
+        WHERE id = ${resource.id!}
+      `;
+      changed++;
+    }
+  }
+
+  if (!ids) log.info("Refreshed quality scores", { changed });
+  return changed;
+}
+
+let backgroundRefresh: Promise<void> | null = null;
+let refreshAgain = false;
+
+/**
+ * Rescore every resource without waiting, at startup and after filter rules change. A request
+ * made while a refresh is running queues one more pass, so the last rule change always counts.
+ */
+export function scheduleQualityRefresh(db: Database): void {
+  if (backgroundRefresh) {
+    refreshAgain = true;
+    return;
+  }
+  backgroundRefresh = (async () => {
+    do {
+      refreshAgain = false;
+      try {
+        await refreshQualityScores(db);
+      } catch (error) {
+        log.error("Quality score refresh failed", { error });
+      }
+    } while (refreshAgain);
+    backgroundRefresh = null;
+  })();
+}
+
+/**
+ * Read the min_quality query parameter of the export routes. Returns the threshold, null when
+ * the exportable flag should decide instead, or an error.
+ */
+export function parseMinQuality(params: URLSearchParams): { min: number | null; error?: string } {
+  const value = params.get("min_quality");
+  if (value === null || value === "") return { min: null };
+  const min = Number(value);
+  if (!Number.isInteger(min) || min < 0 || min > 100) {
+    return { min: null, error: "min_quality must be a whole number from 0 to 100" };
+  }
+  return { min };
+}
@@ -0,0 +1,145 @@
+// ABOUTME: Background scheduler that re-verifies resources whose last verification is older than REVERIFY_AFTER_DAYS
+// ABOUTME: Re-checks Google Places business status and the website with Jina, then updates exportable and is_verified
+
+import type { Database, FoodResource } from "../core/database";
+import { checkBusinessStatus, type BusinessStatus } from "../enrichment/google-places";
+import { validateResourceWithJina, applyJinaValidation, type JinaValidationResult } from "./jina-validator";
+import { updateResource, type ChangeContext } from "../core/resource-changes";
+import { createBudgetGuard } from "../costs/ledger";
+import { withCallContext } from "../core/call-context";
+import { reverificationOutcomes } from "../monitoring/metrics";
+import { createLogger } from "../utils/logger";
+import { businessStatusUpdates, reverifyMaxAgeDays, selectStaleResources } from "./reverification";
+
+const BATCH_SIZE = 10;
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+const REVERIFY_CHANGE_CONTEXT: ChangeContext = { source: "google-places", changedBy: "reverification" };
+const log = createLogger("reverification");
+
+export type ReverificationOutcome =
+  | "verified"
+  | "temporarily_closed"
+  | "permanently_closed"
+  | "place_not_found"
+  | "requeued_for_enrichment"
+  | "website_rejected"
+  | "error";
+
+export interface ReverificationDeps {
+  checkStatus: (placeId: string) => Promise<{ status: BusinessStatus | null; failureReason?: string }>;
+  validateWebsite: ((resource: FoodResource) => Promise<JinaValidationResult>) | null;
+}
+
+/**
+ * Re-verify one resource. Resources without a Google place ID go back through enrichment, which
+ * re-matches them and runs Jina; the rest get a business status check and, if still operating
+ * and they have a website, a Jina validation.
+ */
+export async function reverifyResource(
+  db: Database,
+  resource: FoodResource,
+  deps: ReverificationDeps
+): Promise<ReverificationOutcome> {
+  if (!resource.google_place_id) {
+    await updateResource(
+      db,
+      resource.id!,
+      { needs_enrichment: true, enrichment_failure_count: 0 },
+      REVERIFY_CHANGE_CONTEXT
+    );
+    return "requeued_for_enrichment";
+  }
+
+  const { status, failureReason } = await deps.checkStatus(resource.google_place_id);
+  if (!status) {
+    log.warn("Business status check failed", { name: resource.name, reason: failureReason });
+    return "error";
+  }
+
+  const updated = await updateResource(
+    db,
+    resource.id!,
+    { ...businessStatusUpdates(resource, status, new Date().toISOString()), verification_signals: { business_status: status } },
+    REVERIFY_CHANGE_CONTEXT
+  );
+  if (status === "CLOSED_PERMANENTLY") return "permanently_closed";
+  if (status === "CLOSED_TEMPORARILY") return "temporarily_closed";
+  if (status === "NOT_FOUND") return "place_not_found";
+
+  if (deps.validateWebsite && updated?.source_url) {
+    const jinaResult = await deps.validateWebsite(updated);
+    await applyJinaValidation(db, updated, jinaResult);
+    if (jinaResult.should_mark_unexportable) {
+      await updateResource(db, resource.id!, { is_verified: false }, REVERIFY_CHANGE_CONTEXT);
+      return "website_rejected";
+    }
+  }
+  return "verified";
+}
+
+/**
+ * Re-verify stale resources in small batches every few minutes, one at a time, while today's API
+ * budget allows. Returns a stop function.
+ */
+export function startReverificationScheduler(db: Database, deps?: Partial<ReverificationDeps>): () => void {
+  const maxAgeDays = reverifyMaxAgeDays();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (maxAgeDays === 0) {
+    log.info("Re-verification disabled (REVERIFY_AFTER_DAYS=0)");
+    return () => {};
+  }
+
+  const resolved: ReverificationDeps = {
+    checkStatus: deps?.checkStatus ?? checkBusinessStatus,
+    validateWebsite:
+      deps?.validateWebsite !== undefined ? deps.validateWebsite : process.env.JINA_API_KEY ? validateResourceWithJina : null,
+  };
+  const withinBudget = createBudgetGuard(db, "Re-verification");
+
+  const runBatch = async () => {
+    if (!(await withinBudget())) return;
+
+    const stale = await selectStaleResources(db, maxAgeDays, BATCH_SIZE);
+    if (stale.length === 0) return;
+
+    // Mark the batch first so a failing resource waits a day instead of blocking the queue
+    await db`
+      UPDATE resources
+      SET last_reverification_attempt = CURRENT_TIMESTAMP
+      WHERE id = ANY(${stale.map((r) => r.id!)})
+    `;
+    log.info("Re-verifying stale resources", { count: stale.length, max_age_days: maxAgeDays });
+
+    for (const resource of stale) {
+      if (stopped) break;
+      const context = {
+        correlation_id: `reverify:${resource.id}`,
+        resource_id: resource.id,
+        county_geoid: resource.county_geoid,
+      };
+      const outcome = await withCallContext(context, () => reverifyResource(db, resource, resolved)).catch((error) => {
+        log.error("Error re-verifying resource", { name: resource.name, resource_id: resource.id, error });
+        return "error" as const;
+      });
+      reverificationOutcomes.inc({ outcome });
+      log.info("Re-verified", { name: resource.name, outcome });
+    }
+  };
+
+  const loop = async () => {
+    try {
+      await runBatch();
+    } catch (error) {
+      log.error("Error in re-verification loop", { error });
+    }
+    if (!stopped) timer = setTimeout(loop, POLL_INTERVAL_MS);
+  };
+  loop();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,78 @@
+// ABOUTME: Tests for the re-verification scheduler's configuration and business-status outcomes
+// ABOUTME: Covers how closures and reopenings feed back into exportable and is_verified
+
+import { test, expect, describe } from "bun:test";
+import type { FoodResource } from "../core/database";
+import { businessStatusUpdates, reverifyMaxAgeDays } from "./reverification";
+
+const now = "2026-03-01T12:00:00.000Z";
+
+function resource(fields: Partial<FoodResource> = {}): FoodResource {
+  return {
+    id: 7,
+    name: "Hope Food Pantry",
+    address: "1 Main St",
+    type: "pantry",
+    is_verified: true,
+    exportable: true,
+    google_place_id: "ChIJhope",
+    ...fields,
+  };
+}
+
+describe("reverifyMaxAgeDays", () => {
+  test("defaults to 90 days and accepts 0 to disable", () => {
+    expect(reverifyMaxAgeDays(undefined)).toBe(90);
+    expect(reverifyMaxAgeDays("30")).toBe(30);
+    expect(reverifyMaxAgeDays("0")).toBe(0);
+  });
+
+  test("rejects values that aren't whole days", () => {
+    expect(() => reverifyMaxAgeDays("1.5")).toThrow("REVERIFY_AFTER_DAYS");
+    expect(() => reverifyMaxAgeDays("-3")).toThrow("REVERIFY_AFTER_DAYS");
+    expect(() => reverifyMaxAgeDays("monthly")).toThrow("REVERIFY_AFTER_DAYS");
+  });
+});
+
+describe("businessStatusUpdates", () => {
+  test("a permanent closure takes the resource out of the export and unverifies it", () => {
+    expect(businessStatusUpdates(resource(), "CLOSED_PERMANENTLY", now)).toEqual({
+      exportable: false,
+      is_verified: false,
+      enrichment_failure_reason: "Permanently closed",
+      verification_notes: "Re-verified 2026-03-01: permanently closed per Google Places",
+      last_verified_at: now,
+    });
+  });
+
+  test("a temporary closure pulls the resource from the export until it reopens", () => {
+    const closed = businessStatusUpdates(resource(), "CLOSED_TEMPORARILY", now);
+    expect(closed).toMatchObject({ exportable: false, enrichment_failure_reason: "Temporarily closed" });
+    expect(closed.is_verified).toBeUndefined();
+
+    const reopened = resource({ exportable: false, enrichment_failure_reason: "Temporarily closed" });
+    expect(businessStatusUpdates(reopened, "OPERATIONAL", now)).toEqual({
+      is_verified: true,
+      last_verified_at: now,
+      exportable: true,
+      enrichment_failure_reason: null,
+    });
+  });
+
+  test("an operating place is verified without touching a curator's exportable choice", () => {
+    expect(businessStatusUpdates(resource({ exportable: false }), "OPERATIONAL", now)).toEqual({
+      is_verified: true,
+      last_verified_at: now,
+    });
+  });
+
+  test("a place ID Google no longer knows sends the resource back through enrichment", () => {
+    expect(businessStatusUpdates(resource(), "NOT_FOUND", now)).toEqual({
+      is_verified: false,
+      google_place_id: null,
+      needs_enrichment: true,
+      enrichment_failure_count: 0,
+      enrichment_failure_reason: null,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// ABOUTME: Decides which resources are due for re-verification and what a fresh Google business status means
+// ABOUTME: REVERIFY_AFTER_DAYS sets when a verification goes stale; the worker in reverification-worker.ts does the checks
+
+import type { Database, FoodResource } from "../core/database";
+import type { BusinessStatus } from "../enrichment/google-places";
+import type { ResourceUpdate } from "../core/resource-changes";
+
+const DEFAULT_MAX_AGE_DAYS = 90;
+
+/**
+ * Days after which a verification counts as stale (REVERIFY_AFTER_DAYS, default 90). 0 turns the scheduler off.
+ */
+export function reverifyMaxAgeDays(value: string | undefined = process.env.REVERIFY_AFTER_DAYS): number {
+  if (value === undefined || value === "") return DEFAULT_MAX_AGE_DAYS;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error("REVERIFY_AFTER_DAYS must be a whole number of days (0 disables re-verification)");
+  }
+  return days;
+}
+
+/**
+ * What a fresh Google business status means for a resource. Closures take the resource out of the
+ * export; an operating place is verified again and, if only a temporary closure had pulled it,
+ * goes back into the export.
+ */
+export function businessStatusUpdates(resource: FoodResource, status: BusinessStatus, now: string): ResourceUpdate {
+  const checked = new Date(now).toISOString().slice(0, 10);
+  switch (status) {
+    case "CLOSED_PERMANENTLY":
+      return {
+        exportable: false,
+        is_verified: false,
+        enrichment_failure_reason: "Permanently closed",
+        verification_notes: `Re-verified ${checked}: permanently closed per Google Places`,
+        last_verified_at: now,
+      };
+    case "CLOSED_TEMPORARILY":
+      return {
+        exportable: false,
+        enrichment_failure_reason: "Temporarily closed",
+        verification_notes: `Re-verified ${checked}: temporarily closed per Google Places`,
+        last_verified_at: now,
+      };
+    case "NOT_FOUND":
+      // The place ID is gone; match the resource again from scratch
+      return {
+        is_verified: false,
+        google_place_id: null,
+        needs_enrichment: true,
+        enrichment_failure_count: 0,
+        enrichment_failure_reason: null,
+      };
+    case "OPERATIONAL": {
+      const wasTemporarilyClosed = resource.enrichment_failure_reason === "Temporarily closed";
+      return {
+        is_verified: true,
+        last_verified_at: now,
+        ...(wasTemporarilyClosed ? { exportable: true, enrichment_failure_reason: null } : {}),
+      };
+    }
+  }
+}
+
+/**
+ * Stale resources to re-verify next: exportable ones first, then those in the most requested
+ * counties, then the longest unverified. Resources still waiting for enrichment are left to the
+ * enrichment worker, and each resource is tried at most once a day.
+ */
+export async function selectStaleResources(db: Database, maxAgeDays: number, limit: number): Promise<FoodResource[]> {
+  return db<FoodResource[]>`
+    SELECT r.* FROM resources r
+    LEFT JOIN county_searches cs ON cs.county_geoid = r.county_geoid
+    WHERE (r.last_verified_at IS NULL OR r.last_verified_at < NOW() - make_interval(days => ${maxAgeDays}))
+    AND (r.last_reverification_attempt IS NULL OR r.last_reverification_attempt < NOW() - INTERVAL '1 day')
+    AND (r.needs_enrichment = false OR r.needs_enrichment IS NULL)
+    AND (r.enrichment_failure_reason IS NULL OR r.enrichment_failure_reason NOT LIKE '%Permanently closed%')
+    ORDER BY r.exportable DESC NULLS LAST, COALESCE(cs.request_count, 0) DESC, r.last_verified_at ASC NULLS FIRST, r.id
+    LIMIT ${limit}
+  `;
+}
+
+export interface ReverificationStatus {
+  max_age_days: number;
+  stale: number;
+  stale_exportable: number;
+  attempted_last_day: number;
+  oldest_verified_at: string | null;
+}
+
+/**
+ * How far behind re-verification is, for /status/reverification
+ */
+export async function getReverificationStatus(
+  db: Database,
+  maxAgeDays: number = reverifyMaxAgeDays()
+): Promise<ReverificationStatus> {
+  const [row] = await db<Array<Omit<ReverificationStatus, "max_age_days">>>`
+    SELECT
+      COUNT(*) FILTER (WHERE last_verified_at IS NULL OR last_verified_at < NOW() - make_interval(days => ${maxAgeDays}))::int AS stale,
+      COUNT(*) FILTER (
+        WHERE exportable = true
+        AND (last_verified_at IS NULL OR last_verified_at < NOW() - make_interval(days => ${maxAgeDays}))
+      )::int AS stale_exportable,
+      COUNT(*) FILTER (WHERE last_reverification_attempt >= NOW() - INTERVAL '1 day')::int AS attempted_last_day,
+      MIN(last_verified_at) AS oldest_verified_at
+    FROM resources
+  `;
+  return {
+    max_age_days: maxAgeDays,
+    stale: row?.stale ?? 0,
+    stale_exportable: row?.stale_exportable ?? 0,
+    attempted_last_day: row?.attempted_last_day ?? 0,
+    oldest_verified_at: row?.oldest_verified_at ?? null,
+  };
+}
@@ -2,12 +2,17 @@
 // ABOUTME: Fetches website content, extracts structured data, and updates database directly
 
 import { initDatabase, type FoodResource, type Database } from "../core/database";
+import { updateResource, type ChangeContext } from "../core/resource-changes";
+import { parseAddress } from "../utils/address";
+import { fixtureFetch } from "../utils/api-fixtures";
 import OpenAI from "openai";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+const JINA_CHANGE_CONTEXT: ChangeContext = { source: "jina", changedBy: "validate-with-jina" };
+
 // Concurrency control
 const MAX_CONCURRENT_VALIDATIONS = 100; 
 
@@ -72,7 +77,8 @@ async function searchForDedicatedUrl(
   resource: FoodResource
 ): Promise<string | null> {
   try {
-    const query = `${resource.name} ${resource.street_address} ${resource.city} ${resource.state}`;
+    const address = parseAddress(resource.address, resource);
+    const query = [resource.name, address.street_line1, address.city, address.state].filter(Boolean).join(" ");
     console.log(`  - Searching for dedicated URL: ${query}`);
 
     const url = new URL("https://s.jina.ai/");
@@ -89,7 +95,7 @@ async function searchForDedicatedUrl(
       headers["Authorization"] = `Bearer ${process.env.JINA_API_KEY}`;
     }
 
-    const response = await fetch(url.toString(), { headers });
+    const response = await fixtureFetch(url.toString(), { headers });
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unable to read error');
@@ -196,7 +202,7 @@ async function fetchWithJina(url: string): Promise<JinaResponse> {
       headers['Authorization'] = `Bearer ${process.env.JINA_API_KEY}`;
     }
 
-    const response = await fetch(jinaUrl, { headers });
+    const response = await fixtureFetch(jinaUrl, { headers });
 
     if (!response.ok) {
       return { success: false, error: `HTTP ${response.status}` };
@@ -311,8 +317,6 @@ async function fetchMultiPageContent(url: string): Promise<JinaResponse & { page
 
     if (selectedLinks.length > 0) {
       for (const link of selectedLinks) {
-        await new Promise(resolve => setTimeout(resolve, 3500));
-
         const subResult = await fetchWithJina(link);
 
         if (subResult.success && subResult.text) {
@@ -470,13 +474,12 @@ async function updateResourceFromWebsite(
   // If not a food resource, mark as unexportable
   if (!extractedData.is_food_resource) {
     const notes = `Not a food resource: ${extractedData.reasoning}`;
-    await db`
-      UPDATE resources
-      SET
-        exportable = ${false},
-        verification_notes = ${notes}
-      WHERE id = ${resource.id}
-    `;
+    await updateResource(
+      db,
+      resource.id!,
+      { exportable: false, verification_notes: notes },
+      JINA_CHANGE_CONTEXT
+    );
     return {
       resource_id: resource.id!,
       resource_name: resource.name,
@@ -507,17 +510,19 @@ async function updateResourceFromWebsite(
 
   // If we have changes, update the database
   if (changes.length > 0) {
-    await db`
-      UPDATE resources
-      SET
-        hours = ${extractedData.hours || resource.hours},
-        phone = ${extractedData.phone || resource.phone},
-        services_offered = ${extractedData.services || resource.services_offered},
-        eligibility_requirements = ${extractedData.eligibility || resource.eligibility_requirements},
-        verification_notes = ${`Validated via Jina on ${new Date().toISOString()}: ${extractedData.reasoning}`},
-        last_verified_at = CURRENT_TIMESTAMP
-      WHERE id = ${resource.id}
-    `;
+    await updateResource(
+      db,
+      resource.id!,
+      {
+        hours: extractedData.hours || resource.hours,
+        phone: extractedData.phone || resource.phone,
+        services_offered: extractedData.services || resource.services_offered,
+        eligibility_requirements: extractedData.eligibility || resource.eligibility_requirements,
+        verification_notes: `Validated via Jina on ${new Date().toISOString()}: ${extractedData.reasoning}`,
+        last_verified_at: new Date().toISOString(),
+      },
+      JINA_CHANGE_CONTEXT
+    );
 
     return {
       resource_id: resource.id!,
@@ -555,13 +560,12 @@ async function validateResource(db: Database, resource: FoodResource): Promise<U
       console.log(`  - Fetch FAILED: ${webResult.error}`);
       // Mark as unexportable if website is down/broken
       const notes = `Website failed to load: ${webResult.error}`;
-      await db`
-        UPDATE resources
-        SET
-          exportable = ${false},
-          verification_notes = ${notes}
-        WHERE id = ${resource.id}
-      `;
+      await updateResource(
+        db,
+        resource.id!,
+        { exportable: false, verification_notes: notes },
+        JINA_CHANGE_CONTEXT
+      );
       return {
         resource_id: resource.id!,
         resource_name: resource.name,
@@ -584,7 +588,8 @@ async function validateResource(db: Database, resource: FoodResource): Promise<U
       console.log(`  - Directory listing detected, searching for dedicated URL...`);
 
       // Check cache first to avoid duplicate searches for resources at the same address
-      const cacheKey = `${resource.street_address}|${resource.city}|${resource.state}`.toLowerCase();
+      const address = parseAddress(resource.address, resource);
+      const cacheKey = [address.street_line1, address.street_line2, address.city, address.state].join("|").toLowerCase();
       if (dedicatedUrlCache.has(cacheKey)) {
         betterUrl = dedicatedUrlCache.get(cacheKey)!;
         if (betterUrl) {
@@ -614,11 +619,7 @@ async function validateResource(db: Database, resource: FoodResource): Promise<U
             console.log(`  - Using dedicated page data`);
             extractedData = dedicatedData;
             // Update source_url in the database
-            await db`
-              UPDATE resources
-              SET source_url = ${betterUrl}
-              WHERE id = ${resource.id}
-            `;
+            await updateResource(db, resource.id!, { source_url: betterUrl }, JINA_CHANGE_CONTEXT);
           } else {
             console.log(`  - Dedicated page not suitable, falling back to directory extraction`);
             betterUrl = null;
@@ -716,11 +717,6 @@ async function main() {
     actions.push(...batchResults);
 
     console.log(`\n=== Progress: ${completed}/${resources.length} ===\n`);
-
-    // Small delay between batches to avoid overwhelming the API
-    if (i + MAX_CONCURRENT_VALIDATIONS < resources.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
   }
 
   // Print summary